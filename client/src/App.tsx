@@ -22,8 +22,11 @@ import CashReconciliation from "@/pages/CashReconciliation";
 import ExpenseManagement from "@/pages/ExpenseManagement";
 import SupplierManagement from "@/pages/SupplierManagement";
 import PriceManagement from "@/pages/PriceManagement";
+import Promotions from "@/pages/Promotions";
 import InvoiceReceipt from "@/pages/InvoiceReceipt";
 import TankMonitoring from "@/pages/TankMonitoring";
+import WetStockReconciliation from "@/pages/WetStockReconciliation";
+import StockAdjustments from "@/pages/StockAdjustments";
 import DailyReports from "@/pages/DailyReports";
 import AgingReports from "@/pages/AgingReports";
 import Settings from "@/pages/Settings";
@@ -36,6 +39,7 @@ import ApprovalPending from "@/pages/ApprovalPending";
 import LoginPage from "@/pages/LoginPage";
 import SignupPage from "@/pages/SignupPage";
 import PrintView from "@/pages/PrintView";
+import VerifyReceipt from "@/pages/VerifyReceipt";
 
 // Global theme initialization
 function ThemeBootstrap() {
@@ -68,11 +72,14 @@ function Router() {
       <Route path="/expenses" component={ExpenseManagement} />
       <Route path="/suppliers" component={SupplierManagement} />
       <Route path="/pricing" component={PriceManagement} />
+      <Route path="/promotions" component={Promotions} />
       <Route path="/financial-reports" component={FinancialReports} />
       <Route path="/invoice/:id" component={InvoiceReceipt} />
       <Route path="/purchase-invoice/:id" component={PurchaseInvoice} />
       <Route path="/payment-history/:id/:type" component={PaymentHistory} />
       <Route path="/tanks" component={TankMonitoring} />
+      <Route path="/wet-stock" component={WetStockReconciliation} />
+      <Route path="/stock-adjustments" component={StockAdjustments} />
       <Route path="/pumps" component={PumpManagement} />
       <Route path="/daily-reports" component={DailyReports} />
       <Route path="/aging-reports" component={AgingReports} />
@@ -82,6 +89,7 @@ function Router() {
       <Route path="/print" component={PrintView} />
       <Route path="/login" component={LoginPage} />
       <Route path="/signup" component={SignupPage} />
+      <Route path="/verify/:token" component={VerifyReceipt} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -19,7 +19,7 @@ export default function AuthGuard({ children }: AuthGuardProps) {
   const [location] = useLocation();
 
   // Check if current route is public (doesn't require authentication)
-  const isPublicRoute = ['/login', '/signup', '/approval-pending'].includes(location);
+  const isPublicRoute = ['/login', '/signup', '/approval-pending'].includes(location) || location.startsWith('/verify/');
 
   // Show loading state while checking authentication
   if (isLoading) {
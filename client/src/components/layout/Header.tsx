@@ -13,9 +13,12 @@ const pageTitles: Record<string, string> = {
   "/expenses": "Expense Management",
   "/suppliers": "Supplier Management",
   "/pricing": "Price Management",
+  "/promotions": "Promotions & Discounts",
   "/financial-reports": "Financial Reports",
   "/pumps": "Pump Management",
   "/tanks": "Tank Monitoring",
+  "/wet-stock": "Wet-Stock Reconciliation",
+  "/stock-adjustments": "Stock Adjustments",
 };
 
 export default function Header() {
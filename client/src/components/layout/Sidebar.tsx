@@ -16,12 +16,14 @@ import {
   Users, 
   Building2, 
   Tag, 
+  Percent,
   Calendar, 
   Clock, 
   Settings, 
   LogOut,
   Menu,
   Shield,
+  Droplets,
   X
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -67,6 +69,8 @@ const navigationItems = [
     items: [
       { name: "Stock Management", path: "/stock", icon: Package },
       { name: "Tank Monitoring", path: "/tanks", icon: Fuel },
+      { name: "Wet-Stock Reconciliation", path: "/wet-stock", icon: Droplets },
+      { name: "Stock Adjustments", path: "/stock-adjustments", icon: ClipboardList },
       { name: "Pump Management", path: "/pumps", icon: Fuel },
       { name: "Purchase Orders", path: "/purchase-orders", icon: Package },
     ]
@@ -86,6 +90,7 @@ const navigationItems = [
       { name: "Customer Accounts", path: "/customers", icon: Users },
       { name: "Supplier Management", path: "/suppliers", icon: Building2 },
       { name: "Price Management", path: "/pricing", icon: Tag },
+      { name: "Promotions", path: "/promotions", icon: Percent },
     ]
   },
   {
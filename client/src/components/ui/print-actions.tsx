@@ -15,7 +15,7 @@ import {
   Image, 
   ChevronDown 
 } from "lucide-react";
-import { generatePrintTemplate, globalPrintDocument, downloadAsPDF, downloadAsPNG } from "@/lib/printUtils";
+import { generatePrintTemplate, globalPrintDocument, downloadAsPDF, downloadAsPNG, withVerificationQr } from "@/lib/printUtils";
 
 type PrintType = 'invoice' | 'receipt' | 'statement' | 'expense' | 'purchaseOrder' | 'pumpReading';
 type PrintFormat = 'pdf' | 'png';
@@ -92,7 +92,7 @@ export function PrintActions({
         throw new Error('Failed to fetch document data');
       }
       
-      const data = await response.json();
+      const data = await withVerificationQr(await response.json());
       const template = generatePrintTemplate(data, type);
       
       // Use global print function
@@ -123,7 +123,7 @@ export function PrintActions({
         throw new Error('Failed to fetch document data');
       }
       
-      const data = await response.json();
+      const data = await withVerificationQr(await response.json());
       const template = generatePrintTemplate(data, type);
       
       if (format === 'pdf') {
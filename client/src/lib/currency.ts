@@ -4,49 +4,57 @@ export const CURRENCY_CONFIG = {
     symbol: '₨', 
     name: 'Pakistani Rupee', 
     locale: 'en-PK',
-    code: 'PKR'
+    code: 'PKR',
+    saleRounding: { amountStep: 1 }
   },
   INR: { 
     symbol: '₹', 
     name: 'Indian Rupee', 
     locale: 'en-IN',
-    code: 'INR'
+    code: 'INR',
+    saleRounding: { amountStep: 1 }
   },
   USD: { 
     symbol: '$', 
     name: 'US Dollar', 
     locale: 'en-US',
-    code: 'USD'
+    code: 'USD',
+    saleRounding: { amountStep: 0.01 }
   },
   EUR: { 
     symbol: '€', 
     name: 'Euro', 
     locale: 'de-DE',
-    code: 'EUR'
+    code: 'EUR',
+    saleRounding: { amountStep: 0.01 }
   },
   GBP: { 
     symbol: '£', 
     name: 'British Pound', 
     locale: 'en-GB',
-    code: 'GBP'
+    code: 'GBP',
+    saleRounding: { amountStep: 0.01 }
   },
   AED: { 
     symbol: 'د.إ', 
     name: 'UAE Dirham', 
     locale: 'ar-AE',
-    code: 'AED'
+    code: 'AED',
+    saleRounding: { amountStep: 0.25 }
   },
   SAR: { 
     symbol: '﷼', 
     name: 'Saudi Riyal', 
     locale: 'ar-SA',
-    code: 'SAR'
+    code: 'SAR',
+    saleRounding: { amountStep: 0.05 }
   },
   CNY: { 
     symbol: '¥', 
     name: 'Chinese Yuan', 
     locale: 'zh-CN',
-    code: 'CNY'
+    code: 'CNY',
+    saleRounding: { amountStep: 0.1 }
   }
 } as const;
 
@@ -107,6 +115,25 @@ export function formatAmountCompact(
   return formatter.format(numAmount);
 }
 
+// Back-calculate litres for a sell-by-amount line. The requested amount is
+// snapped to the currency's smallest practical step, then the quantity is
+// rounded to the nearest 3 decimals.
+export function quantityForAmount(
+  amount: number,
+  unitPrice: number,
+  currencyCode: CurrencyCode = 'PKR'
+): { amount: number; quantity: number } {
+  const { amountStep } = CURRENCY_CONFIG[currencyCode].saleRounding;
+  const roundedAmount = Math.round(Math.round(amount / amountStep) * amountStep * 100) / 100;
+
+  if (!(unitPrice > 0) || !(roundedAmount > 0)) {
+    return { amount: roundedAmount, quantity: 0 };
+  }
+
+  const quantity = Math.round((roundedAmount / unitPrice) * 1000) / 1000;
+  return { amount: roundedAmount, quantity };
+}
+
 // Parse currency string back to number (removing symbols and formatting)
 export function parseCurrencyString(currencyString: string): number {
   // Remove all non-numeric characters except decimal point and minus sign
@@ -1,3 +1,5 @@
+import QRCode from "qrcode";
+
 export interface PrintTemplate {
   title: string;
   content: string;
@@ -81,6 +83,18 @@ export const globalPrintDocument = (template: PrintTemplate | string, filename?:
   }
 };
 
+// Public page a customer reaches by scanning the receipt QR code
+export const receiptVerificationUrl = (token: string) => `${window.location.origin}/verify/${token}`;
+
+export const verificationQrDataUrl = (token: string) =>
+  QRCode.toDataURL(receiptVerificationUrl(token), { margin: 1, width: 128 });
+
+// Adds the verification QR image to a sale before printing; voided sales get none
+export const withVerificationQr = async (data: any) => {
+  if (!data?.verificationToken || data.verificationRevokedAt) return data;
+  return { ...data, verificationQr: await verificationQrDataUrl(data.verificationToken) };
+};
+
 export const generatePrintTemplate = (data: any, type: 'invoice' | 'receipt' | 'statement' | 'expense' | 'purchaseOrder' | 'pumpReading'): PrintTemplate => {
   const today = new Date().toLocaleDateString();
 
@@ -144,6 +158,12 @@ export const generatePrintTemplate = (data: any, type: 'invoice' | 'receipt' | '
               </div>` : ''}
             </div>
 
+            ${data.verificationQr ? `
+            <div style="text-align: center; margin-top: 30px;">
+              <img src="${data.verificationQr}" alt="Verification QR code" style="width: 110px; height: 110px;" />
+              <p style="font-size: 11px; color: #666; margin: 4px 0 0;">Scan to verify this invoice</p>
+            </div>` : ''}
+
             <div style="text-align: center; margin-top: 40px; color: #666; font-size: 12px;">
               <p>Thank you for your business!</p>
               <p>Generated on ${today}</p>
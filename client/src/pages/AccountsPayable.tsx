@@ -1,8 +1,8 @@
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import type { Supplier, Payment } from "@shared/schema";
+import type { Supplier, Payment, PurchaseOrder, PurchaseOrderItem, Product, Settings, SupplierInvoice, SupplierInvoiceItem } from "@shared/schema";
 import { insertPaymentSchema } from "@shared/schema";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -13,12 +13,13 @@ import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useCurrency } from "@/contexts/CurrencyContext";
 import { apiRequest } from "@/lib/api";
 import { Combobox } from "@/components/ui/combobox";
-import { Calendar, Eye, CreditCard, FileText, History } from "lucide-react";
+import { Calendar, Eye, CreditCard, FileText, History, Plus, ShieldCheck } from "lucide-react";
 import { useLocation } from "wouter";
 
 export default function AccountsPayable() {
@@ -611,6 +612,459 @@ export default function AccountsPayable() {
           </div>
         </CardContent>
       </Card>
+
+      {user?.stationId && <SupplierInvoicesCard stationId={user.stationId} canReview={user.role === 'admin' || user.role === 'manager'} />}
+      {user?.stationId && (user.role === 'admin' || user.role === 'manager') && <MatchToleranceCard stationId={user.stationId} />}
     </div>
   );
 }
+
+type SupplierInvoiceWithItems = SupplierInvoice & {
+  supplierName: string | null;
+  orderNumber: string | null;
+  items: Array<SupplierInvoiceItem & { productName: string | null }>;
+};
+
+const INVOICE_STATUS_STYLES: Record<SupplierInvoice['status'], string> = {
+  matched: 'bg-green-100 text-green-800',
+  approved: 'bg-blue-100 text-blue-800',
+  blocked: 'bg-red-100 text-red-800',
+  rejected: 'bg-gray-100 text-gray-800',
+};
+
+// Supplier bills matched against their purchase order and goods received
+function SupplierInvoicesCard({ stationId, canReview }: { stationId: string; canReview: boolean }) {
+  const { formatCurrency } = useCurrency();
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [captureOpen, setCaptureOpen] = useState(false);
+  const [invoiceToReview, setInvoiceToReview] = useState<SupplierInvoiceWithItems | null>(null);
+
+  const { data: invoices = [] } = useQuery<SupplierInvoiceWithItems[]>({
+    queryKey: ["/api/supplier-invoices", stationId],
+  });
+
+  const filteredInvoices = invoices.filter((invoice) => statusFilter === "all" || invoice.status === statusFilter);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <CardTitle>Supplier Invoices</CardTitle>
+          <div className="flex flex-col sm:flex-row items-stretch sm:items-center space-y-2 sm:space-y-0 sm:space-x-2 w-full sm:w-auto">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-full sm:w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Status</SelectItem>
+                <SelectItem value="matched">Matched</SelectItem>
+                <SelectItem value="blocked">Blocked</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+              </SelectContent>
+            </Select>
+            {canReview && (
+              <Button onClick={() => setCaptureOpen(true)} data-testid="button-capture-invoice">
+                <Plus className="w-4 h-4 mr-2" />
+                Capture Invoice
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-muted">
+              <tr>
+                <th className="text-left p-3 font-medium">Invoice</th>
+                <th className="text-left p-3 font-medium">Supplier</th>
+                <th className="text-left p-3 font-medium">PO</th>
+                <th className="text-center p-3 font-medium">Date</th>
+                <th className="text-right p-3 font-medium">Amount</th>
+                <th className="text-center p-3 font-medium">Status</th>
+                <th className="text-center p-3 font-medium">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredInvoices.length > 0 ? filteredInvoices.map((invoice) => {
+                const exceptions = invoice.items.flatMap((item) =>
+                  item.matchExceptions.map((exception) => `${item.productName || 'Item'}: ${exception}`)
+                );
+                return (
+                  <tr key={invoice.id} className="border-b border-border hover:bg-muted/50 align-top">
+                    <td className="p-3 font-medium">{invoice.invoiceNumber}</td>
+                    <td className="p-3">{invoice.supplierName || 'Unknown Supplier'}</td>
+                    <td className="p-3">{invoice.orderNumber}</td>
+                    <td className="p-3 text-center text-sm">{new Date(invoice.invoiceDate).toLocaleDateString('en-GB')}</td>
+                    <td className="p-3 text-right font-semibold">{formatCurrency(parseFloat(invoice.totalAmount))}</td>
+                    <td className="p-3 text-center">
+                      <Badge className={INVOICE_STATUS_STYLES[invoice.status]}>{invoice.status}</Badge>
+                      {exceptions.length > 0 && (
+                        <ul className="text-xs text-left text-muted-foreground mt-2 space-y-1">
+                          {exceptions.map((exception, index) => <li key={index}>{exception}</li>)}
+                        </ul>
+                      )}
+                      {invoice.reviewNotes && (
+                        <p className="text-xs text-left text-muted-foreground mt-1 italic">{invoice.reviewNotes}</p>
+                      )}
+                    </td>
+                    <td className="p-3 text-center">
+                      {canReview && invoice.status === 'blocked' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setInvoiceToReview(invoice)}
+                          data-testid={`button-review-invoice-${invoice.id}`}
+                        >
+                          <ShieldCheck className="w-4 h-4 mr-1" />
+                          Review
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              }) : (
+                <tr>
+                  <td colSpan={7} className="p-8 text-center text-muted-foreground">
+                    No supplier invoices captured
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+
+      {captureOpen && <CaptureInvoiceDialog stationId={stationId} onClose={() => setCaptureOpen(false)} />}
+      {invoiceToReview && <ReviewInvoiceDialog stationId={stationId} invoice={invoiceToReview} onClose={() => setInvoiceToReview(null)} />}
+    </Card>
+  );
+}
+
+type InvoiceLine = { quantity: string; unitPrice: string };
+
+function CaptureInvoiceDialog({ stationId, onClose }: { stationId: string; onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { formatCurrency } = useCurrency();
+  const [orderId, setOrderId] = useState("");
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [invoiceDate, setInvoiceDate] = useState(new Date().toISOString().split('T')[0]);
+  const [dueDate, setDueDate] = useState("");
+  const [taxAmount, setTaxAmount] = useState("0");
+  const [lines, setLines] = useState<Record<string, InvoiceLine>>({});
+
+  const { data: orders = [] } = useQuery<PurchaseOrder[]>({
+    queryKey: ["/api/purchase-orders", stationId],
+  });
+
+  const { data: order } = useQuery<PurchaseOrder & { items: Array<PurchaseOrderItem & { product?: Product }> }>({
+    queryKey: ["/api/purchase-orders/detail", orderId],
+    enabled: !!orderId,
+  });
+
+  // Default each line to what was received at the PO price
+  useEffect(() => {
+    if (!order) return;
+    setLines(Object.fromEntries(order.items.map((item) => [item.id, {
+      quantity: item.receivedQuantity || "0",
+      unitPrice: item.unitPrice,
+    }])));
+  }, [order]);
+
+  const invoicedLines = (order?.items ?? [])
+    .map((item) => ({
+      orderItemId: item.id,
+      quantity: parseFloat(lines[item.id]?.quantity || '0'),
+      unitPrice: parseFloat(lines[item.id]?.unitPrice || '0'),
+    }))
+    .filter((line) => line.quantity > 0);
+  const subtotal = invoicedLines.reduce((total, line) => total + line.quantity * line.unitPrice, 0);
+
+  const captureMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/supplier-invoices", {
+        orderId,
+        invoiceNumber,
+        invoiceDate,
+        dueDate: dueDate || undefined,
+        taxAmount: taxAmount || 0,
+        items: invoicedLines,
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: result.invoice.status === 'matched' ? "Invoice matched" : "Invoice blocked for payment",
+        description: result.invoice.status === 'matched'
+          ? `Invoice ${result.invoice.invoiceNumber} has been added to payables`
+          : "The invoice does not match the order and goods received; a manager must review it",
+        variant: result.invoice.status === 'matched' ? "default" : "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/supplier-invoices", stationId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to capture invoice", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Capture Supplier Invoice</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label>Purchase Order *</Label>
+              <Select value={orderId} onValueChange={setOrderId}>
+                <SelectTrigger data-testid="select-invoice-order">
+                  <SelectValue placeholder="Select purchase order" />
+                </SelectTrigger>
+                <SelectContent>
+                  {orders.filter((o) => o.status !== 'cancelled').map((o) => (
+                    <SelectItem key={o.id} value={o.id}>{o.orderNumber} ({o.status?.replace('_', ' ')})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Supplier Invoice Number *</Label>
+              <Input value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} data-testid="input-invoice-number" />
+            </div>
+            <div>
+              <Label>Invoice Date *</Label>
+              <Input type="date" value={invoiceDate} onChange={(e) => setInvoiceDate(e.target.value)} data-testid="input-invoice-date" />
+            </div>
+            <div>
+              <Label>Due Date</Label>
+              <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} data-testid="input-invoice-due-date" />
+            </div>
+          </div>
+
+          {order && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted">
+                  <tr>
+                    <th className="text-left p-2 font-medium">Product</th>
+                    <th className="text-right p-2 font-medium">Ordered</th>
+                    <th className="text-right p-2 font-medium">Received</th>
+                    <th className="text-right p-2 font-medium">PO Price</th>
+                    <th className="text-right p-2 font-medium">Invoiced Qty</th>
+                    <th className="text-right p-2 font-medium">Invoiced Price</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {order.items.map((item) => (
+                    <tr key={item.id} className="border-b border-border">
+                      <td className="p-2">{item.product?.name || 'Unknown Product'}</td>
+                      <td className="p-2 text-right">{parseFloat(item.quantity).toFixed(3)}</td>
+                      <td className="p-2 text-right">{parseFloat(item.receivedQuantity || '0').toFixed(3)}</td>
+                      <td className="p-2 text-right">{formatCurrency(parseFloat(item.unitPrice))}</td>
+                      <td className="p-2 w-28">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.001"
+                          value={lines[item.id]?.quantity ?? ""}
+                          onChange={(e) => setLines((current) => ({ ...current, [item.id]: { ...current[item.id], quantity: e.target.value } }))}
+                          data-testid={`input-invoice-quantity-${item.id}`}
+                        />
+                      </td>
+                      <td className="p-2 w-28">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={lines[item.id]?.unitPrice ?? ""}
+                          onChange={(e) => setLines((current) => ({ ...current, [item.id]: { ...current[item.id], unitPrice: e.target.value } }))}
+                          data-testid={`input-invoice-price-${item.id}`}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
+            <div>
+              <Label>Tax Amount</Label>
+              <Input type="number" min="0" step="0.01" value={taxAmount} onChange={(e) => setTaxAmount(e.target.value)} data-testid="input-invoice-tax" />
+            </div>
+            <div className="text-right space-y-1">
+              <div className="text-sm text-muted-foreground">Subtotal: {formatCurrency(subtotal)}</div>
+              <div className="font-semibold">Total: {formatCurrency(subtotal + parseFloat(taxAmount || '0'))}</div>
+            </div>
+          </div>
+        </div>
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => captureMutation.mutate()}
+            disabled={!orderId || !invoiceNumber.trim() || invoicedLines.length === 0 || captureMutation.isPending}
+            data-testid="button-save-invoice"
+          >
+            {captureMutation.isPending ? "Matching..." : "Capture Invoice"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// A blocked invoice is either approved into payables despite the mismatch, or rejected
+function ReviewInvoiceDialog({ stationId, invoice, onClose }: { stationId: string; invoice: SupplierInvoiceWithItems; onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { formatCurrency } = useCurrency();
+  const [notes, setNotes] = useState("");
+
+  const reviewMutation = useMutation({
+    mutationFn: async (decision: 'approved' | 'rejected') => {
+      const response = await apiRequest("POST", `/api/supplier-invoices/${invoice.id}/review`, { decision, notes });
+      return response.json();
+    },
+    onSuccess: (updated: SupplierInvoice) => {
+      toast({ title: updated.status === 'approved' ? "Invoice approved for payment" : "Invoice rejected" });
+      queryClient.invalidateQueries({ queryKey: ["/api/supplier-invoices", stationId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to review invoice", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle>Review Invoice {invoice.invoiceNumber}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="text-sm">
+            {invoice.supplierName} - {formatCurrency(parseFloat(invoice.totalAmount))} against {invoice.orderNumber}
+          </div>
+          <ul className="text-sm text-red-600 list-disc pl-5 space-y-1">
+            {invoice.items.flatMap((item) => item.matchExceptions.map((exception, index) => (
+              <li key={`${item.id}-${index}`}>{item.productName || 'Item'}: {exception}</li>
+            )))}
+          </ul>
+          <div>
+            <Label>Reason *</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Why is this invoice being approved or rejected?" data-testid="input-review-notes" />
+          </div>
+        </div>
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button
+            variant="outline"
+            onClick={() => reviewMutation.mutate('rejected')}
+            disabled={!notes.trim() || reviewMutation.isPending}
+            data-testid="button-reject-invoice"
+          >
+            Reject
+          </Button>
+          <Button
+            onClick={() => reviewMutation.mutate('approved')}
+            disabled={!notes.trim() || reviewMutation.isPending}
+            data-testid="button-approve-invoice"
+          >
+            Approve for Payment
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MatchToleranceCard({ stationId }: { stationId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [quantityTolerance, setQuantityTolerance] = useState("");
+  const [priceTolerance, setPriceTolerance] = useState("");
+
+  const { data: stationSettings } = useQuery<Settings>({
+    queryKey: ["/api/settings", stationId],
+  });
+
+  useEffect(() => {
+    setQuantityTolerance(stationSettings?.invoiceQuantityTolerancePercent ?? "0.5");
+    setPriceTolerance(stationSettings?.invoicePriceTolerancePercent ?? "1");
+  }, [stationSettings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Settings rows are created on first save
+      const method = stationSettings?.id ? "PUT" : "POST";
+      const response = await apiRequest(method, `/api/settings/${stationId}`, {
+        invoiceQuantityTolerancePercent: quantityTolerance,
+        invoicePriceTolerancePercent: priceTolerance,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Match tolerances saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings", stationId] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save tolerances", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="w-5 h-5 mr-2" />
+          Invoice Match Tolerances
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="w-48">
+            <Label>Quantity over received (%)</Label>
+            <Input
+              type="number"
+              min="0"
+              max="100"
+              step="0.1"
+              value={quantityTolerance}
+              onChange={(e) => setQuantityTolerance(e.target.value)}
+              data-testid="input-quantity-tolerance"
+            />
+          </div>
+          <div className="w-48">
+            <Label>Price over PO (%)</Label>
+            <Input
+              type="number"
+              min="0"
+              max="100"
+              step="0.1"
+              value={priceTolerance}
+              onChange={(e) => setPriceTolerance(e.target.value)}
+              data-testid="input-price-tolerance"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => saveMutation.mutate()}
+            disabled={quantityTolerance === "" || priceTolerance === "" || saveMutation.isPending}
+            data-testid="button-save-tolerances"
+          >
+            Save
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground mt-2">
+          Invoices billing more than this over the goods received or the PO price are blocked for payment until a manager reviews them.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import type { SalesTransaction, Expense } from "@shared/schema";
+import type { Expense } from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,6 +13,13 @@ import { formatCompactNumber } from "@/lib/utils";
 import { RefreshCw, CreditCard, TrendingUp, TrendingDown, Printer } from "lucide-react";
 import { globalPrintDocument } from "@/lib/printUtils";
 
+interface TenderTotal {
+  paymentMethod: string;
+  totalAmount: string;
+  count: number;
+  currencyCode: string;
+}
+
 export default function CashReconciliation() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -60,9 +67,9 @@ export default function CashReconciliation() {
 
   const { startTime, endTime } = getShiftDateRange();
 
-  // Fetch sales data for the selected shift
-  const { data: salesTransactions = [], isLoading: salesLoading } = useQuery<SalesTransaction[]>({
-    queryKey: ["/api/sales", user?.stationId, startTime, endTime],
+  // Fetch sales totals by tender line for the selected shift
+  const { data: tenderTotals = [], isLoading: salesLoading } = useQuery<TenderTotal[]>({
+    queryKey: [`/api/reports/tenders/${user?.stationId}?startDate=${encodeURIComponent(startTime)}&endDate=${encodeURIComponent(endTime)}`],
     enabled: !!user?.stationId,
   });
 
@@ -74,18 +81,16 @@ export default function CashReconciliation() {
 
   const isLoading = salesLoading || expensesLoading;
 
-  // Calculate real cash data based on transactions
-  const cashSales = salesTransactions
-    .filter((t: SalesTransaction) => t.paymentMethod === 'cash')
-    .reduce((sum: number, t: SalesTransaction) => sum + parseFloat(t.totalAmount || '0'), 0);
-
-  const cardSales = salesTransactions
-    .filter((t: SalesTransaction) => ['card', 'credit_card', 'debit_card'].includes(t.paymentMethod || ''))
-    .reduce((sum: number, t: SalesTransaction) => sum + parseFloat(t.totalAmount || '0'), 0);
+  // Split payments are counted under each tender method they used
+  const tenderTotal = (method: string) => tenderTotals
+    .filter((t) => t.paymentMethod === method)
+    .reduce((sum: number, t) => sum + parseFloat(t.totalAmount || '0'), 0);
 
-  const creditSales = salesTransactions
-    .filter((t: SalesTransaction) => t.paymentMethod === 'credit')
-    .reduce((sum: number, t: SalesTransaction) => sum + parseFloat(t.totalAmount || '0'), 0);
+  const cashSales = tenderTotal('cash');
+  const cardSales = tenderTotal('card');
+  const walletSales = tenderTotal('mobile_wallet');
+  const fleetSales = tenderTotal('fleet');
+  const creditSales = tenderTotal('credit');
 
   const totalExpenses = expenses
     .reduce((sum: number, e: Expense) => sum + parseFloat(e.amount || '0'), 0);
@@ -102,6 +107,8 @@ export default function CashReconciliation() {
     difference,
     cashSales,
     cardSales,
+    walletSales,
+    fleetSales,
     creditSales,
     expenses: totalExpenses
   };
@@ -312,6 +319,18 @@ export default function CashReconciliation() {
                   {formatCurrency(cashData.cardSales)}
                 </span>
               </div>
+              <div className="flex justify-between items-center p-3 bg-purple-50 rounded-md">
+                <span className="font-medium">Mobile Wallet Sales</span>
+                <span className="text-lg font-bold text-purple-600" data-testid="wallet-sales">
+                  {formatCurrency(cashData.walletSales)}
+                </span>
+              </div>
+              <div className="flex justify-between items-center p-3 bg-indigo-50 rounded-md">
+                <span className="font-medium">Fleet Sales</span>
+                <span className="text-lg font-bold text-indigo-600" data-testid="fleet-sales">
+                  {formatCurrency(cashData.fleetSales)}
+                </span>
+              </div>
               <div className="flex justify-between items-center p-3 bg-orange-50 rounded-md">
                 <span className="font-medium">Credit Sales</span>
                 <span className="text-lg font-bold text-orange-600" data-testid="credit-sales">
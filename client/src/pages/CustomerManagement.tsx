@@ -3,7 +3,8 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import type { Customer } from "@shared/schema";
+import type { Customer, CustomerPriceAgreement, Product } from "@shared/schema";
+import { AGREEMENT_CUSTOMER_TYPES } from "@shared/pricing";
 import { insertCustomerSchema } from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -16,7 +17,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useCurrency } from "@/contexts/CurrencyContext";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/api";
-import { Eye, Edit, CreditCard, Trash2 } from "lucide-react";
+import { Eye, Edit, CreditCard, Trash2, Tag } from "lucide-react";
 
 import { DeleteConfirmation } from "@/components/ui/delete-confirmation";
 import { PrintActions } from "@/components/ui/print-actions";
@@ -36,6 +37,7 @@ export default function CustomerManagement() {
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [customerToDelete, setCustomerToDelete] = useState<Customer | null>(null);
+  const [pricingCustomer, setPricingCustomer] = useState<Customer | null>(null);
 
   // Helper function for currency formatting
   const formatCurrency = (amount: number): string => {
@@ -583,6 +585,18 @@ export default function CustomerManagement() {
                           >
                             <Edit className="w-4 h-4" />
                           </Button>
+                          {AGREEMENT_CUSTOMER_TYPES.includes(customer.type) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setPricingCustomer(customer)}
+                              className="p-2 text-purple-600 hover:text-purple-800 hover:bg-purple-50"
+                              data-testid={`button-pricing-customer-${index}`}
+                              title="Price Agreements"
+                            >
+                              <Tag className="w-4 h-4" />
+                            </Button>
+                          )}
                           {customer.type === 'credit' && parseFloat(customer.outstandingAmount || '0') > 0 && (
                             <Button
                               variant="outline"
@@ -875,6 +889,191 @@ export default function CustomerManagement() {
           </Form>
         </DialogContent>
       </Dialog>
+
+      {pricingCustomer && (
+        <PriceAgreementsDialog
+          customer={pricingCustomer}
+          canEdit={user?.role === 'admin' || user?.role === 'manager'}
+          onClose={() => setPricingCustomer(null)}
+        />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+const AGREEMENT_TYPE_LABELS: Record<CustomerPriceAgreement['type'], string> = {
+  fixed_discount: "Discount per unit",
+  percentage_discount: "Percentage discount",
+  fixed_price: "Fixed price",
+};
+
+const ALL_PRODUCTS = "all";
+
+function PriceAgreementsDialog({ customer, canEdit, onClose }: { customer: Customer; canEdit: boolean; onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { formatCurrency } = useCurrency();
+  const [productId, setProductId] = useState(ALL_PRODUCTS);
+  const [type, setType] = useState<CustomerPriceAgreement['type']>("fixed_discount");
+  const [value, setValue] = useState("");
+  const [validFrom, setValidFrom] = useState(new Date().toISOString().split('T')[0]);
+  const [validTo, setValidTo] = useState("");
+
+  const agreementsKey = ["/api/customers", customer.id, "price-agreements"];
+
+  const { data: agreements = [] } = useQuery<CustomerPriceAgreement[]>({
+    queryKey: agreementsKey,
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const createAgreementMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/customers/${customer.id}/price-agreements`, {
+        productId: productId === ALL_PRODUCTS ? null : productId,
+        type,
+        value,
+        validFrom,
+        // An agreement runs through the whole of its last day
+        validTo: validTo ? `${validTo}T23:59:59` : null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Price agreement added" });
+      queryClient.invalidateQueries({ queryKey: agreementsKey });
+      setValue("");
+      setValidTo("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to add price agreement", variant: "destructive" });
+    },
+  });
+
+  const deleteAgreementMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/price-agreements/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: agreementsKey });
+    },
+  });
+
+  const describeValue = (agreement: CustomerPriceAgreement) => {
+    const amount = parseFloat(agreement.value);
+    switch (agreement.type) {
+      case 'fixed_discount':
+        return `${formatCurrency(amount)} off per unit`;
+      case 'percentage_discount':
+        return `${amount}% off`;
+      case 'fixed_price':
+        return `${formatCurrency(amount)} per unit`;
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Price Agreements - {customer.name}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {agreements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No price agreements. Sales use the standard product price.</p>
+          ) : (
+            <div className="border rounded-lg divide-y">
+              {agreements.map((agreement, index) => {
+                const product = products.find(p => p.id === agreement.productId);
+                const expired = agreement.validTo && new Date(agreement.validTo) < new Date();
+                return (
+                  <div key={agreement.id} className="flex items-center justify-between p-3 text-sm" data-testid={`row-agreement-${index}`}>
+                    <div>
+                      <div className="font-medium">
+                        {product?.name || 'All products'}: {describeValue(agreement)}
+                        {expired && <Badge variant="outline" className="ml-2">Expired</Badge>}
+                      </div>
+                      <div className="text-muted-foreground">
+                        {new Date(agreement.validFrom).toLocaleDateString()}
+                        {' - '}
+                        {agreement.validTo ? new Date(agreement.validTo).toLocaleDateString() : 'Open-ended'}
+                      </div>
+                    </div>
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteAgreementMutation.mutate(agreement.id)}
+                        className="text-red-600 hover:text-red-800 p-1"
+                        title="Delete Agreement"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {canEdit && (
+            <div className="space-y-3 border-t pt-4">
+              <h4 className="font-medium">Add Agreement</h4>
+              <div className="grid grid-cols-2 gap-3">
+                <Select value={productId} onValueChange={setProductId}>
+                  <SelectTrigger data-testid="select-agreement-product">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_PRODUCTS}>All products</SelectItem>
+                    {products.map((product) => (
+                      <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={type} onValueChange={(value) => setType(value as CustomerPriceAgreement['type'])}>
+                  <SelectTrigger data-testid="select-agreement-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(AGREEMENT_TYPE_LABELS) as CustomerPriceAgreement['type'][]).map((agreementType) => (
+                      <SelectItem key={agreementType} value={agreementType}>{AGREEMENT_TYPE_LABELS[agreementType]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder={type === 'percentage_discount' ? "Percent" : "Amount"}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  data-testid="input-agreement-value"
+                />
+                <div />
+                <div>
+                  <label className="text-xs text-muted-foreground">Valid from</label>
+                  <Input type="date" value={validFrom} onChange={(e) => setValidFrom(e.target.value)} data-testid="input-agreement-valid-from" />
+                </div>
+                <div>
+                  <label className="text-xs text-muted-foreground">Valid until (optional)</label>
+                  <Input type="date" value={validTo} onChange={(e) => setValidTo(e.target.value)} data-testid="input-agreement-valid-to" />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => createAgreementMutation.mutate()}
+                  disabled={!value || createAgreementMutation.isPending}
+                  data-testid="button-add-agreement"
+                >
+                  {createAgreementMutation.isPending ? "Saving..." : "Add Agreement"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -21,7 +21,8 @@ import {
   Download,
   RefreshCw,
   PieChart,
-  BarChart3
+  BarChart3,
+  Smartphone
 } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
@@ -43,6 +44,8 @@ interface ExpensesByCategory {
 interface DailyReportData {
   date: string;
   salesByMethod: SalesByMethod[];
+  discounts?: { totalDiscounts: string | null; discountedSales: number };
+  returns?: { totalReturns: string | null; count: number };
   expenses: ExpensesByCategory[];
 }
 
@@ -94,6 +97,8 @@ export default function DailyReports() {
         item.currencyCode,
         item.count.toString()
       ]),
+      ['Returns Credited', totalReturns.toFixed(2)],
+      ['Discounts Given', totalDiscounts.toFixed(2)],
       [''],
       ['Expenses by Category'],
       ['Category', 'Amount', 'Currency'],
@@ -123,6 +128,8 @@ export default function DailyReports() {
         return <Receipt className="w-5 h-5 text-orange-500" />;
       case 'fleet':
         return <DollarSign className="w-5 h-5 text-purple-500" />;
+      case 'mobile_wallet':
+        return <Smartphone className="w-5 h-5 text-indigo-500" />;
       default:
         return <DollarSign className="w-5 h-5 text-gray-500" />;
     }
@@ -136,11 +143,16 @@ export default function DailyReports() {
     (sum, item) => sum + (item.count || 0), 0
   ) || 0;
 
+  const totalDiscounts = parseFloat(dailyReport?.discounts?.totalDiscounts || '0');
+
   const totalExpenses = dailyReport?.expenses.reduce(
     (sum, item) => sum + parseFloat(item.totalAmount || '0'), 0
   ) || 0;
 
-  const netProfit = totalSales - totalExpenses;
+  // Partial returns credited today come off the day's takings
+  const totalReturns = parseFloat(dailyReport?.returns?.totalReturns || '0');
+
+  const netProfit = totalSales - totalReturns - totalExpenses;
 
   if (isLoading) {
     return (
@@ -312,7 +324,7 @@ export default function DailyReports() {
                       <div className="flex items-center gap-2">
                         {getPaymentMethodIcon(sale.paymentMethod)}
                         <span className="font-medium capitalize" data-testid={`payment-method-${index}`}>
-                          {sale.paymentMethod}
+                          {sale.paymentMethod.replace('_', ' ')}
                         </span>
                         <Badge variant="outline" data-testid={`payment-currency-${index}`}>
                           {sale.currencyCode}
@@ -434,6 +446,18 @@ export default function DailyReports() {
                     {formatCurrencyCompact(totalTransactions > 0 ? totalSales / totalTransactions : 0)}
                   </span>
                 </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Returns Credited:</span>
+                  <span className="font-medium text-red-600" data-testid="summary-returns">
+                    {formatCurrencyCompact(totalReturns)} ({dailyReport?.returns?.count || 0} credit notes)
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Discounts Given:</span>
+                  <span className="font-medium text-green-600" data-testid="summary-discounts">
+                    {formatCurrencyCompact(totalDiscounts)} ({dailyReport?.discounts?.discountedSales || 0} sales)
+                  </span>
+                </div>
               </div>
             </div>
 
@@ -1,22 +1,29 @@
 import { useParams } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { useCurrency } from "@/contexts/CurrencyContext";
 import { useStation } from "@/contexts/StationContext";
 import { apiRequest } from "@/lib/api";
 import { formatAmount } from "@/lib/currency";
-import { Printer, Download, ArrowLeft, ChevronDown, FileText, Image } from "lucide-react";
+import { Printer, Download, ArrowLeft, ChevronDown, FileText, Image, Undo2 } from "lucide-react";
 import { Link } from "wouter";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { generatePrintTemplate, globalPrintDocument, downloadAsPDF, downloadAsPNG } from "@/lib/printUtils";
+import { generatePrintTemplate, globalPrintDocument, downloadAsPDF, downloadAsPNG, verificationQrDataUrl } from "@/lib/printUtils";
 import type {
   SalesTransaction,
   SalesTransactionItem,
+  CreditNote,
+  CreditNoteItem,
+  SaleTender,
   Customer,
   Product,
   Station,
@@ -27,9 +34,18 @@ interface TransactionWithDetails extends SalesTransaction {
   customer: Customer;
   user: User;
   station: Station;
-  items: Array<SalesTransactionItem & { product: Product }>;
+  items: Array<SalesTransactionItem & { product: Product; promotionName?: string | null }>;
+  tenders: SaleTender[];
+  creditNotes: Array<CreditNote & { items: CreditNoteItem[] }>;
 }
 
+const SALE_STATUS_LABELS: Record<SalesTransaction['status'], string> = {
+  completed: "COMPLETED",
+  partially_returned: "PARTIALLY RETURNED",
+  returned: "RETURNED",
+  voided: "VOIDED",
+};
+
 // Assuming you have a hook or context to get station settings
 // For demonstration, we'll mock it. Replace with your actual hook/context.
 const useStationSettings = () => {
@@ -50,11 +66,52 @@ export default function InvoiceReceipt() {
   const { user } = useAuth();
   const { stationSettings } = useStation(); // Get station settings
 
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [returnDialogOpen, setReturnDialogOpen] = useState(false);
+  const [returnQuantities, setReturnQuantities] = useState<Record<string, string>>({});
+  const [returnReason, setReturnReason] = useState("");
+  const [verificationQr, setVerificationQr] = useState<string | null>(null);
+
   const { data: transaction, isLoading } = useQuery<TransactionWithDetails>({
     queryKey: ["/api/sales/detail", id!],
     enabled: !!id && !!user?.stationId,
   });
 
+  const returnMutation = useMutation({
+    mutationFn: async (data: { reason: string; items: { transactionItemId: string; quantity: number }[] }) => {
+      const response = await apiRequest("POST", `/api/sales/${id}/returns`, data);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Return recorded",
+        description: `Credit note ${result.creditNote.creditNoteNumber} has been issued`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/sales/detail", id!] });
+      queryClient.invalidateQueries({ queryKey: ["/api/sales", user?.stationId] });
+      setReturnDialogOpen(false);
+      setReturnQuantities({});
+      setReturnReason("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record return",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmitReturn = () => {
+    const items = Object.entries(returnQuantities)
+      .map(([transactionItemId, quantity]) => ({ transactionItemId, quantity: parseFloat(quantity) }))
+      .filter((item) => item.quantity > 0);
+
+    if (items.length === 0 || !returnReason.trim()) return;
+    returnMutation.mutate({ reason: returnReason.trim(), items });
+  };
+
   // Check for print parameter from Sales History
   useEffect(() => {
     const urlParams = new URLSearchParams(window.location.search);
@@ -68,10 +125,22 @@ export default function InvoiceReceipt() {
     }
   }, [isLoading, transaction]);
 
+  // Voided sales keep their token but it no longer verifies, so no QR is shown
+  const verificationRevoked = !!transaction?.verificationRevokedAt || transaction?.status === 'voided';
+  useEffect(() => {
+    if (!transaction?.verificationToken || verificationRevoked) {
+      setVerificationQr(null);
+      return;
+    }
+    verificationQrDataUrl(transaction.verificationToken)
+      .then(setVerificationQr)
+      .catch(() => setVerificationQr(null));
+  }, [transaction?.verificationToken, verificationRevoked]);
+
   const handlePrint = () => {
     if (!transaction) return;
     
-    const template = generatePrintTemplate(transaction, 'invoice');
+    const template = generatePrintTemplate({ ...transaction, verificationQr }, 'invoice');
     globalPrintDocument(template);
   };
 
@@ -208,6 +277,18 @@ export default function InvoiceReceipt() {
   }
 
   const isPaid = parseFloat(transaction.outstandingAmount || '0') === 0;
+  // Customer agreement discount: what the line would have cost at list price less what was
+  // charged before promotions and manual discounts, which are recorded separately on the line
+  const lineDiscount = (item: SalesTransactionItem) => item.listPrice
+    ? Math.max(0, Math.round((parseFloat(item.listPrice) * parseFloat(item.quantity)
+        - parseFloat(item.totalPrice) - parseFloat(item.discountAmount || '0')) * 100) / 100)
+    : 0;
+  const totalDiscount = transaction.items?.reduce((sum, item) => sum + lineDiscount(item), 0) || 0;
+  const promotionDiscount = parseFloat(transaction.discountAmount || '0');
+  const remainingQuantity = (item: SalesTransactionItem) =>
+    parseFloat(item.quantity) - parseFloat(item.returnedQuantity || '0');
+  const canReturn = (user?.role === 'admin' || user?.role === 'manager') &&
+    (transaction.status === 'completed' || transaction.status === 'partially_returned');
   const isOverdue = transaction.dueDate && new Date(transaction.dueDate) < new Date() && !isPaid;
 
   return (
@@ -226,6 +307,19 @@ export default function InvoiceReceipt() {
               <h1 className="text-2xl font-bold">Invoice #{transaction.invoiceNumber}</h1>
             </div>
             <div className="flex items-center gap-2">
+              {canReturn && (
+                <Button
+                  onClick={() => setReturnDialogOpen(true)}
+                  variant="outline"
+                  size="sm"
+                  className="p-2"
+                  data-testid="button-return-items"
+                  title="Return Items"
+                >
+                  <Undo2 className="w-4 h-4 mr-2" />
+                  Return Items
+                </Button>
+              )}
               <Button 
                 onClick={handlePrint} 
                 variant="outline" 
@@ -295,9 +389,19 @@ export default function InvoiceReceipt() {
                 </Badge>
               )}
               <Badge variant="outline" data-testid="badge-payment-method">
-                {transaction.paymentMethod.toUpperCase()}
+                {transaction.paymentMethod.replace('_', ' ').toUpperCase()}
               </Badge>
+              {transaction.status !== 'completed' && (
+                <Badge variant="destructive" data-testid="badge-sale-status">
+                  {SALE_STATUS_LABELS[transaction.status]}
+                </Badge>
+              )}
             </div>
+            {transaction.status === 'voided' && transaction.voidReason && (
+              <p className="text-sm text-red-600 mb-6" data-testid="text-void-reason">
+                Voided{transaction.voidedAt ? ` on ${new Date(transaction.voidedAt).toLocaleDateString()}` : ''}: {transaction.voidReason}
+              </p>
+            )}
 
             {/* Customer Info */}
             <div className="grid md:grid-cols-2 gap-8 mb-8">
@@ -344,6 +448,26 @@ export default function InvoiceReceipt() {
                   <div key={item?.id || index} className="grid grid-cols-12 gap-4 p-4 border-b last:border-b-0" data-testid={`row-item-${index}`}>
                     <div className="col-span-5">
                       <div className="font-semibold" data-testid={`text-product-name-${index}`}>{item?.product?.name || 'Unknown Product'}</div>
+                      {item?.requestedAmount && (
+                        <div className="text-xs text-muted-foreground" data-testid={`text-requested-amount-${index}`}>
+                          Sold by amount: {formatAmount(parseFloat(item.requestedAmount), transaction.currencyCode)}
+                        </div>
+                      )}
+                      {parseFloat(item?.discountAmount || '0') > 0 && (
+                        <div className="text-xs text-green-600" data-testid={`text-line-discount-${index}`}>
+                          Discount{item.promotionName ? ` (${item.promotionName})` : ''}: -{formatAmount(parseFloat(item.discountAmount || '0'), transaction.currencyCode)}
+                        </div>
+                      )}
+                      {item?.noTankLink && (
+                        <div className="text-xs text-orange-600 print:hidden" data-testid={`text-no-tank-${index}`}>
+                          No tank linked - stock not deducted
+                        </div>
+                      )}
+                      {item?.stockOverrideBy && (
+                        <div className="text-xs text-orange-600 print:hidden" data-testid={`text-stock-override-${index}`}>
+                          Sold beyond tank stock with manager approval
+                        </div>
+                      )}
                       {item?.product?.hsnCode && (
                         <div className="text-xs text-muted-foreground" data-testid={`text-hsn-${index}`}>
                           HSN: {item.product.hsnCode}
@@ -352,8 +476,18 @@ export default function InvoiceReceipt() {
                     </div>
                     <div className="col-span-2 text-right" data-testid={`text-quantity-${index}`}>
                       {parseFloat(item?.quantity || '0').toFixed(3)} {item?.product?.unit || 'L'}
+                      {parseFloat(item?.returnedQuantity || '0') > 0 && (
+                        <div className="text-xs text-red-600" data-testid={`text-returned-quantity-${index}`}>
+                          Returned: {parseFloat(item.returnedQuantity || '0').toFixed(3)}
+                        </div>
+                      )}
                     </div>
                     <div className="col-span-2 text-right" data-testid={`text-unit-price-${index}`}>
+                      {item?.listPrice && parseFloat(item.listPrice) > parseFloat(item.unitPrice) && (
+                        <div className="text-xs text-muted-foreground line-through" data-testid={`text-list-price-${index}`}>
+                          {formatAmount(parseFloat(item.listPrice), transaction.currencyCode)}
+                        </div>
+                      )}
                       {formatAmount(parseFloat(item?.unitPrice || '0'), transaction.currencyCode)}
                     </div>
                     <div className="col-span-3 text-right font-semibold" data-testid={`text-total-price-${index}`}>
@@ -367,6 +501,18 @@ export default function InvoiceReceipt() {
             {/* Totals */}
             <div className="flex justify-end mb-8">
               <div className="w-full max-w-sm space-y-2">
+                {totalDiscount > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Contract Discount:</span>
+                    <span data-testid="text-discount-amount">-{formatAmount(totalDiscount, transaction.currencyCode)}</span>
+                  </div>
+                )}
+                {promotionDiscount > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Promotions & Discounts:</span>
+                    <span data-testid="text-promotion-discount">-{formatAmount(promotionDiscount, transaction.currencyCode)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-lg font-semibold">
                   <span>Total Amount:</span>
                   <span data-testid="text-total-amount">{formatAmount(parseFloat(transaction.totalAmount ?? '0'), transaction.currencyCode)}</span>
@@ -377,6 +523,22 @@ export default function InvoiceReceipt() {
                     <span data-testid="text-paid-amount">{formatAmount(parseFloat(transaction.paidAmount || '0'), transaction.currencyCode)}</span>
                   </div>
                 )}
+                {transaction.tenders?.length > 1 && transaction.tenders.map((tender, index) => (
+                  <div key={tender.id} className="flex justify-between text-sm text-muted-foreground" data-testid={`text-tender-${index}`}>
+                    <span className="capitalize">{tender.paymentMethod.replace('_', ' ')}{tender.reference ? ` (${tender.reference})` : ''}:</span>
+                    <span>{formatAmount(parseFloat(tender.amount), transaction.currencyCode)}</span>
+                  </div>
+                ))}
+                {transaction.tenders?.some((tender) => parseFloat(tender.changeAmount || '0') > 0) && (
+                  <div className="flex justify-between text-sm text-muted-foreground">
+                    <span>Cash Tendered / Change:</span>
+                    <span data-testid="text-change-amount">
+                      {formatAmount(transaction.tenders.reduce((sum, tender) => sum + (tender.paymentMethod === 'cash' ? parseFloat(tender.tenderedAmount) : 0), 0), transaction.currencyCode)}
+                      {' / '}
+                      {formatAmount(transaction.tenders.reduce((sum, tender) => sum + parseFloat(tender.changeAmount || '0'), 0), transaction.currencyCode)}
+                    </span>
+                  </div>
+                )}
                 {parseFloat(transaction.outstandingAmount ?? '0') > 0 && (
                   <div className="flex justify-between text-red-600 font-semibold">
                     <span>Outstanding:</span>
@@ -386,9 +548,47 @@ export default function InvoiceReceipt() {
               </div>
             </div>
 
+            {/* Credit Notes */}
+            {transaction.creditNotes?.length > 0 && (
+              <div className="mb-8">
+                <h3 className="font-semibold text-lg mb-4">Credit Notes</h3>
+                <div className="border rounded-lg divide-y">
+                  {transaction.creditNotes.map((note, index) => (
+                    <div key={note.id} className="p-4 text-sm" data-testid={`row-credit-note-${index}`}>
+                      <div className="flex justify-between font-semibold">
+                        <span>{note.creditNoteNumber} ({note.type === 'void' ? 'Void' : 'Return'})</span>
+                        <span className="text-red-600">-{formatAmount(parseFloat(note.totalAmount), note.currencyCode)}</span>
+                      </div>
+                      <div className="text-muted-foreground">
+                        {note.creditNoteDate && new Date(note.creditNoteDate).toLocaleDateString()} - {note.reason}
+                      </div>
+                      {note.items.map((noteItem) => {
+                        const saleItem = transaction.items.find((item) => item.id === noteItem.transactionItemId);
+                        return (
+                          <div key={noteItem.id} className="flex justify-between text-muted-foreground">
+                            <span>{saleItem?.product?.name || 'Item'} x {parseFloat(noteItem.quantity).toFixed(3)}</span>
+                            <span>{formatAmount(parseFloat(noteItem.totalPrice), note.currencyCode)}</span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Footer */}
             <Separator className="mb-6" />
             <div className="text-center text-sm text-muted-foreground">
+              {verificationQr && (
+                <div className="flex flex-col items-center mb-4">
+                  <img src={verificationQr} alt="Verification QR code" className="w-28 h-28" data-testid="img-verification-qr" />
+                  <p className="text-xs mt-1">Scan to verify this invoice</p>
+                </div>
+              )}
+              {transaction.verificationToken && verificationRevoked && (
+                <p className="text-xs text-destructive mb-4">Verification revoked - this invoice has been voided</p>
+              )}
               <p>Thank you for your business!</p>
               {stationSettings?.licenseNumber && (
                 <p className="mt-1">License: {stationSettings.licenseNumber}</p>
@@ -397,6 +597,55 @@ export default function InvoiceReceipt() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Partial Return Dialog */}
+      <Dialog open={returnDialogOpen} onOpenChange={setReturnDialogOpen}>
+        <DialogContent className="sm:max-w-[550px]">
+          <DialogHeader>
+            <DialogTitle>Return Items - Invoice #{transaction.invoiceNumber}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            {transaction.items.filter((item) => remainingQuantity(item) > 0).map((item) => (
+              <div key={item.id} className="flex items-center justify-between gap-4">
+                <div className="text-sm">
+                  <div className="font-medium">{item.product?.name || 'Unknown Product'}</div>
+                  <div className="text-muted-foreground">
+                    {remainingQuantity(item).toFixed(3)} remaining at {formatAmount(parseFloat(item.unitPrice), transaction.currencyCode)}
+                  </div>
+                </div>
+                <Input
+                  type="number"
+                  min="0"
+                  max={remainingQuantity(item)}
+                  step="0.001"
+                  className="w-32"
+                  value={returnQuantities[item.id] || ''}
+                  onChange={(e) => setReturnQuantities({ ...returnQuantities, [item.id]: e.target.value })}
+                  data-testid={`input-return-quantity-${item.id}`}
+                />
+              </div>
+            ))}
+            <Textarea
+              placeholder="Reason for return"
+              value={returnReason}
+              onChange={(e) => setReturnReason(e.target.value)}
+              data-testid="input-return-reason"
+            />
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setReturnDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSubmitReturn}
+                disabled={!returnReason.trim() || returnMutation.isPending}
+                data-testid="button-confirm-return"
+              >
+                {returnMutation.isPending ? "Saving..." : "Issue Credit Note"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -169,6 +169,9 @@ function PaymentHistory() {
                     <div className="text-sm text-muted-foreground">
                       {new Date(payment.paymentDate || payment.createdAt).toLocaleDateString()} • {payment.paymentMethod}
                     </div>
+                    {payment.receiptNumber && (
+                      <div className="text-xs text-muted-foreground">Receipt #: {payment.receiptNumber}</div>
+                    )}
                     {payment.referenceNumber && (
                       <div className="text-xs text-muted-foreground">Ref: {payment.referenceNumber}</div>
                     )}
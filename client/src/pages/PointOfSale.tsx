@@ -10,36 +10,76 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Combobox } from "@/components/ui/combobox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { toast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
 import { useCurrency } from "@/contexts/CurrencyContext";
-import { Plus, Trash2, Receipt, FileText, Calendar, User } from "lucide-react";
-import type { Product, Customer, Supplier, Tank, SalesTransaction } from "@shared/schema";
+import { quantityForAmount } from "@/lib/currency";
+import { Plus, Trash2, Receipt, FileText, Calendar, User, SplitSquareHorizontal, PauseCircle, PlayCircle, Percent } from "lucide-react";
+import type { Product, Customer, Supplier, Tank, Pump, SalesTransaction, SalesTransactionItem, HeldCart, CustomerPriceAgreement, Promotion, PostSaleItem } from "@shared/schema";
+import { AGREEMENT_CUSTOMER_TYPES, agreedUnitPrice, findPriceAgreement, findBestPromotion, manualDiscountAmount } from "@shared/pricing";
 
 interface CartItem {
   productId: string;
   product: Product;
   tankId?: string;
   tank?: Tank;
+  pumpId?: string; // The server draws stock from the pump's tank, or picks a tank itself
   quantity: number;
   unitPrice: number;
   totalPrice: number;
+  requestedAmount?: number; // Set for fuel sold by amount; quantity is back-calculated
+  manualDiscount?: PostSaleItem['manualDiscount'];
 }
 
+interface TenderLine {
+  paymentMethod: TenderMethod;
+  amount: string;
+}
+
+type TenderMethod = "cash" | "card" | "mobile_wallet" | "credit" | "fleet";
+
+const TENDER_LABELS: Record<TenderMethod, string> = {
+  cash: "Cash",
+  card: "Card",
+  mobile_wallet: "Mobile Wallet",
+  credit: "Credit",
+  fleet: "Fleet",
+};
+
 const saleFormSchema = z.object({
   customerId: z.string().min(1, "Customer is required"),
-  paymentMethod: z.enum(["cash", "card", "credit"]),
+  paymentMethod: z.enum(["cash", "card", "mobile_wallet", "credit"]),
 });
 
 type SaleFormData = z.infer<typeof saleFormSchema>;
 
+// Pump select value for fuel sold without naming a pump
+const ANY_PUMP = "any";
+
 export default function PointOfSale() {
   const { user } = useAuth();
-  const { formatCurrency } = useCurrency();
+  const { formatCurrency, currencyConfig } = useCurrency();
   const [cart, setCart] = useState<CartItem[]>([]);
   const [defaultQuantity, setDefaultQuantity] = useState<string>("25");
+  const [entryMode, setEntryMode] = useState<"quantity" | "amount">("quantity");
+  const [defaultAmount, setDefaultAmount] = useState<string>("1000");
   const [transactionNumber] = useState(`TXN-${Math.random().toString(36).substr(2, 6).toUpperCase()}`);
+  const [splitTender, setSplitTender] = useState(false);
+  const [tenders, setTenders] = useState<TenderLine[]>([]);
+  const [cashReceived, setCashReceived] = useState("");
+  const [holdDialogOpen, setHoldDialogOpen] = useState(false);
+  const [holdLabel, setHoldLabel] = useState("");
+  const [resumedCartId, setResumedCartId] = useState<string | null>(null); // Parked cart now back in the POS
+  const [discountIndex, setDiscountIndex] = useState<number | null>(null);
+  const [discountType, setDiscountType] = useState<"percentage" | "amount">("percentage");
+  const [discountValue, setDiscountValue] = useState("");
+  const [pendingSale, setPendingSale] = useState<{ saleData: any; message: string; stockOverride: boolean } | null>(null);
+  const [selectedPumpId, setSelectedPumpId] = useState<string>(ANY_PUMP);
+  const [approverUsername, setApproverUsername] = useState("");
+  const [approverPassword, setApproverPassword] = useState("");
 
   const form = useForm<SaleFormData>({
     resolver: zodResolver(saleFormSchema),
@@ -67,6 +107,17 @@ export default function PointOfSale() {
     enabled: !!user?.stationId,
   });
 
+  const { data: pumps = [] } = useQuery<Pump[]>({
+    queryKey: ["/api/pumps", user?.stationId],
+    queryFn: () => apiRequest("GET", `/api/pumps?stationId=${user?.stationId}`).then(res => res.json()),
+    enabled: !!user?.stationId,
+  });
+
+  const { data: heldCarts = [] } = useQuery<HeldCart[]>({
+    queryKey: ["/api/held-carts"],
+    enabled: !!user?.stationId,
+  });
+
   // Combine customers and suppliers for search
   const searchableOptions = [
     ...customers.map(c => ({ value: c.id, label: `${c.name} (Customer)`, type: 'customer' as const })),
@@ -83,22 +134,115 @@ export default function PointOfSale() {
     }
   }, [walkInCustomer, form]);
 
+  // Fleet and credit customers are priced from their agreements, as on the server
+  const selectedCustomerId = form.watch('customerId');
+  const selectedCustomer = customers.find(c => c.id === selectedCustomerId);
+  const hasAgreements = !!selectedCustomer && AGREEMENT_CUSTOMER_TYPES.includes(selectedCustomer.type);
+
+  const { data: priceAgreements } = useQuery<CustomerPriceAgreement[]>({
+    queryKey: ["/api/customers", selectedCustomerId, "price-agreements"],
+    enabled: hasAgreements,
+  });
+
+  const priceFor = (product: Product) => agreedUnitPrice(
+    parseFloat(product.currentPrice),
+    hasAgreements ? findPriceAgreement(priceAgreements ?? [], product.id) : undefined
+  );
+
+  // Reprice the cart when the customer (and so the applicable agreement) changes
+  useEffect(() => {
+    setCart(current => {
+      let changed = false;
+      const repriced = current.map(item => {
+        const unitPrice = priceFor(item.product);
+        if (unitPrice === item.unitPrice) return item;
+        changed = true;
+        if (item.requestedAmount !== undefined) {
+          const line = quantityForAmount(item.requestedAmount, unitPrice, currencyConfig.code);
+          return { ...item, unitPrice, quantity: line.quantity, totalPrice: line.amount };
+        }
+        return { ...item, unitPrice, totalPrice: unitPrice * item.quantity };
+      });
+      return changed ? repriced : current;
+    });
+  }, [selectedCustomerId, hasAgreements, priceAgreements, cart.length]);
+
+  const { data: promotions = [] } = useQuery<Promotion[]>({
+    queryKey: ["/api/promotions"],
+  });
+
+  // Line discounts, worked out the same way as the server; contract-priced lines get no promotion
+  const lineDiscount = (item: CartItem) => {
+    const contractPriced = hasAgreements && !!findPriceAgreement(priceAgreements ?? [], item.productId);
+    const promotion = contractPriced
+      ? undefined
+      : findBestPromotion(promotions, item.product, item.unitPrice, item.quantity);
+    const promotionDiscount = promotion?.discount ?? 0;
+    const manual = manualDiscountAmount(item.manualDiscount, item.totalPrice - promotionDiscount);
+    return { promotion: promotion?.promotion, amount: promotionDiscount + manual };
+  };
+  const lineDiscounts = cart.map(lineDiscount);
+  const discountTotal = lineDiscounts.reduce((sum, discount) => sum + discount.amount, 0);
+
   // Get fuel products (Petrol, Diesel)
   const fuelProducts = products.filter(p => p.category === 'fuel');
   const otherProducts = products.filter(p => p.category !== 'fuel');
 
   // Calculate totals
-  const subtotal = cart.reduce((sum, item) => sum + item.totalPrice, 0);
+  const subtotal = cart.reduce((sum, item) => sum + item.totalPrice, 0) - discountTotal;
   const taxRate = 0.00; // Tax removed as requested
   const taxAmount = subtotal * taxRate;
   const totalAmount = subtotal + taxAmount;
 
-  // Add product to cart with default quantity
-  const addToCart = (product: Product, tank?: Tank) => {
+  // Tendered amounts; only cash can exceed the total and produce change
+  const paymentMethod = form.watch('paymentMethod');
+  const tenderedTotal = splitTender
+    ? tenders.reduce((sum, tender) => sum + (parseFloat(tender.amount) || 0), 0)
+    : paymentMethod === 'cash' && cashReceived ? parseFloat(cashReceived) || 0 : totalAmount;
+  const balanceDue = Math.max(0, totalAmount - tenderedTotal);
+  const changeDue = Math.max(0, tenderedTotal - totalAmount);
+
+  const addTender = (method: TenderMethod) => {
+    setTenders([...tenders, { paymentMethod: method, amount: balanceDue > 0 ? balanceDue.toFixed(2) : "" }]);
+  };
+
+  const updateTender = (index: number, update: Partial<TenderLine>) => {
+    setTenders(tenders.map((tender, i) => i === index ? { ...tender, ...update } : tender));
+  };
+
+  const removeTender = (index: number) => {
+    setTenders(tenders.filter((_, i) => i !== index));
+  };
+
+  // Add product to cart with default quantity, or default amount for fuel in amount mode
+  // The tank is resolved on the server from the pump, or picked there from stock
+  const addToCart = (product: Product, pump?: Pump) => {
+    const byAmount = entryMode === 'amount' && product.category === 'fuel';
     const existingItemIndex = cart.findIndex(item => 
-      item.productId === product.id && item.tankId === tank?.id
+      item.productId === product.id && item.pumpId === pump?.id && !!item.requestedAmount === byAmount
     );
 
+    if (byAmount) {
+      const amount = parseFloat(defaultAmount) || 0;
+      if (existingItemIndex >= 0) {
+        updateAmount(existingItemIndex, (cart[existingItemIndex].requestedAmount || 0) + amount);
+      } else {
+        const unitPrice = priceFor(product);
+        const line = quantityForAmount(amount, unitPrice, currencyConfig.code);
+        if (line.quantity <= 0) return;
+        setCart([...cart, {
+          productId: product.id,
+          product,
+          pumpId: pump?.id,
+          quantity: line.quantity,
+          unitPrice,
+          totalPrice: line.amount,
+          requestedAmount: line.amount,
+        }]);
+      }
+      return;
+    }
+
     const quantity = parseFloat(defaultQuantity) || 1;
 
     if (existingItemIndex >= 0) {
@@ -107,11 +251,10 @@ export default function PointOfSale() {
       const newItem: CartItem = {
         productId: product.id,
         product,
-        tankId: tank?.id,
-        tank,
+        pumpId: pump?.id,
         quantity,
-        unitPrice: parseFloat(product.currentPrice),
-        totalPrice: parseFloat(product.currentPrice) * quantity,
+        unitPrice: priceFor(product),
+        totalPrice: priceFor(product) * quantity,
       };
       setCart([...cart, newItem]);
     }
@@ -130,14 +273,41 @@ export default function PointOfSale() {
     setCart(updatedCart);
   };
 
-  // Update unit price
-  const updateUnitPrice = (index: number, newPrice: number) => {
+  // Update a sell-by-amount line; litres follow from the current price
+  const updateAmount = (index: number, newAmount: number) => {
+    const line = quantityForAmount(newAmount, cart[index].unitPrice, currencyConfig.code);
+    if (line.quantity <= 0) {
+      removeFromCart(index);
+      return;
+    }
+
     const updatedCart = [...cart];
-    updatedCart[index].unitPrice = newPrice;
-    updatedCart[index].totalPrice = newPrice * updatedCart[index].quantity;
+    updatedCart[index] = {
+      ...updatedCart[index],
+      quantity: line.quantity,
+      totalPrice: line.amount,
+      requestedAmount: line.amount,
+    };
     setCart(updatedCart);
   };
 
+  const openDiscountDialog = (index: number) => {
+    const current = cart[index].manualDiscount;
+    setDiscountType(current?.type ?? "percentage");
+    setDiscountValue(current ? String(current.value) : "");
+    setDiscountIndex(index);
+  };
+
+  const applyManualDiscount = () => {
+    if (discountIndex === null) return;
+    const value = parseFloat(discountValue) || 0;
+    setCart(cart.map((item, i) => i === discountIndex
+      ? { ...item, manualDiscount: value > 0 ? { type: discountType, value } : undefined }
+      : item
+    ));
+    setDiscountIndex(null);
+  };
+
   // Remove from cart
   const removeFromCart = (index: number) => {
     setCart(cart.filter((_, i) => i !== index));
@@ -146,6 +316,10 @@ export default function PointOfSale() {
   // Clear cart
   const clearCart = () => {
     setCart([]);
+    setResumedCartId(null);
+    setSplitTender(false);
+    setTenders([]);
+    setCashReceived("");
     form.reset({
       customerId: walkInCustomer?.id || "",
       paymentMethod: "cash",
@@ -163,16 +337,49 @@ export default function PointOfSale() {
       return response.json();
     },
     onSuccess: (data) => {
+      setPendingSale(null);
+      setApproverUsername("");
+      setApproverPassword("");
       toast({
         title: "Sale completed successfully",
-        description: `Invoice ${data.transaction.invoiceNumber} created`,
+        description: data.changeDue > 0
+          ? `Invoice ${data.transaction.invoiceNumber} created. Change due: ${formatCurrency(data.changeDue)}`
+          : `Invoice ${data.transaction.invoiceNumber} created`,
       });
+      const untracked = (data.items as SalesTransactionItem[]).filter(item => item.noTankLink);
+      if (untracked.length > 0) {
+        toast({
+          title: "Stock not deducted",
+          description: `${untracked.map(item => products.find(p => p.id === item.productId)?.name || 'A product').join(', ')} has no tank at this station`,
+          variant: "destructive",
+        });
+      }
       clearCart();
       queryClient.invalidateQueries({ queryKey: ["/api/sales"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/held-carts"] });
       queryClient.invalidateQueries({ queryKey: ["/api/tanks"] });
       queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
     },
-    onError: (error: any) => {
+    onError: (error: any, saleData) => {
+      // Large manual discounts and overselling a tank come back for a manager to approve at the till;
+      // 429 is the lockout after repeated wrong manager passwords
+      if ((error.message?.startsWith('403:') || error.message?.startsWith('429:')) && error.message.includes('requiresApproval')) {
+        let message = "A manager must approve this sale";
+        let stockOverride = false;
+        try {
+          const body = JSON.parse(error.message.slice(4));
+          message = body.message || message;
+          stockOverride = !!body.stockOverride;
+        } catch {
+          // Keep the generic message
+        }
+        if (saleData.transaction.managerApproval) {
+          toast({ title: "Approval failed", description: message, variant: "destructive" });
+        }
+        setApproverPassword("");
+        setPendingSale({ saleData, message, stockOverride });
+        return;
+      }
       console.error('Sale creation error:', error);
       toast({
         title: "Sale failed",
@@ -182,6 +389,122 @@ export default function PointOfSale() {
     },
   });
 
+  // Park the current cart on the server so it survives refreshes and interruptions
+  const holdCartMutation = useMutation({
+    mutationFn: async (label: string) => {
+      const response = await apiRequest("POST", "/api/held-carts", {
+        label,
+        customerId: form.getValues('customerId') || undefined,
+        paymentMethod: form.getValues('paymentMethod'),
+        items: cart.map(item => ({
+          productId: item.productId,
+          tankId: item.tankId || null,
+          pumpId: item.pumpId || null,
+          quantity: item.quantity,
+          requestedAmount: item.requestedAmount,
+          manualDiscount: item.manualDiscount,
+        })),
+        replacesCartId: resumedCartId || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (heldCart: HeldCart) => {
+      toast({
+        title: "Sale parked",
+        description: `"${heldCart.label}" can be resumed until the end of the shift`,
+      });
+      clearCart();
+      setHoldDialogOpen(false);
+      setHoldLabel("");
+      queryClient.invalidateQueries({ queryKey: ["/api/held-carts"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to park sale",
+        description: error.message || "Could not park the current sale",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resumeCartMutation = useMutation({
+    mutationFn: async (cartId: string) => {
+      const response = await apiRequest("POST", `/api/held-carts/${cartId}/resume`);
+      return response.json();
+    },
+    onSuccess: (heldCart: HeldCart) => {
+      const resumedItems = heldCart.items.flatMap((item): CartItem[] => {
+        const product = products.find(p => p.id === item.productId);
+        if (!product) return [];
+        const unitPrice = parseFloat(product.currentPrice);
+        // Amount lines keep the amount and re-derive litres in case the price changed
+        const line = item.requestedAmount !== undefined
+          ? quantityForAmount(item.requestedAmount, unitPrice, currencyConfig.code)
+          : undefined;
+        return [{
+          productId: product.id,
+          product,
+          tankId: item.tankId || undefined,
+          tank: tanks.find(t => t.id === item.tankId),
+          pumpId: item.pumpId || undefined,
+          quantity: line ? line.quantity : item.quantity,
+          unitPrice,
+          totalPrice: line ? line.amount : unitPrice * item.quantity,
+          requestedAmount: line?.amount,
+          manualDiscount: item.manualDiscount,
+        }];
+      });
+
+      setCart(resumedItems);
+      setResumedCartId(heldCart.id);
+      form.reset({
+        customerId: heldCart.customerId || walkInCustomer?.id || "",
+        paymentMethod: heldCart.paymentMethod && heldCart.paymentMethod !== 'fleet' && heldCart.paymentMethod !== 'split'
+          ? heldCart.paymentMethod
+          : "cash",
+      });
+      toast({ title: "Sale resumed", description: `"${heldCart.label}" loaded into POS` });
+      queryClient.invalidateQueries({ queryKey: ["/api/held-carts"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to resume sale",
+        description: error.message || "The parked sale may have expired",
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/held-carts"] });
+    },
+  });
+
+  const discardCartMutation = useMutation({
+    mutationFn: async (cartId: string) => {
+      await apiRequest("DELETE", `/api/held-carts/${cartId}`);
+    },
+    onSuccess: (_, cartId) => {
+      if (cartId === resumedCartId) setResumedCartId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/held-carts"] });
+    },
+  });
+
+  const handleResumeCart = (cartId: string) => {
+    if (cart.length > 0) {
+      toast({
+        title: "Sale in progress",
+        description: "Park or cancel the current sale before resuming another",
+        variant: "destructive",
+      });
+      return;
+    }
+    resumeCartMutation.mutate(cartId);
+  };
+
+  const openHoldDialog = () => {
+    const customer = customers.find(c => c.id === form.getValues('customerId'));
+    const time = new Date().toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' });
+    setHoldLabel(`${customer?.name || 'Walk-in'} - ${time}`);
+    setHoldDialogOpen(true);
+  };
+
   // Submit sale
   const onSubmit = (data: SaleFormData) => {
     if (cart.length === 0) {
@@ -202,25 +525,37 @@ export default function PointOfSale() {
       return;
     }
 
+    if (splitTender && (tenders.length === 0 || balanceDue > 0)) {
+      toast({
+        title: "Payment incomplete",
+        description: `Add tenders covering the remaining ${formatCurrency(balanceDue)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Without explicit tender lines the server settles the whole total with one method
+    const payment = splitTender
+      ? { tenders: tenders.map(tender => ({ paymentMethod: tender.paymentMethod, amount: tender.amount })) }
+      : data.paymentMethod === 'cash' && cashReceived
+        ? { tenders: [{ paymentMethod: 'cash', amount: cashReceived }] }
+        : { paymentMethod: data.paymentMethod };
+
+    // Prices and totals are computed by the server from the current price list
     const saleData = {
       transaction: {
-        stationId: user.stationId,
         customerId: data.customerId,
-        userId: user.id,
-        paymentMethod: data.paymentMethod,
+        ...payment,
         currencyCode: "PKR",
-        subtotal: subtotal.toString(),
-        taxAmount: taxAmount.toString(),
-        totalAmount: totalAmount.toString(),
-        paidAmount: data.paymentMethod === "credit" ? "0" : totalAmount.toString(),
-        outstandingAmount: data.paymentMethod === "credit" ? totalAmount.toString() : "0",
+        heldCartId: resumedCartId || undefined,
       },
       items: cart.map(item => ({
         productId: item.productId,
         tankId: item.tankId || null,
+        pumpId: item.pumpId || null,
         quantity: item.quantity.toString(),
-        unitPrice: item.unitPrice.toString(),
-        totalPrice: item.totalPrice.toString(),
+        requestedAmount: item.requestedAmount?.toString(),
+        manualDiscount: item.manualDiscount,
       })),
     };
 
@@ -248,9 +583,17 @@ export default function PointOfSale() {
     });
   };
 
-  // Get available tanks for a product
-  const getProductTanks = (productId: string) => {
-    return tanks.filter(tank => tank.productId === productId && parseFloat(tank.currentStock || '0') > 0);
+  const addFuelToCart = (product: Product) => {
+    const pump = pumps.find(p => p.id === selectedPumpId);
+    if (pump && pump.productId !== product.id) {
+      toast({
+        title: "Wrong pump",
+        description: `${pump.name} does not dispense ${product.name}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    addToCart(product, pump);
   };
 
   // --- New Functions for Adding Customer/Supplier and Handling Drafts/History ---
@@ -378,27 +721,85 @@ export default function PointOfSale() {
               </div>
             </div>
 
-            {/* Default Quantity */}
-            <div>
-              <label className="text-sm font-medium mb-2 block">Default Quantity (L)</label>
-              <Input
-                value={defaultQuantity}
-                onChange={(e) => setDefaultQuantity(e.target.value)}
-                className="w-32"
-                type="number"
-                step="0.1"
-              />
+            {/* Default Quantity / Amount */}
+            <div className="flex items-end gap-4">
+              <div>
+                <label className="text-sm font-medium mb-2 block">Sell Fuel By</label>
+                <div className="flex">
+                  <Button
+                    variant={entryMode === 'quantity' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setEntryMode('quantity')}
+                    className="rounded-r-none"
+                    data-testid="button-entry-quantity"
+                  >
+                    Litres
+                  </Button>
+                  <Button
+                    variant={entryMode === 'amount' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setEntryMode('amount')}
+                    className="rounded-l-none"
+                    data-testid="button-entry-amount"
+                  >
+                    Amount
+                  </Button>
+                </div>
+              </div>
+              {entryMode === 'quantity' ? (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Default Quantity (L)</label>
+                  <Input
+                    value={defaultQuantity}
+                    onChange={(e) => setDefaultQuantity(e.target.value)}
+                    className="w-32"
+                    type="number"
+                    step="0.1"
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Default Amount ({currencyConfig.symbol})</label>
+                  <Input
+                    value={defaultAmount}
+                    onChange={(e) => setDefaultAmount(e.target.value)}
+                    className="w-32"
+                    type="number"
+                    step={currencyConfig.saleRounding.amountStep}
+                    data-testid="input-default-amount"
+                  />
+                </div>
+              )}
+              {pumps.length > 0 && (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Pump</label>
+                  <Select value={selectedPumpId} onValueChange={setSelectedPumpId}>
+                    <SelectTrigger className="w-44" data-testid="select-pump">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_PUMP}>Any pump</SelectItem>
+                      {pumps.filter(pump => pump.isActive !== false).map((pump) => (
+                        <SelectItem key={pump.id} value={pump.id}>{pump.name} ({pump.pumpNumber})</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
             </div>
 
             {/* Fuel Products */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {fuelProducts.map((product) => {
-                const productTanks = getProductTanks(product.id);
+                // Tanks under maintenance cannot be sold from
+                const productTanks = tanks.filter(tank => tank.productId === product.id);
+                const inServiceTanks = productTanks.filter(tank => tank.status !== 'maintenance');
+                const productStock = inServiceTanks.reduce((sum, tank) => sum + parseFloat(tank.currentStock || '0'), 0);
                 return (
                   <Card 
                     key={product.id}
                     className="cursor-pointer hover:bg-accent transition-colors"
-                    onClick={() => productTanks.length > 0 ? addToCart(product, productTanks[0]) : addToCart(product)}
+                    onClick={() => addFuelToCart(product)}
                   >
                     <CardContent className="p-4">
                       <div className="flex items-center justify-between mb-2">
@@ -413,6 +814,11 @@ export default function PointOfSale() {
                         </span>
                         <span className="text-sm text-muted-foreground">per litre</span>
                       </div>
+                      {productStock <= 0 && (
+                        <div className="text-xs text-red-600 mt-1" data-testid={`text-no-stock-${product.id}`}>
+                          {productTanks.length === 0 ? "No tank linked" : inServiceTanks.length === 0 ? "Tanks out of service" : "Tanks empty"}
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 );
@@ -457,35 +863,78 @@ export default function PointOfSale() {
                           <th className="text-center p-3 font-medium">Qty (L)</th>
                           <th className="text-center p-3 font-medium">Rate</th>
                           <th className="text-center p-3 font-medium">Amount</th>
+                          <th className="text-center p-3 font-medium">Discount</th>
                           <th className="text-center p-3 font-medium">Action</th>
                         </tr>
                       </thead>
                       <tbody>
                         {cart.map((item, index) => (
-                          <tr key={`${item.productId}-${item.tankId || 'no-tank'}`} className="border-t">
-                            <td className="p-3">{item.product.name}</td>
+                          <tr key={`${item.productId}-${item.pumpId || item.tankId || 'auto'}-${index}`} className="border-t">
+                            <td className="p-3">
+                              {item.product.name}
+                              {item.pumpId && (
+                                <div className="text-xs text-muted-foreground">
+                                  {pumps.find(pump => pump.id === item.pumpId)?.name}
+                                </div>
+                              )}
+                            </td>
                             <td className="p-3 text-center">
-                              <Input
-                                type="number"
-                                value={item.quantity}
-                                onChange={(e) => updateQuantity(index, parseFloat(e.target.value) || 0)}
-                                className="w-20 text-center"
-                                step="0.1"
-                              />
+                              {item.requestedAmount !== undefined ? (
+                                <span data-testid={`text-computed-quantity-${index}`}>{item.quantity.toFixed(3)}</span>
+                              ) : (
+                                <Input
+                                  type="number"
+                                  value={item.quantity}
+                                  onChange={(e) => updateQuantity(index, parseFloat(e.target.value) || 0)}
+                                  className="w-20 text-center"
+                                  step="0.1"
+                                />
+                              )}
                             </td>
                             <td className="p-3 text-center">
-                              <Input
-                                type="number"
-                                value={item.unitPrice}
-                                onChange={(e) => updateUnitPrice(index, parseFloat(e.target.value) || 0)}
-                                className="w-24 text-center"
-                                step="0.01"
-                              />
+                              {item.unitPrice < parseFloat(item.product.currentPrice) && (
+                                <div className="text-xs text-muted-foreground line-through">
+                                  {formatCurrency(parseFloat(item.product.currentPrice))}
+                                </div>
+                              )}
+                              {formatCurrency(item.unitPrice)}
                             </td>
                             <td className="p-3 text-center font-medium">
-                              {formatCurrency(item.totalPrice)}
+                              {item.requestedAmount !== undefined ? (
+                                <Input
+                                  type="number"
+                                  value={item.requestedAmount}
+                                  onChange={(e) => updateAmount(index, parseFloat(e.target.value) || 0)}
+                                  className="w-24 text-center mx-auto"
+                                  step={currencyConfig.saleRounding.amountStep}
+                                  data-testid={`input-line-amount-${index}`}
+                                />
+                              ) : (
+                                formatCurrency(item.totalPrice)
+                              )}
                             </td>
-                            <td className="p-3 text-center">
+                            <td className="p-3 text-center text-sm" data-testid={`text-line-discount-${index}`}>
+                              {lineDiscounts[index].amount > 0 ? (
+                                <>
+                                  <div className="text-green-600">-{formatCurrency(lineDiscounts[index].amount)}</div>
+                                  {lineDiscounts[index].promotion && (
+                                    <div className="text-xs text-muted-foreground">{lineDiscounts[index].promotion!.name}</div>
+                                  )}
+                                </>
+                              ) : (
+                                <span className="text-muted-foreground">-</span>
+                              )}
+                            </td>
+                            <td className="p-3 text-center whitespace-nowrap">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => openDiscountDialog(index)}
+                                title="Manual Discount"
+                                data-testid={`button-line-discount-${index}`}
+                              >
+                                <Percent className="w-4 h-4" />
+                              </Button>
                               <Button
                                 variant="ghost"
                                 size="sm"
@@ -511,28 +960,93 @@ export default function PointOfSale() {
 
             {/* Payment Method Selection */}
             <div className="flex gap-4">
+              {(["cash", "card", "mobile_wallet", "credit"] as const).map((method) => (
+                <Button
+                  key={method}
+                  variant={!splitTender && paymentMethod === method ? 'default' : 'outline'}
+                  onClick={() => {
+                    setSplitTender(false);
+                    form.setValue('paymentMethod', method);
+                  }}
+                  className="flex-1"
+                >
+                  {method === 'credit' ? 'Credit Sale' : `${TENDER_LABELS[method]} Payment`}
+                </Button>
+              ))}
               <Button
-                variant={form.watch('paymentMethod') === 'cash' ? 'default' : 'outline'}
-                onClick={() => form.setValue('paymentMethod', 'cash')}
-                className="flex-1"
-              >
-                Cash Payment
-              </Button>
-              <Button
-                variant={form.watch('paymentMethod') === 'card' ? 'default' : 'outline'}
-                onClick={() => form.setValue('paymentMethod', 'card')}
-                className="flex-1"
-              >
-                Card Payment
-              </Button>
-              <Button
-                variant={form.watch('paymentMethod') === 'credit' ? 'default' : 'outline'}
-                onClick={() => form.setValue('paymentMethod', 'credit')}
+                variant={splitTender ? 'default' : 'outline'}
+                onClick={() => {
+                  setSplitTender(true);
+                  if (tenders.length === 0) {
+                    setTenders([{ paymentMethod: 'cash', amount: totalAmount > 0 ? totalAmount.toFixed(2) : "" }]);
+                  }
+                }}
                 className="flex-1"
+                data-testid="button-split-payment"
               >
-                Credit Sale
+                <SplitSquareHorizontal className="w-4 h-4 mr-2" />
+                Split
               </Button>
             </div>
+
+            {/* Cash received for change calculation */}
+            {!splitTender && paymentMethod === 'cash' && (
+              <div>
+                <label className="text-sm font-medium mb-2 block">Cash Received</label>
+                <Input
+                  value={cashReceived}
+                  onChange={(e) => setCashReceived(e.target.value)}
+                  placeholder={totalAmount.toFixed(2)}
+                  className="w-40"
+                  type="number"
+                  step="0.01"
+                  data-testid="input-cash-received"
+                />
+              </div>
+            )}
+
+            {/* Split tender lines */}
+            {splitTender && (
+              <div className="space-y-3">
+                {tenders.map((tender, index) => (
+                  <div key={index} className="flex items-center gap-3" data-testid={`row-tender-${index}`}>
+                    <Select
+                      value={tender.paymentMethod}
+                      onValueChange={(value) => updateTender(index, { paymentMethod: value as TenderMethod })}
+                    >
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(TENDER_LABELS) as TenderMethod[]).map((method) => (
+                          <SelectItem key={method} value={method}>{TENDER_LABELS[method]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={tender.amount}
+                      onChange={(e) => updateTender(index, { amount: e.target.value })}
+                      className="w-40"
+                      type="number"
+                      step="0.01"
+                      data-testid={`input-tender-amount-${index}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeTender(index)}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={() => addTender('card')} data-testid="button-add-tender">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Tender
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -544,6 +1058,12 @@ export default function PointOfSale() {
             <CardTitle className="text-xl">Transaction Summary</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
+            {discountTotal > 0 && (
+              <div className="flex justify-between text-green-600">
+                <span>Discounts:</span>
+                <span data-testid="text-discount-total">-{formatCurrency(discountTotal)}</span>
+              </div>
+            )}
             <div className="flex justify-between text-muted-foreground">
               <span>Subtotal:</span>
               <span>{formatCurrency(subtotal)}</span>
@@ -560,6 +1080,26 @@ export default function PointOfSale() {
               <span>Total:</span>
               <span className="text-primary">{formatCurrency(totalAmount)}</span>
             </div>
+            {(splitTender || cashReceived) && (
+              <>
+                <div className="flex justify-between text-muted-foreground">
+                  <span>Tendered:</span>
+                  <span data-testid="text-tendered">{formatCurrency(tenderedTotal)}</span>
+                </div>
+                {balanceDue > 0 && (
+                  <div className="flex justify-between text-red-600 font-semibold">
+                    <span>Balance Due:</span>
+                    <span data-testid="text-balance-due">{formatCurrency(balanceDue)}</span>
+                  </div>
+                )}
+                {changeDue > 0 && (
+                  <div className="flex justify-between text-green-600 font-semibold">
+                    <span>Change Due:</span>
+                    <span data-testid="text-change-due">{formatCurrency(changeDue)}</span>
+                  </div>
+                )}
+              </>
+            )}
 
             <div className="space-y-3 pt-4">
               <Button
@@ -569,6 +1109,16 @@ export default function PointOfSale() {
               >
                 {createSaleMutation.isPending ? 'Processing...' : 'Complete Sale'}
               </Button>
+              <Button
+                onClick={openHoldDialog}
+                variant="outline"
+                disabled={cart.length === 0 || holdCartMutation.isPending}
+                className="w-full"
+                data-testid="button-park-sale"
+              >
+                <PauseCircle className="w-4 h-4 mr-2" />
+                Park Sale
+              </Button>
               <Button
                 onClick={saveAsDraft}
                 variant="outline"
@@ -588,6 +1138,52 @@ export default function PointOfSale() {
           </CardContent>
         </Card>
 
+        {/* Parked Sales */}
+        {heldCarts.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Parked Sales</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {heldCarts.map((heldCart, index) => (
+                <div key={heldCart.id} className="flex items-center justify-between gap-2" data-testid={`row-held-cart-${index}`}>
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{heldCart.label}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {heldCart.items.length} item{heldCart.items.length === 1 ? '' : 's'}
+                      {heldCart.createdAt && ` - ${new Date(heldCart.createdAt).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })}`}
+                      {heldCart.resumedAt && (heldCart.id === resumedCartId ? ' - in the POS' : ' - resumed')}
+                    </p>
+                  </div>
+                  <div className="flex items-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleResumeCart(heldCart.id)}
+                      disabled={resumeCartMutation.isPending}
+                      className="text-green-600 hover:text-green-800 p-1"
+                      title="Resume"
+                      data-testid={`button-resume-cart-${index}`}
+                    >
+                      <PlayCircle className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => discardCartMutation.mutate(heldCart.id)}
+                      className="text-destructive hover:text-destructive p-1"
+                      title="Discard"
+                      data-testid={`button-discard-cart-${index}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Quick Actions */}
         <Card>
           <CardHeader>
@@ -632,6 +1228,126 @@ export default function PointOfSale() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Park Sale Dialog */}
+      <Dialog open={holdDialogOpen} onOpenChange={setHoldDialogOpen}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Park Sale</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              value={holdLabel}
+              onChange={(e) => setHoldLabel(e.target.value)}
+              placeholder="Label, e.g. customer or vehicle"
+              maxLength={60}
+              data-testid="input-hold-label"
+            />
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setHoldDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => holdCartMutation.mutate(holdLabel.trim())}
+                disabled={!holdLabel.trim() || holdCartMutation.isPending}
+                data-testid="button-confirm-park"
+              >
+                {holdCartMutation.isPending ? "Parking..." : "Park Sale"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Manual Discount Dialog */}
+      <Dialog open={discountIndex !== null} onOpenChange={(open) => !open && setDiscountIndex(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Discount - {discountIndex !== null && cart[discountIndex]?.product.name}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Select value={discountType} onValueChange={(value) => setDiscountType(value as "percentage" | "amount")}>
+                <SelectTrigger className="w-36" data-testid="select-discount-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percentage">Percent</SelectItem>
+                  <SelectItem value="amount">Amount</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={discountValue}
+                onChange={(e) => setDiscountValue(e.target.value)}
+                placeholder={discountType === 'percentage' ? "e.g. 5" : "e.g. 100"}
+                data-testid="input-discount-value"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Applied after any promotion. Larger discounts need manager approval when the sale is completed.
+            </p>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setDiscountIndex(null)}>
+                Cancel
+              </Button>
+              <Button onClick={applyManualDiscount} data-testid="button-apply-discount">
+                {parseFloat(discountValue) > 0 ? "Apply Discount" : "Remove Discount"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Manager Approval Dialog */}
+      <Dialog open={!!pendingSale} onOpenChange={(open) => !open && setPendingSale(null)}>
+        <DialogContent className="sm:max-w-[400px]">
+          <DialogHeader>
+            <DialogTitle>Manager Approval Required</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground" data-testid="text-approval-reason">
+              {pendingSale?.message}. A manager or admin can approve it here.
+            </p>
+            <Input
+              value={approverUsername}
+              onChange={(e) => setApproverUsername(e.target.value)}
+              placeholder="Manager username"
+              autoComplete="off"
+              data-testid="input-approver-username"
+            />
+            <Input
+              type="password"
+              value={approverPassword}
+              onChange={(e) => setApproverPassword(e.target.value)}
+              placeholder="Password"
+              autoComplete="off"
+              data-testid="input-approver-password"
+            />
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setPendingSale(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => pendingSale && createSaleMutation.mutate({
+                  ...pendingSale.saleData,
+                  transaction: {
+                    ...pendingSale.saleData.transaction,
+                    managerApproval: { username: approverUsername, password: approverPassword },
+                    allowNegativeStock: pendingSale.saleData.transaction.allowNegativeStock || pendingSale.stockOverride,
+                  },
+                })}
+                disabled={!approverUsername || !approverPassword || createSaleMutation.isPending}
+                data-testid="button-approve-discount"
+              >
+                {createSaleMutation.isPending ? "Approving..." : "Approve & Complete Sale"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -76,6 +76,12 @@ export default function PriceManagement() {
     queryKey: ["/api/products"],
   });
 
+  // Delivered cost (purchase price plus freight and other landed charges) from each product's latest receipt
+  const { data: landedCosts = [] } = useQuery<Array<{ productId: string; landedUnitCost: string | null }>>({
+    queryKey: ["/api/landed-costs", user?.stationId],
+    enabled: !!user?.stationId,
+  });
+
   const updatePriceMutation = useMutation({
     mutationFn: async ({ productId, newPrice }: { productId: string; newPrice: number }) => {
       const response = await apiRequest("PUT", `/api/products/${productId}`, {
@@ -350,7 +356,9 @@ export default function PriceManagement() {
               <tbody>
                 {products.length > 0 ? products.map((product: Product, index: number) => {
                   const currentPrice = parseFloat(product.currentPrice || '0');
-                  const estimatedCost = currentPrice * 0.95; // Estimated cost is 95% of selling price
+                  const landedCost = landedCosts.find((cost) => cost.productId === product.id)?.landedUnitCost;
+                  // Without a received purchase, cost is estimated at 95% of selling price
+                  const estimatedCost = landedCost ? parseFloat(landedCost) : currentPrice * 0.95;
                   const marginPercentage = ((currentPrice - estimatedCost) / estimatedCost * 100).toFixed(2);
                   
                   return (
@@ -367,6 +375,7 @@ export default function PriceManagement() {
                       </td>
                       <td className="p-3 text-right font-mono" data-testid={`cost-price-${index}`}>
                         ₹{estimatedCost.toFixed(2)}
+                        {!landedCost && <span className="text-xs text-muted-foreground ml-1">est.</span>}
                       </td>
                       <td className="p-3 text-right">
                         <div className="flex items-center justify-end space-x-2">
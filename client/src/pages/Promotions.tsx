@@ -0,0 +1,433 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { Product, Promotion, Settings } from "@shared/schema";
+import { isPromotionActive } from "@shared/pricing";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { apiRequest } from "@/lib/api";
+import { Plus, Trash2, Percent, Clock, ShieldCheck } from "lucide-react";
+
+const PROMOTION_TYPE_LABELS: Record<Promotion['type'], string> = {
+  percentage: "Percentage off",
+  amount_per_unit: "Amount off per unit",
+  buy_x_get_y: "Buy X get Y free",
+};
+
+// Select values for "no product" / "no category" scope
+const ANY = "any";
+
+export default function Promotions() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { formatCurrency } = useCurrency();
+  const [createOpen, setCreateOpen] = useState(false);
+
+  const canEdit = user?.role === 'admin' || user?.role === 'manager';
+
+  const { data: promotions = [], isLoading } = useQuery<Promotion[]>({
+    queryKey: ["/api/promotions"],
+  });
+
+  const { data: products = [] } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (promotion: Promotion) => {
+      const { id, createdAt, ...data } = promotion;
+      const response = await apiRequest("PUT", `/api/promotions/${id}`, { ...data, isActive: !promotion.isActive });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to update promotion", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/promotions/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Promotion deleted" });
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to delete promotion", variant: "destructive" });
+    },
+  });
+
+  const describeOffer = (promotion: Promotion) => {
+    const value = parseFloat(promotion.value || '0');
+    switch (promotion.type) {
+      case 'percentage':
+        return `${value}% off`;
+      case 'amount_per_unit':
+        return `${formatCurrency(value)} off per unit`;
+      case 'buy_x_get_y':
+        return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} free`;
+    }
+  };
+
+  const describeScope = (promotion: Promotion) => {
+    if (promotion.productId) {
+      return products.find(p => p.id === promotion.productId)?.name || 'Unknown product';
+    }
+    if (promotion.productCategory) {
+      return `All ${promotion.productCategory} products`;
+    }
+    return 'All products';
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-muted rounded w-1/3 mb-4"></div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 fade-in">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-2xl font-semibold text-card-foreground">Promotions & Discounts</h3>
+          <p className="text-muted-foreground">
+            Automatic discounts applied at the till. Only the best promotion applies to each line.
+          </p>
+        </div>
+        {canEdit && (
+          <Button onClick={() => setCreateOpen(true)} data-testid="button-new-promotion">
+            <Plus className="w-4 h-4 mr-2" />
+            New Promotion
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Percent className="w-5 h-5 mr-2" />
+            Promotions
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {promotions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No promotions yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border text-left text-muted-foreground">
+                    <th className="py-2 pr-4">Name</th>
+                    <th className="py-2 pr-4">Offer</th>
+                    <th className="py-2 pr-4">Applies To</th>
+                    <th className="py-2 pr-4">Hours</th>
+                    <th className="py-2 pr-4">Dates</th>
+                    <th className="py-2 pr-4">Status</th>
+                    {canEdit && <th className="py-2 text-right">Actions</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {promotions.map((promotion, index) => (
+                    <tr key={promotion.id} className="border-b border-border" data-testid={`row-promotion-${index}`}>
+                      <td className="py-2 pr-4 font-medium">
+                        {promotion.name}
+                        {!promotion.stationId && <Badge variant="outline" className="ml-2">All stations</Badge>}
+                      </td>
+                      <td className="py-2 pr-4">{describeOffer(promotion)}</td>
+                      <td className="py-2 pr-4">{describeScope(promotion)}</td>
+                      <td className="py-2 pr-4">
+                        {promotion.startTime && promotion.endTime ? (
+                          <span className="flex items-center">
+                            <Clock className="w-3 h-3 mr-1" />
+                            {promotion.startTime} - {promotion.endTime}
+                          </span>
+                        ) : 'All day'}
+                      </td>
+                      <td className="py-2 pr-4 text-muted-foreground">
+                        {new Date(promotion.validFrom).toLocaleDateString()}
+                        {' - '}
+                        {promotion.validTo ? new Date(promotion.validTo).toLocaleDateString() : 'Open-ended'}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {isPromotionActive(promotion) ? (
+                          <Badge className="bg-green-100 text-green-800">Running</Badge>
+                        ) : promotion.isActive ? (
+                          <Badge variant="outline">Scheduled</Badge>
+                        ) : (
+                          <Badge variant="secondary">Paused</Badge>
+                        )}
+                      </td>
+                      {canEdit && (
+                        <td className="py-2 text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <Switch
+                              checked={!!promotion.isActive}
+                              onCheckedChange={() => toggleMutation.mutate(promotion)}
+                              data-testid={`switch-promotion-${index}`}
+                            />
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteMutation.mutate(promotion.id)}
+                              className="text-red-600 hover:text-red-800 p-1"
+                              title="Delete Promotion"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {canEdit && user?.stationId && <DiscountApprovalCard stationId={user.stationId} />}
+
+      {createOpen && (
+        <PromotionDialog
+          products={products}
+          onClose={() => setCreateOpen(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+function PromotionDialog({ products, onClose }: { products: Product[]; onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [type, setType] = useState<Promotion['type']>("percentage");
+  const [value, setValue] = useState("");
+  const [buyQuantity, setBuyQuantity] = useState("");
+  const [getQuantity, setGetQuantity] = useState("");
+  const [productId, setProductId] = useState(ANY);
+  const [productCategory, setProductCategory] = useState(ANY);
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [validFrom, setValidFrom] = useState(new Date().toISOString().split('T')[0]);
+  const [validTo, setValidTo] = useState("");
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/promotions", {
+        name,
+        type,
+        value: type === 'buy_x_get_y' ? 0 : value,
+        buyQuantity: type === 'buy_x_get_y' ? buyQuantity : null,
+        getQuantity: type === 'buy_x_get_y' ? getQuantity : null,
+        productId: productId === ANY ? null : productId,
+        productCategory: productId === ANY && productCategory !== ANY ? productCategory : null,
+        startTime: startTime || null,
+        endTime: endTime || null,
+        validFrom,
+        // A promotion runs through the whole of its last day
+        validTo: validTo ? `${validTo}T23:59:59` : null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Promotion created" });
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to create promotion", variant: "destructive" });
+    },
+  });
+
+  const isValid = name.trim() && (type === 'buy_x_get_y' ? buyQuantity && getQuantity : value)
+    && !startTime === !endTime;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Promotion</DialogTitle>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="col-span-2">
+            <Label>Name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Night Diesel Offer" data-testid="input-promotion-name" />
+          </div>
+          <div>
+            <Label>Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as Promotion['type'])}>
+              <SelectTrigger data-testid="select-promotion-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PROMOTION_TYPE_LABELS) as Promotion['type'][]).map((promotionType) => (
+                  <SelectItem key={promotionType} value={promotionType}>{PROMOTION_TYPE_LABELS[promotionType]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {type === 'buy_x_get_y' ? (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label>Buy</Label>
+                <Input type="number" min="1" step="1" value={buyQuantity} onChange={(e) => setBuyQuantity(e.target.value)} data-testid="input-promotion-buy" />
+              </div>
+              <div>
+                <Label>Get free</Label>
+                <Input type="number" min="1" step="1" value={getQuantity} onChange={(e) => setGetQuantity(e.target.value)} data-testid="input-promotion-get" />
+              </div>
+            </div>
+          ) : (
+            <div>
+              <Label>{type === 'percentage' ? "Percent off" : "Amount off per unit"}</Label>
+              <Input type="number" min="0" step="0.01" value={value} onChange={(e) => setValue(e.target.value)} data-testid="input-promotion-value" />
+            </div>
+          )}
+          <div>
+            <Label>Product</Label>
+            <Select value={productId} onValueChange={setProductId}>
+              <SelectTrigger data-testid="select-promotion-product">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any product</SelectItem>
+                {products.map((product) => (
+                  <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Category</Label>
+            <Select value={productCategory} onValueChange={setProductCategory} disabled={productId !== ANY}>
+              <SelectTrigger data-testid="select-promotion-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any category</SelectItem>
+                <SelectItem value="fuel">Fuel</SelectItem>
+                <SelectItem value="lubricant">Lubricant</SelectItem>
+                <SelectItem value="additive">Additive</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Daily start time (optional)</Label>
+            <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} data-testid="input-promotion-start-time" />
+          </div>
+          <div>
+            <Label>Daily end time (optional)</Label>
+            <Input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} data-testid="input-promotion-end-time" />
+          </div>
+          <div>
+            <Label>Valid from</Label>
+            <Input type="date" value={validFrom} onChange={(e) => setValidFrom(e.target.value)} data-testid="input-promotion-valid-from" />
+          </div>
+          <div>
+            <Label>Valid until (optional)</Label>
+            <Input type="date" value={validTo} onChange={(e) => setValidTo(e.target.value)} data-testid="input-promotion-valid-to" />
+          </div>
+        </div>
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!isValid || createMutation.isPending}
+            data-testid="button-save-promotion"
+          >
+            {createMutation.isPending ? "Saving..." : "Create Promotion"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DiscountApprovalCard({ stationId }: { stationId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [threshold, setThreshold] = useState("");
+
+  const { data: stationSettings } = useQuery<Settings>({
+    queryKey: ["/api/settings", stationId],
+  });
+
+  useEffect(() => {
+    setThreshold(stationSettings?.manualDiscountApprovalPercent ?? "5");
+  }, [stationSettings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Settings rows are created on first save
+      const method = stationSettings?.id ? "PUT" : "POST";
+      const response = await apiRequest(method, `/api/settings/${stationId}`, {
+        manualDiscountApprovalPercent: threshold,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Approval threshold saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings", stationId] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save threshold", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="w-5 h-5 mr-2" />
+          Manual Discount Approval
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-end gap-4">
+          <div className="w-48">
+            <Label>Cashier limit (% of line)</Label>
+            <Input
+              type="number"
+              min="0"
+              max="100"
+              step="0.5"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              data-testid="input-discount-threshold"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => saveMutation.mutate()}
+            disabled={threshold === "" || saveMutation.isPending}
+            data-testid="button-save-threshold"
+          >
+            Save
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground mt-2">
+          Manual discounts above this need a manager or admin to enter their credentials at the till.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -17,6 +17,7 @@ import { apiRequest } from "@/lib/api";
 import { Fuel, Settings, Eye, Edit, Trash2, Plus } from "lucide-react";
 import { DeleteConfirmation } from "@/components/ui/delete-confirmation";
 import { PrintActions } from "@/components/ui/print-actions";
+import type { Tank } from "@shared/schema";
 
 const pumpReadingSchema = z.object({
   pumpId: z.string().min(1, "Pump is required"),
@@ -31,14 +32,19 @@ const pumpConfigSchema = z.object({
   name: z.string().min(1, "Pump name is required"),
   pumpNumber: z.string().min(1, "Pump number is required"),
   productId: z.string().min(1, "Product is required"),
+  tankId: z.string(),
   isActive: z.boolean().default(true),
 });
 
+// Select value for pumps that let the sale pick a tank automatically
+const AUTO_TANK = "auto";
+
 interface Pump {
   id: string;
   name: string;
   pumpNumber: string;
   productId: string;
+  tankId: string | null;
   product?: { name: string; };
   isActive: boolean;
   stationId: string;
@@ -78,6 +84,7 @@ export default function PumpManagement() {
       name: "",
       pumpNumber: "",
       productId: "",
+      tankId: AUTO_TANK,
       isActive: true,
     },
   });
@@ -111,6 +118,13 @@ export default function PumpManagement() {
     queryFn: () => apiRequest("GET", "/api/products").then(res => res.json()),
   });
 
+  const { data: tanks = [] } = useQuery<Tank[]>({
+    queryKey: ["/api/tanks", user?.stationId],
+    enabled: !!user?.stationId,
+  });
+
+  const selectedPumpProductId = pumpForm.watch('productId');
+
   const createPumpMutation = useMutation({
     mutationFn: async (data: any) => {
       console.log("Creating pump with data:", data);
@@ -246,8 +260,9 @@ export default function PumpManagement() {
     },
   });
 
-  const onPumpSubmit = (data: any) => {
-    console.log("Pump form submission:", data);
+  const onPumpSubmit = (formData: any) => {
+    console.log("Pump form submission:", formData);
+    const data = { ...formData, tankId: formData.tankId === AUTO_TANK ? null : formData.tankId };
 
     if (editPumpId) {
       updatePumpMutation.mutate({ id: editPumpId, data });
@@ -267,6 +282,7 @@ export default function PumpManagement() {
       name: pump.name,
       pumpNumber: pump.pumpNumber,
       productId: pump.productId,
+      tankId: pump.tankId || AUTO_TANK,
       isActive: pump.isActive,
     });
     setPumpDialogOpen(true);
@@ -454,6 +470,31 @@ export default function PumpManagement() {
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={pumpForm.control}
+                    name="tankId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Draws From Tank</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select tank" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={AUTO_TANK}>Automatic (tank with most stock)</SelectItem>
+                            {tanks.filter(tank => tank.productId === selectedPumpProductId).map((tank) => (
+                              <SelectItem key={tank.id} value={tank.id}>
+                                {tank.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                   <div className="flex flex-col sm:flex-row justify-end space-y-2 sm:space-y-0 sm:space-x-2 pt-4">
                     <Button type="button" variant="outline" onClick={() => setPumpDialogOpen(false)} className="w-full sm:w-auto">
                       Cancel
@@ -642,6 +683,7 @@ export default function PumpManagement() {
                   <th className="text-left p-3 font-medium">Pump Name</th>
                   <th className="text-left p-3 font-medium">Number</th>
                   <th className="text-left p-3 font-medium">Product</th>
+                  <th className="text-left p-3 font-medium">Tank</th>
                   <th className="text-center p-3 font-medium">Status</th>
                   <th className="text-center p-3 font-medium">Actions</th>
                 </tr>
@@ -652,6 +694,7 @@ export default function PumpManagement() {
                     <td className="p-3 font-medium">{pump.name}</td>
                     <td className="p-3">{pump.pumpNumber}</td>
                     <td className="p-3">{pump.product?.name || 'Unknown'}</td>
+                    <td className="p-3">{tanks.find(tank => tank.id === pump.tankId)?.name || 'Automatic'}</td>
                     <td className="p-3 text-center">
                       <Badge variant={pump.isActive ? 'default' : 'secondary'}>
                         {pump.isActive ? 'Active' : 'Inactive'}
@@ -1,9 +1,9 @@
 
-import { useState } from "react";
+import { Fragment, useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import type { PurchaseOrder, Supplier, Product } from "@shared/schema";
+import { purchaseOrderTransitions, type PurchaseOrder, type PurchaseOrderItem, type PurchaseOrderCharge, type Supplier, type Product, type Tank, type Settings } from "@shared/schema";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -13,15 +13,17 @@ import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useCurrency } from "@/contexts/CurrencyContext";
 import { apiRequest } from "@/lib/api";
 import { Combobox } from "@/components/ui/combobox";
-import { Eye, Edit, Printer, Trash2, Plus, Download } from "lucide-react";
+import { Eye, Edit, Printer, Trash2, Plus, Download, PackageCheck, TrendingDown, History, Mail } from "lucide-react";
 import { useLocation } from "wouter";
 import { DeleteConfirmation } from "@/components/ui/delete-confirmation";
 import { PrintActions } from "@/components/ui/print-actions";
+import { standardVolume } from "@shared/volume";
 
 const lineItemSchema = z.object({
   productId: z.string().min(1, "Product is required"),
@@ -29,16 +31,45 @@ const lineItemSchema = z.object({
   unitPrice: z.string().min(1, "Unit price is required").refine((val) => parseFloat(val) > 0, "Unit price must be greater than 0"),
 });
 
+const chargeLineSchema = z.object({
+  chargeType: z.enum(["freight", "carriage", "handling", "insurance", "duty", "other"]),
+  description: z.string().optional(),
+  amount: z.string().min(1, "Amount is required").refine((val) => parseFloat(val) > 0, "Amount must be greater than 0"),
+  allocationMethod: z.enum(["quantity", "value"]),
+});
+
+type ChargeLine = z.infer<typeof chargeLineSchema>;
+
 const purchaseOrderSchema = z.object({
-  orderNumber: z.string().min(1, "Order number is required"),
+  orderNumber: z.string().optional(),
   supplierId: z.string().min(1, "Supplier is required"),
   orderDate: z.string().min(1, "Order date is required"),
   expectedDeliveryDate: z.string().optional(),
-  status: z.string().default("pending"),
   items: z.array(lineItemSchema).min(1, "At least one item is required"),
+  charges: z.array(chargeLineSchema).default([]),
   notes: z.string().optional(),
 });
 
+const statusLabels: Record<PurchaseOrder['status'], string> = {
+  draft: "Draft",
+  submitted: "Submitted",
+  approved: "Approved",
+  sent: "Sent",
+  partially_received: "Partially Received",
+  closed: "Closed",
+  cancelled: "Cancelled",
+};
+
+const statusStyles: Record<PurchaseOrder['status'], string> = {
+  draft: "bg-gray-100 text-gray-800",
+  submitted: "bg-yellow-100 text-yellow-800",
+  approved: "bg-indigo-100 text-indigo-800",
+  sent: "bg-purple-100 text-purple-800",
+  partially_received: "bg-blue-100 text-blue-800",
+  closed: "bg-green-100 text-green-800",
+  cancelled: "",
+};
+
 export default function PurchaseOrders() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -51,20 +82,24 @@ export default function PurchaseOrders() {
   const [editOrderId, setEditOrderId] = useState<string | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [orderToDelete, setOrderToDelete] = useState<PurchaseOrder | null>(null);
+  const [orderToReceive, setOrderToReceive] = useState<PurchaseOrder | null>(null);
+  const [reorderOpen, setReorderOpen] = useState(false);
+  const [orderForStatus, setOrderForStatus] = useState<PurchaseOrder | null>(null);
+  const [orderToDispatch, setOrderToDispatch] = useState<PurchaseOrder | null>(null);
 
   const form = useForm({
     resolver: zodResolver(purchaseOrderSchema),
     defaultValues: {
-      orderNumber: `PO-${Date.now()}`,
+      orderNumber: "",
       supplierId: "",
       orderDate: new Date().toISOString().split('T')[0],
       expectedDeliveryDate: "",
-      status: "pending",
       items: [{
         productId: "",
         quantity: "",
         unitPrice: "",
       }],
+      charges: [] as ChargeLine[],
       notes: "",
     },
   });
@@ -93,13 +128,11 @@ export default function PurchaseOrders() {
       }));
 
       const orderData = {
-        orderNumber: data.orderNumber,
         stationId: user.stationId,
         supplierId: data.supplierId,
         userId: user.id,
         orderDate: new Date(data.orderDate).toISOString(),
         expectedDeliveryDate: data.expectedDeliveryDate ? new Date(data.expectedDeliveryDate).toISOString() : null,
-        status: data.status,
         currencyCode: currencyConfig.code,
         subtotal: subtotal.toString(),
         taxAmount: taxAmount.toString(),
@@ -110,7 +143,7 @@ export default function PurchaseOrders() {
       console.log("Final order data being sent:", orderData);
       console.log("Items being sent:", itemsWithTotals);
       
-      const response = await apiRequest("POST", "/api/purchase-orders", { order: orderData, items: itemsWithTotals });
+      const response = await apiRequest("POST", "/api/purchase-orders", { order: orderData, items: itemsWithTotals, charges: data.charges });
       if (!response.ok) {
         const error = await response.json().catch(() => ({ message: response.statusText }));
         throw new Error(error.message || 'Failed to create purchase order');
@@ -124,16 +157,16 @@ export default function PurchaseOrders() {
       });
       setOpen(false);
       form.reset({
-        orderNumber: `PO-${Date.now()}`,
+        orderNumber: "",
         supplierId: "",
         orderDate: new Date().toISOString().split('T')[0],
         expectedDeliveryDate: "",
-        status: "pending",
         items: [{
           productId: "",
           quantity: "",
           unitPrice: "",
         }],
+        charges: [],
         notes: "",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders", user?.stationId] });
@@ -173,7 +206,6 @@ export default function PurchaseOrders() {
         userId: user?.id,
         orderDate: new Date(data.orderDate).toISOString(),
         expectedDeliveryDate: data.expectedDeliveryDate ? new Date(data.expectedDeliveryDate).toISOString() : null,
-        status: data.status,
         currencyCode: currencyConfig.code,
         subtotal: subtotal.toString(),
         taxAmount: taxAmount.toString(),
@@ -181,7 +213,7 @@ export default function PurchaseOrders() {
         notes: data.notes || "",
       };
 
-      const response = await apiRequest("PUT", `/api/purchase-orders/${id}`, { order: orderData, items: itemsWithTotals });
+      const response = await apiRequest("PUT", `/api/purchase-orders/${id}`, { order: orderData, items: itemsWithTotals, charges: data.charges });
       if (!response.ok) throw new Error('Failed to update purchase order');
       return response.json();
     },
@@ -228,7 +260,7 @@ export default function PurchaseOrders() {
     console.log("Form submitted with data:", data);
     
     // Validate that all required fields are present
-    if (!data.orderNumber || !data.supplierId || !data.orderDate) {
+    if (!data.supplierId || !data.orderDate) {
       toast({
         title: "Validation Error",
         description: "Please fill in all required fields",
@@ -321,6 +353,40 @@ export default function PurchaseOrders() {
     }
   };
 
+  // The list only carries order headers, so load the lines before opening the draft for editing
+  const handleEditOrder = async (order: PurchaseOrder) => {
+    try {
+      const response = await apiRequest("GET", `/api/purchase-orders/detail/${order.id}`);
+      const detail: PurchaseOrder & { items: PurchaseOrderItem[]; charges: PurchaseOrderCharge[] } = await response.json();
+      setEditOrderId(order.id);
+      form.reset({
+        orderNumber: detail.orderNumber || "",
+        supplierId: detail.supplierId || "",
+        orderDate: detail.orderDate ? new Date(detail.orderDate).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
+        expectedDeliveryDate: detail.expectedDeliveryDate ? new Date(detail.expectedDeliveryDate).toISOString().split('T')[0] : '',
+        items: detail.items.map((item) => ({
+          productId: item.productId,
+          quantity: parseFloat(item.quantity).toString(),
+          unitPrice: parseFloat(item.unitPrice).toString(),
+        })),
+        charges: detail.charges.map((charge) => ({
+          chargeType: charge.chargeType,
+          description: charge.description || "",
+          amount: parseFloat(charge.amount).toString(),
+          allocationMethod: charge.allocationMethod,
+        })),
+        notes: detail.notes || "",
+      });
+      setOpen(true);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load purchase order",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleViewOrder = (order: PurchaseOrder) => {
     navigate(`/purchase-invoice/${order.id}`);
   };
@@ -338,8 +404,8 @@ export default function PurchaseOrders() {
     );
   }
 
-  const pendingOrders = filteredOrders.filter((o: PurchaseOrder) => o.status === 'pending').length;
-  const deliveredOrders = filteredOrders.filter((o: PurchaseOrder) => o.status === 'delivered').length;
+  const openOrders = filteredOrders.filter((o: PurchaseOrder) => o.status !== 'closed' && o.status !== 'cancelled').length;
+  const closedOrders = filteredOrders.filter((o: PurchaseOrder) => o.status === 'closed').length;
   const totalValue = filteredOrders.reduce((sum: number, o: PurchaseOrder) => sum + parseFloat(o.totalAmount || '0'), 0);
 
   return (
@@ -350,271 +416,293 @@ export default function PurchaseOrders() {
           <h3 className="text-2xl font-semibold text-card-foreground">Purchase Orders</h3>
           <p className="text-muted-foreground">Manage fuel procurement and supplier orders</p>
         </div>
-        <Dialog open={open} onOpenChange={(isOpen) => { 
-          setOpen(isOpen);
-          if (!isOpen) { 
-            setEditOrderId(null); 
-            form.reset({
-              orderNumber: `PO-${Date.now()}`,
-              supplierId: "",
-              orderDate: new Date().toISOString().split('T')[0],
-              expectedDeliveryDate: "",
-              status: "pending",
-              items: [{
-                productId: "",
-                quantity: "",
-                unitPrice: "",
-              }],
-              notes: "",
-            });
-          } 
-        }}>
-          <DialogTrigger asChild>
-            <Button className="w-full sm:w-auto">
-              <Plus className="w-4 h-4 mr-2" />
-              New Purchase Order
+        <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2 w-full sm:w-auto">
+          {(user?.role === 'admin' || user?.role === 'manager') && (
+            <Button variant="outline" onClick={() => setReorderOpen(true)} className="w-full sm:w-auto" data-testid="button-reorder-suggestions">
+              <TrendingDown className="w-4 h-4 mr-2" />
+              Reorder Suggestions
             </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>{editOrderId ? "Edit Purchase Order" : "Create New Purchase Order"}</DialogTitle>
-            </DialogHeader>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="orderNumber"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Order Number *</FormLabel>
-                        <FormControl>
-                          <Input placeholder="PO-123456" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="supplierId"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Supplier *</FormLabel>
-                        <FormControl>
-                          <Combobox
-                            options={suppliers.map(s => ({ value: s.id, label: s.name }))}
-                            value={field.value}
-                            onValueChange={field.onChange}
-                            placeholder="Select supplier"
-                            emptyMessage="No suppliers found"
+          )}
+          <Dialog open={open} onOpenChange={(isOpen) => { 
+            setOpen(isOpen);
+            if (!isOpen) { 
+              setEditOrderId(null); 
+              form.reset({
+                orderNumber: "",
+                supplierId: "",
+                orderDate: new Date().toISOString().split('T')[0],
+                expectedDeliveryDate: "",
+                items: [{
+                  productId: "",
+                  quantity: "",
+                  unitPrice: "",
+                }],
+                charges: [],
+                notes: "",
+              });
+            } 
+          }}>
+            <DialogTrigger asChild>
+              <Button className="w-full sm:w-auto">
+                <Plus className="w-4 h-4 mr-2" />
+                New Purchase Order
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{editOrderId ? "Edit Purchase Order" : "Create New Purchase Order"}</DialogTitle>
+              </DialogHeader>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="orderNumber"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Order Number</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Assigned on save" {...field} readOnly disabled />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="supplierId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Supplier *</FormLabel>
+                          <FormControl>
+                            <Combobox
+                              options={suppliers.map(s => ({ value: s.id, label: s.name }))}
+                              value={field.value}
+                              onValueChange={field.onChange}
+                              placeholder="Select supplier"
+                              emptyMessage="No suppliers found"
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="orderDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Order Date *</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="expectedDeliveryDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Expected Delivery Date</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  {/* Line Items Section */}
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-lg font-medium">Order Items</h3>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          const currentItems = form.getValues("items");
+                          form.setValue("items", [...currentItems, { productId: "", quantity: "", unitPrice: "" }]);
+                        }}
+                        data-testid="button-add-item"
+                      >
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Item
+                      </Button>
+                    </div>
+                  
+                    {form.watch("items").map((_, index) => (
+                      <div key={index} className="grid grid-cols-12 gap-2 items-end border rounded-lg p-4">
+                        <div className="col-span-5">
+                          <FormField
+                            control={form.control}
+                            name={`items.${index}.productId`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Product *</FormLabel>
+                                <FormControl>
+                                  <Select onValueChange={field.onChange} value={field.value}>
+                                    <SelectTrigger data-testid={`select-product-${index}`}>
+                                      <SelectValue placeholder="Select product" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {products.map((product) => (
+                                        <SelectItem key={product.id} value={product.id}>
+                                          {product.name} - {formatCurrency(parseFloat(product.currentPrice))}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
                           />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="orderDate"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Order Date *</FormLabel>
-                        <FormControl>
-                          <Input type="date" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
+                        </div>
+                        <div className="col-span-2">
+                          <FormField
+                            control={form.control}
+                            name={`items.${index}.quantity`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Quantity *</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    step="0.001"
+                                    placeholder="0"
+                                    {...field}
+                                    data-testid={`input-quantity-${index}`}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                        <div className="col-span-3">
+                          <FormField
+                            control={form.control}
+                            name={`items.${index}.unitPrice`}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Unit Price *</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    step="0.01"
+                                    placeholder="0.00"
+                                    {...field}
+                                    data-testid={`input-unitprice-${index}`}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                        <div className="col-span-2 flex items-center justify-between">
+                          <div className="text-sm font-medium">
+                            {formatCurrency(
+                              (parseFloat(form.watch(`items.${index}.quantity`) || '0') * 
+                               parseFloat(form.watch(`items.${index}.unitPrice`) || '0'))
+                            )}
+                          </div>
+                          {form.watch("items").length > 1 && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                const currentItems = form.getValues("items");
+                                form.setValue("items", currentItems.filter((_, i) => i !== index));
+                              }}
+                              data-testid={`button-remove-item-${index}`}
+                            >
+                              <Trash2 className="w-4 h-4 text-red-500" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  
+                    {/* Totals Display */}
+                    <div className="bg-muted/50 rounded-lg p-4 space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <span>Subtotal:</span>
+                        <span data-testid="text-calculated-subtotal">
+                          {formatCurrency(
+                            form.watch("items").reduce((sum, item) => 
+                              sum + (parseFloat(item.quantity || '0') * parseFloat(item.unitPrice || '0')), 0
+                            )
+                          )}
+                        </span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span>Tax (0%):</span>
+                        <span>
+                          {formatCurrency(0)}
+                        </span>
+                      </div>
+                      <div className="flex justify-between font-semibold">
+                        <span>Total:</span>
+                        <span data-testid="text-calculated-total">
+                          {formatCurrency(
+                            form.watch("items").reduce((sum, item) => 
+                              sum + (parseFloat(item.quantity || '0') * parseFloat(item.unitPrice || '0')), 0
+                            )
+                          )}
+                        </span>
+                      </div>
+                      {form.watch("charges").length > 0 && (
+                        <div className="flex justify-between text-sm text-muted-foreground">
+                          <span>Additional charges (landed cost):</span>
+                          <span data-testid="text-calculated-charges">
+                            {formatCurrency(form.watch("charges").reduce((sum, charge) => sum + parseFloat(charge.amount || '0'), 0))}
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Landed-cost lines: spread over the items for costing, not added to the supplier's total */}
+                  <ChargeLinesEditor
+                    charges={form.watch("charges")}
+                    onChange={(charges) => form.setValue("charges", charges)}
                   />
                   <FormField
                     control={form.control}
-                    name="expectedDeliveryDate"
+                    name="notes"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Expected Delivery Date</FormLabel>
+                        <FormLabel>Notes</FormLabel>
                         <FormControl>
-                          <Input type="date" {...field} />
+                          <Textarea placeholder="Order details and special instructions" {...field} />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
-                </div>
-                {/* Line Items Section */}
-                <div className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <h3 className="text-lg font-medium">Order Items</h3>
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="sm"
-                      onClick={() => {
-                        const currentItems = form.getValues("items");
-                        form.setValue("items", [...currentItems, { productId: "", quantity: "", unitPrice: "" }]);
-                      }}
-                      data-testid="button-add-item"
-                    >
-                      <Plus className="w-4 h-4 mr-2" />
-                      Add Item
+                  <div className="flex flex-col sm:flex-row justify-end space-y-2 sm:space-y-0 sm:space-x-2 pt-4">
+                    <Button type="button" variant="outline" onClick={() => { 
+                        setOpen(false); 
+                        setEditOrderId(null); 
+                      }} className="w-full sm:w-auto">
+                        Cancel
+                      </Button>
+                    <Button type="submit" disabled={createPurchaseOrderMutation.isPending || updatePurchaseOrderMutation.isPending} className="w-full sm:w-auto">
+                      {editOrderId ? "Update Purchase Order" : "Create Purchase Order"}
                     </Button>
                   </div>
-                  
-                  {form.watch("items").map((_, index) => (
-                    <div key={index} className="grid grid-cols-12 gap-2 items-end border rounded-lg p-4">
-                      <div className="col-span-5">
-                        <FormField
-                          control={form.control}
-                          name={`items.${index}.productId`}
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Product *</FormLabel>
-                              <FormControl>
-                                <Select onValueChange={field.onChange} value={field.value}>
-                                  <SelectTrigger data-testid={`select-product-${index}`}>
-                                    <SelectValue placeholder="Select product" />
-                                  </SelectTrigger>
-                                  <SelectContent>
-                                    {products.map((product) => (
-                                      <SelectItem key={product.id} value={product.id}>
-                                        {product.name} - {formatCurrency(parseFloat(product.currentPrice))}
-                                      </SelectItem>
-                                    ))}
-                                  </SelectContent>
-                                </Select>
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-                      </div>
-                      <div className="col-span-2">
-                        <FormField
-                          control={form.control}
-                          name={`items.${index}.quantity`}
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Quantity *</FormLabel>
-                              <FormControl>
-                                <Input
-                                  type="number"
-                                  step="0.001"
-                                  placeholder="0"
-                                  {...field}
-                                  data-testid={`input-quantity-${index}`}
-                                />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-                      </div>
-                      <div className="col-span-3">
-                        <FormField
-                          control={form.control}
-                          name={`items.${index}.unitPrice`}
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Unit Price *</FormLabel>
-                              <FormControl>
-                                <Input
-                                  type="number"
-                                  step="0.01"
-                                  placeholder="0.00"
-                                  {...field}
-                                  data-testid={`input-unitprice-${index}`}
-                                />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
-                      </div>
-                      <div className="col-span-2 flex items-center justify-between">
-                        <div className="text-sm font-medium">
-                          {formatCurrency(
-                            (parseFloat(form.watch(`items.${index}.quantity`) || '0') * 
-                             parseFloat(form.watch(`items.${index}.unitPrice`) || '0'))
-                          )}
-                        </div>
-                        {form.watch("items").length > 1 && (
-                          <Button
-                            type="button"
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => {
-                              const currentItems = form.getValues("items");
-                              form.setValue("items", currentItems.filter((_, i) => i !== index));
-                            }}
-                            data-testid={`button-remove-item-${index}`}
-                          >
-                            <Trash2 className="w-4 h-4 text-red-500" />
-                          </Button>
-                        )}
-                      </div>
-                    </div>
-                  ))}
-                  
-                  {/* Totals Display */}
-                  <div className="bg-muted/50 rounded-lg p-4 space-y-2">
-                    <div className="flex justify-between text-sm">
-                      <span>Subtotal:</span>
-                      <span data-testid="text-calculated-subtotal">
-                        {formatCurrency(
-                          form.watch("items").reduce((sum, item) => 
-                            sum + (parseFloat(item.quantity || '0') * parseFloat(item.unitPrice || '0')), 0
-                          )
-                        )}
-                      </span>
-                    </div>
-                    <div className="flex justify-between text-sm">
-                      <span>Tax (0%):</span>
-                      <span>
-                        {formatCurrency(0)}
-                      </span>
-                    </div>
-                    <div className="flex justify-between font-semibold">
-                      <span>Total:</span>
-                      <span data-testid="text-calculated-total">
-                        {formatCurrency(
-                          form.watch("items").reduce((sum, item) => 
-                            sum + (parseFloat(item.quantity || '0') * parseFloat(item.unitPrice || '0')), 0
-                          )
-                        )}
-                      </span>
-                    </div>
-                  </div>
-                </div>
-                <FormField
-                  control={form.control}
-                  name="notes"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Notes</FormLabel>
-                      <FormControl>
-                        <Textarea placeholder="Order details and special instructions" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <div className="flex flex-col sm:flex-row justify-end space-y-2 sm:space-y-0 sm:space-x-2 pt-4">
-                  <Button type="button" variant="outline" onClick={() => { 
-                      setOpen(false); 
-                      setEditOrderId(null); 
-                    }} className="w-full sm:w-auto">
-                      Cancel
-                    </Button>
-                  <Button type="submit" disabled={createPurchaseOrderMutation.isPending || updatePurchaseOrderMutation.isPending} className="w-full sm:w-auto">
-                    {editOrderId ? "Update Purchase Order" : "Create Purchase Order"}
-                  </Button>
-                </div>
-              </form>
-            </Form>
-          </DialogContent>
-        </Dialog>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Purchase Order Stats */}
@@ -630,17 +718,17 @@ export default function PurchaseOrders() {
         <Card>
           <CardContent className="p-4">
             <div className="text-xl md:text-2xl font-bold text-orange-600">
-              {pendingOrders}
+              {openOrders}
             </div>
-            <div className="text-sm text-muted-foreground">Pending Orders</div>
+            <div className="text-sm text-muted-foreground">Open Orders</div>
           </CardContent>
         </Card>
         <Card>
           <CardContent className="p-4">
             <div className="text-xl md:text-2xl font-bold text-green-600">
-              {deliveredOrders}
+              {closedOrders}
             </div>
-            <div className="text-sm text-muted-foreground">Delivered Orders</div>
+            <div className="text-sm text-muted-foreground">Closed Orders</div>
           </CardContent>
         </Card>
         <Card>
@@ -672,9 +760,9 @@ export default function PurchaseOrders() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="delivered">Delivered</SelectItem>
-                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                  {Object.entries(statusLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -713,13 +801,16 @@ export default function PurchaseOrders() {
                       </td>
                       <td className="p-3 text-center">
                         <Badge
-                          variant={order.status === 'delivered' ? 'default' :
-                                  order.status === 'pending' ? 'secondary' : 'destructive'}
-                          className={order.status === 'delivered' ? 'bg-green-100 text-green-800' :
-                                    order.status === 'pending' ? 'bg-yellow-100 text-yellow-800' : ''}
+                          variant={order.status === 'cancelled' ? 'destructive' : 'secondary'}
+                          className={statusStyles[order.status]}
                         >
-                          {order.status}
+                          {statusLabels[order.status]}
                         </Badge>
+                        {order.sentAt && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            Sent {new Date(order.sentAt).toLocaleDateString('en-GB')}
+                          </div>
+                        )}
                       </td>
                       <td className="p-3 text-center">
                         <div className="flex items-center space-x-1 justify-center">
@@ -735,27 +826,48 @@ export default function PurchaseOrders() {
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => {
-                              setEditOrderId(order.id);
-                              form.reset({
-                                orderNumber: order.orderNumber || "",
-                                supplierId: order.supplierId || "",
-                                orderDate: order.orderDate ? new Date(order.orderDate).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
-                                expectedDeliveryDate: order.expectedDeliveryDate ? new Date(order.expectedDeliveryDate).toISOString().split('T')[0] : '',
-                                status: order.status || "pending",
-                                items: order.items || [{
-                                  productId: "",
-                                  quantity: "",
-                                  unitPrice: "",
-                                }],
-                                notes: order.notes || "",
-                              });
-                            }}
-                            className="p-2 text-green-600 hover:text-green-800"
-                            title="Edit order"
+                            onClick={() => setOrderForStatus(order)}
+                            className="p-2 text-orange-600 hover:text-orange-800"
+                            title="Status and history"
+                            data-testid={`button-status-${order.id}`}
                           >
-                            <Edit className="w-4 h-4" />
+                            <History className="w-4 h-4" />
                           </Button>
+                          {(order.status === 'approved' || order.status === 'sent' || order.status === 'partially_received') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setOrderToDispatch(order)}
+                              className="p-2 text-sky-600 hover:text-sky-800"
+                              title="Email to supplier"
+                              data-testid={`button-dispatch-${order.id}`}
+                            >
+                              <Mail className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {(order.status === 'approved' || order.status === 'sent' || order.status === 'partially_received') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setOrderToReceive(order)}
+                              className="p-2 text-purple-600 hover:text-purple-800"
+                              title="Receive goods"
+                              data-testid={`button-receive-${order.id}`}
+                            >
+                              <PackageCheck className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {order.status === 'draft' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEditOrder(order)}
+                              className="p-2 text-green-600 hover:text-green-800"
+                              title="Edit order"
+                            >
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                          )}
                           <PrintActions
                             type="purchaseOrder"
                             id={order.id}
@@ -763,15 +875,17 @@ export default function PurchaseOrders() {
                             variant="outline"
                             size="sm"
                           />
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleDeleteOrder(order)}
-                            className="p-2 text-red-600 hover:text-red-800"
-                            title="Delete Order"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
+                          {order.status === 'draft' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDeleteOrder(order)}
+                              className="p-2 text-red-600 hover:text-red-800"
+                              title="Delete Order"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -789,6 +903,8 @@ export default function PurchaseOrders() {
         </CardContent>
       </Card>
 
+      {user?.role === 'admin' && user.stationId && <ApprovalLimitCard stationId={user.stationId} />}
+
       {/* Delete Confirmation Dialog */}
       <DeleteConfirmation
         isOpen={deleteDialogOpen}
@@ -799,6 +915,937 @@ export default function PurchaseOrders() {
         itemName={orderToDelete?.orderNumber || "purchase order"}
         isLoading={deletePurchaseOrderMutation.isPending}
       />
+
+      {orderToReceive && (
+        <ReceiveGoodsDialog order={orderToReceive} onClose={() => setOrderToReceive(null)} />
+      )}
+
+      {orderToDispatch && (
+        <DispatchOrderDialog
+          order={orderToDispatch}
+          supplier={suppliers.find((s) => s.id === orderToDispatch.supplierId)}
+          onClose={() => setOrderToDispatch(null)}
+        />
+      )}
+
+      {orderForStatus && (
+        <OrderStatusDialog order={orderForStatus} onClose={() => setOrderForStatus(null)} />
+      )}
+
+      {reorderOpen && user?.stationId && (
+        <ReorderSuggestionsDialog stationId={user.stationId} suppliers={suppliers} onClose={() => setReorderOpen(false)} />
+      )}
+    </div>
+  );
+}
+
+type ReceiptLine = { quantity: string; tankId: string; dipBefore: string; dipAfter: string; temperature: string; density: string };
+
+// Records a delivery against the order's outstanding lines and dips it into the chosen tanks
+function ReceiveGoodsDialog({ order, onClose }: { order: PurchaseOrder; onClose: () => void }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [lines, setLines] = useState<Record<string, ReceiptLine>>({});
+  const [deliveryDate, setDeliveryDate] = useState(new Date().toISOString().split('T')[0]);
+  const [notes, setNotes] = useState("");
+  const [charges, setCharges] = useState<ChargeLine[]>([]);
+
+  const { data: detail } = useQuery<PurchaseOrder & { items: Array<PurchaseOrderItem & { product?: Product }> }>({
+    queryKey: ["/api/purchase-orders/detail", order.id],
+  });
+
+  const { data: tanks = [] } = useQuery<Tank[]>({
+    queryKey: ["/api/tanks", user?.stationId],
+    enabled: !!user?.stationId,
+  });
+
+  const outstandingFor = (item: PurchaseOrderItem) =>
+    parseFloat(item.quantity) - parseFloat(item.receivedQuantity || '0');
+  const openItems = (detail?.items ?? []).filter((item) => outstandingFor(item) > 0);
+
+  // Default each line to the full outstanding quantity and its linked (or only) tank
+  useEffect(() => {
+    if (!detail) return;
+    setLines(Object.fromEntries(detail.items.map((item) => {
+      const productTanks = tanks.filter((tank) => tank.productId === item.productId);
+      const tankId = item.tankId || (productTanks.length === 1 ? productTanks[0].id : "");
+      return [item.id, {
+        quantity: outstandingFor(item).toString(),
+        tankId,
+        dipBefore: "",
+        dipAfter: "",
+        temperature: "",
+        density: item.product?.density || "",
+      }];
+    })));
+  }, [detail, tanks]);
+
+  const updateLine = (itemId: string, change: Partial<ReceiptLine>) =>
+    setLines((current) => ({ ...current, [itemId]: { ...current[itemId], ...change } }));
+
+  // Preview of what the dips say was delivered, corrected to 15°C when a temperature is given
+  const measurementFor = (item: PurchaseOrderItem) => {
+    const line = lines[item.id];
+    if (!line?.dipBefore || !line?.dipAfter) return null;
+    const observed = parseFloat(line.dipAfter) - parseFloat(line.dipBefore);
+    if (isNaN(observed)) return null;
+    const standard = line.temperature && line.density
+      ? standardVolume(observed, parseFloat(line.density), parseFloat(line.temperature))
+      : observed;
+    return { observed, standard, variance: standard - parseFloat(line.quantity || '0') };
+  };
+
+  const receiveMutation = useMutation({
+    mutationFn: async () => {
+      const items = openItems
+        .map((item) => {
+          const line = lines[item.id];
+          const measured = !!line?.tankId && !!line.dipBefore && !!line.dipAfter;
+          return {
+            orderItemId: item.id,
+            quantity: parseFloat(line?.quantity || '0'),
+            tankId: line?.tankId || undefined,
+            dipBefore: measured ? line.dipBefore : undefined,
+            dipAfter: measured ? line.dipAfter : undefined,
+            temperature: measured && line.temperature ? line.temperature : undefined,
+            density: measured && line.density ? line.density : undefined,
+          };
+        })
+        .filter((item) => item.quantity > 0);
+      const response = await apiRequest("POST", `/api/purchase-orders/${order.id}/receive`, {
+        deliveryDate,
+        notes: notes.trim() || undefined,
+        items,
+        charges: charges.length > 0 ? charges : undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Goods received",
+        description: result.order.status === 'closed'
+          ? `Purchase order ${order.orderNumber} is fully received and closed`
+          : `Purchase order ${order.orderNumber} is partially received`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders", user?.stationId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders/detail", order.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tanks", user?.stationId] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to receive goods", variant: "destructive" });
+    },
+  });
+
+  const hasQuantity = openItems.some((item) => parseFloat(lines[item.id]?.quantity || '0') > 0);
+  const chargesValid = charges.every((charge) => parseFloat(charge.amount || '0') > 0);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[750px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receive Goods - {order.orderNumber}</DialogTitle>
+        </DialogHeader>
+        {!detail ? (
+          <div className="h-32 bg-muted rounded animate-pulse" />
+        ) : openItems.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Every line on this order has already been received.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted">
+                  <tr>
+                    <th className="text-left p-2 font-medium">Product</th>
+                    <th className="text-right p-2 font-medium">Ordered</th>
+                    <th className="text-right p-2 font-medium">Received</th>
+                    <th className="text-right p-2 font-medium">Invoiced Now</th>
+                    <th className="text-left p-2 font-medium">Into Tank</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {openItems.map((item) => {
+                    const productTanks = tanks.filter((tank) => tank.productId === item.productId);
+                    const measurement = measurementFor(item);
+                    return (
+                      <Fragment key={item.id}>
+                        <tr className={lines[item.id]?.tankId ? "" : "border-b border-border"}>
+                          <td className="p-2">{item.product?.name || 'Unknown Product'}</td>
+                          <td className="p-2 text-right">{parseFloat(item.quantity).toFixed(3)}</td>
+                          <td className="p-2 text-right">{parseFloat(item.receivedQuantity || '0').toFixed(3)}</td>
+                          <td className="p-2 w-32">
+                            <Input
+                              type="number"
+                              min="0"
+                              max={outstandingFor(item)}
+                              step="0.001"
+                              value={lines[item.id]?.quantity ?? ""}
+                              onChange={(e) => updateLine(item.id, { quantity: e.target.value })}
+                              data-testid={`input-receive-quantity-${item.id}`}
+                            />
+                          </td>
+                          <td className="p-2 w-56">
+                            {productTanks.length > 0 ? (
+                              <Select value={lines[item.id]?.tankId || ""} onValueChange={(tankId) => updateLine(item.id, { tankId })}>
+                                <SelectTrigger data-testid={`select-receive-tank-${item.id}`}>
+                                  <SelectValue placeholder="Select tank" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {productTanks.map((tank) => (
+                                    <SelectItem key={tank.id} value={tank.id} disabled={tank.status === 'maintenance'}>
+                                      {tank.name} ({parseFloat(tank.currentStock || '0').toFixed(0)} / {parseFloat(tank.capacity).toFixed(0)}){tank.status === 'maintenance' ? ' - out of service' : ''}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <span className="text-muted-foreground">
+                                {item.product?.category === 'fuel' ? 'No tank holds this product' : 'Not stored in a tank'}
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                        {lines[item.id]?.tankId && (
+                          <tr className="border-b border-border">
+                            <td colSpan={5} className="p-2 pt-0">
+                              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  placeholder="Dip before (L)"
+                                  value={lines[item.id].dipBefore}
+                                  onChange={(e) => updateLine(item.id, { dipBefore: e.target.value })}
+                                  data-testid={`input-dip-before-${item.id}`}
+                                />
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  placeholder="Dip after (L)"
+                                  value={lines[item.id].dipAfter}
+                                  onChange={(e) => updateLine(item.id, { dipAfter: e.target.value })}
+                                  data-testid={`input-dip-after-${item.id}`}
+                                />
+                                <Input
+                                  type="number"
+                                  step="0.1"
+                                  placeholder="Temperature (°C)"
+                                  value={lines[item.id].temperature}
+                                  onChange={(e) => updateLine(item.id, { temperature: e.target.value })}
+                                  data-testid={`input-temperature-${item.id}`}
+                                />
+                                <Input
+                                  type="number"
+                                  step="0.001"
+                                  placeholder="Density (kg/L)"
+                                  value={lines[item.id].density}
+                                  onChange={(e) => updateLine(item.id, { density: e.target.value })}
+                                  data-testid={`input-density-${item.id}`}
+                                />
+                              </div>
+                              {measurement && (
+                                <div className="flex flex-wrap gap-4 text-xs text-muted-foreground mt-2">
+                                  <span>Dipped: {measurement.observed.toFixed(3)} L</span>
+                                  <span>At 15°C: {measurement.standard.toFixed(3)} L</span>
+                                  <span className={measurement.variance < 0 ? "text-red-600 font-medium" : measurement.variance > 0 ? "text-green-600 font-medium" : ""}>
+                                    {measurement.variance < 0 ? "Short" : measurement.variance > 0 ? "Excess" : "Variance"}: {Math.abs(measurement.variance).toFixed(3)} L
+                                  </span>
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label>Delivery Date</Label>
+                <Input type="date" value={deliveryDate} onChange={(e) => setDeliveryDate(e.target.value)} data-testid="input-delivery-date" />
+              </div>
+              <div>
+                <Label>Notes</Label>
+                <Input placeholder="Tanker, driver, seal numbers..." value={notes} onChange={(e) => setNotes(e.target.value)} data-testid="input-receipt-notes" />
+              </div>
+            </div>
+            <ChargeLinesEditor charges={charges} onChange={setCharges} title="Delivery Charges" />
+          </div>
+        )}
+        <div className="flex justify-end space-x-2 pt-2">
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => receiveMutation.mutate()}
+            disabled={!hasQuantity || !chargesValid || receiveMutation.isPending}
+            data-testid="button-confirm-receive"
+          >
+            {receiveMutation.isPending ? "Receiving..." : "Receive Goods"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface TankForecast {
+  tankId: string;
+  tankName: string;
+  productId: string;
+  productName: string;
+  capacity: number;
+  currentStock: number;
+  minimumLevel: number;
+  averageDailySales: number;
+  daysToEmpty: number | null;
+  onOrder: number;
+  suggestedQuantity: number;
+}
+
+interface ReorderSuggestion {
+  supplierId: string | null;
+  supplierName: string | null;
+  lines: Array<TankForecast & { unitPrice: number }>;
+  totalAmount: number;
+}
+
+// Draft orders proposed from tank levels and sales velocity; each can be turned into a pending PO
+function ReorderSuggestionsDialog({ stationId, suppliers, onClose }: { stationId: string; suppliers: Supplier[]; onClose: () => void }) {
+  const { data, isLoading } = useQuery<{ forecasts: TankForecast[]; suggestions: ReorderSuggestion[] }>({
+    queryKey: ["/api/reorder-suggestions", stationId],
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reorder Suggestions</DialogTitle>
+        </DialogHeader>
+        <ReorderSettings stationId={stationId} />
+        {isLoading || !data ? (
+          <div className="h-32 bg-muted rounded animate-pulse" />
+        ) : (
+          <div className="space-y-6">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted">
+                  <tr>
+                    <th className="text-left p-2 font-medium">Tank</th>
+                    <th className="text-right p-2 font-medium">Stock / Capacity</th>
+                    <th className="text-right p-2 font-medium">Avg Daily Sales</th>
+                    <th className="text-right p-2 font-medium">Days to Empty</th>
+                    <th className="text-right p-2 font-medium">On Order</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.forecasts.map((forecast) => (
+                    <tr key={forecast.tankId} className="border-b border-border">
+                      <td className="p-2">{forecast.tankName} <span className="text-muted-foreground">({forecast.productName})</span></td>
+                      <td className="p-2 text-right">{forecast.currentStock.toFixed(0)} / {forecast.capacity.toFixed(0)}</td>
+                      <td className="p-2 text-right">{forecast.averageDailySales.toFixed(0)}</td>
+                      <td className={`p-2 text-right ${forecast.suggestedQuantity > 0 ? 'text-red-600 font-medium' : ''}`}>
+                        {forecast.daysToEmpty === null ? '-' : forecast.daysToEmpty.toFixed(1)}
+                      </td>
+                      <td className="p-2 text-right">{forecast.onOrder.toFixed(0)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {data.suggestions.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center">No tank needs reordering right now.</p>
+            ) : data.suggestions.map((suggestion) => (
+              <DraftOrderCard
+                key={suggestion.supplierId ?? 'unassigned'}
+                stationId={stationId}
+                suggestion={suggestion}
+                suppliers={suppliers}
+              />
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DraftOrderCard({ stationId, suggestion, suppliers }: { stationId: string; suggestion: ReorderSuggestion; suppliers: Supplier[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { formatCurrency } = useCurrency();
+  const [supplierId, setSupplierId] = useState(suggestion.supplierId ?? "");
+  const [quantities, setQuantities] = useState<Record<string, string>>(() =>
+    Object.fromEntries(suggestion.lines.map((line) => [line.tankId, line.suggestedQuantity.toString()]))
+  );
+  const [prices, setPrices] = useState<Record<string, string>>(() =>
+    Object.fromEntries(suggestion.lines.map((line) => [line.tankId, line.unitPrice ? line.unitPrice.toString() : ""]))
+  );
+
+  const items = suggestion.lines
+    .map((line) => {
+      const quantity = parseFloat(quantities[line.tankId] || '0');
+      const unitPrice = parseFloat(prices[line.tankId] || '0');
+      return {
+        productId: line.productId,
+        tankId: line.tankId,
+        quantity: quantity.toString(),
+        unitPrice: unitPrice.toString(),
+        totalPrice: (quantity * unitPrice).toString(),
+      };
+    })
+    .filter((item) => parseFloat(item.quantity) > 0);
+  const total = items.reduce((sum, item) => sum + parseFloat(item.totalPrice), 0);
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/purchase-orders", {
+        order: {
+          supplierId,
+          orderDate: new Date().toISOString(),
+          notes: "Raised from reorder suggestions",
+        },
+        items,
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Purchase order created",
+        description: `Draft ${result.order.orderNumber} raised for ${suppliers.find((s) => s.id === supplierId)?.name || 'the supplier'}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders", stationId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reorder-suggestions", stationId] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to create purchase order", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        {suggestion.supplierId ? (
+          <div className="font-medium">{suggestion.supplierName}</div>
+        ) : (
+          <div className="w-64">
+            <Select value={supplierId} onValueChange={setSupplierId}>
+              <SelectTrigger data-testid="select-reorder-supplier">
+                <SelectValue placeholder="No purchase history - pick a supplier" />
+              </SelectTrigger>
+              <SelectContent>
+                {suppliers.map((supplier) => (
+                  <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="font-semibold">{formatCurrency(total)}</div>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-muted-foreground">
+            <th className="text-left p-2 font-medium">Tank</th>
+            <th className="text-right p-2 font-medium">Days to Empty</th>
+            <th className="text-right p-2 font-medium">Quantity</th>
+            <th className="text-right p-2 font-medium">Unit Price</th>
+          </tr>
+        </thead>
+        <tbody>
+          {suggestion.lines.map((line) => (
+            <tr key={line.tankId} className="border-t border-border">
+              <td className="p-2">{line.tankName} <span className="text-muted-foreground">({line.productName})</span></td>
+              <td className="p-2 text-right">{line.daysToEmpty === null ? '-' : line.daysToEmpty.toFixed(1)}</td>
+              <td className="p-2 w-32">
+                <Input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={quantities[line.tankId]}
+                  onChange={(e) => setQuantities((current) => ({ ...current, [line.tankId]: e.target.value }))}
+                  data-testid={`input-reorder-quantity-${line.tankId}`}
+                />
+              </td>
+              <td className="p-2 w-32">
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={prices[line.tankId]}
+                  onChange={(e) => setPrices((current) => ({ ...current, [line.tankId]: e.target.value }))}
+                  data-testid={`input-reorder-price-${line.tankId}`}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex justify-end">
+        <Button
+          onClick={() => acceptMutation.mutate()}
+          disabled={!supplierId || items.length === 0 || items.some((item) => parseFloat(item.unitPrice) <= 0) || acceptMutation.isPending || acceptMutation.isSuccess}
+          data-testid="button-accept-reorder"
+        >
+          {acceptMutation.isSuccess ? "Order Created" : acceptMutation.isPending ? "Creating..." : "Create Purchase Order"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ReorderSettings({ stationId }: { stationId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [ullage, setUllage] = useState("");
+  const [leadTime, setLeadTime] = useState("");
+
+  const { data: stationSettings } = useQuery<Settings>({
+    queryKey: ["/api/settings", stationId],
+  });
+
+  useEffect(() => {
+    setUllage(stationSettings?.reorderTargetUllagePercent ?? "5");
+    setLeadTime(String(stationSettings?.reorderLeadTimeDays ?? 2));
+  }, [stationSettings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Settings rows are created on first save
+      const method = stationSettings?.id ? "PUT" : "POST";
+      const response = await apiRequest(method, `/api/settings/${stationId}`, {
+        reorderTargetUllagePercent: ullage,
+        reorderLeadTimeDays: parseInt(leadTime, 10),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Reorder settings saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings", stationId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reorder-suggestions", stationId] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save reorder settings", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="w-40">
+        <Label>Target ullage (%)</Label>
+        <Input type="number" min="0" max="50" step="0.5" value={ullage} onChange={(e) => setUllage(e.target.value)} data-testid="input-target-ullage" />
+      </div>
+      <div className="w-40">
+        <Label>Lead time (days)</Label>
+        <Input type="number" min="0" step="1" value={leadTime} onChange={(e) => setLeadTime(e.target.value)} data-testid="input-lead-time" />
+      </div>
+      <Button
+        variant="outline"
+        onClick={() => saveMutation.mutate()}
+        disabled={ullage === "" || leadTime === "" || saveMutation.isPending}
+        data-testid="button-save-reorder-settings"
+      >
+        Save
+      </Button>
+    </div>
+  );
+}
+
+type StatusHistoryEntry = {
+  id: string;
+  fromStatus: PurchaseOrder['status'] | null;
+  toStatus: PurchaseOrder['status'];
+  notes: string | null;
+  userName: string | null;
+  createdAt: string;
+};
+
+const transitionLabels: Record<PurchaseOrder['status'], string> = {
+  draft: "Return to Draft",
+  submitted: "Submit for Approval",
+  approved: "Approve",
+  sent: "Mark as Sent",
+  partially_received: "Partially Received",
+  closed: "Close Short",
+  cancelled: "Cancel Order",
+};
+
+// Moves the order along its lifecycle and shows who changed its status and when
+function OrderStatusDialog({ order, onClose }: { order: PurchaseOrder; onClose: () => void }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { formatCurrency } = useCurrency();
+  const [notes, setNotes] = useState("");
+
+  const { data: detail } = useQuery<PurchaseOrder & { statusHistory: StatusHistoryEntry[] }>({
+    queryKey: ["/api/purchase-orders/detail", order.id],
+  });
+
+  const { data: stationSettings } = useQuery<Settings>({
+    queryKey: ["/api/settings", order.stationId],
+  });
+
+  const current = detail ?? order;
+  const approvalLimit = parseFloat(stationSettings?.purchaseApprovalLimit ?? "500000");
+  const overLimit = user?.role !== 'admin' && parseFloat(current.totalAmount) > approvalLimit;
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: PurchaseOrder['status']) => {
+      const response = await apiRequest("POST", `/api/purchase-orders/${order.id}/status`, {
+        status,
+        notes: notes.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (updated: PurchaseOrder) => {
+      toast({
+        title: "Status updated",
+        description: `Purchase order ${order.orderNumber} is now ${statusLabels[updated.status].toLowerCase()}`,
+      });
+      setNotes("");
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders", user?.stationId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders/detail", order.id] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to change status", variant: "destructive" });
+    },
+  });
+
+  const nextStatuses = purchaseOrderTransitions[current.status];
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Order Status - {order.orderNumber}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Badge variant={current.status === 'cancelled' ? 'destructive' : 'secondary'} className={statusStyles[current.status]}>
+              {statusLabels[current.status]}
+            </Badge>
+            <span className="font-semibold">{formatCurrency(parseFloat(current.totalAmount || '0'))}</span>
+          </div>
+
+          {current.cancelReason && (
+            <p className="text-sm text-muted-foreground">Cancelled: {current.cancelReason}</p>
+          )}
+
+          {nextStatuses.length > 0 && (
+            <div className="space-y-3">
+              <div>
+                <Label>Notes</Label>
+                <Textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Required when cancelling"
+                  data-testid="input-status-notes"
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {nextStatuses.map((status) => (
+                  <Button
+                    key={status}
+                    variant={status === 'cancelled' ? 'destructive' : status === 'draft' ? 'outline' : 'default'}
+                    onClick={() => statusMutation.mutate(status)}
+                    disabled={
+                      statusMutation.isPending ||
+                      (status === 'cancelled' && !notes.trim()) ||
+                      (status === 'approved' && overLimit)
+                    }
+                    data-testid={`button-status-${status}`}
+                  >
+                    {transitionLabels[status]}
+                  </Button>
+                ))}
+              </div>
+              {current.status === 'submitted' && overLimit && (
+                <p className="text-xs text-muted-foreground">
+                  This order is above your approval limit of {formatCurrency(approvalLimit)} and needs an admin to approve it.
+                </p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <h4 className="font-medium mb-2">History</h4>
+            {!detail ? (
+              <div className="h-16 bg-muted rounded animate-pulse" />
+            ) : (
+              <div className="space-y-2">
+                {detail.statusHistory.map((entry) => (
+                  <div key={entry.id} className="text-sm border-l-2 border-border pl-3">
+                    <div className="font-medium">
+                      {entry.fromStatus ? `${statusLabels[entry.fromStatus]} → ${statusLabels[entry.toStatus]}` : `Created as ${statusLabels[entry.toStatus].toLowerCase()}`}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {entry.userName || 'Unknown user'} · {new Date(entry.createdAt).toLocaleString()}
+                    </div>
+                    {entry.notes && <div className="text-muted-foreground">{entry.notes}</div>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+type DispatchEntry = {
+  id: string;
+  recipient: string;
+  transport: string;
+  status: 'sent' | 'failed';
+  error: string | null;
+  userName: string | null;
+  createdAt: string;
+};
+
+// Emails the order as a PDF to the supplier and lists earlier attempts
+function DispatchOrderDialog({ order, supplier, onClose }: { order: PurchaseOrder; supplier?: Supplier; onClose: () => void }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [recipient, setRecipient] = useState(supplier?.contactEmail || "");
+  const [message, setMessage] = useState("");
+
+  const { data: detail } = useQuery<PurchaseOrder & { dispatches: DispatchEntry[] }>({
+    queryKey: ["/api/purchase-orders/detail", order.id],
+  });
+
+  const dispatchMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/purchase-orders/${order.id}/dispatch`, {
+        recipient: recipient.trim() || undefined,
+        message: message.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Purchase order sent", description: `${order.orderNumber} was emailed to ${recipient}` });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders", user?.stationId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders/detail", order.id] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to send purchase order", variant: "destructive" });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders/detail", order.id] });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Email Purchase Order - {order.orderNumber}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>To</Label>
+            <Input
+              type="email"
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value)}
+              placeholder="supplier@example.com"
+              data-testid="input-dispatch-recipient"
+            />
+            {!supplier?.contactEmail && (
+              <p className="text-xs text-muted-foreground mt-1">This supplier has no contact email on file.</p>
+            )}
+          </div>
+          <div>
+            <Label>Message</Label>
+            <Textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder={`Please find attached purchase order ${order.orderNumber}.`}
+              data-testid="input-dispatch-message"
+            />
+          </div>
+          <Button
+            className="w-full"
+            onClick={() => dispatchMutation.mutate()}
+            disabled={!recipient.trim() || dispatchMutation.isPending}
+            data-testid="button-send-dispatch"
+          >
+            <Mail className="w-4 h-4 mr-2" />
+            {dispatchMutation.isPending ? "Sending..." : "Send PDF"}
+          </Button>
+
+          {detail && detail.dispatches.length > 0 && (
+            <div>
+              <h4 className="font-medium mb-2">Sent Log</h4>
+              <div className="space-y-2">
+                {detail.dispatches.map((entry) => (
+                  <div key={entry.id} className="text-sm border-l-2 border-border pl-3">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={entry.status === 'sent' ? 'secondary' : 'destructive'}>{entry.status}</Badge>
+                      <span>{entry.recipient}</span>
+                    </div>
+                    <div className="text-muted-foreground">
+                      {entry.userName || 'Unknown user'} · {new Date(entry.createdAt).toLocaleString()} · via {entry.transport}
+                    </div>
+                    {entry.error && <div className="text-destructive">{entry.error}</div>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Admins set how large an order a manager may approve
+function ApprovalLimitCard({ stationId }: { stationId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [limit, setLimit] = useState("");
+
+  const { data: stationSettings } = useQuery<Settings>({
+    queryKey: ["/api/settings", stationId],
+  });
+
+  useEffect(() => {
+    setLimit(stationSettings?.purchaseApprovalLimit ?? "500000");
+  }, [stationSettings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Settings rows are created on first save
+      const method = stationSettings?.id ? "PUT" : "POST";
+      const response = await apiRequest(method, `/api/settings/${stationId}`, {
+        purchaseApprovalLimit: limit,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Approval limit saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings", stationId] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save approval limit", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Purchase Approval Limit</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="w-48">
+            <Label>Manager limit per order</Label>
+            <Input type="number" min="0" step="1000" value={limit} onChange={(e) => setLimit(e.target.value)} data-testid="input-approval-limit" />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => saveMutation.mutate()}
+            disabled={limit === "" || saveMutation.isPending}
+            data-testid="button-save-approval-limit"
+          >
+            Save
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground mt-2">
+          Managers can approve purchase orders up to this total. Larger orders must be approved by an admin.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+const chargeTypeLabels: Record<ChargeLine['chargeType'], string> = {
+  freight: "Freight",
+  carriage: "Carriage",
+  handling: "Handling",
+  insurance: "Insurance",
+  duty: "Duty",
+  other: "Other",
+};
+
+// Editable list of landed-cost lines (freight, handling...) and how each is spread over the items
+function ChargeLinesEditor({ charges, onChange, title = "Additional Charges" }: { charges: ChargeLine[]; onChange: (charges: ChargeLine[]) => void; title?: string }) {
+  const updateCharge = (index: number, change: Partial<ChargeLine>) =>
+    onChange(charges.map((charge, i) => (i === index ? { ...charge, ...change } : charge)));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">{title}</h3>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...charges, { chargeType: "freight", description: "", amount: "", allocationMethod: "quantity" }])}
+          data-testid="button-add-charge"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Charge
+        </Button>
+      </div>
+      {charges.map((charge, index) => (
+        <div key={index} className="grid grid-cols-12 gap-2 items-end">
+          <div className="col-span-3">
+            <Select value={charge.chargeType} onValueChange={(value) => updateCharge(index, { chargeType: value as ChargeLine['chargeType'] })}>
+              <SelectTrigger data-testid={`select-charge-type-${index}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(chargeTypeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-3">
+            <Input
+              placeholder="Description"
+              value={charge.description || ""}
+              onChange={(e) => updateCharge(index, { description: e.target.value })}
+              data-testid={`input-charge-description-${index}`}
+            />
+          </div>
+          <div className="col-span-2">
+            <Input
+              type="number"
+              step="0.01"
+              placeholder="0.00"
+              value={charge.amount}
+              onChange={(e) => updateCharge(index, { amount: e.target.value })}
+              data-testid={`input-charge-amount-${index}`}
+            />
+          </div>
+          <div className="col-span-3">
+            <Select value={charge.allocationMethod} onValueChange={(value) => updateCharge(index, { allocationMethod: value as ChargeLine['allocationMethod'] })}>
+              <SelectTrigger data-testid={`select-charge-allocation-${index}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="quantity">By quantity</SelectItem>
+                <SelectItem value="value">By value</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-1">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(charges.filter((_, i) => i !== index))}
+              data-testid={`button-remove-charge-${index}`}
+            >
+              <Trash2 className="w-4 h-4 text-red-500" />
+            </Button>
+          </div>
+        </div>
+      ))}
     </div>
   );
 }
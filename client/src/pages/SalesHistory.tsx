@@ -6,12 +6,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
 import { ConfirmDelete } from "@/components/ui/confirm-delete";
 import { useAuth } from "@/hooks/useAuth";
 import { useCurrency } from "@/contexts/CurrencyContext";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/api";
-import { Eye, Edit, Trash2, Play, Download } from "lucide-react";
+import { Eye, Edit, Trash2, Play, Download, Ban } from "lucide-react";
 import { useLocation } from "wouter";
 
 import { DeleteConfirmation } from "@/components/ui/delete-confirmation";
@@ -38,8 +40,8 @@ export default function SalesHistory() {
   const [paymentFilter, setPaymentFilter] = useState("all");
   const [draftSales, setDraftSales] = useState<DraftSale[]>([]);
   const [showDrafts, setShowDrafts] = useState(true);
-  const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
-  const [transactionToDelete, setTransactionToDelete] = useState<string | null>(null);
+  const [transactionToVoid, setTransactionToVoid] = useState<SalesTransaction | null>(null);
+  const [voidReason, setVoidReason] = useState("");
   const [draftDeleteConfirmOpen, setDraftDeleteConfirmOpen] = useState(false);
   const [draftToDelete, setDraftToDelete] = useState<string | null>(null);
 
@@ -47,37 +49,37 @@ export default function SalesHistory() {
     navigate(`/invoice/${transactionId}`);
   };
 
-  const deleteSaleMutation = useMutation({
-    mutationFn: async (transactionId: string) => {
-      const response = await apiRequest("DELETE", `/api/sales/${transactionId}`);
+  const voidSaleMutation = useMutation({
+    mutationFn: async ({ transactionId, reason }: { transactionId: string; reason: string }) => {
+      const response = await apiRequest("POST", `/api/sales/${transactionId}/void`, { reason });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       toast({
-        title: "Transaction deleted",
-        description: "Sales transaction has been deleted successfully",
+        title: "Sale voided",
+        description: `Credit note ${result.creditNote.creditNoteNumber} has been issued`,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/sales", user?.stationId] });
+      setTransactionToVoid(null);
+      setVoidReason("");
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to delete transaction",
+        description: error.message || "Failed to void transaction",
         variant: "destructive",
       });
     },
   });
 
-  const handleDeleteTransaction = (transactionId: string) => {
-    setTransactionToDelete(transactionId);
-    setDeleteConfirmOpen(true);
+  const handleVoidTransaction = (transaction: SalesTransaction) => {
+    setTransactionToVoid(transaction);
+    setVoidReason("");
   };
 
-  const confirmDeleteTransaction = () => {
-    if (transactionToDelete) {
-      deleteSaleMutation.mutate(transactionToDelete);
-      setDeleteConfirmOpen(false);
-      setTransactionToDelete(null);
+  const confirmVoidTransaction = () => {
+    if (transactionToVoid && voidReason.trim()) {
+      voidSaleMutation.mutate({ transactionId: transactionToVoid.id, reason: voidReason.trim() });
     }
   };
 
@@ -300,10 +302,12 @@ export default function SalesHistory() {
     );
   }
 
-  const todaysSales = filteredTransactions.length;
-  const totalAmount = filteredTransactions.reduce((sum: number, t: SalesTransaction) => sum + parseFloat(t.totalAmount || '0'), 0);
-  const cashSales = filteredTransactions.filter((t: SalesTransaction) => t.paymentMethod === 'cash').length;
-  const creditSales = filteredTransactions.filter((t: SalesTransaction) => t.paymentMethod === 'credit').length;
+  // Voided sales stay in the list for audit but no longer count towards totals
+  const activeTransactions = filteredTransactions.filter((t: SalesTransaction) => t.status !== 'voided');
+  const todaysSales = activeTransactions.length;
+  const totalAmount = activeTransactions.reduce((sum: number, t: SalesTransaction) => sum + parseFloat(t.totalAmount || '0'), 0);
+  const cashSales = activeTransactions.filter((t: SalesTransaction) => t.paymentMethod === 'cash').length;
+  const creditSales = activeTransactions.filter((t: SalesTransaction) => t.paymentMethod === 'credit').length;
 
   return (
     <div className="space-y-6 fade-in">
@@ -394,6 +398,8 @@ export default function SalesHistory() {
                   <SelectItem value="card">Card</SelectItem>
                   <SelectItem value="credit">Credit</SelectItem>
                   <SelectItem value="fleet">Fleet</SelectItem>
+                  <SelectItem value="mobile_wallet">Mobile Wallet</SelectItem>
+                  <SelectItem value="split">Split</SelectItem>
                 </SelectContent>
               </Select>
               <Button 
@@ -490,12 +496,17 @@ export default function SalesHistory() {
                     : 'N/A';
 
                   return (
-                    <tr key={transaction.id} className="border-b border-border hover:bg-muted/50">
+                    <tr key={transaction.id} className={`border-b border-border hover:bg-muted/50 ${transaction.status === 'voided' ? 'opacity-60' : ''}`}>
                       <td className="p-3 text-sm">{transactionTime}</td>
                       <td className="p-3">
-                        <span className="font-medium text-primary" data-testid={`invoice-${index}`}>
+                        <span className={`font-medium text-primary ${transaction.status === 'voided' ? 'line-through' : ''}`} data-testid={`invoice-${index}`}>
                           {transaction.invoiceNumber}
                         </span>
+                        {transaction.status !== 'completed' && (
+                          <Badge variant="outline" className="ml-2 text-xs" data-testid={`status-${index}`}>
+                            {transaction.status === 'voided' ? 'VOIDED' : transaction.status === 'returned' ? 'RETURNED' : 'PART RETURNED'}
+                          </Badge>
+                        )}
                       </td>
                       <td className="p-3">{customer?.name || 'Walk-in Customer'}</td>
                       <td className="p-3">
@@ -547,26 +558,30 @@ export default function SalesHistory() {
                             variant="ghost"
                             size="sm"
                           />
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDeleteTransaction(transaction.id)}
-                            className="text-red-600 hover:text-red-800 p-1"
-                            data-testid={`button-delete-${index}`}
-                            title="Delete Transaction"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleEditTransaction(transaction.id)}
-                            className="text-purple-600 hover:text-purple-800 p-1"
-                            data-testid={`button-edit-${index}`}
-                            title="Edit Transaction"
-                          >
-                            <Edit className="w-4 h-4" />
-                          </Button>
+                          {(user?.role === 'admin' || user?.role === 'manager') && (transaction.status === 'completed' || transaction.status === 'partially_returned') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleVoidTransaction(transaction)}
+                              className="text-red-600 hover:text-red-800 p-1"
+                              data-testid={`button-void-${index}`}
+                              title="Void Transaction"
+                            >
+                              <Ban className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {transaction.status === 'completed' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEditTransaction(transaction.id)}
+                              className="text-purple-600 hover:text-purple-800 p-1"
+                              data-testid={`button-edit-${index}`}
+                              title="Edit Transaction"
+                            >
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -589,16 +604,39 @@ export default function SalesHistory() {
         </CardContent>
       </Card>
 
-      {/* Transaction Deletion Confirmation */}
-      <DeleteConfirmation
-        isOpen={deleteConfirmOpen}
-        onClose={() => setDeleteConfirmOpen(false)}
-        onConfirm={confirmDeleteTransaction}
-        title="Delete Sales Transaction"
-        description="Are you sure you want to delete this sales transaction? This action cannot be undone and will permanently remove all transaction data."
-        itemName="sales transaction"
-        isLoading={deleteSaleMutation.isPending}
-      />
+      {/* Void Sale Dialog */}
+      <Dialog open={!!transactionToVoid} onOpenChange={(open) => !open && setTransactionToVoid(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>Void Sale {transactionToVoid?.invoiceNumber}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              A credit note will be issued for the full remaining value, stock returned to the tanks and any
+              outstanding balance cleared. The original invoice is kept for audit.
+            </p>
+            <Textarea
+              placeholder="Reason for voiding this sale"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+              data-testid="input-void-reason"
+            />
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setTransactionToVoid(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={confirmVoidTransaction}
+                disabled={!voidReason.trim() || voidSaleMutation.isPending}
+                data-testid="button-confirm-void"
+              >
+                {voidSaleMutation.isPending ? "Voiding..." : "Void Sale"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
 
       {/* Draft Deletion Confirmation */}
       <DeleteConfirmation
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -12,6 +13,21 @@ import { useCurrency } from "@/contexts/CurrencyContext";
 import { useStation } from "@/contexts/StationContext";
 import { CURRENCY_CONFIG, type CurrencyCode } from "@/lib/currency";
 import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { DocumentSequence, DocumentType } from "@shared/schema";
+
+const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  sale: "Sales Invoices",
+  purchase_order: "Purchase Orders",
+  payment_receipt: "Payment Receipts",
+  credit_note: "Credit Notes",
+  stock_transfer: "Stock Transfers",
+};
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
 
 export default function Settings() {
   const { user } = useAuth();
@@ -433,6 +449,11 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      {/* Document Numbering */}
+      {(user?.role === 'admin' || user?.role === 'manager') && user?.stationId && (
+        <DocumentNumberingCard stationId={user.stationId} />
+      )}
+
       {/* Save Button */}
       <div className="flex justify-end">
         <Button onClick={saveSettings} size="lg" data-testid="button-save-settings">
@@ -441,4 +462,119 @@ export default function Settings() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+function DocumentNumberingCard({ stationId }: { stationId: string }) {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Record<string, Partial<DocumentSequence>>>({});
+
+  const { data: sequences = [] } = useQuery<DocumentSequence[]>({
+    queryKey: ["/api/document-sequences", stationId],
+  });
+
+  const updateSequenceMutation = useMutation({
+    mutationFn: async ({ documentType, data }: { documentType: DocumentType; data: Partial<DocumentSequence> }) => {
+      const response = await apiRequest("PUT", `/api/document-sequences/${stationId}/${documentType}`, {
+        prefix: data.prefix,
+        padding: data.padding,
+        fiscalYearStartMonth: data.fiscalYearStartMonth,
+      });
+      return response.json();
+    },
+    onSuccess: (_, { documentType }) => {
+      setDrafts(prev => {
+        const { [documentType]: _, ...rest } = prev;
+        return rest;
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/document-sequences", stationId] });
+      toast({
+        title: "Numbering updated",
+        description: `${DOCUMENT_TYPE_LABELS[documentType]} numbering saved`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update numbering",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          🔢 Document Numbering
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Numbers are issued in sequence per station without gaps and restart at 1 each fiscal year.
+        </p>
+        {sequences.map((sequence) => {
+          const draft = { ...sequence, ...drafts[sequence.documentType] };
+          const setDraft = (data: Partial<DocumentSequence>) =>
+            setDrafts(prev => ({ ...prev, [sequence.documentType]: { ...prev[sequence.documentType], ...data } }));
+          const preview = `${draft.prefix}-${sequence.fiscalYear ?? new Date().getFullYear()}-${'1'.padStart(draft.padding || 1, '0')}`;
+
+          return (
+            <div key={sequence.id} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end border-b border-border pb-4">
+              <div>
+                <Label className="text-sm font-medium">{DOCUMENT_TYPE_LABELS[sequence.documentType]}</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Last issued: {sequence.lastNumber} · e.g. {preview}
+                </p>
+              </div>
+              <div>
+                <Label className="text-sm font-medium">Prefix</Label>
+                <Input
+                  value={draft.prefix}
+                  onChange={(e) => setDraft({ prefix: e.target.value.toUpperCase() })}
+                  className="mt-2"
+                  data-testid={`input-prefix-${sequence.documentType}`}
+                />
+              </div>
+              <div>
+                <Label className="text-sm font-medium">Digits</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={12}
+                  value={draft.padding}
+                  onChange={(e) => setDraft({ padding: parseInt(e.target.value) || 1 })}
+                  className="mt-2"
+                  data-testid={`input-padding-${sequence.documentType}`}
+                />
+              </div>
+              <div>
+                <Label className="text-sm font-medium">Fiscal Year Starts</Label>
+                <Select
+                  value={String(draft.fiscalYearStartMonth)}
+                  onValueChange={(value) => setDraft({ fiscalYearStartMonth: parseInt(value) })}
+                >
+                  <SelectTrigger className="mt-2" data-testid={`select-fiscal-month-${sequence.documentType}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MONTHS.map((month, index) => (
+                      <SelectItem key={month} value={String(index + 1)}>{month}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant="outline"
+                disabled={!drafts[sequence.documentType] || updateSequenceMutation.isPending}
+                onClick={() => updateSequenceMutation.mutate({ documentType: sequence.documentType, data: draft })}
+                data-testid={`button-save-numbering-${sequence.documentType}`}
+              >
+                Save
+              </Button>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,379 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, startOfMonth } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle, ClipboardCheck, XCircle } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { stockAdjustmentReasonLabels } from "@shared/schema";
+import type { Settings, StockAdjustment, StockAdjustmentReason } from "@shared/schema";
+
+type AdjustmentRow = StockAdjustment & { tankName: string; productName: string; requestedByName: string | null; reviewedByName: string | null };
+
+interface AdjustmentRegister {
+  adjustments: AdjustmentRow[];
+  byReason: { reasonCode: StockAdjustmentReason; reason: string; count: number; gainQuantity: number; lossQuantity: number; netQuantity: number; netValue: number }[];
+  totals: { posted: number; pending: number; rejected: number; netQuantity: number; netValue: number };
+}
+
+const signedLitres = (quantity: string | number) => {
+  const value = typeof quantity === "number" ? quantity : parseFloat(quantity);
+  return `${value > 0 ? '+' : ''}${value.toLocaleString()} L`;
+};
+
+const invalidateAdjustmentQueries = (queryClient: ReturnType<typeof useQueryClient>, stationId: string) => {
+  queryClient.invalidateQueries({ queryKey: ["/api/tanks", stationId] });
+  queryClient.invalidateQueries({ queryKey: ["/api/stock-movements", stationId] });
+  queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/stock-adjustments/") || String(query.queryKey[0]).startsWith("/api/reports/adjustments/") });
+};
+
+export default function StockAdjustments() {
+  const { user } = useAuth();
+  const { formatCurrency } = useCurrency();
+  const [startDate, setStartDate] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [reviewing, setReviewing] = useState<{ adjustment: AdjustmentRow; decision: 'approved' | 'rejected' } | null>(null);
+  const canReview = user?.role === 'admin' || user?.role === 'manager';
+
+  const { data: pending = [], isLoading: pendingLoading } = useQuery<AdjustmentRow[]>({
+    queryKey: [`/api/stock-adjustments/${user?.stationId}?status=pending`],
+    enabled: !!user?.stationId,
+  });
+
+  const { data: register, isLoading: registerLoading } = useQuery<AdjustmentRegister>({
+    queryKey: [`/api/reports/adjustments/${user?.stationId}?startDate=${encodeURIComponent(new Date(`${startDate}T00:00:00`).toISOString())}&endDate=${encodeURIComponent(new Date(`${endDate}T23:59:59`).toISOString())}`],
+    enabled: !!user?.stationId && canReview && !!startDate && !!endDate,
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight" data-testid="page-title">Stock Adjustments</h1>
+          <p className="text-muted-foreground">Reason-coded corrections to tank stock, with approval for those over the station's limits</p>
+        </div>
+        {canReview && (
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <Label>From</Label>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} data-testid="input-start-date" />
+            </div>
+            <div>
+              <Label>To</Label>
+              <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} data-testid="input-end-date" />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className={canReview ? "lg:col-span-2" : "lg:col-span-3"}>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <ClipboardCheck className="w-5 h-5 mr-2" />
+              Awaiting Approval
+              {pending.length > 0 && <Badge variant="destructive" className="ml-2">{pending.length}</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {pendingLoading ? (
+              <div className="h-24 bg-muted rounded animate-pulse" />
+            ) : pending.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No adjustments are waiting for approval.</p>
+            ) : (
+              <div className="space-y-3">
+                {pending.map((adjustment) => {
+                  const ownRequest = adjustment.requestedBy === user?.id && user?.role !== 'admin';
+                  return (
+                    <div key={adjustment.id} className="p-4 border border-border rounded-md flex flex-wrap items-center justify-between gap-4" data-testid={`pending-adjustment-${adjustment.id}`}>
+                      <div>
+                        <div className={`font-medium ${parseFloat(adjustment.quantity) < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {signedLitres(adjustment.quantity)} · {stockAdjustmentReasonLabels[adjustment.reasonCode]}
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {adjustment.tankName} ({adjustment.productName}) · {formatCurrency(parseFloat(adjustment.value))}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {adjustment.requestedByName ?? 'Unknown'} · {adjustment.createdAt ? new Date(adjustment.createdAt).toLocaleString('en-GB') : ''}
+                          {adjustment.notes ? ` · ${adjustment.notes}` : ''}
+                        </div>
+                      </div>
+                      {canReview && (
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() => setReviewing({ adjustment, decision: 'approved' })}
+                            disabled={ownRequest}
+                            title={ownRequest ? "Another manager or an admin must approve your own adjustment" : undefined}
+                            data-testid={`button-approve-adjustment-${adjustment.id}`}
+                          >
+                            <CheckCircle className="w-4 h-4 mr-1" />
+                            Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setReviewing({ adjustment, decision: 'rejected' })}
+                            data-testid={`button-reject-adjustment-${adjustment.id}`}
+                          >
+                            <XCircle className="w-4 h-4 mr-1" />
+                            Reject
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {user?.role === 'admin' && user.stationId && <ApprovalLimitsCard stationId={user.stationId} />}
+      </div>
+
+      {canReview && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Posted by Reason</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Adjustments</TableHead>
+                    <TableHead className="text-right">Gains</TableHead>
+                    <TableHead className="text-right">Losses</TableHead>
+                    <TableHead className="text-right">Net</TableHead>
+                    <TableHead className="text-right">Net Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(register?.byReason ?? []).map((reason) => (
+                    <TableRow key={reason.reasonCode}>
+                      <TableCell>{reason.reason}</TableCell>
+                      <TableCell className="text-right">{reason.count}</TableCell>
+                      <TableCell className="text-right">{reason.gainQuantity.toLocaleString()} L</TableCell>
+                      <TableCell className="text-right">{reason.lossQuantity.toLocaleString()} L</TableCell>
+                      <TableCell className="text-right">{signedLitres(reason.netQuantity)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(reason.netValue)}</TableCell>
+                    </TableRow>
+                  ))}
+                  {register && (
+                    <TableRow className="font-semibold">
+                      <TableCell>Total</TableCell>
+                      <TableCell className="text-right">{register.totals.posted}</TableCell>
+                      <TableCell />
+                      <TableCell />
+                      <TableCell className="text-right">{signedLitres(register.totals.netQuantity)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(register.totals.netValue)}</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Adjustment Register</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {registerLoading ? (
+                <div className="h-32 bg-muted rounded animate-pulse" />
+              ) : !register || register.adjustments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No adjustments in this period.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Tank</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead className="text-right">Quantity</TableHead>
+                        <TableHead className="text-right">Value</TableHead>
+                        <TableHead>Requested By</TableHead>
+                        <TableHead>Reviewed By</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {register.adjustments.map((adjustment) => (
+                        <TableRow key={adjustment.id} data-testid={`row-adjustment-${adjustment.id}`}>
+                          <TableCell>{adjustment.createdAt ? new Date(adjustment.createdAt).toLocaleString('en-GB') : '-'}</TableCell>
+                          <TableCell>
+                            {adjustment.tankName}
+                            <div className="text-xs text-muted-foreground">{adjustment.productName}</div>
+                          </TableCell>
+                          <TableCell>
+                            {stockAdjustmentReasonLabels[adjustment.reasonCode]}
+                            {adjustment.notes && <div className="text-xs text-muted-foreground">{adjustment.notes}</div>}
+                          </TableCell>
+                          <TableCell className={`text-right ${parseFloat(adjustment.quantity) < 0 ? 'text-red-600' : ''}`}>{signedLitres(adjustment.quantity)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(parseFloat(adjustment.value))}</TableCell>
+                          <TableCell>{adjustment.requestedByName ?? '-'}</TableCell>
+                          <TableCell>
+                            {adjustment.reviewedByName ?? (adjustment.status === 'approved' ? 'Within limits' : '-')}
+                            {adjustment.reviewNotes && <div className="text-xs text-muted-foreground">{adjustment.reviewNotes}</div>}
+                          </TableCell>
+                          <TableCell>
+                            {adjustment.status === 'pending' ? (
+                              <Badge variant="outline">Pending</Badge>
+                            ) : adjustment.status === 'rejected' ? (
+                              <Badge variant="destructive">Rejected</Badge>
+                            ) : (
+                              <Badge variant="default">Posted</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {reviewing && user?.stationId && (
+        <ReviewAdjustmentDialog
+          adjustment={reviewing.adjustment}
+          decision={reviewing.decision}
+          stationId={user.stationId}
+          onClose={() => setReviewing(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+// Approving posts the adjustment to the tank; rejecting leaves the tank as it is and needs a reason
+function ReviewAdjustmentDialog({ adjustment, decision, stationId, onClose }: { adjustment: AdjustmentRow; decision: 'approved' | 'rejected'; stationId: string; onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [notes, setNotes] = useState("");
+
+  const reviewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/stock-adjustments/${adjustment.id}/review`, { decision, notes });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: decision === 'approved' ? "Adjustment approved" : "Adjustment rejected", description: decision === 'approved' ? "Tank stock has been updated" : undefined });
+      invalidateAdjustmentQueries(queryClient, stationId);
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to review adjustment", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>{decision === 'approved' ? 'Approve' : 'Reject'} Adjustment</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {signedLitres(adjustment.quantity)} in {adjustment.tankName} for {stockAdjustmentReasonLabels[adjustment.reasonCode].toLowerCase()}, requested by {adjustment.requestedByName ?? 'unknown'}.
+          </p>
+          <div>
+            <Label>{decision === 'approved' ? 'Notes' : 'Reason *'}</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} data-testid="input-review-notes" />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+            <Button
+              variant={decision === 'approved' ? 'default' : 'destructive'}
+              onClick={() => reviewMutation.mutate()}
+              disabled={reviewMutation.isPending || (decision === 'rejected' && !notes.trim())}
+              data-testid="button-confirm-review"
+            >
+              {reviewMutation.isPending ? "Saving..." : decision === 'approved' ? "Approve and Post" : "Reject"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ApprovalLimitsCard({ stationId }: { stationId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [quantityLimit, setQuantityLimit] = useState("");
+  const [valueLimit, setValueLimit] = useState("");
+
+  const { data: stationSettings } = useQuery<Settings>({
+    queryKey: ["/api/settings", stationId],
+  });
+
+  useEffect(() => {
+    setQuantityLimit(stationSettings?.adjustmentApprovalQuantity ?? "100");
+    setValueLimit(stationSettings?.adjustmentApprovalValue ?? "25000");
+  }, [stationSettings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Settings rows are created on first save
+      const method = stationSettings?.id ? "PUT" : "POST";
+      const response = await apiRequest(method, `/api/settings/${stationId}`, {
+        adjustmentApprovalQuantity: quantityLimit,
+        adjustmentApprovalValue: valueLimit,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Approval limits saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings", stationId] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save approval limits", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Approval Limits</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label>Litres</Label>
+            <Input type="number" min="0" step="1" value={quantityLimit} onChange={(e) => setQuantityLimit(e.target.value)} data-testid="input-adjustment-limit-quantity" />
+          </div>
+          <div>
+            <Label>Value</Label>
+            <Input type="number" min="0" step="100" value={valueLimit} onChange={(e) => setValueLimit(e.target.value)} data-testid="input-adjustment-limit-value" />
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => saveMutation.mutate()}
+          disabled={quantityLimit === "" || valueLimit === "" || saveMutation.isPending}
+          data-testid="button-save-adjustment-limits"
+        >
+          Save
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Adjustments over either limit are held until a manager approves them; smaller ones post straight to the tank.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
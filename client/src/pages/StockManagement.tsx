@@ -1,9 +1,11 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import type { Tank, Product, StockMovement } from "@shared/schema";
-import { insertStockMovementSchema } from "@shared/schema";
+import type { Tank, Product, StockMovement, Settings, StockTransfer, StockAdjustment } from "@shared/schema";
+import { createStockAdjustmentSchema, stockAdjustmentReasonLabels } from "@shared/schema";
+import { tankStockStatus } from "@shared/tankStatus";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
@@ -17,9 +19,17 @@ import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/api";
 import { Combobox } from "@/components/ui/combobox";
+import { useCurrency } from "@/contexts/CurrencyContext";
 import { useLocation } from "wouter";
 import { BarChart3, Package, ArrowRightLeft, ClipboardList } from "lucide-react";
 
+// The form takes a gain or loss and a positive quantity; the API takes the quantity signed
+const adjustmentFormSchema = createStockAdjustmentSchema.extend({
+  direction: z.enum(['gain', 'loss']),
+  quantity: z.string().refine((value) => parseFloat(value) > 0, "Quantity must be greater than zero"),
+});
+type AdjustmentFormData = z.infer<typeof adjustmentFormSchema>;
+
 export default function StockManagement() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -27,32 +37,11 @@ export default function StockManagement() {
   const [, setLocation] = useLocation();
   const [open, setOpen] = useState(false);
 
-  const form = useForm({
-    resolver: zodResolver(insertStockMovementSchema.omit({ id: true })),
+  const form = useForm<AdjustmentFormData>({
+    resolver: zodResolver(adjustmentFormSchema),
     defaultValues: {
       tankId: "",
-      movementType: "in",
-      quantity: "0",
-      previousStock: "0",
-      newStock: "0",
-      referenceType: "adjustment",
-      notes: "",
-      stationId: user?.stationId || "",
-      userId: user?.id || "",
-    },
-  });
-
-  const transferForm = useForm({
-    resolver: zodResolver(insertStockMovementSchema.pick({ 
-      quantity: true 
-    }).extend({
-      sourceTankId: insertStockMovementSchema.shape.tankId,
-      destinationTankId: insertStockMovementSchema.shape.tankId,
-      notes: insertStockMovementSchema.shape.notes,
-    })),
-    defaultValues: {
-      sourceTankId: "",
-      destinationTankId: "",
+      direction: "loss",
       quantity: "",
       notes: "",
     },
@@ -62,51 +51,50 @@ export default function StockManagement() {
     defaultValues: {},
   });
 
-  // Regular stock movement mutation with success handling
-  const createStockMovementMutation = useMutation({
-    mutationFn: async (data: any) => {
-      const movementData = {
-        ...data,
-        stationId: user?.stationId || data.stationId,
-        userId: user?.id || data.userId,
-      };
-      const response = await apiRequest("POST", "/api/stock-movements", movementData);
-      return response.json();
-    },
-    onSuccess: () => {
-      toast({
-        title: "Stock entry recorded",
-        description: "Stock movement has been recorded successfully",
+  const invalidateAdjustmentQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/stock-movements", user?.stationId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tanks", user?.stationId] });
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/stock-adjustments/") || String(query.queryKey[0]).startsWith("/api/reports/adjustments/") });
+  };
+
+  const createAdjustmentMutation = useMutation({
+    mutationFn: async (data: AdjustmentFormData) => {
+      const quantity = parseFloat(data.quantity);
+      const response = await apiRequest("POST", "/api/stock-adjustments", {
+        tankId: data.tankId,
+        reasonCode: data.reasonCode,
+        quantity: data.direction === 'loss' ? -quantity : quantity,
+        notes: data.notes,
       });
+      return response.json() as Promise<StockAdjustment>;
+    },
+    onSuccess: (adjustment) => {
+      toast(adjustment.status === 'pending'
+        ? { title: "Adjustment sent for approval", description: "It is over the station's limits, so the tank will change once a manager approves it" }
+        : { title: "Adjustment posted", description: "Tank stock has been updated" });
       setOpen(false);
       form.reset();
-      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements", user?.stationId] });
-      queryClient.invalidateQueries({ queryKey: ["/api/tanks", user?.stationId] });
+      invalidateAdjustmentQueries();
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to record stock movement",
+        description: error.message || "Failed to record stock adjustment",
         variant: "destructive",
       });
     },
   });
 
-  // Batch stock movement mutation without success callbacks (for transfers and audits)
-  const batchStockMovementMutation = useMutation({
-    mutationFn: async (data: any) => {
-      const movementData = {
-        ...data,
-        stationId: user?.stationId || data.stationId,
-        userId: user?.id || data.userId,
-      };
-      const response = await apiRequest("POST", "/api/stock-movements", movementData);
-      return response.json();
+  // Audit adjustments are posted one tank at a time, without per-tank toasts
+  const batchAdjustmentMutation = useMutation({
+    mutationFn: async (data: { tankId: string; reasonCode: string; quantity: number; notes: string }) => {
+      const response = await apiRequest("POST", "/api/stock-adjustments", data);
+      return response.json() as Promise<StockAdjustment>;
     },
   });
 
-  const onSubmit = (data: any) => {
-    createStockMovementMutation.mutate(data);
+  const onSubmit = (data: AdjustmentFormData) => {
+    createAdjustmentMutation.mutate(data);
   };
 
   // Quick Actions handlers
@@ -125,14 +113,9 @@ export default function StockManagement() {
 
   const [transferDialogOpen, setTransferDialogOpen] = useState(false);
   const [auditDialogOpen, setAuditDialogOpen] = useState(false);
+  const [auditReason, setAuditReason] = useState("");
 
   const handleStockTransfer = () => {
-    transferForm.reset({
-      sourceTankId: "",
-      destinationTankId: "",
-      quantity: "",
-      notes: "",
-    });
     setTransferDialogOpen(true);
   };
 
@@ -143,114 +126,24 @@ export default function StockManagement() {
       return acc;
     }, {} as {[tankId: string]: string});
     auditForm.reset(initialAuditData);
+    setAuditReason("");
     setAuditDialogOpen(true);
   };
 
-  const executeStockTransfer = async () => {
-    const { sourceTankId, destinationTankId, quantity, notes } = transferForm.getValues();
-    
-    if (!sourceTankId || !destinationTankId || !quantity || parseFloat(quantity) <= 0) {
-      toast({
-        title: "Error",
-        description: "Please fill all fields with valid values",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    if (sourceTankId === destinationTankId) {
-      toast({
-        title: "Error", 
-        description: "Source and destination tanks cannot be the same",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    const sourceTank = tanks.find(t => t.id === sourceTankId);
-    const destTank = tanks.find(t => t.id === destinationTankId);
-    const transferQty = parseFloat(quantity);
-
-    if (!sourceTank || !destTank) {
-      toast({
-        title: "Error",
-        description: "Invalid tank selection",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    // Validate source has enough stock
-    if (parseFloat(sourceTank.currentStock || "0") < transferQty) {
-      toast({
-        title: "Error",
-        description: "Insufficient stock in source tank",
-        variant: "destructive",
-      });
-      return;
-    }
+  const executeStockAudit = async () => {
+    const auditEntries = Object.entries(auditForm.getValues() as {[tankId: string]: string});
+    let adjustmentsPosted = 0;
+    let adjustmentsPending = 0;
 
-    // Validate destination has capacity
-    const destCurrentStock = parseFloat(destTank.currentStock || "0");
-    const destCapacity = parseFloat(destTank.capacity || "0");
-    if (destCurrentStock + transferQty > destCapacity) {
+    if (!auditReason) {
       toast({
-        title: "Error", 
-        description: "Not enough capacity in destination tank",
+        title: "Reason required",
+        description: "Choose the reason for the differences found in the count",
         variant: "destructive",
       });
       return;
     }
 
-    try {
-      // Generate single reference ID for atomicity
-      const transferRef = `TXF-${Date.now()}`;
-      
-      // Create OUT movement from source
-      await batchStockMovementMutation.mutateAsync({
-        tankId: sourceTankId,
-        movementType: "out",
-        quantity: quantity,
-        unitPrice: "0",
-        notes: `Transfer OUT to ${destTank.name} - ${notes}`,
-        referenceType: "transfer",
-        referenceId: transferRef
-      });
-
-      // Create IN movement to destination  
-      await batchStockMovementMutation.mutateAsync({
-        tankId: destinationTankId,
-        movementType: "in", 
-        quantity: quantity,
-        unitPrice: "0",
-        notes: `Transfer IN from ${sourceTank.name} - ${notes}`,
-        referenceType: "transfer",
-        referenceId: transferRef
-      });
-
-      toast({
-        title: "Transfer Completed",
-        description: `Successfully transferred ${transferQty}L from ${sourceTank.name} to ${destTank.name}`,
-      });
-
-      setTransferDialogOpen(false);
-      transferForm.reset();
-      queryClient.invalidateQueries({ queryKey: ["/api/tanks", user?.stationId] });
-      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements", user?.stationId] });
-    } catch (error) {
-      toast({
-        title: "Transfer Failed",
-        description: "Failed to complete stock transfer",
-        variant: "destructive",
-      });
-    }
-  };
-
-  const executeStockAudit = async () => {
-    const auditEntries = Object.entries(auditForm.getValues());
-    let adjustmentsMade = 0;
-    const auditRef = `AUD-${Date.now()}`;
-
     try {
       for (const [tankId, physicalCount] of auditEntries) {
         const tank = tanks.find(t => t.id === tankId);
@@ -260,36 +153,34 @@ export default function StockManagement() {
         const physicalStock = parseFloat(physicalCount);
         const difference = physicalStock - currentStock;
 
-        // Only create movement if there's a difference
+        // Only adjust tanks where the count differs from book stock
         if (Math.abs(difference) >= 0.01) {
-          await batchStockMovementMutation.mutateAsync({
+          const adjustment = await batchAdjustmentMutation.mutateAsync({
             tankId: tankId,
-            movementType: difference > 0 ? "in" : "out",
-            quantity: Math.abs(difference).toString(),
-            unitPrice: "0",
-            notes: `Stock audit adjustment - Physical: ${physicalStock}L, System: ${currentStock}L`,
-            referenceType: "audit",
-            referenceId: auditRef
+            reasonCode: auditReason,
+            quantity: Math.round(difference * 1000) / 1000,
+            notes: `Stock audit - Physical: ${physicalStock}L, System: ${currentStock}L`,
           });
-          adjustmentsMade++;
+          if (adjustment.status === 'pending') adjustmentsPending++;
+          else adjustmentsPosted++;
         }
       }
 
       toast({
         title: "Audit Completed",
-        description: `Stock audit completed. ${adjustmentsMade} adjustments made.`,
+        description: `Stock audit completed. ${adjustmentsPosted} adjustments posted${adjustmentsPending > 0 ? `, ${adjustmentsPending} awaiting approval` : ''}.`,
       });
 
       setAuditDialogOpen(false);
       auditForm.reset();
-      queryClient.invalidateQueries({ queryKey: ["/api/tanks", user?.stationId] });
-      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements", user?.stationId] });
+      invalidateAdjustmentQueries();
     } catch (error) {
       toast({
         title: "Audit Failed",
-        description: "Failed to complete stock audit",
+        description: error instanceof Error ? error.message : "Failed to complete stock audit",
         variant: "destructive",
       });
+      invalidateAdjustmentQueries();
     }
   };
 
@@ -332,11 +223,14 @@ export default function StockManagement() {
     return product?.name || 'Unknown Product';
   };
 
-  const getTankStatus = (currentStock: number, capacity: number, minimumLevel: number) => {
-    const percentage = (currentStock / capacity) * 100;
-    if (currentStock <= minimumLevel) return { status: 'critical', color: 'bg-red-600', textColor: 'text-red-600' };
-    if (percentage < 30) return { status: 'low', color: 'bg-orange-600', textColor: 'text-orange-600' };
-    return { status: 'normal', color: 'bg-green-600', textColor: 'text-green-600' };
+  // Status comes from the tank's own low and critical levels; a tank under maintenance shows its stock level
+  const getTankStatus = (tank: Tank) => {
+    const status = tank.status && tank.status !== 'maintenance'
+      ? tank.status
+      : tankStockStatus(parseFloat(tank.currentStock || '0'), parseFloat(tank.minimumLevel || '0'), tank.criticalLevel === null ? null : parseFloat(tank.criticalLevel));
+    if (status === 'critical') return { status, color: 'bg-red-600', textColor: 'text-red-600' };
+    if (status === 'low') return { status, color: 'bg-orange-600', textColor: 'text-orange-600' };
+    return { status, color: 'bg-green-600', textColor: 'text-green-600' };
   };
 
   return (
@@ -350,13 +244,13 @@ export default function StockManagement() {
         <div className="flex items-center space-x-3">
           <Dialog open={open} onOpenChange={setOpen}>
             <DialogTrigger asChild>
-              <Button data-testid="button-new-stock-entry">
-                + New Stock Entry
+              <Button data-testid="button-new-adjustment">
+                + New Adjustment
               </Button>
             </DialogTrigger>
             <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
               <DialogHeader>
-                <DialogTitle>Add Stock Movement</DialogTitle>
+                <DialogTitle>Stock Adjustment</DialogTitle>
               </DialogHeader>
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
@@ -383,20 +277,19 @@ export default function StockManagement() {
                   <div className="grid grid-cols-2 gap-4">
                     <FormField
                       control={form.control}
-                      name="movementType"
+                      name="direction"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Movement Type *</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormLabel>Gain or Loss *</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
                             <FormControl>
-                              <SelectTrigger data-testid="select-movement-type">
-                                <SelectValue placeholder="Select type" />
+                              <SelectTrigger data-testid="select-adjustment-direction">
+                                <SelectValue />
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              <SelectItem value="in">Stock In</SelectItem>
-                              <SelectItem value="out">Stock Out</SelectItem>
-                              <SelectItem value="adjustment">Adjustment</SelectItem>
+                              <SelectItem value="loss">Loss</SelectItem>
+                              <SelectItem value="gain">Gain</SelectItem>
                             </SelectContent>
                           </Select>
                           <FormMessage />
@@ -410,35 +303,7 @@ export default function StockManagement() {
                         <FormItem>
                           <FormLabel>Quantity (L) *</FormLabel>
                           <FormControl>
-                            <Input type="number" step="0.001" placeholder="0.000" {...field} data-testid="input-quantity" />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-                  <div className="grid grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="previousStock"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Previous Stock (L) *</FormLabel>
-                          <FormControl>
-                            <Input type="number" step="0.001" placeholder="0.000" {...field} data-testid="input-previous-stock" />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="newStock"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>New Stock (L) *</FormLabel>
-                          <FormControl>
-                            <Input type="number" step="0.001" placeholder="0.000" {...field} data-testid="input-new-stock" />
+                            <Input type="number" step="0.001" min="0" placeholder="0.000" {...field} data-testid="input-quantity" />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -447,20 +312,20 @@ export default function StockManagement() {
                   </div>
                   <FormField
                     control={form.control}
-                    name="referenceType"
+                    name="reasonCode"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Reference Type</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormLabel>Reason *</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
                           <FormControl>
-                            <SelectTrigger data-testid="select-reference-type">
-                              <SelectValue placeholder="Select type" />
+                            <SelectTrigger data-testid="select-adjustment-reason">
+                              <SelectValue placeholder="Select reason" />
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="sale">Sale</SelectItem>
-                            <SelectItem value="purchase">Purchase</SelectItem>
-                            <SelectItem value="adjustment">Adjustment</SelectItem>
+                            {Object.entries(stockAdjustmentReasonLabels).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                         <FormMessage />
@@ -474,18 +339,21 @@ export default function StockManagement() {
                       <FormItem>
                         <FormLabel>Notes</FormLabel>
                         <FormControl>
-                          <Textarea placeholder="Additional details about the stock movement" {...field} data-testid="input-stock-notes" />
+                          <Textarea placeholder="What was found, and how it was measured" {...field} data-testid="input-stock-notes" />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
+                  <p className="text-xs text-muted-foreground">
+                    Adjustments over the station's litre or value limit wait for a manager's approval before the tank's stock changes.
+                  </p>
                   <div className="flex justify-end space-x-2 pt-4">
                     <Button type="button" variant="outline" onClick={() => setOpen(false)} data-testid="button-cancel">
                       Cancel
                     </Button>
-                    <Button type="submit" disabled={createStockMovementMutation.isPending} data-testid="button-submit-stock">
-                      {createStockMovementMutation.isPending ? "Recording..." : "Record Stock Movement"}
+                    <Button type="submit" disabled={createAdjustmentMutation.isPending} data-testid="button-submit-adjustment">
+                      {createAdjustmentMutation.isPending ? "Recording..." : "Record Adjustment"}
                     </Button>
                   </div>
                 </form>
@@ -511,10 +379,9 @@ export default function StockManagement() {
         {tanks.map((tank: Tank, index: number) => {
           const currentStock = parseFloat(tank.currentStock || '0');
           const capacity = parseFloat(tank.capacity || '1');
-          const minimumLevel = parseFloat(tank.minimumLevel || '0');
           const percentage = Math.round((currentStock / capacity) * 100);
           const available = capacity - currentStock;
-          const { status, color, textColor } = getTankStatus(currentStock, capacity, minimumLevel);
+          const { status, color, textColor } = getTankStatus(tank);
           
           return (
             <Card key={tank.id} className="shadow-sm">
@@ -530,7 +397,7 @@ export default function StockManagement() {
                               'bg-red-100 text-red-800'}
                     data-testid={`tank-status-${index}`}
                   >
-                    {status === 'critical' ? 'Low Stock' : status === 'low' ? 'Low Stock' : 'Normal'}
+                    {status === 'critical' ? 'Critical' : status === 'low' ? 'Low Stock' : 'Normal'}
                   </Badge>
                 </div>
                 
@@ -584,7 +451,7 @@ export default function StockManagement() {
                 {stockMovements.length > 0 ? stockMovements.slice(0, 3).map((movement: StockMovement, index: number) => {
                   const tank = tanks.find(t => t.id === movement.tankId);
                   const product = products.find(p => p.id === tank?.productId);
-                  const isPositive = movement.movementType === 'in';
+                  const isPositive = parseFloat(movement.newStock || '0') >= parseFloat(movement.previousStock || '0');
                   const quantity = parseFloat(movement.quantity || '0');
                   const timeAgo = movement.movementDate ? new Date(movement.movementDate).toLocaleString('en-GB') : 'Unknown';
                   
@@ -730,86 +597,13 @@ export default function StockManagement() {
         </Card>
       </div>
 
-      {/* Stock Transfer Dialog */}
-      <Dialog open={transferDialogOpen} onOpenChange={setTransferDialogOpen}>
-        <DialogContent className="sm:max-w-[500px]">
-          <DialogHeader>
-            <DialogTitle>Stock Transfer</DialogTitle>
-          </DialogHeader>
-          <div className="space-y-4">
-            <div>
-              <label className="text-sm font-medium">Source Tank</label>
-              <Select value={transferForm.sourceTankId} onValueChange={(value) => setTransferForm(prev => ({...prev, sourceTankId: value}))}>
-                <SelectTrigger className="mt-2" data-testid="select-source-tank">
-                  <SelectValue placeholder="Choose source tank" />
-                </SelectTrigger>
-                <SelectContent>
-                  {tanks.map(tank => {
-                    const product = products.find(p => p.id === tank.productId);
-                    return (
-                      <SelectItem key={tank.id} value={tank.id}>
-                        {tank.name} - {product?.name} ({parseFloat(tank.currentStock || '0').toLocaleString()}L available)
-                      </SelectItem>
-                    );
-                  })}
-                </SelectContent>
-              </Select>
-            </div>
-            <div>
-              <label className="text-sm font-medium">Destination Tank</label>
-              <Select value={transferForm.destinationTankId} onValueChange={(value) => setTransferForm(prev => ({...prev, destinationTankId: value}))}>
-                <SelectTrigger className="mt-2" data-testid="select-destination-tank">
-                  <SelectValue placeholder="Choose destination tank" />
-                </SelectTrigger>
-                <SelectContent>
-                  {tanks.filter(tank => tank.id !== transferForm.sourceTankId).map(tank => {
-                    const product = products.find(p => p.id === tank.productId);
-                    const available = parseFloat(tank.capacity || "0") - parseFloat(tank.currentStock || "0");
-                    return (
-                      <SelectItem key={tank.id} value={tank.id}>
-                        {tank.name} - {product?.name} ({available.toLocaleString()}L capacity)
-                      </SelectItem>
-                    );
-                  })}
-                </SelectContent>
-              </Select>
-            </div>
-            <div>
-              <label className="text-sm font-medium">Quantity (Liters)</label>
-              <Input
-                type="number"
-                placeholder="Enter quantity to transfer"
-                value={transferForm.quantity}
-                onChange={(e) => setTransferForm(prev => ({...prev, quantity: e.target.value}))}
-                className="mt-2"
-                data-testid="input-transfer-quantity"
-              />
-            </div>
-            <div>
-              <label className="text-sm font-medium">Notes</label>
-              <Input
-                placeholder="Transfer notes (optional)"
-                value={transferForm.notes}
-                onChange={(e) => setTransferForm(prev => ({...prev, notes: e.target.value}))}
-                className="mt-2"
-                data-testid="input-transfer-notes"
-              />
-            </div>
-            <div className="flex justify-end space-x-3">
-              <Button variant="outline" onClick={() => setTransferDialogOpen(false)} data-testid="button-cancel-transfer">
-                Cancel
-              </Button>
-              <Button 
-                onClick={executeStockTransfer} 
-                disabled={batchStockMovementMutation.isPending}
-                data-testid="button-execute-transfer"
-              >
-                {batchStockMovementMutation.isPending ? "Transferring..." : "Execute Transfer"}
-              </Button>
-            </div>
-          </div>
-        </DialogContent>
-      </Dialog>
+      {user?.stationId && <StockTransfersCard stationId={user.stationId} />}
+
+      {user?.stationId && (user.role === 'admin' || user.role === 'manager') && (
+        <InventoryValuationCard stationId={user.stationId} />
+      )}
+
+      {transferDialogOpen && <StockTransferDialog tanks={tanks} products={products} onClose={() => setTransferDialogOpen(false)} />}
 
       {/* Stock Audit Dialog */}
       <Dialog open={auditDialogOpen} onOpenChange={setAuditDialogOpen}>
@@ -861,16 +655,29 @@ export default function StockManagement() {
                 })}
               </div>
             </div>
+            <div className="w-64">
+              <label className="text-sm font-medium">Reason for differences *</label>
+              <Select value={auditReason} onValueChange={setAuditReason}>
+                <SelectTrigger data-testid="select-audit-reason">
+                  <SelectValue placeholder="Select reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(stockAdjustmentReasonLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="flex justify-end space-x-3">
               <Button variant="outline" onClick={() => setAuditDialogOpen(false)} data-testid="button-cancel-audit">
                 Cancel
               </Button>
               <Button 
                 onClick={executeStockAudit} 
-                disabled={batchStockMovementMutation.isPending}
+                disabled={batchAdjustmentMutation.isPending}
                 data-testid="button-execute-audit"
               >
-                {batchStockMovementMutation.isPending ? "Processing..." : "Complete Audit"}
+                {batchAdjustmentMutation.isPending ? "Processing..." : "Complete Audit"}
               </Button>
             </div>
           </div>
@@ -879,3 +686,510 @@ export default function StockManagement() {
     </div>
   );
 }
+
+const costingMethodLabels: Record<Settings['costingMethod'], string> = {
+  weighted_average: "Weighted average",
+  fifo: "FIFO",
+};
+
+interface InventoryValuation {
+  costingMethod: Settings['costingMethod'];
+  tanks: { tankId: string; tankName: string; productName: string; unit: string; quantity: number; unitCost: number; value: number; uncostedQuantity: number }[];
+  products: { productId: string; productName: string; quantity: number; averageUnitCost: number; value: number; salesQuantity: number; revenue: number; costOfGoods: number; grossMargin: number; grossMarginPercent: number }[];
+  totalValue: number;
+  totalCostOfGoods: number;
+  totalGrossMargin: number;
+}
+
+// Stock at cost per tank and product, with this month's cost of goods sold and the station's costing method
+function InventoryValuationCard({ stationId }: { stationId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { formatCurrency } = useCurrency();
+
+  const today = new Date();
+  const startDate = new Date(today.getFullYear(), today.getMonth(), 1).toISOString();
+  const endDate = new Date(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59).toISOString();
+  const valuationKey = `/api/reports/inventory-valuation/${stationId}?startDate=${encodeURIComponent(startDate)}&endDate=${encodeURIComponent(endDate)}`;
+
+  const { data: stationSettings } = useQuery<Settings>({
+    queryKey: ["/api/settings", stationId],
+  });
+
+  const { data: valuation } = useQuery<InventoryValuation>({
+    queryKey: [valuationKey],
+  });
+
+  const methodMutation = useMutation({
+    mutationFn: async (costingMethod: Settings['costingMethod']) => {
+      // Settings rows are created on first save
+      const method = stationSettings?.id ? "PUT" : "POST";
+      const response = await apiRequest(method, `/api/settings/${stationId}`, { costingMethod });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Costing method saved", description: "Applies to stock issued from now on" });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings", stationId] });
+      queryClient.invalidateQueries({ queryKey: [valuationKey] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save costing method", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <CardTitle>Inventory Valuation</CardTitle>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Costing method</span>
+            <Select
+              value={stationSettings?.costingMethod ?? "weighted_average"}
+              onValueChange={(value) => methodMutation.mutate(value as Settings['costingMethod'])}
+              disabled={methodMutation.isPending}
+            >
+              <SelectTrigger className="w-48" data-testid="select-costing-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(costingMethodLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="p-3 bg-muted rounded-md">
+            <div className="text-xs text-muted-foreground">Stock at cost</div>
+            <div className="text-lg font-semibold" data-testid="text-inventory-value">{formatCurrency(valuation?.totalValue ?? 0)}</div>
+          </div>
+          <div className="p-3 bg-muted rounded-md">
+            <div className="text-xs text-muted-foreground">Cost of goods sold (this month)</div>
+            <div className="text-lg font-semibold">{formatCurrency(valuation?.totalCostOfGoods ?? 0)}</div>
+          </div>
+          <div className="p-3 bg-muted rounded-md">
+            <div className="text-xs text-muted-foreground">Gross margin (this month)</div>
+            <div className="text-lg font-semibold">{formatCurrency(valuation?.totalGrossMargin ?? 0)}</div>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2">Tank</th>
+                <th className="py-2">Product</th>
+                <th className="py-2 text-right">Stock</th>
+                <th className="py-2 text-right">Unit Cost</th>
+                <th className="py-2 text-right">Value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {valuation?.tanks.map((tank) => (
+                <tr key={tank.tankId} className="border-b" data-testid={`row-valuation-${tank.tankId}`}>
+                  <td className="py-2">{tank.tankName}</td>
+                  <td className="py-2">{tank.productName}</td>
+                  <td className="py-2 text-right">
+                    {tank.quantity.toLocaleString()} {tank.unit}
+                    {tank.uncostedQuantity > 0 && (
+                      <div className="text-xs text-yellow-600">{tank.uncostedQuantity.toLocaleString()} {tank.unit} without cost</div>
+                    )}
+                  </td>
+                  <td className="py-2 text-right">{formatCurrency(tank.unitCost)}</td>
+                  <td className="py-2 text-right">{formatCurrency(tank.value)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2">Product</th>
+                <th className="py-2 text-right">Stock Value</th>
+                <th className="py-2 text-right">Sold</th>
+                <th className="py-2 text-right">Revenue</th>
+                <th className="py-2 text-right">COGS</th>
+                <th className="py-2 text-right">Margin</th>
+              </tr>
+            </thead>
+            <tbody>
+              {valuation?.products.map((product) => (
+                <tr key={product.productId} className="border-b">
+                  <td className="py-2">{product.productName}</td>
+                  <td className="py-2 text-right">{formatCurrency(product.value)}</td>
+                  <td className="py-2 text-right">{product.salesQuantity.toLocaleString()}</td>
+                  <td className="py-2 text-right">{formatCurrency(product.revenue)}</td>
+                  <td className="py-2 text-right">{formatCurrency(product.costOfGoods)}</td>
+                  <td className="py-2 text-right">
+                    {formatCurrency(product.grossMargin)} <span className="text-xs text-muted-foreground">({product.grossMarginPercent}%)</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+type StockTransferRow = StockTransfer & { productName: string; sourceStationName: string; sourceTankName: string; destinationStationName: string; destinationTankName: string };
+
+const transferStatusStyles: Record<StockTransfer['status'], string> = {
+  in_transit: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-800",
+};
+
+// Refreshes everything a transfer changes: the transfer list and the stock of the tanks at either end
+function invalidateTransferQueries(queryClient: ReturnType<typeof useQueryClient>, stationId?: string | null) {
+  queryClient.invalidateQueries({ queryKey: [`/api/stock-transfers/${stationId}`] });
+  queryClient.invalidateQueries({ queryKey: ["/api/tanks", stationId] });
+  queryClient.invalidateQueries({ queryKey: ["/api/stock-movements", stationId] });
+}
+
+// Moves product into another tank holding the same product, here or at another station
+function StockTransferDialog({ tanks, products, onClose }: { tanks: Tank[]; products: Product[]; onClose: () => void }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [sourceTankId, setSourceTankId] = useState("");
+  const [destinationTankId, setDestinationTankId] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [vehicleNumber, setVehicleNumber] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data: destinations = [] } = useQuery<(Tank & { stationName: string })[]>({
+    queryKey: [`/api/stock-transfers/destinations/${sourceTankId}`],
+    enabled: !!sourceTankId,
+  });
+
+  const sourceTank = tanks.find((tank) => tank.id === sourceTankId);
+  const destinationTank = destinations.find((tank) => tank.id === destinationTankId);
+  const interStation = !!destinationTank && destinationTank.stationId !== sourceTank?.stationId;
+
+  const transferMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/stock-transfers", {
+        sourceTankId,
+        destinationTankId,
+        quantity,
+        vehicleNumber: vehicleNumber || undefined,
+        notes: notes || undefined,
+      });
+      return response.json() as Promise<StockTransfer>;
+    },
+    onSuccess: (transfer) => {
+      toast({
+        title: transfer.status === 'in_transit' ? "Transfer dispatched" : "Transfer completed",
+        description: transfer.status === 'in_transit'
+          ? `${transfer.transferNumber} is in transit to ${destinationTank?.stationName}`
+          : `${transfer.transferNumber}: ${parseFloat(transfer.quantity).toLocaleString()}L moved to ${destinationTank?.name}`,
+      });
+      invalidateTransferQueries(queryClient, user?.stationId);
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Transfer Failed", description: error.message || "Failed to complete stock transfer", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Stock Transfer</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <label className="text-sm font-medium">Source Tank</label>
+            <Select value={sourceTankId} onValueChange={(value) => { setSourceTankId(value); setDestinationTankId(""); }}>
+              <SelectTrigger className="mt-2" data-testid="select-source-tank">
+                <SelectValue placeholder="Choose source tank" />
+              </SelectTrigger>
+              <SelectContent>
+                {tanks.map(tank => {
+                  const product = products.find(p => p.id === tank.productId);
+                  return (
+                    <SelectItem key={tank.id} value={tank.id}>
+                      {tank.name} - {product?.name} ({parseFloat(tank.currentStock || '0').toLocaleString()}L available)
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-sm font-medium">Destination Tank</label>
+            <Select value={destinationTankId} onValueChange={setDestinationTankId} disabled={!sourceTankId}>
+              <SelectTrigger className="mt-2" data-testid="select-destination-tank">
+                <SelectValue placeholder={sourceTankId && destinations.length === 0 ? "No other tank holds this product" : "Choose destination tank"} />
+              </SelectTrigger>
+              <SelectContent>
+                {destinations.map(tank => {
+                  const available = parseFloat(tank.capacity || "0") - parseFloat(tank.currentStock || "0");
+                  return (
+                    <SelectItem key={tank.id} value={tank.id}>
+                      {tank.stationId === sourceTank?.stationId ? tank.name : `${tank.stationName} / ${tank.name}`} ({available.toLocaleString()}L capacity)
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">Only tanks holding the same product are listed.</p>
+          </div>
+          <div>
+            <label className="text-sm font-medium">Quantity (Liters)</label>
+            <Input
+              type="number"
+              placeholder="Enter quantity to transfer"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              className="mt-2"
+              data-testid="input-transfer-quantity"
+            />
+          </div>
+          {interStation && (
+            <div>
+              <label className="text-sm font-medium">Vehicle Number</label>
+              <Input
+                placeholder="Bowser or tanker carrying the product"
+                value={vehicleNumber}
+                onChange={(e) => setVehicleNumber(e.target.value)}
+                className="mt-2"
+                data-testid="input-transfer-vehicle"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                The product stays in transit until {destinationTank?.stationName} receives it.
+              </p>
+            </div>
+          )}
+          <div>
+            <label className="text-sm font-medium">Notes</label>
+            <Input
+              placeholder="Transfer notes (optional)"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="mt-2"
+              data-testid="input-transfer-notes"
+            />
+          </div>
+          <div className="flex justify-end space-x-3">
+            <Button variant="outline" onClick={onClose} data-testid="button-cancel-transfer">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => transferMutation.mutate()}
+              disabled={!sourceTankId || !destinationTankId || !(parseFloat(quantity) > 0) || transferMutation.isPending}
+              data-testid="button-execute-transfer"
+            >
+              {transferMutation.isPending ? "Transferring..." : interStation ? "Dispatch Transfer" : "Execute Transfer"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Transfers sent from or arriving at the station; incoming ones in transit are received here
+function StockTransfersCard({ stationId }: { stationId: string }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [receiving, setReceiving] = useState<StockTransferRow | null>(null);
+  const [receivedQuantity, setReceivedQuantity] = useState("");
+  const [cancelling, setCancelling] = useState<StockTransferRow | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
+  const canManage = user?.role === 'admin' || user?.role === 'manager';
+
+  const { data: transfers = [] } = useQuery<StockTransferRow[]>({
+    queryKey: [`/api/stock-transfers/${stationId}`],
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/stock-transfers/${receiving!.id}/receive`, { receivedQuantity });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Transfer received", description: `${receiving?.transferNumber} booked into ${receiving?.destinationTankName}` });
+      invalidateTransferQueries(queryClient, stationId);
+      setReceiving(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to receive transfer", variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/stock-transfers/${cancelling!.id}/cancel`, { reason: cancelReason });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Transfer cancelled", description: "The product has been returned to the source tank" });
+      invalidateTransferQueries(queryClient, stationId);
+      setCancelling(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to cancel transfer", variant: "destructive" });
+    },
+  });
+
+  if (transfers.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Stock Transfers</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2">Transfer</th>
+                <th className="py-2">From</th>
+                <th className="py-2">To</th>
+                <th className="py-2">Product</th>
+                <th className="py-2 text-right">Sent</th>
+                <th className="py-2 text-right">Received</th>
+                <th className="py-2">Status</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {transfers.slice(0, 20).map((transfer) => {
+                const incoming = transfer.destinationStationId === stationId && transfer.sourceStationId !== stationId;
+                const outgoing = transfer.sourceStationId === stationId;
+                return (
+                  <tr key={transfer.id} className="border-b" data-testid={`row-transfer-${transfer.id}`}>
+                    <td className="py-2">
+                      {transfer.transferNumber}
+                      <div className="text-xs text-muted-foreground">{new Date(transfer.dispatchedAt || transfer.createdAt || new Date()).toLocaleDateString()}</div>
+                    </td>
+                    <td className="py-2">{transfer.sourceStationId === stationId ? transfer.sourceTankName : `${transfer.sourceStationName} / ${transfer.sourceTankName}`}</td>
+                    <td className="py-2">{transfer.destinationStationId === stationId ? transfer.destinationTankName : `${transfer.destinationStationName} / ${transfer.destinationTankName}`}</td>
+                    <td className="py-2">{transfer.productName}</td>
+                    <td className="py-2 text-right">{parseFloat(transfer.quantity).toLocaleString()}L</td>
+                    <td className="py-2 text-right">{transfer.receivedQuantity ? `${parseFloat(transfer.receivedQuantity).toLocaleString()}L` : '-'}</td>
+                    <td className="py-2">
+                      <Badge className={transferStatusStyles[transfer.status]}>{transfer.status.replace('_', ' ')}</Badge>
+                      {transfer.cancelReason && <div className="text-xs text-muted-foreground">{transfer.cancelReason}</div>}
+                    </td>
+                    <td className="py-2 text-right space-x-2">
+                      {canManage && transfer.status === 'in_transit' && incoming && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => { setReceiving(transfer); setReceivedQuantity(transfer.quantity); }}
+                          data-testid={`button-receive-transfer-${transfer.id}`}
+                        >
+                          Receive
+                        </Button>
+                      )}
+                      {canManage && transfer.status === 'in_transit' && outgoing && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => { setCancelling(transfer); setCancelReason(""); }}
+                          data-testid={`button-cancel-transfer-${transfer.id}`}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+
+      {receiving && (
+        <Dialog open onOpenChange={(open) => !open && setReceiving(null)}>
+          <DialogContent className="sm:max-w-[420px]">
+            <DialogHeader>
+              <DialogTitle>Receive {receiving.transferNumber}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {parseFloat(receiving.quantity).toLocaleString()}L of {receiving.productName} sent from {receiving.sourceStationName}
+                {receiving.vehicleNumber ? ` on ${receiving.vehicleNumber}` : ""} into {receiving.destinationTankName}.
+              </p>
+              <div>
+                <label className="text-sm font-medium">Litres received</label>
+                <Input
+                  type="number"
+                  value={receivedQuantity}
+                  onChange={(e) => setReceivedQuantity(e.target.value)}
+                  className="mt-2"
+                  data-testid="input-received-quantity"
+                />
+                {parseFloat(receivedQuantity) > 0 && parseFloat(receivedQuantity) !== parseFloat(receiving.quantity) && (
+                  <p className="text-xs text-yellow-600 mt-1">
+                    Transit {parseFloat(receivedQuantity) < parseFloat(receiving.quantity) ? "loss" : "gain"} of {Math.abs(parseFloat(receiving.quantity) - parseFloat(receivedQuantity)).toFixed(1)}L
+                  </p>
+                )}
+              </div>
+              <div className="flex justify-end space-x-3">
+                <Button variant="outline" onClick={() => setReceiving(null)}>Cancel</Button>
+                <Button
+                  onClick={() => receiveMutation.mutate()}
+                  disabled={!(parseFloat(receivedQuantity) > 0) || receiveMutation.isPending}
+                  data-testid="button-confirm-receive-transfer"
+                >
+                  {receiveMutation.isPending ? "Receiving..." : "Receive"}
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {cancelling && (
+        <Dialog open onOpenChange={(open) => !open && setCancelling(null)}>
+          <DialogContent className="sm:max-w-[420px]">
+            <DialogHeader>
+              <DialogTitle>Cancel {cancelling.transferNumber}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {parseFloat(cancelling.quantity).toLocaleString()}L goes back into {cancelling.sourceTankName}.
+              </p>
+              <div>
+                <label className="text-sm font-medium">Reason *</label>
+                <Textarea
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                  className="mt-2"
+                  data-testid="input-cancel-transfer-reason"
+                />
+              </div>
+              <div className="flex justify-end space-x-3">
+                <Button variant="outline" onClick={() => setCancelling(null)}>Back</Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => cancelMutation.mutate()}
+                  disabled={!cancelReason.trim() || cancelMutation.isPending}
+                  data-testid="button-confirm-cancel-transfer"
+                >
+                  {cancelMutation.isPending ? "Cancelling..." : "Cancel Transfer"}
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </Card>
+  );
+}
@@ -754,6 +754,8 @@ export default function SupplierManagement() {
         </CardContent>
       </Card>
 
+      {user?.stationId && <DeliveryVarianceCard stationId={user.stationId} />}
+
       {/* Edit Supplier Dialog */}
       <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
         <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
@@ -882,4 +884,144 @@ export default function SupplierManagement() {
       </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
+
+interface DeliveryVarianceReport {
+  suppliers: Array<{
+    supplierId: string;
+    supplierName: string | null;
+    deliveries: number;
+    shortDeliveries: number;
+    excessDeliveries: number;
+    invoicedQuantity: number;
+    standardQuantity: number;
+    varianceQuantity: number;
+    variancePercent: number;
+  }>;
+  deliveries: Array<{
+    id: string;
+    deliveryDate: string;
+    supplierId: string;
+    orderNumber: string | null;
+    productName: string | null;
+    tankName: string | null;
+    invoicedQuantity: string;
+    observedQuantity: string;
+    temperature: string | null;
+    standardQuantity: string;
+    varianceQuantity: string;
+  }>;
+}
+
+// Short and excess tanker deliveries per supplier, from the dips taken at goods receipt
+function DeliveryVarianceCard({ stationId }: { stationId: string }) {
+  const [startDate, setStartDate] = useState(() => {
+    const date = new Date();
+    date.setMonth(date.getMonth() - 3);
+    return date.toISOString().split('T')[0];
+  });
+  const [endDate, setEndDate] = useState(new Date().toISOString().split('T')[0]);
+  const [selectedSupplierId, setSelectedSupplierId] = useState<string | null>(null);
+
+  const { data: report } = useQuery<DeliveryVarianceReport>({
+    queryKey: [`/api/reports/delivery-variance/${stationId}?startDate=${encodeURIComponent(new Date(`${startDate}T00:00:00`).toISOString())}&endDate=${encodeURIComponent(new Date(`${endDate}T23:59:59`).toISOString())}`],
+  });
+
+  const supplierDeliveries = (report?.deliveries ?? []).filter((delivery) => delivery.supplierId === selectedSupplierId);
+  const varianceClass = (variance: number) => variance < 0 ? "text-red-600" : variance > 0 ? "text-green-600" : "";
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <CardTitle>Delivery Variance (at 15°C)</CardTitle>
+          <div className="flex items-center space-x-2">
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="w-40" data-testid="input-variance-start" />
+            <span className="text-muted-foreground">to</span>
+            <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="w-40" data-testid="input-variance-end" />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-muted">
+              <tr>
+                <th className="text-left p-3 font-medium">Supplier</th>
+                <th className="text-center p-3 font-medium">Deliveries</th>
+                <th className="text-center p-3 font-medium">Short / Excess</th>
+                <th className="text-right p-3 font-medium">Invoiced (L)</th>
+                <th className="text-right p-3 font-medium">Received at 15°C (L)</th>
+                <th className="text-right p-3 font-medium">Variance (L)</th>
+                <th className="text-right p-3 font-medium">Variance %</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report && report.suppliers.length > 0 ? report.suppliers.map((summary) => (
+                <tr
+                  key={summary.supplierId}
+                  className={`border-b border-border cursor-pointer hover:bg-muted/50 ${selectedSupplierId === summary.supplierId ? 'bg-muted/50' : ''}`}
+                  onClick={() => setSelectedSupplierId(selectedSupplierId === summary.supplierId ? null : summary.supplierId)}
+                  data-testid={`row-variance-${summary.supplierId}`}
+                >
+                  <td className="p-3 font-medium">{summary.supplierName || 'Unknown Supplier'}</td>
+                  <td className="p-3 text-center">{summary.deliveries}</td>
+                  <td className="p-3 text-center">{summary.shortDeliveries} / {summary.excessDeliveries}</td>
+                  <td className="p-3 text-right">{summary.invoicedQuantity.toFixed(3)}</td>
+                  <td className="p-3 text-right">{summary.standardQuantity.toFixed(3)}</td>
+                  <td className={`p-3 text-right font-semibold ${varianceClass(summary.varianceQuantity)}`}>
+                    {summary.varianceQuantity.toFixed(3)}
+                  </td>
+                  <td className={`p-3 text-right ${varianceClass(summary.variancePercent)}`}>
+                    {summary.variancePercent.toFixed(2)}%
+                  </td>
+                </tr>
+              )) : (
+                <tr>
+                  <td colSpan={7} className="p-8 text-center text-muted-foreground">
+                    No measured tanker deliveries in this period
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {supplierDeliveries.length > 0 && (
+          <div className="overflow-x-auto border-t border-border">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-muted-foreground">
+                  <th className="text-left p-3 font-medium">Date</th>
+                  <th className="text-left p-3 font-medium">PO</th>
+                  <th className="text-left p-3 font-medium">Product / Tank</th>
+                  <th className="text-right p-3 font-medium">Invoiced</th>
+                  <th className="text-right p-3 font-medium">Dipped</th>
+                  <th className="text-right p-3 font-medium">Temp</th>
+                  <th className="text-right p-3 font-medium">At 15°C</th>
+                  <th className="text-right p-3 font-medium">Variance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {supplierDeliveries.map((delivery) => (
+                  <tr key={delivery.id} className="border-t border-border">
+                    <td className="p-3">{new Date(delivery.deliveryDate).toLocaleDateString('en-GB')}</td>
+                    <td className="p-3">{delivery.orderNumber}</td>
+                    <td className="p-3">{delivery.productName} / {delivery.tankName}</td>
+                    <td className="p-3 text-right">{parseFloat(delivery.invoicedQuantity).toFixed(3)}</td>
+                    <td className="p-3 text-right">{parseFloat(delivery.observedQuantity).toFixed(3)}</td>
+                    <td className="p-3 text-right">{delivery.temperature ? `${parseFloat(delivery.temperature).toFixed(1)}°C` : '-'}</td>
+                    <td className="p-3 text-right">{parseFloat(delivery.standardQuantity).toFixed(3)}</td>
+                    <td className={`p-3 text-right font-medium ${varianceClass(parseFloat(delivery.varianceQuantity))}`}>
+                      {parseFloat(delivery.varianceQuantity).toFixed(3)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,12 +1,19 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
 import { useCurrency } from "@/contexts/CurrencyContext";
 import { formatAmount } from "@/lib/currency";
 import { 
@@ -19,29 +26,60 @@ import {
   Calendar,
   TrendingDown,
   TrendingUp,
-  Plus
+  Plus,
+  Ruler,
+  Table2,
+  SlidersHorizontal,
+  Radio,
+  Truck
 } from "lucide-react";
-import type { Tank, Product, StockMovement } from "@shared/schema";
+import type { Tank, Product, StockMovement, TankCalibrationChart, TankDipReading, TankMaintenanceOrder, TankStatusChange, AtgConsole, AtgReading, AtgDelivery } from "@shared/schema";
+import { dipToVolume, toMillimetres, type CalibrationPoint } from "@shared/strapping";
+import { criticalLevelFor, tankStockStatus, type TankStockStatus } from "@shared/tankStatus";
 
 interface TankWithProduct extends Tank {
   product: Product;
 }
 
+type DipReadingRow = TankDipReading & { tankName: string; productName: string; userName: string | null };
+type MaintenanceOrderRow = TankMaintenanceOrder & { tankName: string; productName: string };
+type StatusChangeRow = TankStatusChange & { userName: string | null };
+type AtgDeliveryRow = AtgDelivery & { tankName: string; productName: string };
+
+const statusChangeReasonLabels: Record<TankStatusChange['reason'], string> = {
+  created: "Tank added",
+  movement: "Stock movement",
+  thresholds: "Levels changed",
+  maintenance: "Maintenance",
+};
+
+const maintenanceTypeLabels: Record<TankMaintenanceOrder['maintenanceType'], string> = {
+  cleaning: "Cleaning",
+  calibration: "Calibration",
+  inspection: "Inspection",
+};
+
+const isOpenOrder = (order: TankMaintenanceOrder) => order.status === 'scheduled' || order.status === 'in_progress';
+const isOverdue = (order: TankMaintenanceOrder) => order.status === 'scheduled' && new Date(order.scheduledDate) < new Date();
+
 export default function TankMonitoring() {
   const { user } = useAuth();
   const { formatCurrency } = useCurrency();
   const [selectedTank, setSelectedTank] = useState<string | null>(null);
   const [addTankDialogOpen, setAddTankDialogOpen] = useState(false);
-  const [maintenanceDialogOpen, setMaintenanceDialogOpen] = useState(false);
-  const [selectedTankForMaintenance, setSelectedTankForMaintenance] = useState<TankWithProduct | null>(null);
+  const [maintenanceTank, setMaintenanceTank] = useState<TankWithProduct | null>(null);
+  const [dipTank, setDipTank] = useState<TankWithProduct | null>(null);
+  const [chartTank, setChartTank] = useState<TankWithProduct | null>(null);
+  const [thresholdsTank, setThresholdsTank] = useState<TankWithProduct | null>(null);
+  const [atgDialogOpen, setAtgDialogOpen] = useState(false);
+  const canManageTanks = user?.role === 'admin' || user?.role === 'manager';
 
   const handleAddTank = () => {
     setAddTankDialogOpen(true);
   };
 
   const handleMaintenance = (tank: TankWithProduct) => {
-    setSelectedTankForMaintenance(tank);
-    setMaintenanceDialogOpen(true);
+    setMaintenanceTank(tank);
   };
 
   const { data: tanks = [], isLoading } = useQuery<TankWithProduct[]>({
@@ -55,21 +93,79 @@ export default function TankMonitoring() {
     enabled: !!selectedTank,
   });
 
+  const { data: statusHistory = [] } = useQuery<StatusChangeRow[]>({
+    queryKey: [`/api/tanks/${selectedTank}/status-history`],
+    enabled: !!selectedTank,
+  });
+
+  const { data: dipReadings = [] } = useQuery<DipReadingRow[]>({
+    queryKey: [`/api/dip-readings/${user?.stationId}`],
+    enabled: !!user?.stationId,
+  });
+
+  const { data: maintenanceOrders = [] } = useQuery<MaintenanceOrderRow[]>({
+    queryKey: [`/api/maintenance-orders/${user?.stationId}`],
+    enabled: !!user?.stationId,
+  });
+
+  const { data: atgConsole = null } = useQuery<AtgConsole | null>({
+    queryKey: [`/api/atg/console/${user?.stationId}`],
+    enabled: !!user?.stationId,
+  });
+
+  const { data: probeReadings = [] } = useQuery<AtgReading[]>({
+    queryKey: [`/api/atg/readings/${user?.stationId}`],
+    enabled: !!user?.stationId && !!atgConsole,
+    refetchInterval: 10000,
+  });
+
+  const { data: atgDeliveries = [] } = useQuery<AtgDeliveryRow[]>({
+    queryKey: [`/api/atg/deliveries/${user?.stationId}`],
+    enabled: !!user?.stationId && !!atgConsole,
+    refetchInterval: 60000,
+  });
+
+  // A probe reading more than three polls old means the console link is down, and the tank
+  // falls back to book stock. Console clocks only run to the minute, hence the extra minute.
+  const probeFreshForMs = ((atgConsole?.pollIntervalSeconds ?? 60) * 3 + 60) * 1000;
+  const liveReadings = new Map<string, AtgReading>();
+  for (const reading of probeReadings) {
+    if (atgConsole?.isActive && Date.now() - new Date(reading.readingDate).getTime() <= probeFreshForMs) {
+      liveReadings.set(reading.tankId, reading);
+    }
+  }
+
+  // Open work orders, soonest first
+  const openOrders = maintenanceOrders
+    .filter(isOpenOrder)
+    .sort((a, b) => new Date(a.scheduledDate).getTime() - new Date(b.scheduledDate).getTime());
+
+  // Readings come newest first, so the first one seen for a tank is its latest dip
+  const latestDips = new Map<string, DipReadingRow>();
+  for (const reading of dipReadings) {
+    if (!latestDips.has(reading.tankId)) latestDips.set(reading.tankId, reading);
+  }
+
+  // Litres in the tank: the probe level where there is a live reading, else book stock
+  const getLevel = (tank: Tank): number => {
+    const reading = liveReadings.get(tank.id);
+    return reading ? parseFloat(reading.productVolume) : parseFloat(tank.currentStock || '0');
+  };
+
   const getStockPercentage = (tank: Tank): number => {
-    const current = parseFloat(tank.currentStock || '0');
+    const current = getLevel(tank);
     const capacity = parseFloat(tank.capacity || '1');
     return Math.round((current / capacity) * 100);
   };
 
-  const getStockStatus = (tank: Tank): 'critical' | 'low' | 'normal' => {
-    const percentage = getStockPercentage(tank);
-    const minLevel = parseFloat(tank.minimumLevel || '0');
-    const capacity = parseFloat(tank.capacity || '1');
-    const minPercentage = (minLevel / capacity) * 100;
-
-    if (percentage <= minPercentage * 0.5) return 'critical';
-    if (percentage <= minPercentage) return 'low';
-    return 'normal';
+  // The server keeps the status in step with stock; a tank under maintenance still shows its stock level
+  const getStockStatus = (tank: Tank): TankStockStatus => {
+    if (tank.status && tank.status !== 'maintenance') return tank.status;
+    return tankStockStatus(
+      parseFloat(tank.currentStock || '0'),
+      parseFloat(tank.minimumLevel || '0'),
+      tank.criticalLevel === null ? null : parseFloat(tank.criticalLevel)
+    );
   };
 
   const getStatusIcon = (status: string) => {
@@ -110,7 +206,7 @@ export default function TankMonitoring() {
   });
 
   const totalCapacity = tanks.reduce((sum, tank) => sum + parseFloat(tank.capacity || '0'), 0);
-  const totalStock = tanks.reduce((sum, tank) => sum + parseFloat(tank.currentStock || '0'), 0);
+  const totalStock = tanks.reduce((sum, tank) => sum + getLevel(tank), 0);
   const totalStockPercentage = totalCapacity > 0 ? Math.round((totalStock / totalCapacity) * 100) : 0;
 
   if (isLoading) {
@@ -138,7 +234,18 @@ export default function TankMonitoring() {
         </div>
         <div className="flex items-center gap-2">
           <Gauge className="w-5 h-5" />
-          <span className="text-sm font-medium">Live Monitoring</span>
+          <span className="text-sm font-medium" data-testid="text-level-source">
+            {liveReadings.size > 0 ? 'Live Probe Levels' : 'Book Stock Levels'}
+          </span>
+          {atgConsole?.isActive && atgConsole.lastError && (
+            <Badge variant="destructive" title={atgConsole.lastError}>ATG Offline</Badge>
+          )}
+          {canManageTanks && (
+            <Button variant="outline" size="sm" onClick={() => setAtgDialogOpen(true)} data-testid="button-atg-console">
+              <Radio className="w-4 h-4 mr-2" />
+              ATG Console
+            </Button>
+          )}
         </div>
       </div>
 
@@ -238,6 +345,11 @@ export default function TankMonitoring() {
                   </CardTitle>
                   <div className="flex items-center gap-2">
                     {getStatusIcon(tank.status || 'normal')}
+                    {tank.status === 'maintenance' && (
+                      <Badge variant={getStatusColor('maintenance')} data-testid={`tank-out-of-service-${tank.name.toLowerCase().replace(/\s+/g, '-')}`}>
+                        OUT OF SERVICE
+                      </Badge>
+                    )}
                     <Badge variant={getStatusColor(stockStatus)} data-testid={`tank-status-${tank.name.toLowerCase().replace(/\s+/g, '-')}`}>
                       {stockStatus.toUpperCase()}
                     </Badge>
@@ -251,7 +363,7 @@ export default function TankMonitoring() {
                 {/* Stock Level Progress */}
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
-                    <span>Stock Level</span>
+                    <span>Stock Level {liveReadings.has(tank.id) ? '(probe)' : '(book)'}</span>
                     <span className="font-medium" data-testid={`tank-percentage-${tank.name.toLowerCase().replace(/\s+/g, '-')}`}>
                       {percentage}%
                     </span>
@@ -263,7 +375,7 @@ export default function TankMonitoring() {
                   />
                   <div className="flex justify-between text-xs text-muted-foreground">
                     <span data-testid={`tank-current-stock-${tank.name.toLowerCase().replace(/\s+/g, '-')}`}>
-                      {parseFloat(tank.currentStock || '0').toLocaleString()}L
+                      {getLevel(tank).toLocaleString()}L
                     </span>
                     <span data-testid={`tank-capacity-${tank.name.toLowerCase().replace(/\s+/g, '-')}`}>
                       {parseFloat(tank.capacity || '0').toLocaleString()}L
@@ -274,9 +386,9 @@ export default function TankMonitoring() {
                 {/* Stock Metrics */}
                 <div className="grid grid-cols-2 gap-4 text-sm">
                   <div>
-                    <p className="text-muted-foreground">Min Level</p>
+                    <p className="text-muted-foreground">Low / Critical</p>
                     <p className="font-medium" data-testid={`tank-min-level-${tank.name.toLowerCase().replace(/\s+/g, '-')}`}>
-                      {parseFloat(tank.minimumLevel || '0').toLocaleString()}L
+                      {parseFloat(tank.minimumLevel || '0').toLocaleString()}L / {criticalLevelFor(parseFloat(tank.minimumLevel || '0'), tank.criticalLevel === null ? null : parseFloat(tank.criticalLevel)).toLocaleString()}L
                     </p>
                   </div>
                   <div>
@@ -290,6 +402,68 @@ export default function TankMonitoring() {
                   </div>
                 </div>
 
+                {/* Probe measurements against book stock */}
+                {liveReadings.has(tank.id) && (() => {
+                  const reading = liveReadings.get(tank.id)!;
+                  const bookStock = parseFloat(tank.currentStock || '0');
+                  const difference = Math.round((parseFloat(reading.productVolume) - bookStock) * 10) / 10;
+                  return (
+                    <div className="pt-2 border-t text-sm space-y-1" data-testid={`tank-probe-${tank.name.toLowerCase().replace(/\s+/g, '-')}`}>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Book Stock</span>
+                        <span>
+                          {bookStock.toLocaleString()}L
+                          <span className={`ml-2 text-xs ${difference < 0 ? 'text-red-600' : difference > 0 ? 'text-green-600' : 'text-muted-foreground'}`}>
+                            probe {difference > 0 ? '+' : ''}{difference.toLocaleString()}L
+                          </span>
+                        </span>
+                      </div>
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>
+                          {reading.temperature ? `${parseFloat(reading.temperature)}°C` : '-'}
+                          {' · '}water {reading.waterVolume ? `${parseFloat(reading.waterVolume).toLocaleString()}L` : '-'}
+                          {reading.deliveryInProgress && <span className="ml-1 text-blue-600">· delivery in progress</span>}
+                        </span>
+                        <span>{new Date(reading.readingDate).toLocaleTimeString()}</span>
+                      </div>
+                    </div>
+                  );
+                })()}
+
+                {/* Physical stock from the last dip, against book stock at the time */}
+                {latestDips.has(tank.id) && (() => {
+                  const dip = latestDips.get(tank.id)!;
+                  const variance = parseFloat(dip.varianceQuantity);
+                  return (
+                    <div className="pt-2 border-t text-sm" data-testid={`tank-last-dip-${tank.name.toLowerCase().replace(/\s+/g, '-')}`}>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Dip Stock</span>
+                        <span className="font-medium">{parseFloat(dip.productVolume).toLocaleString()}L</span>
+                      </div>
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>{new Date(dip.readingDate || dip.createdAt || new Date()).toLocaleString()}</span>
+                        <span className={variance < 0 ? 'text-red-600' : variance > 0 ? 'text-green-600' : ''}>
+                          {variance > 0 ? '+' : ''}{variance.toLocaleString()}L vs book
+                        </span>
+                      </div>
+                    </div>
+                  );
+                })()}
+
+                {/* Next Maintenance */}
+                {(() => {
+                  const next = openOrders.find((order) => order.tankId === tank.id);
+                  if (!next) return null;
+                  return (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Maintenance</span>
+                      <span className={isOverdue(next) ? 'text-red-600 font-medium' : ''} data-testid={`tank-next-maintenance-${tank.name.toLowerCase().replace(/\s+/g, '-')}`}>
+                        {maintenanceTypeLabels[next.maintenanceType]} {next.status === 'in_progress' ? 'in progress' : `${isOverdue(next) ? 'overdue since' : 'due'} ${new Date(next.scheduledDate).toLocaleDateString()}`}
+                      </span>
+                    </div>
+                  );
+                })()}
+
                 {/* Stock Value */}
                 <div className="pt-2 border-t">
                   <div className="flex justify-between items-center">
@@ -314,11 +488,43 @@ export default function TankMonitoring() {
                     <Calendar className="w-4 h-4 mr-2" />
                     {selectedTank === tank.id ? 'Hide' : 'View'} History
                   </Button>
-                  {tank.status === 'maintenance' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDipTank(tank)}
+                    title="Record dip"
+                    data-testid={`button-dip-${tank.name.toLowerCase().replace(/\s+/g, '-')}`}
+                  >
+                    <Ruler className="w-4 h-4" />
+                  </Button>
+                  {canManageTanks && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setThresholdsTank(tank)}
+                      title="Stock levels"
+                      data-testid={`button-thresholds-${tank.name.toLowerCase().replace(/\s+/g, '-')}`}
+                    >
+                      <SlidersHorizontal className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {canManageTanks && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setChartTank(tank)}
+                      title="Calibration chart"
+                      data-testid={`button-chart-${tank.name.toLowerCase().replace(/\s+/g, '-')}`}
+                    >
+                      <Table2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {(canManageTanks || tank.status === 'maintenance') && (
                     <Button 
                       variant="outline" 
                       size="sm"
                       onClick={() => handleMaintenance(tank)}
+                      title="Maintenance"
                       data-testid={`button-maintenance-${tank.name.toLowerCase().replace(/\s+/g, '-')}`}
                     >
                       <Wrench className="w-4 h-4" />
@@ -361,6 +567,36 @@ export default function TankMonitoring() {
                     ) : (
                       <p className="text-xs text-muted-foreground">No recent activity</p>
                     )}
+
+                    <h4 className="font-medium text-sm flex items-center pt-2">
+                      <Gauge className="w-4 h-4 mr-2" />
+                      Status Changes
+                    </h4>
+                    {statusHistory.length > 0 ? (
+                      <div className="space-y-1 max-h-32 overflow-y-auto">
+                        {statusHistory.slice(0, 10).map((change) => (
+                          <div
+                            key={change.id}
+                            className="flex justify-between items-center text-xs p-2 rounded bg-muted/50"
+                            data-testid={`status-change-${change.id}`}
+                          >
+                            <div>
+                              <div className="font-medium">
+                                {change.fromStatus ? `${change.fromStatus.toUpperCase()} → ` : ''}{change.toStatus.toUpperCase()}
+                              </div>
+                              <div className="text-muted-foreground">
+                                {statusChangeReasonLabels[change.reason]} at {parseFloat(change.currentStock).toLocaleString()}L{change.userName ? ` by ${change.userName}` : ''}
+                              </div>
+                            </div>
+                            <div className="text-muted-foreground text-right">
+                              {new Date(change.changedAt || new Date()).toLocaleString()}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">No status changes recorded</p>
+                    )}
                   </div>
                 )}
               </CardContent>
@@ -369,6 +605,164 @@ export default function TankMonitoring() {
         })}
       </div>
 
+      {/* Maintenance Schedule */}
+      {openOrders.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Wrench className="w-5 h-5 mr-2" />
+              Maintenance Schedule
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2">Due</th>
+                    <th className="py-2">Tank</th>
+                    <th className="py-2">Work</th>
+                    <th className="py-2">Repeats</th>
+                    <th className="py-2">Vendor</th>
+                    <th className="py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {openOrders.map((order) => (
+                    <tr key={order.id} className="border-b" data-testid={`row-maintenance-${order.id}`}>
+                      <td className={`py-2 ${isOverdue(order) ? 'text-red-600 font-medium' : ''}`}>{new Date(order.scheduledDate).toLocaleDateString()}</td>
+                      <td className="py-2">{order.tankName}</td>
+                      <td className="py-2">
+                        {maintenanceTypeLabels[order.maintenanceType]}
+                        {order.description && <div className="text-xs text-muted-foreground">{order.description}</div>}
+                      </td>
+                      <td className="py-2">{order.recurrenceMonths ? `Every ${order.recurrenceMonths} month${order.recurrenceMonths > 1 ? 's' : ''}` : '-'}</td>
+                      <td className="py-2">{order.vendorName || '-'}</td>
+                      <td className="py-2">
+                        {order.status === 'in_progress' ? (
+                          <Badge variant="secondary">In progress</Badge>
+                        ) : isOverdue(order) ? (
+                          <Badge variant="destructive">Overdue</Badge>
+                        ) : (
+                          <Badge variant="outline">Scheduled</Badge>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Deliveries seen by the ATG */}
+      {atgDeliveries.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Truck className="w-5 h-5 mr-2" />
+              ATG Deliveries
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2">Started</th>
+                    <th className="py-2">Tank</th>
+                    <th className="py-2 text-right">Start</th>
+                    <th className="py-2 text-right">End</th>
+                    <th className="py-2 text-right">Delivered</th>
+                    <th className="py-2 text-right">At 15°C</th>
+                    <th className="py-2">Source</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {atgDeliveries.slice(0, 20).map((delivery) => (
+                    <tr key={delivery.id} className="border-b" data-testid={`row-atg-delivery-${delivery.id}`}>
+                      <td className="py-2">
+                        {new Date(delivery.startedAt).toLocaleString()}
+                        <div className="text-xs text-muted-foreground">
+                          {Math.max(1, Math.round((new Date(delivery.endedAt).getTime() - new Date(delivery.startedAt).getTime()) / 60000))} min
+                        </div>
+                      </td>
+                      <td className="py-2">
+                        {delivery.tankName}
+                        <div className="text-xs text-muted-foreground">{delivery.productName}</div>
+                      </td>
+                      <td className="py-2 text-right">{parseFloat(delivery.startVolume).toLocaleString()}L</td>
+                      <td className="py-2 text-right">{parseFloat(delivery.endVolume).toLocaleString()}L</td>
+                      <td className="py-2 text-right font-medium">{parseFloat(delivery.quantity).toLocaleString()}L</td>
+                      <td className="py-2 text-right">{delivery.tcQuantity ? `${parseFloat(delivery.tcQuantity).toLocaleString()}L` : '-'}</td>
+                      <td className="py-2">
+                        {delivery.source === 'console' ? (
+                          <Badge variant="default">Console</Badge>
+                        ) : (
+                          <Badge variant="outline" title="Found from a jump in the probe level">Detected</Badge>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Dip Logbook */}
+      {dipReadings.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Ruler className="w-5 h-5 mr-2" />
+              Dip Logbook
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2">Date</th>
+                    <th className="py-2">Tank</th>
+                    <th className="py-2 text-right">Dip</th>
+                    <th className="py-2 text-right">Water</th>
+                    <th className="py-2 text-right">Temp</th>
+                    <th className="py-2 text-right">Physical</th>
+                    <th className="py-2 text-right">Book</th>
+                    <th className="py-2 text-right">Variance</th>
+                    <th className="py-2">Taken By</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {dipReadings.slice(0, 20).map((reading) => {
+                    const variance = parseFloat(reading.varianceQuantity);
+                    return (
+                      <tr key={reading.id} className="border-b" data-testid={`row-dip-${reading.id}`}>
+                        <td className="py-2">{new Date(reading.readingDate || reading.createdAt || new Date()).toLocaleString()}</td>
+                        <td className="py-2">{reading.tankName}</td>
+                        <td className="py-2 text-right">{formatDip(reading.dipMm, reading.dipUnit)}</td>
+                        <td className="py-2 text-right">{formatDip(reading.waterMm, reading.dipUnit)}</td>
+                        <td className="py-2 text-right">{reading.temperature ? `${parseFloat(reading.temperature)}°C` : '-'}</td>
+                        <td className="py-2 text-right">{parseFloat(reading.productVolume).toLocaleString()}L</td>
+                        <td className="py-2 text-right">{parseFloat(reading.bookStock).toLocaleString()}L</td>
+                        <td className={`py-2 text-right ${variance < 0 ? 'text-red-600' : variance > 0 ? 'text-green-600' : ''}`}>
+                          {variance > 0 ? '+' : ''}{variance.toLocaleString()}L
+                        </td>
+                        <td className="py-2">{reading.userName || '-'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {tanks.length === 0 && (
         <Card>
           <CardContent className="text-center py-12">
@@ -397,20 +791,791 @@ export default function TankMonitoring() {
         </DialogContent>
       </Dialog>
 
-      {/* Maintenance Dialog */}
-      <Dialog open={maintenanceDialogOpen} onOpenChange={setMaintenanceDialogOpen}>
-        <DialogContent className="sm:max-w-[500px]">
-          <DialogHeader>
-            <DialogTitle>Tank Maintenance</DialogTitle>
-          </DialogHeader>
-          {selectedTankForMaintenance && (
-            <div className="p-4">
-              <p className="mb-4">Tank: {selectedTankForMaintenance.name}</p>
-              <p className="text-muted-foreground">Maintenance scheduling functionality will be implemented soon.</p>
+      {maintenanceTank && (
+        <MaintenanceDialog
+          tank={maintenanceTank}
+          orders={maintenanceOrders.filter((order) => order.tankId === maintenanceTank.id)}
+          canManage={canManageTanks}
+          onClose={() => setMaintenanceTank(null)}
+        />
+      )}
+
+      {dipTank && <DipReadingDialog tank={dipTank} onClose={() => setDipTank(null)} />}
+      {chartTank && <CalibrationChartDialog tank={chartTank} onClose={() => setChartTank(null)} />}
+      {thresholdsTank && <ThresholdsDialog tank={thresholdsTank} onClose={() => setThresholdsTank(null)} />}
+      {atgDialogOpen && user?.stationId && (
+        <AtgConsoleDialog stationId={user.stationId} atgConsole={atgConsole} tanks={tanks} onClose={() => setAtgDialogOpen(false)} />
+      )}
+    </div>
+  );
+}
+
+// Heights are stored in mm; show them in the unit the dip was read in
+function formatDip(valueMm: string, unit: 'mm' | 'cm'): string {
+  const mm = parseFloat(valueMm);
+  return unit === 'cm' ? `${(mm / 10).toLocaleString()} cm` : `${mm.toLocaleString()} mm`;
+}
+
+// Records a dip; the litres are previewed from the tank's chart and worked out again on the server
+function DipReadingDialog({ tank, onClose }: { tank: TankWithProduct; onClose: () => void }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [dipUnit, setDipUnit] = useState<'mm' | 'cm'>("cm");
+  const [dip, setDip] = useState("");
+  const [waterLevel, setWaterLevel] = useState("0");
+  const [temperature, setTemperature] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data: chart, isLoading: chartLoading } = useQuery<TankCalibrationChart | null>({
+    queryKey: [`/api/tanks/${tank.id}/calibration`],
+  });
+
+  const dipMm = dip === "" ? null : toMillimetres(parseFloat(dip), dipUnit);
+  const waterMm = toMillimetres(parseFloat(waterLevel || "0"), dipUnit);
+  const totalVolume = chart && dipMm !== null ? dipToVolume(chart.points, dipMm) : null;
+  const waterVolume = chart ? dipToVolume(chart.points, waterMm) : null;
+  const productVolume = totalVolume !== null && waterVolume !== null ? totalVolume - waterVolume : null;
+  const bookStock = parseFloat(tank.currentStock || '0');
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/dip-readings", {
+        tankId: tank.id,
+        dipUnit,
+        dip,
+        waterLevel: waterLevel || "0",
+        temperature: temperature === "" ? undefined : temperature,
+        notes: notes || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Dip recorded", description: `${tank.name} dip saved to the logbook` });
+      queryClient.invalidateQueries({ queryKey: [`/api/dip-readings/${user?.stationId}`] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/reports/wet-stock/") });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to record dip", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Record Dip - {tank.name}</DialogTitle>
+        </DialogHeader>
+        {!chartLoading && !chart ? (
+          <p className="text-sm text-muted-foreground">
+            This tank has no calibration chart yet. A manager needs to enter its strapping chart before dips can be converted to litres.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label>Unit</Label>
+                <Select value={dipUnit} onValueChange={(value) => setDipUnit(value as 'mm' | 'cm')}>
+                  <SelectTrigger data-testid="select-dip-unit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cm">cm</SelectItem>
+                    <SelectItem value="mm">mm</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Dip *</Label>
+                <Input type="number" min="0" step="0.1" value={dip} onChange={(e) => setDip(e.target.value)} data-testid="input-dip" />
+              </div>
+              <div>
+                <Label>Water</Label>
+                <Input type="number" min="0" step="0.1" value={waterLevel} onChange={(e) => setWaterLevel(e.target.value)} data-testid="input-water-level" />
+              </div>
+            </div>
+            <div>
+              <Label>Temperature (°C)</Label>
+              <Input type="number" step="0.1" value={temperature} onChange={(e) => setTemperature(e.target.value)} data-testid="input-dip-temperature" />
             </div>
+            <div>
+              <Label>Notes</Label>
+              <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} data-testid="input-dip-notes" />
+            </div>
+
+            {dipMm !== null && (
+              <div className="p-3 bg-muted rounded-md text-sm space-y-1">
+                {productVolume === null ? (
+                  <p className="text-red-600">This dip is above the top of the calibration chart.</p>
+                ) : (
+                  <>
+                    <div className="flex justify-between"><span>Physical stock</span><span className="font-medium">{productVolume.toLocaleString()}L</span></div>
+                    <div className="flex justify-between"><span>Book stock</span><span>{bookStock.toLocaleString()}L</span></div>
+                    <div className="flex justify-between"><span>Variance</span><span>{(productVolume - bookStock).toFixed(1)}L</span></div>
+                  </>
+                )}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+              <Button
+                onClick={() => recordMutation.mutate()}
+                disabled={dip === "" || productVolume === null || recordMutation.isPending}
+                data-testid="button-save-dip"
+              >
+                {recordMutation.isPending ? "Saving..." : "Save Dip"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Reads "dip mm, litres" pairs, one per line, as printed on the tank's calibration certificate
+function parseChartText(text: string): CalibrationPoint[] | null {
+  const points: CalibrationPoint[] = [];
+  for (const line of text.split("\n")) {
+    if (line.trim() === "") continue;
+    const [dipMm, volume] = line.trim().split(/[,;\t ]+/).map((value) => parseFloat(value));
+    if (!Number.isFinite(dipMm) || !Number.isFinite(volume)) return null;
+    points.push({ dipMm, volume });
+  }
+  return points;
+}
+
+function CalibrationChartDialog({ tank, onClose }: { tank: TankWithProduct; onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reference, setReference] = useState("");
+  const [chartText, setChartText] = useState("");
+
+  const { data: chart } = useQuery<TankCalibrationChart | null>({
+    queryKey: [`/api/tanks/${tank.id}/calibration`],
+  });
+
+  useEffect(() => {
+    if (!chart) return;
+    setReference(chart.reference ?? "");
+    setChartText(chart.points.map((point) => `${point.dipMm}, ${point.volume}`).join("\n"));
+  }, [chart]);
+
+  const points = parseChartText(chartText);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/tanks/${tank.id}/calibration`, {
+        reference: reference || undefined,
+        points,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Calibration chart saved", description: `New dips on ${tank.name} will use this chart` });
+      queryClient.invalidateQueries({ queryKey: [`/api/tanks/${tank.id}/calibration`] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save calibration chart", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Calibration Chart - {tank.name}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Certificate / Chart Reference</Label>
+            <Input value={reference} onChange={(e) => setReference(e.target.value)} data-testid="input-chart-reference" />
+          </div>
+          <div>
+            <Label>Points (dip in mm, litres — one per line)</Label>
+            <Textarea
+              rows={12}
+              className="font-mono text-sm"
+              placeholder={"0, 0\n100, 850\n200, 2100"}
+              value={chartText}
+              onChange={(e) => setChartText(e.target.value)}
+              data-testid="input-chart-points"
+            />
+            {points === null ? (
+              <p className="text-xs text-red-600 mt-1">Each line needs a dip and a volume.</p>
+            ) : (
+              <p className="text-xs text-muted-foreground mt-1">
+                {points.length} points{points.length > 0 && `, up to ${points[points.length - 1].volume.toLocaleString()}L (tank capacity ${parseFloat(tank.capacity).toLocaleString()}L)`}
+              </p>
+            )}
+          </div>
+          {chart && (
+            <p className="text-xs text-muted-foreground">
+              Current chart saved {new Date(chart.createdAt || new Date()).toLocaleDateString()}. Saving keeps it for earlier dips and uses the new one from now on.
+            </p>
           )}
-        </DialogContent>
-      </Dialog>
-    </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!points || points.length < 2 || saveMutation.isPending}
+              data-testid="button-save-chart"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Chart"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// The stock levels at which the tank turns low and critical
+function ThresholdsDialog({ tank, onClose }: { tank: TankWithProduct; onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [minimumLevel, setMinimumLevel] = useState(parseFloat(tank.minimumLevel || '0').toString());
+  const [criticalLevel, setCriticalLevel] = useState(tank.criticalLevel === null ? "" : parseFloat(tank.criticalLevel).toString());
+
+  const minimum = parseFloat(minimumLevel);
+  const critical = criticalLevel === "" ? null : parseFloat(criticalLevel);
+  const invalid = !Number.isFinite(minimum) || minimum < 0 || (critical !== null && (!Number.isFinite(critical) || critical < 0 || critical > minimum));
+  const previewStatus = invalid ? null : tankStockStatus(parseFloat(tank.currentStock || '0'), minimum, critical);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/tanks/${tank.id}/thresholds`, {
+        minimumLevel: minimum,
+        criticalLevel: critical,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Stock levels saved", description: `${tank.name} status is now worked out from the new levels` });
+      queryClient.invalidateQueries({ queryKey: [`/api/tanks/${tank.stationId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tanks", tank.stationId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tanks/${tank.id}/status-history`] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save stock levels", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Stock Levels - {tank.name}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Low at or below (L)</Label>
+              <Input type="number" min="0" step="1" value={minimumLevel} onChange={(e) => setMinimumLevel(e.target.value)} data-testid="input-minimum-level" />
+            </div>
+            <div>
+              <Label>Critical at or below (L)</Label>
+              <Input
+                type="number"
+                min="0"
+                step="1"
+                placeholder={Number.isFinite(minimum) ? (minimum / 2).toString() : ""}
+                value={criticalLevel}
+                onChange={(e) => setCriticalLevel(e.target.value)}
+                data-testid="input-critical-level"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Leave the critical level empty to use half the low level.
+          </p>
+          {critical !== null && Number.isFinite(minimum) && critical > minimum && (
+            <p className="text-xs text-red-600">The critical level cannot be above the low level.</p>
+          )}
+          {previewStatus && (
+            <div className="p-3 bg-muted rounded-md text-sm flex justify-between">
+              <span>At {parseFloat(tank.currentStock || '0').toLocaleString()}L the tank will be</span>
+              <span className="font-medium">{previewStatus.toUpperCase()}</span>
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={invalid || saveMutation.isPending}
+              data-testid="button-save-thresholds"
+            >
+              {saveMutation.isPending ? "Saving..." : "Save Levels"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Work orders for one tank: schedule new ones and, for managers, start, complete or cancel open ones
+function MaintenanceDialog({ tank, orders, canManage, onClose }: { tank: TankWithProduct; orders: MaintenanceOrderRow[]; canManage: boolean; onClose: () => void }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { formatCurrency } = useCurrency();
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<{ type: 'list' } | { type: 'schedule' } | { type: 'complete' | 'cancel'; order: MaintenanceOrderRow }>({ type: 'list' });
+
+  const [maintenanceType, setMaintenanceType] = useState<TankMaintenanceOrder['maintenanceType']>("cleaning");
+  const [scheduledDate, setScheduledDate] = useState(new Date().toISOString().slice(0, 10));
+  const [recurrenceMonths, setRecurrenceMonths] = useState("");
+  const [description, setDescription] = useState("");
+  const [vendorName, setVendorName] = useState("");
+  const [outOfService, setOutOfService] = useState(true);
+
+  const [completionNotes, setCompletionNotes] = useState("");
+  const [cost, setCost] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState("cash");
+  const [receiptNumber, setReceiptNumber] = useState("");
+  const [cancelReason, setCancelReason] = useState("");
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/maintenance-orders/${user?.stationId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/tanks/${user?.stationId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tanks", user?.stationId] });
+  };
+
+  const orderMutation = useMutation({
+    mutationFn: async ({ path, body }: { path: string; body: Record<string, unknown> }) => {
+      const response = await apiRequest("POST", path, body);
+      return response.json();
+    },
+    onSuccess: (_, { path }) => {
+      const action = path.endsWith('/start') ? "Work started" : path.endsWith('/complete') ? "Work order completed" : path.endsWith('/cancel') ? "Work order cancelled" : "Work order scheduled";
+      toast({ title: action, description: path.endsWith('/complete') && parseFloat(cost || '0') > 0 ? "Cost posted to expenses" : undefined });
+      if (path.endsWith('/complete')) {
+        queryClient.invalidateQueries({ queryKey: ["/api/expenses", user?.stationId] });
+      }
+      invalidate();
+      setMode({ type: 'list' });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to update work order", variant: "destructive" });
+    },
+  });
+
+  const startCompletion = (order: MaintenanceOrderRow) => {
+    setCompletionNotes("");
+    setCost("");
+    setPaymentMethod("cash");
+    setVendorName(order.vendorName || "");
+    setReceiptNumber("");
+    setMode({ type: 'complete', order });
+  };
+
+  const startCancellation = (order: MaintenanceOrderRow) => {
+    setCancelReason("");
+    setMode({ type: 'cancel', order });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Maintenance - {tank.name}</DialogTitle>
+        </DialogHeader>
+
+        {tank.status === 'maintenance' && (
+          <Alert>
+            <Wrench className="h-4 w-4" />
+            <AlertDescription>This tank is out of service: sales and deliveries are blocked until its work order is closed.</AlertDescription>
+          </Alert>
+        )}
+
+        {mode.type === 'list' && (
+          <div className="space-y-3">
+            {orders.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No work orders for this tank yet.</p>
+            ) : (
+              orders.map((order) => (
+                <div key={order.id} className="p-3 border rounded-md text-sm space-y-1" data-testid={`maintenance-order-${order.id}`}>
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">
+                      {maintenanceTypeLabels[order.maintenanceType]} · {new Date(order.scheduledDate).toLocaleDateString()}
+                    </span>
+                    <Badge variant={order.status === 'completed' ? 'default' : order.status === 'cancelled' ? 'outline' : isOverdue(order) ? 'destructive' : 'secondary'}>
+                      {isOverdue(order) ? 'Overdue' : order.status.replace('_', ' ')}
+                    </Badge>
+                  </div>
+                  {order.description && <div className="text-muted-foreground">{order.description}</div>}
+                  <div className="text-xs text-muted-foreground">
+                    {order.vendorName ? `${order.vendorName} · ` : ''}
+                    {order.recurrenceMonths ? `Repeats every ${order.recurrenceMonths} month${order.recurrenceMonths > 1 ? 's' : ''}` : 'One-off'}
+                    {order.outOfService ? ' · Takes the tank out of service' : ''}
+                  </div>
+                  {order.status === 'completed' && (
+                    <div className="text-xs">
+                      Completed {order.completedAt ? new Date(order.completedAt).toLocaleDateString() : ''}
+                      {order.cost && parseFloat(order.cost) > 0 ? ` · ${formatCurrency(parseFloat(order.cost))}` : ''}
+                      {order.completionNotes ? ` · ${order.completionNotes}` : ''}
+                    </div>
+                  )}
+                  {order.status === 'cancelled' && order.cancelReason && (
+                    <div className="text-xs text-muted-foreground">Cancelled: {order.cancelReason}</div>
+                  )}
+                  {canManage && isOpenOrder(order) && (
+                    <div className="flex gap-2 pt-1">
+                      {order.status === 'scheduled' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => orderMutation.mutate({ path: `/api/maintenance-orders/${order.id}/start`, body: {} })}
+                          disabled={orderMutation.isPending}
+                          data-testid={`button-start-maintenance-${order.id}`}
+                        >
+                          Start Work
+                        </Button>
+                      )}
+                      <Button size="sm" onClick={() => startCompletion(order)} data-testid={`button-complete-maintenance-${order.id}`}>
+                        Complete
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => startCancellation(order)} data-testid={`button-cancel-maintenance-${order.id}`}>
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+            {canManage && (
+              <Button variant="outline" onClick={() => setMode({ type: 'schedule' })} data-testid="button-schedule-maintenance">
+                <Plus className="w-4 h-4 mr-2" />
+                Schedule Work
+              </Button>
+            )}
+          </div>
+        )}
+
+        {mode.type === 'schedule' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Work *</Label>
+                <Select value={maintenanceType} onValueChange={(value) => setMaintenanceType(value as TankMaintenanceOrder['maintenanceType'])}>
+                  <SelectTrigger data-testid="select-maintenance-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(maintenanceTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Scheduled For *</Label>
+                <Input type="date" value={scheduledDate} onChange={(e) => setScheduledDate(e.target.value)} data-testid="input-maintenance-date" />
+              </div>
+              <div>
+                <Label>Repeat Every (months)</Label>
+                <Input type="number" min="1" max="60" step="1" placeholder="One-off" value={recurrenceMonths} onChange={(e) => setRecurrenceMonths(e.target.value)} data-testid="input-maintenance-recurrence" />
+              </div>
+              <div>
+                <Label>Vendor</Label>
+                <Input value={vendorName} onChange={(e) => setVendorName(e.target.value)} data-testid="input-maintenance-vendor" />
+              </div>
+            </div>
+            <div>
+              <Label>Description</Label>
+              <Textarea value={description} onChange={(e) => setDescription(e.target.value)} data-testid="input-maintenance-description" />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch checked={outOfService} onCheckedChange={setOutOfService} data-testid="switch-maintenance-out-of-service" />
+              <Label>Take the tank out of service while the work is done</Label>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setMode({ type: 'list' })}>Back</Button>
+              <Button
+                onClick={() => orderMutation.mutate({
+                  path: "/api/maintenance-orders",
+                  body: {
+                    tankId: tank.id,
+                    maintenanceType,
+                    scheduledDate: new Date(`${scheduledDate}T00:00:00`).toISOString(),
+                    recurrenceMonths: recurrenceMonths === "" ? undefined : recurrenceMonths,
+                    description: description || undefined,
+                    vendorName: vendorName || undefined,
+                    outOfService,
+                  },
+                })}
+                disabled={!scheduledDate || orderMutation.isPending}
+                data-testid="button-save-maintenance"
+              >
+                {orderMutation.isPending ? "Saving..." : "Schedule"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {mode.type === 'complete' && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {maintenanceTypeLabels[mode.order.maintenanceType]} scheduled for {new Date(mode.order.scheduledDate).toLocaleDateString()}.
+              {mode.order.recurrenceMonths ? ` The next one will be scheduled ${mode.order.recurrenceMonths} month${mode.order.recurrenceMonths > 1 ? 's' : ''} from today.` : ''}
+            </p>
+            <div>
+              <Label>Work Done *</Label>
+              <Textarea value={completionNotes} onChange={(e) => setCompletionNotes(e.target.value)} data-testid="input-maintenance-completion-notes" />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Cost</Label>
+                <Input type="number" min="0" step="0.01" placeholder="0.00" value={cost} onChange={(e) => setCost(e.target.value)} data-testid="input-maintenance-cost" />
+              </div>
+              <div>
+                <Label>Paid By</Label>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                  <SelectTrigger data-testid="select-maintenance-payment-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cash">Cash</SelectItem>
+                    <SelectItem value="card">Card</SelectItem>
+                    <SelectItem value="credit">On account</SelectItem>
+                    <SelectItem value="mobile_wallet">Mobile wallet</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Vendor</Label>
+                <Input value={vendorName} onChange={(e) => setVendorName(e.target.value)} data-testid="input-maintenance-completion-vendor" />
+              </div>
+              <div>
+                <Label>Receipt Number</Label>
+                <Input value={receiptNumber} onChange={(e) => setReceiptNumber(e.target.value)} data-testid="input-maintenance-receipt" />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">Any cost is posted to expenses under Maintenance. Closing the order returns the tank to service.</p>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setMode({ type: 'list' })}>Back</Button>
+              <Button
+                onClick={() => orderMutation.mutate({
+                  path: `/api/maintenance-orders/${mode.order.id}/complete`,
+                  body: {
+                    completionNotes,
+                    cost: cost || "0",
+                    paymentMethod,
+                    vendorName: vendorName || undefined,
+                    receiptNumber: receiptNumber || undefined,
+                  },
+                })}
+                disabled={!completionNotes.trim() || orderMutation.isPending}
+                data-testid="button-confirm-complete-maintenance"
+              >
+                {orderMutation.isPending ? "Saving..." : "Complete Work Order"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {mode.type === 'cancel' && (
+          <div className="space-y-4">
+            <div>
+              <Label>Reason *</Label>
+              <Textarea value={cancelReason} onChange={(e) => setCancelReason(e.target.value)} data-testid="input-maintenance-cancel-reason" />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => setMode({ type: 'list' })}>Back</Button>
+              <Button
+                variant="destructive"
+                onClick={() => orderMutation.mutate({ path: `/api/maintenance-orders/${mode.order.id}/cancel`, body: { reason: cancelReason } })}
+                disabled={!cancelReason.trim() || orderMutation.isPending}
+                data-testid="button-confirm-cancel-maintenance"
+              >
+                {orderMutation.isPending ? "Cancelling..." : "Cancel Work Order"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Console connection and the console tank number of each tank. Polling runs on the server.
+function AtgConsoleDialog({ stationId, atgConsole, tanks, onClose }: { stationId: string; atgConsole: AtgConsole | null; tanks: TankWithProduct[]; onClose: () => void }) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canSetAddress = user?.role === 'admin'; // The server connects wherever this points
+  const queryClient = useQueryClient();
+  const [adapterType, setAdapterType] = useState<AtgConsole['adapterType']>(atgConsole?.adapterType ?? 'tls_tcp');
+  const [host, setHost] = useState(atgConsole?.host ?? "");
+  const [port, setPort] = useState(atgConsole?.port?.toString() ?? "10001");
+  const [pollIntervalSeconds, setPollIntervalSeconds] = useState(atgConsole?.pollIntervalSeconds.toString() ?? "60");
+  const [deliveryThreshold, setDeliveryThreshold] = useState(atgConsole ? parseFloat(atgConsole.deliveryThreshold).toString() : "500");
+  const [isActive, setIsActive] = useState(atgConsole?.isActive ?? true);
+  const [tankNumbers, setTankNumbers] = useState<Record<string, string>>(
+    Object.fromEntries(tanks.map((tank) => [tank.id, tank.atgTankNumber?.toString() ?? ""]))
+  );
+
+  const invalidateAtgQueries = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/atg/") });
+    queryClient.invalidateQueries({ queryKey: [`/api/tanks/${stationId}`] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/atg/console/${stationId}`, {
+        adapterType,
+        host: adapterType === 'tls_tcp' ? host : undefined,
+        port: adapterType === 'tls_tcp' && port !== "" ? port : undefined,
+        pollIntervalSeconds,
+        deliveryThreshold,
+        isActive,
+        tanks: tanks.map((tank) => ({
+          tankId: tank.id,
+          atgTankNumber: tankNumbers[tank.id] ? tankNumbers[tank.id] : null,
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "ATG console saved", description: isActive ? "Probe readings will be collected on the next poll" : "Polling is switched off" });
+      invalidateAtgQueries();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save ATG console", variant: "destructive" });
+    },
+  });
+
+  const pollMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/atg/console/${stationId}/poll`);
+      return response.json() as Promise<{ readings: number; deliveries: number }>;
+    },
+    onSuccess: (result) => {
+      toast({ title: "Console polled", description: `${result.readings} reading${result.readings === 1 ? '' : 's'}, ${result.deliveries} deliver${result.deliveries === 1 ? 'y' : 'ies'}` });
+      invalidateAtgQueries();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Poll failed", description: error.message || "Failed to poll ATG console", variant: "destructive" });
+      invalidateAtgQueries();
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>ATG Console</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Console Type</Label>
+              <Select value={adapterType} onValueChange={(value) => setAdapterType(value as AtgConsole['adapterType'])}>
+                <SelectTrigger data-testid="select-atg-adapter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="tls_tcp">Veeder-Root TLS (TCP)</SelectItem>
+                  <SelectItem value="simulator">Simulator</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end gap-2 pb-2">
+              <Switch checked={isActive} onCheckedChange={setIsActive} data-testid="switch-atg-active" />
+              <Label>Poll this console</Label>
+            </div>
+          </div>
+
+          {adapterType === 'tls_tcp' && (
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <Label>Host</Label>
+                <Input placeholder="192.168.1.50" value={host} onChange={(e) => setHost(e.target.value)} disabled={!canSetAddress} data-testid="input-atg-host" />
+              </div>
+              <div>
+                <Label>Port</Label>
+                <Input type="number" min="1" max="65535" value={port} onChange={(e) => setPort(e.target.value)} disabled={!canSetAddress} data-testid="input-atg-port" />
+              </div>
+              <p className="col-span-3 text-xs text-muted-foreground">
+                {canSetAddress
+                  ? "For a console on RS-232, give the address of the serial-to-Ethernet converter it is wired to."
+                  : "Only an admin can change the console's address."}
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Poll Every (seconds)</Label>
+              <Input type="number" min="60" max="3600" value={pollIntervalSeconds} onChange={(e) => setPollIntervalSeconds(e.target.value)} data-testid="input-atg-interval" />
+            </div>
+            <div>
+              <Label>Delivery Jump (L)</Label>
+              <Input type="number" min="1" value={deliveryThreshold} onChange={(e) => setDeliveryThreshold(e.target.value)} data-testid="input-atg-threshold" />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            A rise of at least the delivery jump between two readings is logged as a delivery. Deliveries from the console's own log replace these.
+          </p>
+
+          <div>
+            <Label>Console Tank Numbers</Label>
+            <div className="space-y-2 mt-2">
+              {tanks.map((tank) => (
+                <div key={tank.id} className="flex items-center justify-between gap-4">
+                  <span className="text-sm">{tank.name} <span className="text-muted-foreground">({tank.product?.name})</span></span>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="99"
+                    className="w-24"
+                    placeholder="None"
+                    value={tankNumbers[tank.id] ?? ""}
+                    onChange={(e) => setTankNumbers({ ...tankNumbers, [tank.id]: e.target.value })}
+                    data-testid={`input-atg-tank-${tank.id}`}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {atgConsole && (
+            <div className="p-3 bg-muted rounded-md text-sm space-y-1">
+              <div className="flex justify-between">
+                <span>Last poll</span>
+                <span>{atgConsole.lastPolledAt ? new Date(atgConsole.lastPolledAt).toLocaleString() : 'Never'}</span>
+              </div>
+              {atgConsole.lastError && <p className="text-red-600">{atgConsole.lastError}</p>}
+            </div>
+          )}
+
+          <div className="flex justify-between gap-2">
+            <Button
+              variant="outline"
+              onClick={() => pollMutation.mutate()}
+              disabled={!atgConsole || pollMutation.isPending}
+              title={atgConsole ? undefined : "Save the console first"}
+              data-testid="button-atg-poll"
+            >
+              {pollMutation.isPending ? "Polling..." : "Poll Now"}
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={(adapterType === 'tls_tcp' && (host.trim() === "" || port === "")) || saveMutation.isPending}
+                data-testid="button-save-atg"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,127 @@
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { formatAmount, type CurrencyCode } from "@/lib/currency";
+import { CheckCircle, XCircle, AlertCircle } from "lucide-react";
+
+interface PublicInvoice {
+  invoiceNumber: string;
+  transactionDate: string | null;
+  stationName: string | null;
+  currencyCode: CurrencyCode;
+  subtotal: string;
+  taxAmount: string | null;
+  totalAmount: string;
+  status: string | null;
+  revokedAt: string | null;
+  valid: boolean;
+  items: Array<{
+    productName: string | null;
+    unit: string | null;
+    quantity: string;
+    unitPrice: string;
+    totalPrice: string;
+  }>;
+}
+
+// Public page reached from the receipt QR code; shows only the invoice summary
+export default function VerifyReceipt() {
+  const { token } = useParams<{ token: string }>();
+
+  const { data: invoice, isLoading, error } = useQuery<PublicInvoice>({
+    queryKey: ["/api/public/invoices", token!],
+    enabled: !!token,
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-lg font-medium text-gray-600">Verifying receipt...</div>
+      </div>
+    );
+  }
+
+  if (error || !invoice) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-8 text-center">
+            <AlertCircle className="w-12 h-12 text-destructive mx-auto mb-4" />
+            <h1 className="text-xl font-semibold mb-2">Receipt not found</h1>
+            <p className="text-sm text-muted-foreground">
+              This verification link is not valid. Please check the QR code on your receipt.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader className="text-center">
+          {invoice.valid ? (
+            <div className="flex flex-col items-center" data-testid="status-verified">
+              <CheckCircle className="w-12 h-12 text-green-600 mb-2" />
+              <CardTitle>Genuine receipt</CardTitle>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center" data-testid="status-revoked">
+              <XCircle className="w-12 h-12 text-destructive mb-2" />
+              <CardTitle>Receipt cancelled</CardTitle>
+              <p className="text-sm text-muted-foreground mt-1">
+                This invoice was voided
+                {invoice.revokedAt ? ` on ${new Date(invoice.revokedAt).toLocaleDateString()}` : ''} and is no longer valid.
+              </p>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 gap-2 text-sm mb-4">
+            <span className="text-muted-foreground">Station</span>
+            <span className="text-right font-medium">{invoice.stationName || '-'}</span>
+            <span className="text-muted-foreground">Invoice #</span>
+            <span className="text-right font-medium" data-testid="text-invoice-number">{invoice.invoiceNumber}</span>
+            <span className="text-muted-foreground">Date</span>
+            <span className="text-right">
+              {invoice.transactionDate ? new Date(invoice.transactionDate).toLocaleString() : '-'}
+            </span>
+          </div>
+
+          <Separator className="mb-4" />
+
+          <div className="space-y-2 text-sm mb-4">
+            {invoice.items.map((item, index) => (
+              <div key={index} className="flex justify-between gap-4">
+                <span>
+                  {item.productName || 'Item'} x {parseFloat(item.quantity).toFixed(3)} {item.unit || ''}
+                </span>
+                <span>{formatAmount(parseFloat(item.totalPrice), invoice.currencyCode)}</span>
+              </div>
+            ))}
+          </div>
+
+          <Separator className="mb-4" />
+
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Subtotal</span>
+              <span>{formatAmount(parseFloat(invoice.subtotal), invoice.currencyCode)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Tax</span>
+              <span>{formatAmount(parseFloat(invoice.taxAmount || '0'), invoice.currencyCode)}</span>
+            </div>
+            <div className="flex justify-between font-semibold text-base pt-1">
+              <span>Total</span>
+              <span data-testid="text-total">{formatAmount(parseFloat(invoice.totalAmount), invoice.currencyCode)}</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis, ReferenceLine } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Droplets } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import type { Settings } from "@shared/schema";
+
+interface ReconciliationDay {
+  tankId: string;
+  tankName: string;
+  productName: string;
+  date: string;
+  openingDip: number | null;
+  closingDip: number | null;
+  deliveries: number;
+  transfers: number;
+  meterSales: number;
+  bookSales: number;
+  expectedClosing: number | null;
+  variance: number | null;
+  variancePercent: number | null;
+  cumulativeVariance: number;
+  cumulativeVariancePercent: number;
+  status: 'ok' | 'alert' | 'incomplete';
+}
+
+interface ReconciliationAlert {
+  tankId: string;
+  tankName: string;
+  date: string;
+  type: 'daily' | 'cumulative';
+  variance: number;
+  variancePercent: number;
+  message: string;
+}
+
+interface WetStockReport {
+  tolerancePercent: number;
+  days: ReconciliationDay[];
+  alerts: ReconciliationAlert[];
+}
+
+const litres = (value: number | null) => (value === null ? "-" : `${value.toLocaleString()}L`);
+
+export default function WetStockReconciliation() {
+  const { user } = useAuth();
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 6), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [tankFilter, setTankFilter] = useState("all");
+
+  const { data: report, isLoading } = useQuery<WetStockReport>({
+    queryKey: [`/api/reports/wet-stock/${user?.stationId}?startDate=${encodeURIComponent(new Date(`${startDate}T00:00:00`).toISOString())}&endDate=${encodeURIComponent(new Date(`${endDate}T23:59:59`).toISOString())}`],
+    enabled: !!user?.stationId && !!startDate && !!endDate,
+  });
+
+  const tanks = Array.from(new Map((report?.days ?? []).map((day) => [day.tankId, day.tankName])).entries());
+  const days = (report?.days ?? []).filter((day) => tankFilter === "all" || day.tankId === tankFilter);
+  const trendTankId = tankFilter === "all" ? tanks[0]?.[0] : tankFilter;
+  const trend = (report?.days ?? [])
+    .filter((day) => day.tankId === trendTankId)
+    .map((day) => ({ date: day.date.slice(5), cumulative: day.cumulativeVariance }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight" data-testid="page-title">Wet-Stock Reconciliation</h1>
+          <p className="text-muted-foreground">Opening dip + deliveries ± transfers − meter sales against the closing dip, per tank and day</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <Label>From</Label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} data-testid="input-start-date" />
+          </div>
+          <div>
+            <Label>To</Label>
+            <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} data-testid="input-end-date" />
+          </div>
+          <div className="w-48">
+            <Label>Tank</Label>
+            <Select value={tankFilter} onValueChange={setTankFilter}>
+              <SelectTrigger data-testid="select-tank-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All tanks</SelectItem>
+                {tanks.map(([id, name]) => (
+                  <SelectItem key={id} value={id}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {report && report.alerts.length > 0 && (
+        <Alert className="border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20">
+          <AlertTriangle className="h-4 w-4 text-red-600" />
+          <AlertDescription>
+            <div className="font-semibold text-red-800 dark:text-red-200 mb-1">
+              Variance outside the {report.tolerancePercent}% tolerance — check for leaks, meter faults or theft
+            </div>
+            <ul className="text-sm text-red-700 dark:text-red-300 space-y-0.5" data-testid="wet-stock-alerts">
+              {report.alerts.map((alert, index) => (
+                <li key={`${alert.tankId}-${alert.type}-${index}`}>
+                  {alert.tankName} ({alert.type === 'cumulative' ? `to ${alert.date}` : alert.date}): {alert.message}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Cumulative Variance{trendTankId ? ` — ${tanks.find(([id]) => id === trendTankId)?.[1]}` : ""}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={trend}>
+                  <XAxis dataKey="date" />
+                  <YAxis />
+                  <Tooltip formatter={(value: number) => `${value.toLocaleString()} L`} />
+                  <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+                  <Line type="monotone" dataKey="cumulative" stroke="hsl(var(--primary))" strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+
+        {user?.stationId && (user.role === 'admin' || user.role === 'manager') && (
+          <ToleranceCard stationId={user.stationId} />
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Droplets className="w-5 h-5 mr-2" />
+            Daily Reconciliation
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-32 bg-muted rounded animate-pulse" />
+          ) : days.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No tanks to reconcile for this period.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Tank</TableHead>
+                    <TableHead className="text-right">Opening Dip</TableHead>
+                    <TableHead className="text-right">Deliveries</TableHead>
+                    <TableHead className="text-right">Transfers</TableHead>
+                    <TableHead className="text-right">Meter Sales</TableHead>
+                    <TableHead className="text-right">Book Sales</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Closing Dip</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                    <TableHead className="text-right">Cumulative</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {days.map((day) => (
+                    <TableRow key={`${day.tankId}-${day.date}`} data-testid={`row-wet-stock-${day.tankId}-${day.date}`}>
+                      <TableCell>{day.date}</TableCell>
+                      <TableCell>
+                        {day.tankName}
+                        <div className="text-xs text-muted-foreground">{day.productName}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{litres(day.openingDip)}</TableCell>
+                      <TableCell className="text-right">{litres(day.deliveries)}</TableCell>
+                      <TableCell className="text-right">{litres(day.transfers)}</TableCell>
+                      <TableCell className="text-right">{litres(day.meterSales)}</TableCell>
+                      <TableCell className="text-right">{litres(day.bookSales)}</TableCell>
+                      <TableCell className="text-right">{litres(day.expectedClosing)}</TableCell>
+                      <TableCell className="text-right">{litres(day.closingDip)}</TableCell>
+                      <TableCell className={`text-right ${day.variance !== null && day.variance < 0 ? 'text-red-600' : ''}`}>
+                        {day.variance === null ? "-" : `${day.variance > 0 ? '+' : ''}${day.variance.toLocaleString()}L (${day.variancePercent}%)`}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {day.cumulativeVariance.toLocaleString()}L
+                        <div className="text-xs text-muted-foreground">{day.cumulativeVariancePercent}%</div>
+                      </TableCell>
+                      <TableCell>
+                        {day.status === 'incomplete' ? (
+                          <Badge variant="outline" title="Needs a dip on this day and one before it">No dips</Badge>
+                        ) : day.status === 'alert' ? (
+                          <Badge variant="destructive">Alert</Badge>
+                        ) : (
+                          <Badge variant="default">OK</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function ToleranceCard({ stationId }: { stationId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [tolerance, setTolerance] = useState("");
+
+  const { data: stationSettings } = useQuery<Settings>({
+    queryKey: ["/api/settings", stationId],
+  });
+
+  useEffect(() => {
+    setTolerance(stationSettings?.wetStockTolerancePercent ?? "0.5");
+  }, [stationSettings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Settings rows are created on first save
+      const method = stationSettings?.id ? "PUT" : "POST";
+      const response = await apiRequest(method, `/api/settings/${stationId}`, {
+        wetStockTolerancePercent: tolerance,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Tolerance saved" });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings", stationId] });
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/reports/wet-stock/") });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save tolerance", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Variance Tolerance</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-end gap-4">
+          <div className="w-32">
+            <Label>Tolerance (%)</Label>
+            <Input type="number" min="0" step="0.05" value={tolerance} onChange={(e) => setTolerance(e.target.value)} data-testid="input-wet-stock-tolerance" />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => saveMutation.mutate()}
+            disabled={tolerance === "" || saveMutation.isPending}
+            data-testid="button-save-wet-stock-tolerance"
+          >
+            Save
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground mt-2">
+          Days whose dip variance is more than this share of meter sales are flagged, as is a running total that drifts past it.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,70 @@
+// Automatic tank gauge (ATG) integration: what a console reports about its tanks, the adapter
+// interface each kind of console is read through, and how deliveries are found from the level
+
+// One tank's probe measurements. Volumes are in litres and heights in mm, so the console must be
+// set to metric units.
+export interface ProbeInventory {
+  tankNumber: number; // The tank's number on the console
+  productCode: string;
+  deliveryInProgress: boolean;
+  volume: number;
+  tcVolume: number | null; // Volume corrected to 15°C
+  ullage: number | null;
+  heightMm: number | null;
+  waterMm: number | null;
+  temperature: number | null;
+  waterVolume: number | null;
+}
+
+// A delivery as recorded by the console from the start and end of the drop
+export interface ProbeDelivery {
+  tankNumber: number;
+  startedAt: Date;
+  endedAt: Date;
+  startVolume: number;
+  endVolume: number;
+  startTcVolume: number | null;
+  endTcVolume: number | null;
+  startTemperature: number | null;
+  endTemperature: number | null;
+}
+
+export interface InventoryReport {
+  reportedAt: Date; // The console's clock when it took the readings, in whatever timezone it was set up with
+  tanks: ProbeInventory[];
+}
+
+export interface DeliveryReport {
+  reportedAt: Date;
+  deliveries: ProbeDelivery[];
+}
+
+// A source of probe readings. Consoles that do not keep their own delivery log leave
+// readDeliveries out; their deliveries are found from level jumps alone.
+export interface AtgAdapter {
+  readInventory(): Promise<InventoryReport>;
+  readDeliveries?(): Promise<DeliveryReport>;
+}
+
+// How far the console's clock is from the server's, to the nearest quarter hour. That covers a
+// console set to another timezone while the minute it stamps reports to and a little drift
+// cannot move a logged delivery's times from one poll to the next.
+export function consoleClockOffset(reportedAt: Date, receivedAt: Date): number {
+  const quarterHour = 15 * 60 * 1000;
+  return Math.round((receivedAt.getTime() - reportedAt.getTime()) / quarterHour) * quarterHour;
+}
+
+// A rise this small between readings is probe noise or product settling, not a delivery still going in
+export const LEVEL_NOISE_LITRES = 20;
+
+export type LevelChange = 'delivery_started' | 'delivery_continued' | 'none';
+
+// Reads the change from one reading to the next. Pumps keep selling while a tanker drops, so the
+// rise per reading is net of sales: a delivery starts on a rise of at least the threshold and
+// carries on for as long as the level keeps climbing.
+export function classifyLevelChange(previousVolume: number, currentVolume: number, threshold: number, deliveryOpen: boolean): LevelChange {
+  const rise = currentVolume - previousVolume;
+  if (deliveryOpen && rise > LEVEL_NOISE_LITRES) return 'delivery_continued';
+  if (rise >= threshold) return 'delivery_started';
+  return 'none';
+}
@@ -0,0 +1,99 @@
+// Polls each active ATG console on its interval and stores what it reports
+import type { AtgConsole } from "@shared/schema";
+import { storage } from "./storage";
+import { consoleClockOffset, type AtgAdapter } from "./atg";
+import { TlsTcpAdapter } from "./atgTls";
+import { SimulatedAtgAdapter } from "./atgSimulator";
+
+const TICK_MS = 15000;
+
+// Adapters are kept between polls so a simulator's tanks carry on from one reading to the next.
+// Saving a console's settings moves its updatedAt on, which replaces the adapter.
+const adapters = new Map<string, { version: number; adapter: AtgAdapter }>();
+const polling = new Set<string>();
+
+async function adapterFor(atgConsole: AtgConsole): Promise<AtgAdapter> {
+  const version = atgConsole.updatedAt?.getTime() ?? 0;
+  const cached = adapters.get(atgConsole.id);
+  if (cached && cached.version === version) return cached.adapter;
+
+  let adapter: AtgAdapter;
+  if (atgConsole.adapterType === 'simulator') {
+    // The simulated levels start from book stock
+    const stationTanks = await storage.getTanksByStation(atgConsole.stationId);
+    adapter = new SimulatedAtgAdapter(stationTanks
+      .filter((tank) => tank.atgTankNumber !== null)
+      .map((tank) => ({
+        tankNumber: tank.atgTankNumber!,
+        capacity: parseFloat(tank.capacity),
+        volume: parseFloat(tank.currentStock || '0'),
+      })));
+  } else {
+    if (!atgConsole.host || !atgConsole.port) {
+      throw new Error('ATG console has no host and port');
+    }
+    adapter = new TlsTcpAdapter(atgConsole.host, atgConsole.port);
+  }
+
+  adapters.set(atgConsole.id, { version, adapter });
+  return adapter;
+}
+
+// What users are told when a poll fails. The cause stays in the server log: socket errors would
+// otherwise tell a user what is listening at whatever address the console was given.
+const POLL_FAILED = 'ATG console could not be read';
+
+// Reads the console's inventory, and its delivery log where it keeps one. The outcome is
+// recorded on the console either way so a failing link shows up in its settings.
+export async function pollAtgConsole(atgConsole: AtgConsole): Promise<{ readings: number; deliveries: number }> {
+  if (polling.has(atgConsole.id)) {
+    throw new Error('ATG console is already being polled');
+  }
+
+  polling.add(atgConsole.id);
+  try {
+    const adapter = await adapterFor(atgConsole);
+    // Readings are stamped with the server's clock as they arrive, not the console's
+    const inventory = await adapter.readInventory();
+    const { readings, detected } = await storage.recordAtgInventory(atgConsole.id, inventory, new Date());
+
+    let reported = 0;
+    if (adapter.readDeliveries) {
+      const report = await adapter.readDeliveries();
+      // The console logs deliveries in its own time, so they are moved onto the server's to line up with the readings
+      const offset = consoleClockOffset(report.reportedAt, new Date());
+      const deliveries = report.deliveries.map((delivery) => ({
+        ...delivery,
+        startedAt: new Date(delivery.startedAt.getTime() + offset),
+        endedAt: new Date(delivery.endedAt.getTime() + offset),
+      }));
+      reported = (await storage.recordAtgDeliveries(atgConsole.id, { ...report, deliveries })).length;
+    }
+
+    await storage.markAtgConsolePolled(atgConsole.id, null);
+    return { readings: readings.length, deliveries: detected.length + reported };
+  } catch (error) {
+    console.error(`ATG poll failed for station ${atgConsole.stationId}:`, error instanceof Error ? error.message : error);
+    await storage.markAtgConsolePolled(atgConsole.id, POLL_FAILED);
+    throw new Error(POLL_FAILED);
+  } finally {
+    polling.delete(atgConsole.id);
+  }
+}
+
+export function startAtgPolling(): void {
+  setInterval(async () => {
+    try {
+      const consoles = await storage.getActiveAtgConsoles();
+      for (const atgConsole of consoles) {
+        const due = !atgConsole.lastPolledAt || Date.now() - atgConsole.lastPolledAt.getTime() >= atgConsole.pollIntervalSeconds * 1000;
+        if (!due || polling.has(atgConsole.id)) continue;
+
+        // A failure is logged and recorded on the console by the poll itself
+        pollAtgConsole(atgConsole).catch(() => {});
+      }
+    } catch (error) {
+      console.error("ATG polling failed:", error);
+    }
+  }, TICK_MS);
+}
@@ -0,0 +1,126 @@
+// Simulated ATG console for trying the integration without hardware. It keeps a level per tank,
+// draws it down with forecourt sales and drops a tanker into any tank running low. Reports are
+// answered as TLS frames so the readings go through the same parser as a real console's.
+import type { AtgAdapter, DeliveryReport, InventoryReport, ProbeDelivery } from "./atg";
+import { buildTlsFrame, encodeTlsFloat, formatTlsDate, parseDeliveryResponse, parseInventoryResponse } from "./atgTls";
+
+export interface SimulatedTank {
+  tankNumber: number;
+  capacity: number;
+  volume: number; // Starting level, usually the tank's book stock
+}
+
+interface TankState extends SimulatedTank {
+  temperature: number;
+  delivery: { startedAt: Date; startVolume: number; startTemperature: number; targetVolume: number } | null;
+  deliveries: ProbeDelivery[];
+}
+
+const SALES_LITRES_PER_MINUTE = 8;
+const DROP_LITRES_PER_MINUTE = 600;
+const REFILL_BELOW = 0.25; // Share of capacity at which a tanker is sent
+const REFILL_TO = 0.9;
+const TANK_HEIGHT_MM = 2500;
+const WATER_MM = 6;
+const WATER_LITRES = 18;
+const DELIVERIES_KEPT = 10; // A TLS console keeps the last ten deliveries per tank
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+// Rough correction to 15°C for petrol and diesel
+const toTcVolume = (volume: number, temperature: number) => volume * (1 - 0.00095 * (temperature - 15));
+
+export class SimulatedAtgAdapter implements AtgAdapter {
+  private tanks: TankState[];
+  private lastTick: Date;
+
+  constructor(tanks: SimulatedTank[], now = new Date()) {
+    this.tanks = tanks.map((tank) => ({ ...tank, temperature: 24 + Math.random() * 4, delivery: null, deliveries: [] }));
+    this.lastTick = now;
+  }
+
+  async readInventory(): Promise<InventoryReport> {
+    const now = new Date();
+    this.advance(now);
+
+    const body = this.tanks.map((tank) => {
+      const fields = [
+        tank.volume,
+        toTcVolume(tank.volume, tank.temperature),
+        tank.capacity - tank.volume,
+        (tank.volume / tank.capacity) * TANK_HEIGHT_MM,
+        WATER_MM,
+        tank.temperature,
+        WATER_LITRES,
+      ];
+      const status = tank.delivery ? 0x1 : 0x0;
+      return `${pad2(tank.tankNumber)}1${status.toString(16).padStart(4, '0')}${fields.length.toString(16).toUpperCase().padStart(2, '0')}${fields.map(encodeTlsFloat).join('')}`;
+    }).join('');
+
+    return parseInventoryResponse(buildTlsFrame('i20100', `${formatTlsDate(now)}${body}`));
+  }
+
+  async readDeliveries(): Promise<DeliveryReport> {
+    const now = new Date();
+    this.advance(now);
+
+    const body = this.tanks.map((tank) => {
+      const deliveries = tank.deliveries.map((delivery) => {
+        const fields = [
+          delivery.startVolume,
+          delivery.startTcVolume ?? delivery.startVolume,
+          WATER_LITRES,
+          delivery.startTemperature ?? 0,
+          delivery.endVolume,
+          delivery.endTcVolume ?? delivery.endVolume,
+          WATER_LITRES,
+          delivery.endTemperature ?? 0,
+          (delivery.startVolume / tank.capacity) * TANK_HEIGHT_MM,
+          (delivery.endVolume / tank.capacity) * TANK_HEIGHT_MM,
+        ];
+        return `${formatTlsDate(delivery.startedAt)}${formatTlsDate(delivery.endedAt)}${fields.length.toString(16).toUpperCase().padStart(2, '0')}${fields.map(encodeTlsFloat).join('')}`;
+      }).join('');
+      return `${pad2(tank.tankNumber)}1${pad2(tank.deliveries.length)}${deliveries}`;
+    }).join('');
+
+    return parseDeliveryResponse(buildTlsFrame('i20200', `${formatTlsDate(now)}${body}`));
+  }
+
+  // Moves every tank on by the time since the last report
+  private advance(now: Date): void {
+    const minutes = Math.max(0, (now.getTime() - this.lastTick.getTime()) / 60000);
+    this.lastTick = now;
+
+    for (const tank of this.tanks) {
+      tank.temperature = Math.min(32, Math.max(18, tank.temperature + (Math.random() - 0.5) * 0.2));
+
+      if (tank.delivery) {
+        tank.volume = Math.min(tank.delivery.targetVolume, tank.volume + DROP_LITRES_PER_MINUTE * minutes);
+        if (tank.volume >= tank.delivery.targetVolume) {
+          tank.deliveries = [...tank.deliveries, {
+            tankNumber: tank.tankNumber,
+            startedAt: tank.delivery.startedAt,
+            endedAt: now,
+            startVolume: tank.delivery.startVolume,
+            endVolume: tank.volume,
+            startTcVolume: toTcVolume(tank.delivery.startVolume, tank.delivery.startTemperature),
+            endTcVolume: toTcVolume(tank.volume, tank.temperature),
+            startTemperature: tank.delivery.startTemperature,
+            endTemperature: tank.temperature,
+          }].slice(-DELIVERIES_KEPT);
+          tank.delivery = null;
+        }
+      } else if (tank.volume < tank.capacity * REFILL_BELOW) {
+        tank.delivery = {
+          startedAt: now,
+          startVolume: tank.volume,
+          startTemperature: tank.temperature,
+          targetVolume: tank.capacity * REFILL_TO,
+        };
+      }
+
+      const sales = SALES_LITRES_PER_MINUTE * minutes * (0.5 + Math.random());
+      tank.volume = Math.max(0, tank.volume - sales);
+    }
+  }
+}
@@ -0,0 +1,215 @@
+// Veeder-Root TLS console protocol: the computer-format inventory (i201) and delivery (i202)
+// reports, and an adapter that asks for them over TCP. Consoles wired by RS-232 are reached
+// through a serial-to-Ethernet converter, which passes the same frames through unchanged.
+import net from "net";
+import type { AtgAdapter, DeliveryReport, InventoryReport, ProbeDelivery, ProbeInventory } from "./atg";
+
+const SOH = "\x01";
+const ETX = "\x03";
+
+export type TlsCommand = 'i201' | 'i202';
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+// Tank 0 asks for every tank on the console
+export function tlsCommand(command: TlsCommand, tankNumber = 0): string {
+  return `${SOH}${command}${String(tankNumber).padStart(2, '0')}`;
+}
+
+// Checksum that brings the 16-bit sum of every character from SOH to the "&&" to zero
+function tlsChecksum(content: string): number {
+  let total = 0;
+  for (let i = 0; i < content.length; i++) total += content.charCodeAt(i);
+  return (0x10000 - (total & 0xffff)) & 0xffff;
+}
+
+// Wraps a report body the way the console sends it
+export function buildTlsFrame(header: string, body: string): string {
+  const content = `${SOH}${header}${body}&&`;
+  return `${content}${tlsChecksum(content).toString(16).toUpperCase().padStart(4, '0')}${ETX}`;
+}
+
+// Data fields are IEEE 754 single-precision floats written as 8 hex characters
+export function decodeTlsFloat(hex: string): number {
+  return Buffer.from(hex, 'hex').readFloatBE(0);
+}
+
+export function encodeTlsFloat(value: number): string {
+  const buffer = Buffer.alloc(4);
+  buffer.writeFloatBE(value, 0);
+  return buffer.toString('hex').toUpperCase();
+}
+
+// YYMMDDHHmm in the console's local time, read as the server's; the poller corrects for the difference
+export function parseTlsDate(value: string): Date {
+  const [year, month, day, hour, minute] = [0, 2, 4, 6, 8].map((start) => parseInt(value.slice(start, start + 2), 10));
+  if ([year, month, day, hour, minute].some((part) => Number.isNaN(part))) {
+    throw new Error(`Invalid TLS date "${value}"`);
+  }
+  return new Date(2000 + year, month - 1, day, hour, minute);
+}
+
+export function formatTlsDate(date: Date): string {
+  return [date.getFullYear() % 100, date.getMonth() + 1, date.getDate(), date.getHours(), date.getMinutes()]
+    .map((part) => String(part).padStart(2, '0'))
+    .join('');
+}
+
+// Checks the framing and checksum and returns what follows the echoed command and tank number
+function unwrapTlsFrame(frame: string, command: TlsCommand): string {
+  const start = frame.indexOf(SOH);
+  const end = frame.indexOf(ETX, start + 1);
+  if (start === -1 || end === -1) {
+    throw new Error('Incomplete TLS response');
+  }
+
+  const message = frame.slice(start, end);
+  if (message.startsWith(`${SOH}9999`)) {
+    throw new Error(`ATG console did not recognise the ${command} command`);
+  }
+
+  const marker = message.lastIndexOf('&&');
+  if (marker === -1 || message.length !== marker + 6) {
+    throw new Error('TLS response has no checksum');
+  }
+  const content = message.slice(0, marker + 2);
+  if (parseInt(message.slice(marker + 2), 16) !== tlsChecksum(content)) {
+    throw new Error('TLS response failed its checksum');
+  }
+
+  if (!content.startsWith(`${SOH}${command}`)) {
+    throw new Error(`Expected a ${command} response`);
+  }
+  return content.slice(7, -2);
+}
+
+// Reads hex-float fields from a fixed position, failing on a report cut short
+function readFields(data: string, position: number, count: number): number[] {
+  if (position + count * 8 > data.length) {
+    throw new Error('TLS report is truncated');
+  }
+  return Array.from({ length: count }, (_, index) => decodeTlsFloat(data.slice(position + index * 8, position + (index + 1) * 8)));
+}
+
+const field = (fields: number[], number: number) => (fields.length >= number ? round3(fields[number - 1]) : null);
+
+// i201: per tank, TT (tank) p (product) ssss (status bits) NN (field count) then the fields:
+// volume, TC volume, ullage, height, water, temperature, water volume
+export function parseInventoryResponse(frame: string): InventoryReport {
+  const data = unwrapTlsFrame(frame, 'i201');
+  const reportedAt = parseTlsDate(data.slice(0, 10));
+  const tanks: ProbeInventory[] = [];
+
+  let position = 10;
+  while (position < data.length) {
+    const tankNumber = parseInt(data.slice(position, position + 2), 10);
+    const productCode = data.slice(position + 2, position + 3);
+    const status = parseInt(data.slice(position + 3, position + 7), 16);
+    const count = parseInt(data.slice(position + 7, position + 9), 16);
+    if (Number.isNaN(tankNumber) || Number.isNaN(status) || Number.isNaN(count)) {
+      throw new Error('TLS inventory report is malformed');
+    }
+
+    const fields = readFields(data, position + 9, count);
+    tanks.push({
+      tankNumber,
+      productCode,
+      deliveryInProgress: (status & 0x1) !== 0,
+      volume: field(fields, 1) ?? 0,
+      tcVolume: field(fields, 2),
+      ullage: field(fields, 3),
+      heightMm: field(fields, 4),
+      waterMm: field(fields, 5),
+      temperature: field(fields, 6),
+      waterVolume: field(fields, 7),
+    });
+    position += 9 + count * 8;
+  }
+
+  return { reportedAt, tanks };
+}
+
+// i202: per tank, TT p dd (number of deliveries) then for each delivery its start and end
+// times, NN (field count) and the fields: start volume, start TC volume, start water, start
+// temperature, end volume, end TC volume, end water, end temperature, start height, end height
+export function parseDeliveryResponse(frame: string): DeliveryReport {
+  const data = unwrapTlsFrame(frame, 'i202');
+  const reportedAt = parseTlsDate(data.slice(0, 10));
+  const deliveries: ProbeDelivery[] = [];
+
+  let position = 10;
+  while (position < data.length) {
+    const tankNumber = parseInt(data.slice(position, position + 2), 10);
+    const deliveryCount = parseInt(data.slice(position + 3, position + 5), 10);
+    if (Number.isNaN(tankNumber) || Number.isNaN(deliveryCount)) {
+      throw new Error('TLS delivery report is malformed');
+    }
+    position += 5;
+
+    for (let i = 0; i < deliveryCount; i++) {
+      const startedAt = parseTlsDate(data.slice(position, position + 10));
+      const endedAt = parseTlsDate(data.slice(position + 10, position + 20));
+      const count = parseInt(data.slice(position + 20, position + 22), 16);
+      if (Number.isNaN(count)) {
+        throw new Error('TLS delivery report is malformed');
+      }
+
+      const fields = readFields(data, position + 22, count);
+      deliveries.push({
+        tankNumber,
+        startedAt,
+        endedAt,
+        startVolume: field(fields, 1) ?? 0,
+        startTcVolume: field(fields, 2),
+        startTemperature: field(fields, 4),
+        endVolume: field(fields, 5) ?? 0,
+        endTcVolume: field(fields, 6),
+        endTemperature: field(fields, 8),
+      });
+      position += 22 + count * 8;
+    }
+  }
+
+  return { reportedAt, deliveries };
+}
+
+export class TlsTcpAdapter implements AtgAdapter {
+  constructor(private host: string, private port: number, private timeoutMs = 10000) {}
+
+  async readInventory(): Promise<InventoryReport> {
+    return parseInventoryResponse(await this.request('i201'));
+  }
+
+  async readDeliveries(): Promise<DeliveryReport> {
+    return parseDeliveryResponse(await this.request('i202'));
+  }
+
+  // One connection per report; the console ends each report with ETX
+  private request(command: TlsCommand): Promise<string> {
+    const address = `${this.host}:${this.port}`;
+
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      let response = '';
+      let settled = false;
+
+      const finish = (error: Error | null) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        if (error) reject(error);
+        else resolve(response);
+      };
+
+      socket.setEncoding('latin1');
+      socket.setTimeout(this.timeoutMs, () => finish(new Error(`ATG console at ${address} did not answer within ${this.timeoutMs / 1000}s`)));
+      socket.on('connect', () => socket.write(tlsCommand(command)));
+      socket.on('data', (chunk: string) => {
+        response += chunk;
+        if (response.includes(ETX)) finish(null);
+      });
+      socket.on('error', (error) => finish(new Error(`ATG console at ${address}: ${error.message}`)));
+      socket.on('close', () => finish(new Error(`ATG console at ${address} closed the connection before the report ended`)));
+    });
+  }
+}
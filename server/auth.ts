@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
+import bcrypt from "bcrypt";
 import { storage } from "./storage";
 
 // Firebase Admin SDK - simplified initialization
@@ -97,6 +98,57 @@ export function requireAuth(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
+// Manager credentials typed in at the till to authorise one sale. Failures are counted per
+// cashier and per approver username, so the till cannot be used to guess a manager's password.
+const APPROVAL_MAX_FAILURES = 5;
+const APPROVAL_LOCKOUT_MS = 15 * 60 * 1000;
+const approvalFailures = new Map<string, { count: number; firstFailedAt: number }>();
+
+function approvalLocked(key: string): boolean {
+  const failures = approvalFailures.get(key);
+  if (!failures) return false;
+  if (Date.now() - failures.firstFailedAt > APPROVAL_LOCKOUT_MS) {
+    approvalFailures.delete(key);
+    return false;
+  }
+  return failures.count >= APPROVAL_MAX_FAILURES;
+}
+
+function recordApprovalFailure(key: string): void {
+  const failures = approvalFailures.get(key);
+  if (!failures || Date.now() - failures.firstFailedAt > APPROVAL_LOCKOUT_MS) {
+    approvalFailures.set(key, { count: 1, firstFailedAt: Date.now() });
+  } else {
+    failures.count += 1;
+  }
+}
+
+// An admin can approve at any station; a manager only at their own
+export async function verifyManagerApproval(
+  credentials: { username: string; password: string },
+  stationId: string,
+  requesterId: string
+): Promise<{ approverId: string } | { status: number; message: string }> {
+  const keys = [`requester:${requesterId}`, `approver:${credentials.username.toLowerCase()}`];
+  if (keys.some(approvalLocked)) {
+    return { status: 429, message: "Approval locked: too many failed attempts, try again in 15 minutes" };
+  }
+
+  const approver = await storage.getUserByUsername(credentials.username);
+  const approved = approver
+    && approver.isActive
+    && (approver.role === 'admin' || (approver.role === 'manager' && approver.stationId === stationId))
+    && await bcrypt.compare(credentials.password, approver.password);
+
+  if (!approved) {
+    keys.forEach(recordApprovalFailure);
+    return { status: 403, message: "Approval failed: invalid manager credentials" };
+  }
+
+  keys.forEach((key) => approvalFailures.delete(key));
+  return { approverId: approver.id };
+}
+
 // Role-based authorization middleware
 export function requireRole(roles: string[]) {
   return (req: Request, res: Response, next: NextFunction) => {
@@ -0,0 +1,43 @@
+// Stock costing: weighted average per tank, or FIFO over the layers received into it
+
+export interface OpenLayer {
+  id: string;
+  unitCost: number;
+  remainingQuantity: number;
+}
+
+// New average after receiving stock. Stock below zero (an approved oversell) carries no cost,
+// so a receipt into an empty or overdrawn tank simply takes the receipt's cost.
+export function weightedAverageCost(currentStock: number, averageCost: number, quantityIn: number, unitCostIn: number): number {
+  const costedStock = Math.max(0, currentStock);
+  const total = costedStock + quantityIn;
+  if (total <= 0) return unitCostIn;
+  return Math.round(((costedStock * averageCost + quantityIn * unitCostIn) / total) * 10000) / 10000;
+}
+
+// Takes the quantity from the oldest layers first. Anything beyond the open layers
+// (stock that was never costed, or an oversell) is costed at the fallback unit cost.
+export function consumeLayers(
+  layers: OpenLayer[],
+  quantity: number,
+  fallbackUnitCost: number
+): { totalCost: number; consumed: { id: string; quantity: number }[] } {
+  let remaining = quantity;
+  let totalCost = 0;
+  const consumed: { id: string; quantity: number }[] = [];
+
+  for (const layer of layers) {
+    if (remaining <= 0.0005) break;
+    const take = Math.min(layer.remainingQuantity, remaining);
+    if (take <= 0) continue;
+    consumed.push({ id: layer.id, quantity: take });
+    totalCost += take * layer.unitCost;
+    remaining -= take;
+  }
+
+  if (remaining > 0.0005) {
+    totalCost += remaining * fallbackUnitCost;
+  }
+
+  return { totalCost: Math.round(totalCost * 100) / 100, consumed };
+}
@@ -2,6 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { seedInitialData } from "./seed";
+import { startAtgPolling } from "./atgPoller";
 
 const app = express();
 app.use(express.json());
@@ -49,6 +50,8 @@ app.use((req, res, next) => {
     console.error("Failed to seed initial data:", error);
   }
 
+  startAtgPolling();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
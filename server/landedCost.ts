@@ -0,0 +1,45 @@
+// Spreads an order's additional charges (freight, carriage, handling...) over its lines
+
+export interface CostLine {
+  id: string;
+  quantity: number;
+  value: number; // Line total at the purchase price
+}
+
+export interface LandedCharge {
+  amount: number;
+  allocationMethod: 'quantity' | 'value';
+}
+
+// Amount of the charges that falls on each line, rounded to 2 decimals. The rounding
+// remainder of each charge goes to its largest line so the shares add up to the charge.
+export function allocateLandedCosts(lines: CostLine[], charges: LandedCharge[]): Map<string, number> {
+  const allocated = new Map(lines.map((line) => [line.id, 0]));
+  if (lines.length === 0) return allocated;
+
+  for (const charge of charges) {
+    const basis = (line: CostLine) => (charge.allocationMethod === 'value' ? line.value : line.quantity);
+    const total = lines.reduce((sum, line) => sum + basis(line), 0);
+    // Nothing to weigh by (e.g. zero-priced lines), so split evenly
+    const weight = (line: CostLine) => (total > 0 ? basis(line) / total : 1 / lines.length);
+
+    let assigned = 0;
+    for (const line of lines) {
+      const share = Math.round(charge.amount * weight(line) * 100) / 100;
+      allocated.set(line.id, Math.round((allocated.get(line.id)! + share) * 100) / 100);
+      assigned += share;
+    }
+
+    const largest = lines.reduce((max, line) => (basis(line) > basis(max) ? line : max), lines[0]);
+    const remainder = Math.round((charge.amount - assigned) * 100) / 100;
+    allocated.set(largest.id, Math.round((allocated.get(largest.id)! + remainder) * 100) / 100);
+  }
+
+  return allocated;
+}
+
+// Delivered cost of one unit: purchase price plus its share of the charges, to 4 decimals
+export function landedUnitCost(line: CostLine, allocatedCharges: number): number {
+  if (line.quantity <= 0) return 0;
+  return Math.round(((line.value + allocatedCharges) / line.quantity) * 10000) / 10000;
+}
@@ -0,0 +1,99 @@
+import fs from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+// A way of delivering mail. Pick one with MAIL_TRANSPORT: smtp, file or console. Development
+// falls back to console when it is unset; anywhere else sending fails until one is chosen.
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<{ messageId: string }>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "FuelFlow <no-reply@fuelflow.local>";
+
+// Sends through an SMTP relay configured by the SMTP_* variables
+export class SmtpTransport implements MailTransport {
+  readonly name = "smtp";
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || "587", 10),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+
+  async send(message: MailMessage): Promise<{ messageId: string }> {
+    const info = await this.transporter.sendMail({ from: MAIL_FROM, ...message });
+    return { messageId: info.messageId };
+  }
+}
+
+// Writes each message as an .eml file to MAIL_OUTBOX_DIR, for local use and testing
+export class FileTransport implements MailTransport {
+  readonly name = "file";
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+  constructor(private directory = process.env.MAIL_OUTBOX_DIR || "outbox") {}
+
+  async send(message: MailMessage): Promise<{ messageId: string }> {
+    const info = await this.transporter.sendMail({ from: MAIL_FROM, ...message });
+    await fs.mkdir(this.directory, { recursive: true });
+    const filename = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, "_")}.eml`;
+    await fs.writeFile(path.join(this.directory, filename), info.message as Buffer);
+    return { messageId: info.messageId };
+  }
+}
+
+// Logs a summary of each message instead of sending it
+export class ConsoleTransport implements MailTransport {
+  readonly name = "console";
+
+  async send(message: MailMessage): Promise<{ messageId: string }> {
+    const messageId = `<${Date.now()}.${Math.random().toString(36).slice(2)}@console>`;
+    const attachments = (message.attachments ?? []).map((a) => `${a.filename} (${a.content.length} bytes)`).join(", ");
+    console.log(`[mail] to=${message.to} subject="${message.subject}" attachments=[${attachments}] id=${messageId}`);
+    return { messageId };
+  }
+}
+
+let transport: MailTransport | undefined;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    switch (process.env.MAIL_TRANSPORT) {
+      case "smtp":
+        transport = new SmtpTransport();
+        break;
+      case "file":
+        transport = new FileTransport();
+        break;
+      case "console":
+        transport = new ConsoleTransport();
+        break;
+      default:
+        // Logging the mail would report an order as sent to a supplier who never got it
+        if (process.env.NODE_ENV !== "development") {
+          throw new Error("Mail transport not configured: set MAIL_TRANSPORT to smtp or file");
+        }
+        transport = new ConsoleTransport();
+    }
+  }
+  return transport;
+}
+
+// Lets another transport (e.g. a provider's HTTP API) be plugged in at startup
+export function setMailTransport(custom: MailTransport): void {
+  transport = custom;
+}
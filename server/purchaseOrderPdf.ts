@@ -0,0 +1,85 @@
+import PDFDocument from "pdfkit";
+import type { PurchaseOrder, PurchaseOrderItem, Product, Supplier, Station } from "@shared/schema";
+
+export type PurchaseOrderDocument = PurchaseOrder & {
+  items: (PurchaseOrderItem & { product?: Product })[];
+  supplier: Supplier;
+  station: Station;
+};
+
+function money(value: string | null, currencyCode: string): string {
+  const amount = parseFloat(value || "0");
+  return `${currencyCode} ${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// Same layout as the printed purchase order, rendered on the server for emailing to suppliers
+export function renderPurchaseOrderPdf(order: PurchaseOrderDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50 });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    doc.fontSize(20).fillColor("#2563eb").text(order.station.name, { align: "center" });
+    doc.fontSize(14).fillColor("#000000").text("Purchase Order", { align: "center" });
+    doc.moveDown();
+
+    doc.fontSize(10);
+    doc.text(`Order #: ${order.orderNumber}`, { align: "right" });
+    doc.text(`Date: ${new Date(order.orderDate || order.createdAt || Date.now()).toLocaleDateString("en-GB")}`, { align: "right" });
+    if (order.expectedDeliveryDate) {
+      doc.text(`Expected delivery: ${new Date(order.expectedDeliveryDate).toLocaleDateString("en-GB")}`, { align: "right" });
+    }
+    doc.moveDown();
+
+    doc.fontSize(12).text("Supplier", { underline: true });
+    doc.fontSize(10).text(order.supplier.name);
+    if (order.supplier.contactPerson) doc.text(`Attn: ${order.supplier.contactPerson}`);
+    if (order.supplier.address) doc.text(order.supplier.address);
+    if (order.supplier.contactPhone) doc.text(`Phone: ${order.supplier.contactPhone}`);
+    if (order.supplier.contactEmail) doc.text(`Email: ${order.supplier.contactEmail}`);
+    doc.moveDown();
+
+    doc.fontSize(12).text("Deliver to", { underline: true });
+    doc.fontSize(10).text(order.station.name);
+    if (order.station.address) doc.text(order.station.address);
+    doc.moveDown();
+
+    // Line table: product, quantity, unit price, total
+    const columns = [50, 250, 350, 450];
+    const drawRow = (cells: string[], bold = false) => {
+      const y = doc.y;
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica");
+      cells.forEach((cell, index) => {
+        doc.text(cell, columns[index], y, { width: index === 0 ? 190 : 95, align: index === 0 ? "left" : "right" });
+      });
+      doc.moveDown(0.5);
+      doc.moveTo(50, doc.y).lineTo(545, doc.y).strokeColor("#e5e7eb").stroke();
+      doc.moveDown(0.5);
+    };
+
+    drawRow(["Product", "Quantity", "Unit Price", "Total"], true);
+    for (const item of order.items) {
+      drawRow([
+        item.product?.name || "Product",
+        `${parseFloat(item.quantity).toFixed(3)} ${item.product?.unit || "L"}`,
+        money(item.unitPrice, order.currencyCode),
+        money(item.totalPrice, order.currencyCode),
+      ]);
+    }
+
+    doc.moveDown();
+    doc.font("Helvetica");
+    doc.text(`Subtotal: ${money(order.subtotal, order.currencyCode)}`, 50, doc.y, { align: "right" });
+    doc.text(`Tax: ${money(order.taxAmount, order.currencyCode)}`, { align: "right" });
+    doc.font("Helvetica-Bold").fontSize(12).text(`Total: ${money(order.totalAmount, order.currencyCode)}`, { align: "right" });
+
+    if (order.notes) {
+      doc.moveDown();
+      doc.font("Helvetica").fontSize(10).text(`Notes: ${order.notes}`, 50);
+    }
+
+    doc.end();
+  });
+}
@@ -0,0 +1,103 @@
+// Reorder suggestions from tank levels and recent sales velocity
+
+// Days of sales history used to work out the average daily draw
+export const SALES_LOOKBACK_DAYS = 14;
+
+export interface ReplenishmentTank {
+  id: string;
+  name: string;
+  productId: string;
+  productName: string;
+  capacity: number;
+  currentStock: number;
+  minimumLevel: number;
+}
+
+export interface SupplySource {
+  supplierId: string;
+  supplierName: string;
+  unitPrice: number;
+}
+
+export interface TankForecast {
+  tankId: string;
+  tankName: string;
+  productId: string;
+  productName: string;
+  capacity: number;
+  currentStock: number;
+  minimumLevel: number;
+  averageDailySales: number;
+  daysToEmpty: number | null; // null when the tank has not sold anything recently
+  onOrder: number;
+  suggestedQuantity: number;
+}
+
+export interface ReorderSuggestion {
+  supplierId: string | null; // null when the product has never been bought, so a supplier must be picked
+  supplierName: string | null;
+  lines: (TankForecast & { unitPrice: number })[];
+  totalAmount: number;
+}
+
+export function buildReorderSuggestions(input: {
+  tanks: ReplenishmentTank[];
+  salesByTank: Map<string, number>; // Net litres sold per tank over the lookback window
+  onOrderByTank: Map<string, number>; // Litres on open purchase orders not yet received
+  sources: Map<string, SupplySource>; // Last supplier and price per product
+  targetUllagePercent: number;
+  leadTimeDays: number;
+}): { forecasts: TankForecast[]; suggestions: ReorderSuggestion[] } {
+  const forecasts = input.tanks.map((tank): TankForecast => {
+    const averageDailySales = Math.max(0, (input.salesByTank.get(tank.id) ?? 0) / SALES_LOOKBACK_DAYS);
+    const onOrder = input.onOrderByTank.get(tank.id) ?? 0;
+    const daysToEmpty = averageDailySales > 0 ? tank.currentStock / averageDailySales : null;
+
+    // Reorder when the tank is already at its minimum or will be by the time a delivery can arrive
+    const projectedAtDelivery = tank.currentStock + onOrder - averageDailySales * input.leadTimeDays;
+    const needsReorder = tank.currentStock <= tank.minimumLevel || projectedAtDelivery <= tank.minimumLevel;
+
+    // Fill to the target ullage, allowing for what is sold before the tanker arrives
+    const fillLevel = tank.capacity * (1 - input.targetUllagePercent / 100);
+    const stockAtDelivery = Math.max(0, tank.currentStock - averageDailySales * input.leadTimeDays);
+    const suggestedQuantity = needsReorder ? Math.max(0, Math.floor(fillLevel - stockAtDelivery - onOrder)) : 0;
+
+    return {
+      tankId: tank.id,
+      tankName: tank.name,
+      productId: tank.productId,
+      productName: tank.productName,
+      capacity: tank.capacity,
+      currentStock: tank.currentStock,
+      minimumLevel: tank.minimumLevel,
+      averageDailySales: Math.round(averageDailySales * 1000) / 1000,
+      daysToEmpty: daysToEmpty === null ? null : Math.round(daysToEmpty * 10) / 10,
+      onOrder,
+      suggestedQuantity,
+    };
+  });
+
+  const bySupplier = new Map<string, ReorderSuggestion>();
+  for (const forecast of forecasts) {
+    if (forecast.suggestedQuantity <= 0) continue;
+    const source = input.sources.get(forecast.productId);
+    const key = source?.supplierId ?? '';
+    const suggestion = bySupplier.get(key) ?? {
+      supplierId: source?.supplierId ?? null,
+      supplierName: source?.supplierName ?? null,
+      lines: [],
+      totalAmount: 0,
+    };
+    const unitPrice = source?.unitPrice ?? 0;
+    suggestion.lines.push({ ...forecast, unitPrice });
+    suggestion.totalAmount = Math.round((suggestion.totalAmount + forecast.suggestedQuantity * unitPrice) * 100) / 100;
+    bySupplier.set(key, suggestion);
+  }
+
+  // Most urgent first: the supplier whose tanks run dry soonest
+  const urgency = (suggestion: ReorderSuggestion) =>
+    Math.min(...suggestion.lines.map((line) => line.daysToEmpty ?? Infinity));
+  const suggestions = Array.from(bySupplier.values()).sort((a, b) => urgency(a) - urgency(b));
+
+  return { forecasts, suggestions };
+}
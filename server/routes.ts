@@ -3,13 +3,24 @@ import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import {
   insertUserSchema, insertStationSchema, insertProductSchema, insertTankSchema,
-  insertCustomerSchema, insertSupplierSchema, insertSalesTransactionSchema,
-  insertSalesTransactionItemSchema, insertPurchaseOrderSchema, insertPurchaseOrderItemSchema,
-  insertExpenseSchema, insertPaymentSchema, insertStockMovementSchema, insertSettingsSchema,
-  insertPumpSchema, insertPumpReadingSchema
+  insertCustomerSchema, insertSupplierSchema, insertPurchaseOrderSchema, insertPurchaseOrderItemSchema,
+  insertExpenseSchema, insertPaymentSchema, insertSettingsSchema,
+  insertPumpSchema, insertPumpReadingSchema, postSaleSchema, createCreditNoteSchema, holdCartSchema, receivePurchaseOrderSchema,
+  captureSupplierInvoiceSchema, reviewSupplierInvoiceSchema, changePurchaseOrderStatusSchema, dispatchPurchaseOrderSchema,
+  purchaseOrderChargeSchema, saveCalibrationChartSchema, recordDipReadingSchema,
+  createStockTransferSchema, receiveStockTransferSchema, cancelStockTransferSchema,
+  createStockAdjustmentSchema, reviewStockAdjustmentSchema, stockAdjustmentStatusEnum,
+  createMaintenanceOrderSchema, completeMaintenanceOrderSchema, cancelMaintenanceOrderSchema, updateTankThresholdsSchema,
+  saveAtgConsoleSchema,
+  insertCustomerPriceAgreementSchema, insertPromotionSchema, updateDocumentSequenceSchema, documentTypeEnum
 } from "@shared/schema";
+import { AGREEMENT_CUSTOMER_TYPES } from "@shared/pricing";
 import bcrypt from "bcrypt";
-import { requireAuth, requireRole, requireStationAccess, generateToken, verifyFirebaseToken, AuthenticatedUser } from "./auth";
+import { requireAuth, requireRole, requireStationAccess, generateToken, verifyFirebaseToken, verifyManagerApproval, AuthenticatedUser } from "./auth";
+import { isValidReceiptToken } from "./verification";
+import { getMailTransport } from "./mailer";
+import { renderPurchaseOrderPdf } from "./purchaseOrderPdf";
+import { pollAtgConsole } from "./atgPoller";
 
 export async function registerRoutes(app: Express): Promise<Server> {
 
@@ -277,6 +288,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
           stationId,
           taxEnabled: false,
           taxRate: '0',
+          manualDiscountApprovalPercent: '5',
+          invoiceQuantityTolerancePercent: '0.5',
+          invoicePriceTolerancePercent: '1',
+          reorderTargetUllagePercent: '5',
+          reorderLeadTimeDays: 2,
+          purchaseApprovalLimit: '500000',
+          costingMethod: 'weighted_average',
+          wetStockTolerancePercent: '0.5',
+          adjustmentApprovalQuantity: '100',
+          adjustmentApprovalValue: '25000',
           currencyCode: 'PKR' as const,
         };
         return res.json(defaultSettings);
@@ -293,6 +314,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Ensure stationId comes from URL params, not body
       const { stationId: _, ...bodyData } = req.body;
       const validatedData = insertSettingsSchema.parse({ ...bodyData, stationId });
+      // Managers approve purchase orders and stock adjustments up to these limits, so only an admin may move them
+      const changesApprovalLimits = validatedData.purchaseApprovalLimit !== undefined
+        || validatedData.adjustmentApprovalQuantity !== undefined
+        || validatedData.adjustmentApprovalValue !== undefined;
+      if (changesApprovalLimits && req.user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only an admin can change approval limits" });
+      }
 
       try {
         const settings = await storage.createSettings(validatedData);
@@ -321,6 +349,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Ensure stationId comes from URL params, not body
       const { stationId: _, ...bodyData } = req.body;
       const validatedData = insertSettingsSchema.partial().parse(bodyData);
+      // Managers approve purchase orders and stock adjustments up to these limits, so only an admin may move them
+      const changesApprovalLimits = validatedData.purchaseApprovalLimit !== undefined
+        || validatedData.adjustmentApprovalQuantity !== undefined
+        || validatedData.adjustmentApprovalValue !== undefined;
+      if (changesApprovalLimits && req.user?.role !== 'admin') {
+        return res.status(403).json({ message: "Only an admin can change approval limits" });
+      }
       const settings = await storage.updateSettings(stationId, validatedData);
       res.json(settings);
     } catch (error) {
@@ -328,6 +363,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Document numbering routes
+  app.get("/api/document-sequences/:stationId", requireAuth, requireRole(['admin', 'manager']), requireStationAccess, async (req, res) => {
+    try {
+      const { stationId } = req.params;
+      const sequences = await storage.getDocumentSequences(stationId);
+      res.json(sequences);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch document numbering" });
+    }
+  });
+
+  app.put("/api/document-sequences/:stationId/:documentType", requireAuth, requireRole(['admin', 'manager']), requireStationAccess, async (req, res) => {
+    try {
+      const { stationId, documentType } = req.params;
+      const validatedType = documentTypeEnum.enumValues.find((type) => type === documentType);
+      if (!validatedType) {
+        return res.status(400).json({ message: "Unknown document type" });
+      }
+
+      const validatedData = updateDocumentSequenceSchema.parse(req.body);
+      const sequence = await storage.updateDocumentSequence(stationId, validatedType, validatedData);
+      res.json(sequence);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid document numbering data" });
+    }
+  });
+
   // Pumps routes
   app.get("/api/pumps", requireAuth, async (req, res) => {
     try {
@@ -514,6 +576,311 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Calibration chart in use for a tank
+  app.get("/api/tanks/:id/calibration", requireAuth, async (req, res) => {
+    try {
+      const tank = await storage.getTank(req.params.id);
+      if (!tank) {
+        return res.status(404).json({ message: "Tank not found" });
+      }
+      if (req.user?.role !== 'admin' && tank.stationId !== req.user?.stationId) {
+        return res.status(403).json({ message: "Access denied: Tank does not belong to your station" });
+      }
+      const chart = await storage.getTankCalibrationChart(tank.id);
+      res.json(chart ?? null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch calibration chart" });
+    }
+  });
+
+  app.put("/api/tanks/:id/calibration", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const validatedChart = saveCalibrationChartSchema.parse(req.body);
+      const chart = await storage.saveTankCalibrationChart(req.params.id, {
+        ...validatedChart,
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.json(chart);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid calibration chart", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Tank not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to save calibration chart" });
+    }
+  });
+
+  // Low and critical stock levels; the tank's status is worked out from these on every movement
+  app.put("/api/tanks/:id/thresholds", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const validatedThresholds = updateTankThresholdsSchema.parse(req.body);
+      const tank = await storage.updateTankThresholds(req.params.id, {
+        ...validatedThresholds,
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.json(tank);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid stock levels", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Tank not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update stock levels" });
+    }
+  });
+
+  app.get("/api/tanks/:id/status-history", requireAuth, async (req, res) => {
+    try {
+      const history = await storage.getTankStatusHistory(req.params.id, req.user?.stationId || '', req.user?.role || '');
+      res.json(history);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Tank not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch status history" });
+    }
+  });
+
+  // Dip reading logbook
+  app.get("/api/dip-readings/:stationId", requireAuth, requireStationAccess, async (req, res) => {
+    try {
+      const { tankId } = req.query;
+      const readings = await storage.getDipReadings(req.params.stationId, tankId ? String(tankId) : undefined);
+      res.json(readings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch dip readings" });
+    }
+  });
+
+  app.post("/api/dip-readings", requireAuth, async (req, res) => {
+    try {
+      const validatedReading = recordDipReadingSchema.parse(req.body);
+      const reading = await storage.recordDipReading({
+        ...validatedReading,
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.status(201).json(reading);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid dip reading", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Tank not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to record dip reading" });
+    }
+  });
+
+  // Tank maintenance work orders
+  app.get("/api/maintenance-orders/:stationId", requireAuth, requireStationAccess, async (req, res) => {
+    try {
+      const orders = await storage.getMaintenanceOrders(req.params.stationId, req.query.tankId as string | undefined);
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch work orders" });
+    }
+  });
+
+  app.post("/api/maintenance-orders", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const validatedOrder = createMaintenanceOrderSchema.parse(req.body);
+      const order = await storage.createMaintenanceOrder({
+        ...validatedOrder,
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.status(201).json(order);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid work order", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Tank not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to schedule work order" });
+    }
+  });
+
+  app.post("/api/maintenance-orders/:id/start", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const order = await storage.startMaintenanceOrder(req.params.id, {
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.json(order);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Work order not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to start work order" });
+    }
+  });
+
+  app.post("/api/maintenance-orders/:id/complete", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const validatedCompletion = completeMaintenanceOrderSchema.parse(req.body);
+      const order = await storage.completeMaintenanceOrder(req.params.id, {
+        ...validatedCompletion,
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.json(order);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid completion", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Work order not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to complete work order" });
+    }
+  });
+
+  app.post("/api/maintenance-orders/:id/cancel", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const { reason } = cancelMaintenanceOrderSchema.parse(req.body);
+      const order = await storage.cancelMaintenanceOrder(req.params.id, {
+        reason,
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.json(order);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid cancellation", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Work order not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to cancel work order" });
+    }
+  });
+
+  // Automatic tank gauge (ATG) console, probe readings and the deliveries it has seen
+  app.get("/api/atg/console/:stationId", requireAuth, requireStationAccess, async (req, res) => {
+    try {
+      const atgConsole = await storage.getAtgConsole(req.params.stationId);
+      res.json(atgConsole ?? null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch ATG console" });
+    }
+  });
+
+  app.put("/api/atg/console/:stationId", requireAuth, requireRole(['admin', 'manager']), requireStationAccess, async (req, res) => {
+    try {
+      const validatedConfig = saveAtgConsoleSchema.parse(req.body);
+      // The server connects to whatever address is set here, so only an admin may point it somewhere new
+      if (validatedConfig.adapterType === 'tls_tcp' && req.user?.role !== 'admin') {
+        const existing = await storage.getAtgConsole(req.params.stationId);
+        const sameAddress = existing?.adapterType === 'tls_tcp' && existing.host === validatedConfig.host && existing.port === validatedConfig.port;
+        if (!sameAddress) {
+          return res.status(403).json({ message: "Only an admin can change the ATG console's address" });
+        }
+      }
+      const atgConsole = await storage.saveAtgConsole(req.params.stationId, validatedConfig);
+      res.json(atgConsole);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid ATG console settings", errors: error.errors });
+      }
+      if (error instanceof Error && error.message === 'Tank not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to save ATG console" });
+    }
+  });
+
+  // Polls the console straight away rather than waiting for its interval
+  app.post("/api/atg/console/:stationId/poll", requireAuth, requireRole(['admin', 'manager']), requireStationAccess, async (req, res) => {
+    try {
+      const atgConsole = await storage.getAtgConsole(req.params.stationId);
+      if (!atgConsole) {
+        return res.status(404).json({ message: "ATG console not found" });
+      }
+      const result = await pollAtgConsole(atgConsole);
+      res.json(result);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to poll ATG console" });
+    }
+  });
+
+  // The newest probe reading of each tank
+  app.get("/api/atg/readings/:stationId", requireAuth, requireStationAccess, async (req, res) => {
+    try {
+      const readings = await storage.getLatestAtgReadings(req.params.stationId);
+      res.json(readings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch ATG readings" });
+    }
+  });
+
+  app.get("/api/tanks/:id/atg-readings", requireAuth, async (req, res) => {
+    try {
+      const hours = Math.min(Math.max(parseInt(String(req.query.hours ?? '24'), 10) || 24, 1), 24 * 31);
+      const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+      const readings = await storage.getAtgReadings(req.params.id, since, req.user?.stationId || '', req.user?.role || '');
+      res.json(readings);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Tank not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch ATG readings" });
+    }
+  });
+
+  app.get("/api/atg/deliveries/:stationId", requireAuth, requireStationAccess, async (req, res) => {
+    try {
+      const { startDate, endDate } = req.query;
+      const deliveries = await storage.getAtgDeliveries(req.params.stationId, {
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+      });
+      res.json(deliveries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch ATG deliveries" });
+    }
+  });
+
   // Stock Movements routes
   app.get("/api/stock-movements/:tankId", requireAuth, async (req, res) => {
     try {
@@ -525,13 +892,161 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/stock-movements", requireAuth, async (req, res) => {
+  // Stock adjustments routes. Book stock is only corrected through a reason-coded adjustment;
+  // receipts, sales and transfers move it through their own documents.
+  app.get("/api/stock-adjustments/:stationId", requireAuth, requireStationAccess, async (req, res) => {
+    try {
+      const status = stockAdjustmentStatusEnum.enumValues.find((value) => value === req.query.status);
+      const adjustments = await storage.getStockAdjustments(req.params.stationId, { status });
+      res.json(adjustments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch stock adjustments" });
+    }
+  });
+
+  app.post("/api/stock-adjustments", requireAuth, async (req, res) => {
+    try {
+      const validatedAdjustment = createStockAdjustmentSchema.parse(req.body);
+      const adjustment = await storage.createStockAdjustment({
+        ...validatedAdjustment,
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.status(201).json(adjustment);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid stock adjustment", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Tank not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to record stock adjustment" });
+    }
+  });
+
+  app.post("/api/stock-adjustments/:id/review", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const validatedReview = reviewStockAdjustmentSchema.parse(req.body);
+      const adjustment = await storage.reviewStockAdjustment(req.params.id, {
+        ...validatedReview,
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.json(adjustment);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid review", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Stock adjustment not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to review stock adjustment" });
+    }
+  });
+
+  // Stock transfers routes
+  app.get("/api/stock-transfers/:stationId", requireAuth, requireStationAccess, async (req, res) => {
+    try {
+      const transfers = await storage.getStockTransfers(req.params.stationId);
+      res.json(transfers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch stock transfers" });
+    }
+  });
+
+  // Tanks the source tank's product may be moved into, at this station or another
+  app.get("/api/stock-transfers/destinations/:tankId", requireAuth, async (req, res) => {
     try {
-      const validatedData = insertStockMovementSchema.parse(req.body);
-      const stockMovement = await storage.createStockMovement(validatedData);
-      res.status(201).json(stockMovement);
+      const destinations = await storage.getTransferDestinations(req.params.tankId, req.user?.stationId || '', req.user?.role || '');
+      res.json(destinations);
     } catch (error) {
-      res.status(400).json({ message: "Invalid stock movement data" });
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Tank not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch transfer destinations" });
+    }
+  });
+
+  app.post("/api/stock-transfers", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const validatedTransfer = createStockTransferSchema.parse(req.body);
+      const transfer = await storage.createStockTransfer({
+        ...validatedTransfer,
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.status(201).json(transfer);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid stock transfer", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Tank not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create stock transfer" });
+    }
+  });
+
+  app.post("/api/stock-transfers/:id/receive", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const validatedReceipt = receiveStockTransferSchema.parse(req.body);
+      const transfer = await storage.receiveStockTransfer(req.params.id, {
+        ...validatedReceipt,
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.json(transfer);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid transfer receipt", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Stock transfer not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to receive stock transfer" });
+    }
+  });
+
+  app.post("/api/stock-transfers/:id/cancel", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const { reason } = cancelStockTransferSchema.parse(req.body);
+      const transfer = await storage.cancelStockTransfer(req.params.id, {
+        reason,
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.json(transfer);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid cancellation", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Stock transfer not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to cancel stock transfer" });
     }
   });
 
@@ -589,6 +1104,133 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Customer price agreements
+  app.get("/api/customers/:customerId/price-agreements", requireAuth, async (req, res) => {
+    try {
+      const agreements = await storage.getCustomerPriceAgreements(req.params.customerId);
+      res.json(agreements);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch price agreements" });
+    }
+  });
+
+  app.post("/api/customers/:customerId/price-agreements", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const customer = await storage.getCustomer(req.params.customerId);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      if (!AGREEMENT_CUSTOMER_TYPES.includes(customer.type)) {
+        return res.status(400).json({ message: "Price agreements are only available for fleet and credit customers" });
+      }
+
+      const validatedAgreement = insertCustomerPriceAgreementSchema.parse({ ...req.body, customerId: customer.id });
+      const agreement = await storage.createCustomerPriceAgreement(validatedAgreement);
+      res.status(201).json(agreement);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid price agreement data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create price agreement" });
+    }
+  });
+
+  app.put("/api/price-agreements/:id", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const existing = await storage.getCustomerPriceAgreement(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Price agreement not found" });
+      }
+
+      const validatedAgreement = insertCustomerPriceAgreementSchema.parse({ ...req.body, customerId: existing.customerId });
+      const agreement = await storage.updateCustomerPriceAgreement(req.params.id, validatedAgreement);
+      res.json(agreement);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid price agreement data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update price agreement" });
+    }
+  });
+
+  app.delete("/api/price-agreements/:id", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      await storage.deleteCustomerPriceAgreement(req.params.id);
+      res.json({ message: "Price agreement deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete price agreement" });
+    }
+  });
+
+  // Promotions - readable by the till, managed by admins and managers
+  app.get("/api/promotions", requireAuth, async (req, res) => {
+    try {
+      const stationId = req.user?.role === 'admin' ? undefined : req.user?.stationId;
+      const promotions = await storage.getPromotions(stationId);
+      res.json(promotions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch promotions" });
+    }
+  });
+
+  app.post("/api/promotions", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const validatedPromotion = insertPromotionSchema.parse(req.body);
+      // Managers can only run promotions at their own station
+      if (req.user?.role !== 'admin') {
+        validatedPromotion.stationId = req.user?.stationId;
+      }
+      const promotion = await storage.createPromotion(validatedPromotion);
+      res.status(201).json(promotion);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid promotion data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create promotion" });
+    }
+  });
+
+  app.put("/api/promotions/:id", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const existing = await storage.getPromotion(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+      if (req.user?.role !== 'admin' && existing.stationId !== req.user?.stationId) {
+        return res.status(403).json({ message: "Access denied: promotion belongs to another station" });
+      }
+
+      const validatedPromotion = insertPromotionSchema.parse(req.body);
+      if (req.user?.role !== 'admin') {
+        validatedPromotion.stationId = existing.stationId;
+      }
+      const promotion = await storage.updatePromotion(req.params.id, validatedPromotion);
+      res.json(promotion);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid promotion data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update promotion" });
+    }
+  });
+
+  app.delete("/api/promotions/:id", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const existing = await storage.getPromotion(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+      if (req.user?.role !== 'admin' && existing.stationId !== req.user?.stationId) {
+        return res.status(403).json({ message: "Access denied: promotion belongs to another station" });
+      }
+
+      await storage.deletePromotion(req.params.id);
+      res.json({ message: "Promotion deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete promotion" });
+    }
+  });
+
   // Suppliers routes
   app.get("/api/suppliers", requireAuth, async (req, res) => {
     try {
@@ -685,13 +1327,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = await storage.getUser(sale.userId);
       const station = await storage.getStation(sale.stationId);
       const items = await storage.getSalesTransactionItems(id);
+      const tenders = await storage.getSaleTenders(id);
+      const creditNotes = await storage.getCreditNotesForSale(id);
+      const verificationToken = sale.verificationToken ?? await storage.ensureVerificationToken(id);
 
       const saleWithDetails = {
         ...sale,
+        verificationToken,
         customer,
         user,
         station,
-        items
+        items,
+        tenders,
+        creditNotes
       };
 
       res.json(saleWithDetails);
@@ -701,111 +1349,116 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/sales/:transactionId", requireAuth, async (req, res) => {
-    const { transactionId } = req.params;
-    const { transaction, items } = req.body;
-    const user = req.user!;
-
+  // Public receipt verification behind the QR code - no authentication, read-only
+  app.get("/api/public/invoices/:token", async (req, res) => {
     try {
-      // Get existing transaction to check permissions
-      const existingTransaction = await storage.getSalesTransaction(transactionId);
-      if (!existingTransaction) {
-        return res.status(404).json({ error: "Transaction not found" });
+      const { token } = req.params;
+      if (!isValidReceiptToken(token)) {
+        return res.status(404).json({ message: "Receipt not found" });
       }
 
-      if (user.role !== 'admin' && user.stationId !== existingTransaction.stationId) {
-        return res.status(403).json({ error: "Access denied" });
+      const invoice = await storage.getPublicInvoice(token);
+      if (!invoice) {
+        return res.status(404).json({ message: "Receipt not found" });
       }
+      res.json(invoice);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to verify receipt" });
+    }
+  });
 
-      // Update transaction
-      const updatedTransaction = await storage.updateSalesTransaction(transactionId, transaction);
-
-      // Delete existing items
-      await storage.deleteSalesTransactionItems(transactionId);
+  // Sales are never deleted; a void or return issues a credit note against the original invoice
+  app.post("/api/sales/:id/void", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const { reason } = createCreditNoteSchema.pick({ reason: true }).parse(req.body);
 
-      // Add new items
-      const updatedItems = [];
-      for (const item of items) {
-        const newItem = await storage.createSalesTransactionItem({
-          ...item,
-          transactionId: transactionId
-        });
-        updatedItems.push(newItem);
+      const result = await storage.createCreditNote(req.params.id, {
+        reason,
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid void data", errors: error.errors });
       }
-
-      res.json({ transaction: updatedTransaction, items: updatedItems });
-    } catch (error) {
-      console.error("Error updating sale:", error);
-      res.status(500).json({ error: "Failed to update sale" });
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Sales transaction not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to void sale" });
     }
   });
 
-  app.delete("/api/sales/:id", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+  app.post("/api/sales/:id/returns", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
     try {
-      const { id } = req.params;
-      const userStationId = req.user?.stationId || '';
-      const userRole = req.user?.role || '';
+      const validatedReturn = createCreditNoteSchema.required({ items: true }).parse(req.body);
 
-      await storage.deleteSalesTransactionSecure(id, userStationId, userRole);
-      res.json({ message: "Sales transaction deleted successfully" });
-    } catch (error) {
+      const result = await storage.createCreditNote(req.params.id, {
+        ...validatedReturn,
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid return data", errors: error.errors });
+      }
       if (error instanceof Error && error.message.includes('Access denied')) {
         return res.status(403).json({ message: error.message });
       }
-      res.status(500).json({ message: "Failed to delete sales transaction" });
+      if (error instanceof Error && error.message === 'Sales transaction not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to record return" });
     }
   });
 
   app.post("/api/sales", requireAuth, async (req, res) => {
     try {
-      const { transaction, items } = req.body;
-
-      // Generate a shorter invoice number, similar to purchase invoice
-      const invoiceNumber = `SAL${Date.now().toString().slice(-6)}`; // Example: SAL123456
+      if (!req.user?.stationId) {
+        return res.status(400).json({ message: "User must be assigned to a station to record sales" });
+      }
 
-      // Validate transaction data
-      const validatedTransaction = insertSalesTransactionSchema.parse({
-        ...transaction,
-        invoiceNumber: invoiceNumber
-      });
-      const createdTransaction = await storage.createSalesTransaction(validatedTransaction);
+      const { transaction, items } = req.body;
 
-      // Create transaction items
-      const createdItems = [];
-      for (const item of items) {
-        const validatedItem = insertSalesTransactionItemSchema.parse({
-          ...item,
-          transactionId: createdTransaction.id
-        });
-        const createdItem = await storage.createSalesTransactionItem(validatedItem);
-        createdItems.push(createdItem);
-
-        // Create stock movement for inventory tracking (only for fuel products with tanks)
-        if (item.tankId && item.tankId !== 'null') {
-          await storage.createStockMovement({
-            tankId: item.tankId,
-            movementType: "out",
-            quantity: item.quantity,
-            unitPrice: item.unitPrice,
-            remarks: `Sale - Invoice ${transaction.invoiceNumber}`,
-            referenceType: "sale",
-            referenceId: createdTransaction.id,
-            stationId: validatedTransaction.stationId,
-            userId: validatedTransaction.userId,
-          });
+      // Only the customer, payment and quantities are taken from the client;
+      // prices, tax and totals are derived inside the posting transaction
+      const { managerApproval, ...validatedSale } = postSaleSchema.parse({ ...transaction, items });
+
+      // Manager credentials typed in at the till authorise large manual discounts
+      // and stock overrides for this sale only
+      let approvedBy: string | undefined;
+      if (managerApproval) {
+        const approval = await verifyManagerApproval(managerApproval, req.user.stationId, req.user.id);
+        if ('status' in approval) {
+          return res.status(approval.status).json({ message: approval.message, requiresApproval: true });
         }
+        approvedBy = approval.approverId;
       }
 
-      // Update customer outstanding amount for credit sales
-      if (validatedTransaction.paymentMethod === 'credit' && validatedTransaction.customerId) {
-        await storage.updateCustomerOutstanding(
-          validatedTransaction.customerId,
-          parseFloat(validatedTransaction.outstandingAmount || '0')
-        );
-      }
+      // The invoice number is drawn from the station's sale series inside the posting transaction
+      const sale = await storage.createSale({
+        ...validatedSale,
+        stationId: req.user.stationId,
+        userId: req.user.id,
+        userRole: req.user.role,
+        approvedBy,
+      });
 
-      res.status(201).json({ transaction: createdTransaction, items: createdItems });
+      res.status(201).json(sale);
     } catch (error) {
+      if (error instanceof Error && error.message.startsWith('Manager approval required')) {
+        return res.status(403).json({
+          message: error.message,
+          requiresApproval: true,
+          stockOverride: error.message.includes('insufficient stock'),
+        });
+      }
       if (error instanceof Error && error.name === 'ZodError') {
         console.error("Sales validation error:", error.message, (error as any).errors);
         return res.status(400).json({
@@ -819,6 +1472,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Held carts - parked POS sales for the signed-in cashier
+  app.get("/api/held-carts", requireAuth, async (req, res) => {
+    try {
+      if (!req.user?.stationId) {
+        return res.json([]);
+      }
+      const carts = await storage.getHeldCarts(req.user.stationId, req.user.id);
+      res.json(carts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch held carts" });
+    }
+  });
+
+  app.post("/api/held-carts", requireAuth, async (req, res) => {
+    try {
+      if (!req.user?.stationId) {
+        return res.status(400).json({ message: "User must be assigned to a station to hold sales" });
+      }
+
+      const validatedCart = holdCartSchema.parse(req.body);
+      const cart = await storage.createHeldCart({
+        ...validatedCart,
+        stationId: req.user.stationId,
+        userId: req.user.id,
+      });
+      res.status(201).json(cart);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid cart data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to hold cart" });
+    }
+  });
+
+  app.post("/api/held-carts/:id/resume", requireAuth, async (req, res) => {
+    try {
+      const cart = await storage.resumeHeldCart(req.params.id, req.user!.id);
+      if (!cart) {
+        return res.status(404).json({ message: "Held cart not found or expired" });
+      }
+      res.json(cart);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to resume held cart" });
+    }
+  });
+
+  app.delete("/api/held-carts/:id", requireAuth, async (req, res) => {
+    try {
+      await storage.deleteHeldCart(req.params.id, req.user!.id);
+      res.json({ message: "Held cart discarded" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to discard held cart" });
+    }
+  });
+
   // Purchase orders routes
   app.get("/api/purchase-orders/:stationId", requireAuth, requireStationAccess, async (req, res) => {
     try {
@@ -851,6 +1559,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = await storage.getUser(order.userId);
       const station = await storage.getStation(order.stationId);
       const items = await storage.getPurchaseOrderItems(id);
+      const statusHistory = await storage.getPurchaseOrderStatusHistory(id);
+      const dispatches = await storage.getPurchaseOrderDispatches(id);
+      const charges = await storage.getPurchaseOrderCharges(id);
       
       // Get products for each item
       const itemsWithProducts = await Promise.all(
@@ -865,7 +1576,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         supplier,
         user,
         station,
-        items: itemsWithProducts
+        items: itemsWithProducts,
+        statusHistory,
+        dispatches,
+        charges
       };
 
       res.json(orderWithDetails);
@@ -1016,17 +1730,287 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof Error && error.message.includes('Access denied')) {
         return res.status(403).json({ message: error.message });
       }
+      if (error instanceof Error && error.message === 'Purchase order not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message.startsWith('Only draft')) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to delete purchase order" });
     }
   });
 
+  // Edit a draft order; the server recalculates line and order totals
+  app.put("/api/purchase-orders/:id", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const { order, items, charges } = req.body;
+
+      const validatedOrder = insertPurchaseOrderSchema.pick({
+        supplierId: true,
+        orderDate: true,
+        expectedDeliveryDate: true,
+        dueDate: true,
+        notes: true,
+      }).parse({
+        supplierId: order.supplierId,
+        orderDate: order.orderDate,
+        expectedDeliveryDate: order.expectedDeliveryDate || undefined,
+        dueDate: order.dueDate || undefined,
+        notes: order.notes || "",
+      });
+      const validatedItems = insertPurchaseOrderItemSchema.omit({ orderId: true, totalPrice: true, receivedQuantity: true })
+        .array().min(1)
+        .parse(items.map((item: any) => ({
+          productId: item.productId,
+          tankId: item.tankId || undefined,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+        })));
+
+      const validatedCharges = purchaseOrderChargeSchema.array().parse(charges ?? []);
+
+      const updated = await storage.updatePurchaseOrderWithItems(
+        req.params.id,
+        validatedOrder,
+        validatedItems,
+        validatedCharges,
+        req.user?.stationId || '',
+        req.user?.role || ''
+      );
+      res.json(updated);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid purchase order data", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Purchase order not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to update purchase order" });
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/status", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const validatedChange = changePurchaseOrderStatusSchema.parse(req.body);
+
+      const order = await storage.changePurchaseOrderStatus(req.params.id, {
+        ...validatedChange,
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.json(order);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid status change", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Purchase order not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to change purchase order status" });
+    }
+  });
+
+  // Render the order to PDF and email it to the supplier. Every attempt is logged on the order,
+  // and the first successful send of an approved order marks it as sent.
+  app.post("/api/purchase-orders/:id/dispatch", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const validatedDispatch = dispatchPurchaseOrderSchema.parse(req.body);
+      const userStationId = req.user?.stationId || '';
+      const userRole = req.user?.role || '';
+
+      const order = await storage.getPurchaseOrderWithItemsSecure(req.params.id, userStationId, userRole);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+
+      if (!['approved', 'sent', 'partially_received'].includes(order.status)) {
+        return res.status(400).json({ message: `Purchase order ${order.orderNumber} is ${order.status}; only approved orders can be sent to the supplier` });
+      }
+
+      const recipient = validatedDispatch.recipient || order.supplier.contactEmail;
+      if (!recipient) {
+        return res.status(400).json({ message: `${order.supplier.name} has no contact email` });
+      }
+
+      const items = await Promise.all(
+        order.items.map(async (item) => ({ ...item, product: await storage.getProduct(item.productId) }))
+      );
+      const pdf = await renderPurchaseOrderPdf({ ...order, items });
+
+      const transport = getMailTransport();
+      let messageId: string;
+      try {
+        ({ messageId } = await transport.send({
+          to: recipient,
+          subject: `Purchase Order ${order.orderNumber} from ${order.station.name}`,
+          text: [
+            `Dear ${order.supplier.contactPerson || order.supplier.name},`,
+            '',
+            validatedDispatch.message || `Please find attached purchase order ${order.orderNumber}.`,
+            '',
+            order.station.name,
+          ].join('\n'),
+          attachments: [{ filename: `purchase-order-${order.orderNumber}.pdf`, content: pdf, contentType: 'application/pdf' }],
+        }));
+      } catch (sendError) {
+        const message = sendError instanceof Error ? sendError.message : String(sendError);
+        const dispatch = await storage.logPurchaseOrderDispatch({
+          orderId: order.id,
+          recipient,
+          transport: transport.name,
+          status: 'failed',
+          error: message,
+          userId: req.user!.id,
+        });
+        return res.status(502).json({ message: `Failed to send purchase order: ${message}`, dispatch });
+      }
+
+      const dispatch = await storage.logPurchaseOrderDispatch({
+        orderId: order.id,
+        recipient,
+        transport: transport.name,
+        status: 'sent',
+        messageId,
+        userId: req.user!.id,
+      });
+
+      const updatedOrder = order.status === 'approved'
+        ? await storage.changePurchaseOrderStatus(order.id, {
+            status: 'sent',
+            notes: `Emailed to ${recipient}`,
+            userId: req.user!.id,
+            userStationId,
+            userRole,
+          })
+        : order;
+
+      res.status(201).json({ dispatch, order: updatedOrder });
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid dispatch data", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to send purchase order" });
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/receive", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const validatedReceipt = receivePurchaseOrderSchema.parse(req.body);
+
+      const result = await storage.receivePurchaseOrder(req.params.id, {
+        ...validatedReceipt,
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid goods receipt data", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Purchase order not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to receive purchase order" });
+    }
+  });
+
+  // Delivered cost per product from its latest receipt, for margin checks
+  app.get("/api/landed-costs/:stationId", requireAuth, requireStationAccess, async (req, res) => {
+    try {
+      const costs = await storage.getLatestLandedCosts(req.params.stationId);
+      res.json(costs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch landed costs" });
+    }
+  });
+
+  app.get("/api/reorder-suggestions/:stationId", requireAuth, requireRole(['admin', 'manager']), requireStationAccess, async (req, res) => {
+    try {
+      const suggestions = await storage.getReorderSuggestions(req.params.stationId);
+      res.json(suggestions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build reorder suggestions" });
+    }
+  });
+
+  // Supplier invoices routes
+  app.get("/api/supplier-invoices/:stationId", requireAuth, requireStationAccess, async (req, res) => {
+    try {
+      const invoices = await storage.getSupplierInvoices(req.params.stationId);
+      res.json(invoices);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch supplier invoices" });
+    }
+  });
+
+  app.post("/api/supplier-invoices", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const validatedInvoice = captureSupplierInvoiceSchema.parse(req.body);
+
+      const result = await storage.captureSupplierInvoice({
+        ...validatedInvoice,
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.status(201).json(result);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid supplier invoice data", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Purchase order not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to capture supplier invoice" });
+    }
+  });
+
+  app.post("/api/supplier-invoices/:id/review", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
+    try {
+      const validatedReview = reviewSupplierInvoiceSchema.parse(req.body);
+
+      const invoice = await storage.reviewSupplierInvoice(req.params.id, {
+        ...validatedReview,
+        userId: req.user!.id,
+        userStationId: req.user?.stationId || '',
+        userRole: req.user?.role || '',
+      });
+      res.json(invoice);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ message: "Invalid review data", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes('Access denied')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof Error && error.message === 'Supplier invoice not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to review supplier invoice" });
+    }
+  });
+
   app.post("/api/purchase-orders", requireAuth, requireRole(['admin', 'manager']), async (req, res) => {
     try {
       const { order, items } = req.body;
 
-      // Generate a shorter invoice number, similar to sale invoice
-      const invoiceNumber = `PUR${Date.now().toString().slice(-6)}`; // Example: PUR123456
-
       // Fetch currency configuration based on the station
       const userStationId = req.user?.stationId;
       if (!userStationId) {
@@ -1056,19 +2040,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const taxRate = currencyConfig.taxEnabled ? parseFloat(currencyConfig.taxRate || '0') : 0;
-      const taxAmount = subtotal * taxRate;
+      const taxAmount = subtotal * taxRate / 100;
       const totalAmount = subtotal + taxAmount;
 
       // Normalize dates to ISO timestamps
+      // The order number is assigned from the station's purchase order series on save
       const orderData = {
-        orderNumber: order.orderNumber,
         stationId: userStationId,
         supplierId: order.supplierId,
         userId: req.user?.id,
         orderDate: order.orderDate instanceof Date ? order.orderDate.toISOString() : new Date(order.orderDate).toISOString(),
         expectedDeliveryDate: order.expectedDeliveryDate ? 
           (order.expectedDeliveryDate instanceof Date ? order.expectedDeliveryDate.toISOString() : new Date(order.expectedDeliveryDate).toISOString()) : null,
-        status: order.status,
+        status: 'draft' as const, // Every order starts as a draft and goes through approval
         currencyCode: currencyConfig.code,
         subtotal: subtotal.toString(),
         taxAmount: taxAmount.toString(),
@@ -1077,20 +2061,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
 
-      const validatedOrder = insertPurchaseOrderSchema.parse(orderData);
-      const createdOrder = await storage.createPurchaseOrder(validatedOrder);
+      const validatedOrder = insertPurchaseOrderSchema.omit({ orderNumber: true }).parse(orderData);
+      const validatedItems = processedItems.map((item: any) =>
+        insertPurchaseOrderItemSchema.omit({ orderId: true }).parse(item)
+      );
 
-      const createdItems = [];
-      for (const item of processedItems) {
-        const validatedItem = insertPurchaseOrderItemSchema.parse({
-          ...item,
-          orderId: createdOrder.id
-        });
-        const createdItem = await storage.createPurchaseOrderItem(validatedItem);
-        createdItems.push(createdItem);
-      }
+      const validatedCharges = purchaseOrderChargeSchema.array().parse(req.body.charges ?? []);
 
-      res.status(201).json({ order: createdOrder, items: createdItems });
+      const created = await storage.createPurchaseOrderWithItems(validatedOrder, validatedItems, validatedCharges);
+      res.status(201).json(created);
     } catch (error) {
       if (error instanceof Error && error.name === 'ZodError') {
         console.error("Purchase order validation error:", error.message, (error as any).errors);
@@ -1285,6 +2264,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/reports/delivery-variance/:stationId", requireAuth, requireStationAccess, async (req, res) => {
+    try {
+      const { stationId } = req.params;
+      const { startDate, endDate } = req.query;
+
+      const report = await storage.getDeliveryVarianceReport(
+        stationId,
+        new Date(startDate as string),
+        new Date(endDate as string)
+      );
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate delivery variance report" });
+    }
+  });
+
+  app.get("/api/reports/inventory-valuation/:stationId", requireAuth, requireRole(['admin', 'manager']), requireStationAccess, async (req, res) => {
+    try {
+      const { stationId } = req.params;
+      const { startDate, endDate } = req.query;
+
+      const report = await storage.getInventoryValuation(
+        stationId,
+        new Date(startDate as string),
+        new Date(endDate as string)
+      );
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate inventory valuation" });
+    }
+  });
+
+  app.get("/api/reports/wet-stock/:stationId", requireAuth, requireRole(['admin', 'manager']), requireStationAccess, async (req, res) => {
+    try {
+      const { stationId } = req.params;
+      const { startDate, endDate } = req.query;
+
+      const report = await storage.getWetStockReconciliation(
+        stationId,
+        new Date(startDate as string),
+        new Date(endDate as string)
+      );
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate wet-stock reconciliation" });
+    }
+  });
+
+  app.get("/api/reports/adjustments/:stationId", requireAuth, requireRole(['admin', 'manager']), requireStationAccess, async (req, res) => {
+    try {
+      const { stationId } = req.params;
+      const { startDate, endDate } = req.query;
+
+      const report = await storage.getAdjustmentRegister(
+        stationId,
+        new Date(startDate as string),
+        new Date(endDate as string)
+      );
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate adjustment register" });
+    }
+  });
+
+  app.get("/api/reports/tenders/:stationId", requireAuth, requireStationAccess, async (req, res) => {
+    try {
+      const { stationId } = req.params;
+      const { startDate, endDate } = req.query;
+
+      const report = await storage.getTenderReport(
+        stationId,
+        new Date(startDate as string),
+        new Date(endDate as string)
+      );
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate tender report" });
+    }
+  });
+
   app.get("/api/reports/daily/:stationId", requireAuth, requireStationAccess, async (req, res) => {
     try {
       const { stationId } = req.params;
@@ -347,7 +347,7 @@ export async function seedInitialData() {
       const unitPrice = Math.random() > 0.5 ? "275.00" : "265.00"; // Wholesale prices
       const totalAmount = (parseFloat(quantity) * parseFloat(unitPrice)).toFixed(2);
       
-      const statuses = ["pending", "approved", "delivered", "cancelled"];
+      const statuses = ["draft", "submitted", "approved", "sent", "closed", "cancelled"];
       const status = statuses[Math.floor(Math.random() * statuses.length)];
       
       await storage.createPurchaseOrder({
@@ -633,7 +633,7 @@ async function seedSampleData() {
       const unitPrice = "275.00";
       const totalAmount = (parseFloat(quantity) * parseFloat(unitPrice)).toFixed(2);
       
-      const status = ["pending", "approved", "delivered"][Math.floor(Math.random() * 3)];
+      const status = ["draft", "approved", "sent"][Math.floor(Math.random() * 3)];
       
       await storage.createPurchaseOrder({
         stationId: station.id,
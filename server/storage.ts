@@ -13,10 +13,149 @@ import {
   type StockMovement, type InsertStockMovement,
   type PriceHistory, type InsertPriceHistory,
   type Settings, type InsertSettings,
-  type Pump, type PumpReading, type InsertPump, type InsertPumpReading
+  type Pump, type PumpReading, type InsertPump, type InsertPumpReading,
+  type PostSale, documentSequences, type DocumentSequence, type DocumentType,
+  type UpdateDocumentSequence, creditNotes, creditNoteItems,
+  type CreditNote, type CreditNoteItem, type CreateCreditNote, type ReceivePurchaseOrder,
+  saleTenders, type SaleTender, type SaleTenderInput,
+  heldCarts, type HeldCart, type HoldCart,
+  customerPriceAgreements, type CustomerPriceAgreement, type InsertCustomerPriceAgreement,
+  promotions, type Promotion, type InsertPromotion,
+  tankerDeliveries, type TankerDelivery,
+  supplierInvoices, supplierInvoiceItems, type SupplierInvoice, type SupplierInvoiceItem,
+  type CaptureSupplierInvoice, type ReviewSupplierInvoice,
+  purchaseOrderStatusHistory, purchaseOrderTransitions, type ChangePurchaseOrderStatus,
+  purchaseOrderDispatches, type PurchaseOrderDispatch,
+  purchaseOrderCharges, type PurchaseOrderCharge, type PurchaseOrderChargeInput,
+  stockCostLayers,
+  tankCalibrationCharts, tankDipReadings, type TankCalibrationChart, type TankDipReading,
+  type SaveCalibrationChart, type RecordDipReading,
+  stockTransfers, type StockTransfer, type CreateStockTransfer, type ReceiveStockTransfer,
+  stockAdjustments, stockAdjustmentReasonLabels, type StockAdjustment, type StockAdjustmentReason, type CreateStockAdjustment, type ReviewStockAdjustment,
+  tankMaintenanceOrders, type TankMaintenanceOrder, type CreateMaintenanceOrder, type CompleteMaintenanceOrder,
+  tankStatusHistory, type TankStatusChange, type UpdateTankThresholds,
+  atgConsoles, atgReadings, atgDeliveries, type AtgConsole, type AtgReading, type AtgDelivery, type SaveAtgConsole
 } from "@shared/schema";
+import { AGREEMENT_CUSTOMER_TYPES, agreedUnitPrice, findPriceAgreement, findBestPromotion, manualDiscountAmount } from "@shared/pricing";
+import { volumeCorrectionFactor } from "@shared/volume";
+import { dipToVolume, toMillimetres } from "@shared/strapping";
+import { tankStockStatus } from "@shared/tankStatus";
 import { db } from "./db";
-import { eq, desc, sql, and, gte, lte, sum } from "drizzle-orm";
+import { generateReceiptToken } from "./verification";
+import { allocateLandedCosts, landedUnitCost } from "./landedCost";
+import { consumeLayers, weightedAverageCost } from "./costing";
+import { reconcileWetStock, type ReconciliationAlert, type ReconciliationDay, type TankFlow } from "./wetStock";
+import { classifyLevelChange, type DeliveryReport, type InventoryReport } from "./atg";
+import { buildReorderSuggestions, SALES_LOOKBACK_DAYS, type ReorderSuggestion, type SupplySource, type TankForecast } from "./replenishment";
+import { eq, ne, desc, sql, and, gt, gte, lte, sum, inArray } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+// Transaction handle passed to db.transaction callbacks
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface PublicInvoice {
+  invoiceNumber: string;
+  transactionDate: Date | null;
+  stationName: string | null;
+  currencyCode: SalesTransaction['currencyCode'];
+  subtotal: string;
+  taxAmount: string | null;
+  totalAmount: string;
+  status: SalesTransaction['status'];
+  revokedAt: Date | null;
+  valid: boolean;
+  items: { productName: string; unit: string; quantity: string; unitPrice: string; totalPrice: string }[];
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// A tank being worked on cannot be sold from or have product put into it
+function assertTankInService(tank: Tank): void {
+  if (tank.status === 'maintenance') {
+    throw new Error(`${tank.name} is out of service for maintenance`);
+  }
+}
+
+// The status a stock level puts the tank in. A tank under maintenance keeps that status
+// whatever its stock until the work order is closed.
+function derivedTankStatus(tank: Tank, currentStock: number): Tank['status'] {
+  if (tank.status === 'maintenance') return 'maintenance';
+  return tankStockStatus(
+    currentStock,
+    parseFloat(tank.minimumLevel || '0'),
+    tank.criticalLevel === null ? null : parseFloat(tank.criticalLevel)
+  );
+}
+
+type TankStatusChangeReason = TankStatusChange['reason'];
+
+const DOCUMENT_TYPES: DocumentType[] = ['sale', 'purchase_order', 'payment_receipt', 'credit_note', 'stock_transfer'];
+
+const DEFAULT_DOCUMENT_PREFIXES: Record<DocumentType, string> = {
+  sale: 'SAL',
+  purchase_order: 'PUR',
+  payment_receipt: 'RCP',
+  credit_note: 'CRN',
+  stock_transfer: 'TRF',
+};
+
+// Settles a sale total across tender lines. Only cash may be over-tendered;
+// the excess is handed back as change from the cash lines.
+function allocateTenders(tenders: SaleTenderInput[], totalAmount: number) {
+  const nonCashTotal = roundMoney(tenders
+    .filter((tender) => tender.paymentMethod !== 'cash')
+    .reduce((total, tender) => total + tender.amount, 0));
+  const tenderedTotal = roundMoney(tenders.reduce((total, tender) => total + tender.amount, 0));
+
+  if (nonCashTotal > totalAmount) {
+    throw new Error('Non-cash tenders cannot exceed the sale total');
+  }
+  if (tenderedTotal < totalAmount) {
+    throw new Error(`Tenders are short by ${roundMoney(totalAmount - tenderedTotal).toFixed(2)}`);
+  }
+
+  let changeRemaining = roundMoney(tenderedTotal - totalAmount);
+  const allocated = tenders.map((tender) => ({ ...tender, applied: tender.amount, change: 0 }));
+  for (const tender of [...allocated].reverse()) {
+    if (tender.paymentMethod !== 'cash' || changeRemaining <= 0) continue;
+    tender.change = Math.min(tender.amount, changeRemaining);
+    tender.applied = roundMoney(tender.amount - tender.change);
+    changeRemaining = roundMoney(changeRemaining - tender.change);
+  }
+
+  return allocated;
+}
+
+// Forecourt shifts change over at 06:00 and 18:00 (see Cash Reconciliation)
+const SHIFT_CHANGE_HOURS = [6, 18];
+
+function shiftEndFor(date: Date): Date {
+  for (const hour of SHIFT_CHANGE_HOURS) {
+    const boundary = new Date(date);
+    boundary.setHours(hour, 0, 0, 0);
+    if (boundary > date) return boundary;
+  }
+  const nextDay = new Date(date);
+  nextDay.setDate(nextDay.getDate() + 1);
+  nextDay.setHours(SHIFT_CHANGE_HOURS[0], 0, 0, 0);
+  return nextDay;
+}
+
+// Fiscal years are labelled by the calendar year in which they start
+function fiscalYearFor(date: Date, fiscalYearStartMonth: number): number {
+  const month = date.getMonth() + 1;
+  return month >= fiscalYearStartMonth ? date.getFullYear() : date.getFullYear() - 1;
+}
+
+function formatDocumentNumber(sequence: DocumentSequence, fiscalYear: number, number: number): string {
+  return `${sequence.prefix}-${fiscalYear}-${number.toString().padStart(sequence.padding, '0')}`;
+}
 
 export interface IStorage {
   // Users
@@ -42,6 +181,28 @@ export interface IStorage {
   getTank(id: string): Promise<Tank | undefined>;
   createTank(tank: InsertTank): Promise<Tank>;
   updateTankStock(id: string, currentStock: number): Promise<Tank>;
+  updateTankThresholds(id: string, thresholds: UpdateTankThresholds & { userId: string; userStationId: string; userRole: string }): Promise<Tank>;
+  getTankStatusHistory(tankId: string, userStationId: string, userRole: string): Promise<(TankStatusChange & { userName: string | null })[]>;
+  getTankCalibrationChart(tankId: string): Promise<TankCalibrationChart | undefined>;
+  saveTankCalibrationChart(tankId: string, chart: SaveCalibrationChart & { userId: string; userStationId: string; userRole: string }): Promise<TankCalibrationChart>;
+  getDipReadings(stationId: string, tankId?: string): Promise<(TankDipReading & { tankName: string; productName: string; userName: string | null })[]>;
+  recordDipReading(reading: RecordDipReading & { userId: string; userStationId: string; userRole: string }): Promise<TankDipReading>;
+  getMaintenanceOrders(stationId: string, tankId?: string): Promise<(TankMaintenanceOrder & { tankName: string; productName: string })[]>;
+  createMaintenanceOrder(order: CreateMaintenanceOrder & { userId: string; userStationId: string; userRole: string }): Promise<TankMaintenanceOrder>;
+  startMaintenanceOrder(id: string, request: { userId: string; userStationId: string; userRole: string }): Promise<TankMaintenanceOrder>;
+  completeMaintenanceOrder(id: string, completion: CompleteMaintenanceOrder & { userId: string; userStationId: string; userRole: string }): Promise<TankMaintenanceOrder>;
+  cancelMaintenanceOrder(id: string, cancellation: { reason: string; userId: string; userStationId: string; userRole: string }): Promise<TankMaintenanceOrder>;
+
+  // Automatic tank gauges
+  getAtgConsole(stationId: string): Promise<AtgConsole | undefined>;
+  getActiveAtgConsoles(): Promise<AtgConsole[]>;
+  saveAtgConsole(stationId: string, config: SaveAtgConsole): Promise<AtgConsole>;
+  markAtgConsolePolled(id: string, error: string | null): Promise<void>;
+  recordAtgInventory(consoleId: string, report: InventoryReport, receivedAt: Date): Promise<{ readings: AtgReading[]; detected: AtgDelivery[] }>;
+  recordAtgDeliveries(consoleId: string, report: DeliveryReport): Promise<AtgDelivery[]>;
+  getLatestAtgReadings(stationId: string): Promise<AtgReading[]>;
+  getAtgReadings(tankId: string, since: Date, userStationId: string, userRole: string): Promise<AtgReading[]>;
+  getAtgDeliveries(stationId: string, filters?: { startDate?: Date; endDate?: Date }): Promise<(AtgDelivery & { tankName: string; productName: string })[]>;
 
   // Customers
   getCustomers(): Promise<Customer[]>;
@@ -51,6 +212,20 @@ export interface IStorage {
   deleteCustomer(id: string): Promise<void>;
   updateCustomerOutstanding(customerId: string, additionalAmount: number): Promise<void>;
 
+  // Customer Price Agreements
+  getCustomerPriceAgreements(customerId: string): Promise<CustomerPriceAgreement[]>;
+  getCustomerPriceAgreement(id: string): Promise<CustomerPriceAgreement | undefined>;
+  createCustomerPriceAgreement(agreement: InsertCustomerPriceAgreement): Promise<CustomerPriceAgreement>;
+  updateCustomerPriceAgreement(id: string, agreement: Partial<InsertCustomerPriceAgreement>): Promise<CustomerPriceAgreement>;
+  deleteCustomerPriceAgreement(id: string): Promise<void>;
+
+  // Promotions
+  getPromotions(stationId?: string): Promise<Promotion[]>;
+  getPromotion(id: string): Promise<Promotion | undefined>;
+  createPromotion(promotion: InsertPromotion): Promise<Promotion>;
+  updatePromotion(id: string, promotion: Partial<InsertPromotion>): Promise<Promotion>;
+  deletePromotion(id: string): Promise<void>;
+
   // Suppliers
   getSuppliers(): Promise<Supplier[]>;
   getSupplier(id: string): Promise<Supplier | undefined>;
@@ -65,23 +240,50 @@ export interface IStorage {
   getSalesTransactionWithItems(id: string): Promise<(SalesTransaction & { items: (SalesTransactionItem & { product: Product })[], customer: Customer, station: Station, user: User }) | undefined>;
   getSalesTransactionWithItemsSecure(id: string, userStationId: string, userRole: string): Promise<(SalesTransaction & { items: (SalesTransactionItem & { product: Product })[], customer: Customer, station: Station, user: User }) | undefined>;
   createSalesTransaction(transaction: InsertSalesTransaction): Promise<SalesTransaction>;
-  updateSalesTransaction(id: string, transaction: Partial<InsertSalesTransaction>): Promise<SalesTransaction>;
-  deleteSalesTransaction(id: string): Promise<void>;
-  deleteSalesTransactionSecure(id: string, userStationId: string, userRole: string): Promise<void>;
-  deleteSalesTransactionItems(transactionId: string): Promise<void>;
+  createSale(sale: Omit<PostSale, 'managerApproval'> & { stationId: string; userId: string; userRole: string; approvedBy?: string }): Promise<{ transaction: SalesTransaction; items: SalesTransactionItem[]; tenders: SaleTender[]; changeDue: number }>;
+  getSaleTenders(transactionId: string): Promise<SaleTender[]>;
+  createCreditNote(transactionId: string, request: CreateCreditNote & { userId: string; userStationId: string; userRole: string }): Promise<{ creditNote: CreditNote; items: CreditNoteItem[] }>;
+  getCreditNotesForSale(transactionId: string): Promise<(CreditNote & { items: CreditNoteItem[] })[]>;
+  ensureVerificationToken(transactionId: string): Promise<string | null>;
+  getPublicInvoice(token: string): Promise<PublicInvoice | undefined>;
 
   // Sales Transaction Items
   createSalesTransactionItem(item: InsertSalesTransactionItem): Promise<SalesTransactionItem>;
   getSalesTransactionItems(transactionId: string): Promise<SalesTransactionItem[]>;
 
+  // Held Carts
+  getHeldCarts(stationId: string, userId: string): Promise<HeldCart[]>;
+  createHeldCart(cart: HoldCart & { stationId: string; userId: string }): Promise<HeldCart>;
+  resumeHeldCart(id: string, userId: string): Promise<HeldCart | undefined>;
+  deleteHeldCart(id: string, userId: string): Promise<void>;
+
   // Purchase Orders
   getPurchaseOrders(stationId: string): Promise<PurchaseOrder[]>;
   getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined>;
   getPurchaseOrderWithItems(id: string): Promise<(PurchaseOrder & { items: PurchaseOrderItem[], supplier: Supplier, station: Station }) | undefined>;
   getPurchaseOrderWithItemsSecure(id: string, userStationId: string, userRole: string): Promise<(PurchaseOrder & { items: PurchaseOrderItem[], supplier: Supplier, station: Station }) | undefined>;
   createPurchaseOrder(order: InsertPurchaseOrder): Promise<PurchaseOrder>;
+  createPurchaseOrderWithItems(order: Omit<typeof purchaseOrders.$inferInsert, 'orderNumber'>, items: Omit<typeof purchaseOrderItems.$inferInsert, 'orderId'>[], charges?: PurchaseOrderChargeInput[]): Promise<{ order: PurchaseOrder; items: PurchaseOrderItem[] }>;
   deletePurchaseOrder(id: string): Promise<void>;
   deletePurchaseOrderSecure(id: string, userStationId: string, userRole: string): Promise<void>;
+  updatePurchaseOrderWithItems(id: string, update: Pick<typeof purchaseOrders.$inferInsert, 'supplierId' | 'orderDate' | 'expectedDeliveryDate' | 'dueDate' | 'notes'>, items: Omit<typeof purchaseOrderItems.$inferInsert, 'orderId' | 'totalPrice'>[], charges: PurchaseOrderChargeInput[], userStationId: string, userRole: string): Promise<{ order: PurchaseOrder; items: PurchaseOrderItem[] }>;
+  getPurchaseOrderCharges(orderId: string): Promise<PurchaseOrderCharge[]>;
+  getLatestLandedCosts(stationId: string): Promise<any[]>;
+  changePurchaseOrderStatus(id: string, change: ChangePurchaseOrderStatus & { userId: string; userStationId: string; userRole: string }): Promise<PurchaseOrder>;
+  getPurchaseOrderStatusHistory(orderId: string): Promise<any[]>;
+  getPurchaseOrderDispatches(orderId: string): Promise<any[]>;
+  logPurchaseOrderDispatch(dispatch: typeof purchaseOrderDispatches.$inferInsert): Promise<PurchaseOrderDispatch>;
+  receivePurchaseOrder(id: string, receipt: ReceivePurchaseOrder & { userId: string; userStationId: string; userRole: string }): Promise<{ order: PurchaseOrder; items: PurchaseOrderItem[]; movements: StockMovement[]; deliveries: TankerDelivery[] }>;
+  getDeliveryVarianceReport(stationId: string, startDate: Date, endDate: Date): Promise<any>;
+  getReorderSuggestions(stationId: string): Promise<{ forecasts: TankForecast[]; suggestions: ReorderSuggestion[] }>;
+  getInventoryValuation(stationId: string, startDate: Date, endDate: Date): Promise<any>;
+  getWetStockReconciliation(stationId: string, startDate: Date, endDate: Date): Promise<{ tolerancePercent: number; days: ReconciliationDay[]; alerts: ReconciliationAlert[] }>;
+  getAdjustmentRegister(stationId: string, startDate: Date, endDate: Date): Promise<any>;
+
+  // Supplier Invoices
+  getSupplierInvoices(stationId: string): Promise<(SupplierInvoice & { supplierName: string | null; orderNumber: string | null; items: (SupplierInvoiceItem & { productName: string | null })[] })[]>;
+  captureSupplierInvoice(request: CaptureSupplierInvoice & { userId: string; userStationId: string; userRole: string }): Promise<{ invoice: SupplierInvoice; items: SupplierInvoiceItem[] }>;
+  reviewSupplierInvoice(id: string, review: ReviewSupplierInvoice & { userId: string; userStationId: string; userRole: string }): Promise<SupplierInvoice>;
 
   // Purchase Order Items
   createPurchaseOrderItem(item: InsertPurchaseOrderItem): Promise<PurchaseOrderItem>;
@@ -102,13 +304,30 @@ export interface IStorage {
   getStockMovements(tankId: string): Promise<StockMovement[]>;
   createStockMovement(movement: InsertStockMovement): Promise<StockMovement>;
 
+  // Stock Transfers
+  getStockTransfers(stationId: string): Promise<(StockTransfer & { productName: string; sourceStationName: string; sourceTankName: string; destinationStationName: string; destinationTankName: string })[]>;
+  getTransferDestinations(sourceTankId: string, userStationId: string, userRole: string): Promise<(Tank & { stationName: string })[]>;
+  createStockTransfer(transfer: CreateStockTransfer & { userId: string; userStationId: string; userRole: string }): Promise<StockTransfer>;
+  receiveStockTransfer(id: string, receipt: ReceiveStockTransfer & { userId: string; userStationId: string; userRole: string }): Promise<StockTransfer>;
+  cancelStockTransfer(id: string, cancellation: { reason: string; userId: string; userStationId: string; userRole: string }): Promise<StockTransfer>;
+
+  // Stock Adjustments
+  getStockAdjustments(stationId: string, filters?: { status?: StockAdjustment['status']; startDate?: Date; endDate?: Date }): Promise<(StockAdjustment & { tankName: string; productName: string; requestedByName: string | null; reviewedByName: string | null })[]>;
+  createStockAdjustment(adjustment: CreateStockAdjustment & { userId: string; userStationId: string; userRole: string }): Promise<StockAdjustment>;
+  reviewStockAdjustment(id: string, review: ReviewStockAdjustment & { userId: string; userStationId: string; userRole: string }): Promise<StockAdjustment>;
+
   // Reports and Analytics
   getDashboardStats(stationId: string): Promise<any>;
   getSalesReport(stationId: string, startDate: Date, endDate: Date): Promise<any>;
   getFinancialReport(stationId: string, startDate: Date, endDate: Date): Promise<any>;
+  getTenderReport(stationId: string, startDate: Date, endDate: Date): Promise<{ paymentMethod: string; totalAmount: string; count: number; currencyCode: string }[]>;
   getDailyReport(stationId: string, date: Date): Promise<any>;
   getAgingReport(stationId: string, type: 'receivable' | 'payable'): Promise<any>;
 
+  // Document Numbering
+  getDocumentSequences(stationId: string): Promise<DocumentSequence[]>;
+  updateDocumentSequence(stationId: string, documentType: DocumentType, data: UpdateDocumentSequence): Promise<DocumentSequence>;
+
   // Settings
   getSettings(stationId: string): Promise<Settings | undefined>;
   createSettings(settings: InsertSettings): Promise<Settings>;
@@ -219,8 +438,10 @@ export class DatabaseStorage implements IStorage {
         capacity: tanks.capacity,
         currentStock: tanks.currentStock,
         minimumLevel: tanks.minimumLevel,
+        criticalLevel: tanks.criticalLevel,
         status: tanks.status,
         lastRefillDate: tanks.lastRefillDate,
+        atgTankNumber: tanks.atgTankNumber,
         createdAt: tanks.createdAt,
         // Product fields (nested)
         product: {
@@ -248,9 +469,26 @@ export class DatabaseStorage implements IStorage {
     return tank || undefined;
   }
 
+  // A new tank starts in the status its opening stock puts it in
   async createTank(insertTank: InsertTank): Promise<Tank> {
-    const [tank] = await this.db.insert(tanks).values(insertTank).returning();
-    return tank;
+    return await this.db.transaction(async (tx) => {
+      const [created] = await tx.insert(tanks).values(insertTank).returning();
+      const status = derivedTankStatus({ ...created, status: null }, parseFloat(created.currentStock || '0'));
+      const [tank] = await tx.update(tanks)
+        .set({ status })
+        .where(eq(tanks.id, created.id))
+        .returning();
+
+      await tx.insert(tankStatusHistory).values({
+        tankId: tank.id,
+        stationId: tank.stationId,
+        fromStatus: null,
+        toStatus: status!,
+        currentStock: tank.currentStock || '0',
+        reason: 'created',
+      });
+      return tank;
+    });
   }
 
   async updateTankStock(id: string, currentStock: number): Promise<Tank> {
@@ -261,6 +499,621 @@ export class DatabaseStorage implements IStorage {
     return tank;
   }
 
+  // New low and critical levels take effect straight away against the tank's current stock
+  async updateTankThresholds(id: string, thresholds: UpdateTankThresholds & { userId: string; userStationId: string; userRole: string }): Promise<Tank> {
+    return await this.db.transaction(async (tx) => {
+      const [tank] = await tx.select().from(tanks)
+        .where(eq(tanks.id, id))
+        .for('update');
+
+      if (!tank) {
+        throw new Error('Tank not found');
+      }
+
+      if (thresholds.userRole !== 'admin' && tank.stationId !== thresholds.userStationId) {
+        throw new Error('Access denied: Tank does not belong to your station');
+      }
+
+      const minimumLevel = thresholds.minimumLevel.toString();
+      const criticalLevel = thresholds.criticalLevel == null ? null : thresholds.criticalLevel.toString();
+      const currentStock = parseFloat(tank.currentStock || '0');
+      const status = derivedTankStatus({ ...tank, minimumLevel, criticalLevel }, currentStock);
+
+      const [updated] = await tx.update(tanks)
+        .set({ minimumLevel, criticalLevel, status })
+        .where(eq(tanks.id, id))
+        .returning();
+
+      await this.logTankStatusChange(tx, tank, status, currentStock, { reason: 'thresholds', userId: thresholds.userId });
+      return updated;
+    });
+  }
+
+  async getTankStatusHistory(tankId: string, userStationId: string, userRole: string): Promise<(TankStatusChange & { userName: string | null })[]> {
+    const tank = await this.getTank(tankId);
+    if (!tank) {
+      throw new Error('Tank not found');
+    }
+
+    if (userRole !== 'admin' && tank.stationId !== userStationId) {
+      throw new Error('Access denied: Tank does not belong to your station');
+    }
+
+    const rows = await this.db
+      .select({ change: tankStatusHistory, userName: users.fullName })
+      .from(tankStatusHistory)
+      .leftJoin(users, eq(tankStatusHistory.userId, users.id))
+      .where(eq(tankStatusHistory.tankId, tankId))
+      .orderBy(desc(tankStatusHistory.changedAt));
+
+    return rows.map(({ change, userName }) => ({ ...change, userName }));
+  }
+
+  // Records a move from the tank's current status to a new one; no-op when the status is unchanged
+  private async logTankStatusChange(
+    tx: DbTransaction,
+    tank: Tank,
+    toStatus: Tank['status'],
+    currentStock: number,
+    change: { reason: TankStatusChangeReason; referenceId?: string; userId?: string }
+  ): Promise<void> {
+    if (!toStatus || tank.status === toStatus) return;
+
+    await tx.insert(tankStatusHistory).values({
+      tankId: tank.id,
+      stationId: tank.stationId,
+      fromStatus: tank.status,
+      toStatus,
+      currentStock: currentStock.toString(),
+      reason: change.reason,
+      referenceId: change.referenceId ?? null,
+      userId: change.userId ?? null,
+    });
+  }
+
+  // The chart in use for a tank is the one saved last
+  async getTankCalibrationChart(tankId: string): Promise<TankCalibrationChart | undefined> {
+    const [chart] = await this.db.select().from(tankCalibrationCharts)
+      .where(eq(tankCalibrationCharts.tankId, tankId))
+      .orderBy(desc(tankCalibrationCharts.createdAt))
+      .limit(1);
+    return chart || undefined;
+  }
+
+  // Saving adds a new chart rather than editing the old one, so earlier dips keep the chart they were read against
+  async saveTankCalibrationChart(tankId: string, chart: SaveCalibrationChart & { userId: string; userStationId: string; userRole: string }): Promise<TankCalibrationChart> {
+    const tank = await this.getTank(tankId);
+    if (!tank) {
+      throw new Error('Tank not found');
+    }
+
+    if (chart.userRole !== 'admin' && tank.stationId !== chart.userStationId) {
+      throw new Error('Access denied: Tank does not belong to your station');
+    }
+
+    const [saved] = await this.db.insert(tankCalibrationCharts).values({
+      tankId,
+      reference: chart.reference || null,
+      points: chart.points,
+      userId: chart.userId,
+    }).returning();
+    return saved;
+  }
+
+  async getDipReadings(stationId: string, tankId?: string): Promise<(TankDipReading & { tankName: string; productName: string; userName: string | null })[]> {
+    const rows = await this.db
+      .select({ reading: tankDipReadings, tankName: tanks.name, productName: products.name, userName: users.fullName })
+      .from(tankDipReadings)
+      .innerJoin(tanks, eq(tankDipReadings.tankId, tanks.id))
+      .innerJoin(products, eq(tanks.productId, products.id))
+      .leftJoin(users, eq(tankDipReadings.userId, users.id))
+      .where(and(
+        eq(tankDipReadings.stationId, stationId),
+        tankId ? eq(tankDipReadings.tankId, tankId) : undefined
+      ))
+      .orderBy(desc(tankDipReadings.readingDate));
+
+    return rows.map(({ reading, tankName, productName, userName }) => ({ ...reading, tankName, productName, userName }));
+  }
+
+  // Converts the dip and water heights to litres through the tank's chart and records them against book stock
+  async recordDipReading(reading: RecordDipReading & { userId: string; userStationId: string; userRole: string }): Promise<TankDipReading> {
+    return await this.db.transaction(async (tx) => {
+      // Lock the tank so book stock cannot move while the reading is taken against it
+      const [tank] = await tx.select().from(tanks)
+        .where(eq(tanks.id, reading.tankId))
+        .for('update');
+
+      if (!tank) {
+        throw new Error('Tank not found');
+      }
+
+      if (reading.userRole !== 'admin' && tank.stationId !== reading.userStationId) {
+        throw new Error('Access denied: Tank does not belong to your station');
+      }
+
+      const [chart] = await tx.select().from(tankCalibrationCharts)
+        .where(eq(tankCalibrationCharts.tankId, tank.id))
+        .orderBy(desc(tankCalibrationCharts.createdAt))
+        .limit(1);
+
+      if (!chart) {
+        throw new Error(`Tank ${tank.name} has no calibration chart`);
+      }
+
+      const dipMm = toMillimetres(reading.dip, reading.dipUnit);
+      const waterMm = toMillimetres(reading.waterLevel, reading.dipUnit);
+      const totalVolume = dipToVolume(chart.points, dipMm);
+      const waterVolume = dipToVolume(chart.points, waterMm);
+
+      if (totalVolume === null || waterVolume === null) {
+        throw new Error(`Dip of ${dipMm} mm is above the top of the calibration chart for tank ${tank.name}`);
+      }
+
+      const productVolume = roundQuantity(totalVolume - waterVolume);
+      const bookStock = parseFloat(tank.currentStock || '0');
+
+      const [saved] = await tx.insert(tankDipReadings).values({
+        tankId: tank.id,
+        stationId: tank.stationId,
+        calibrationChartId: chart.id,
+        userId: reading.userId,
+        dipUnit: reading.dipUnit,
+        dipMm: dipMm.toString(),
+        waterMm: waterMm.toString(),
+        temperature: reading.temperature?.toString() ?? null,
+        totalVolume: totalVolume.toString(),
+        waterVolume: waterVolume.toString(),
+        productVolume: productVolume.toString(),
+        bookStock: bookStock.toString(),
+        varianceQuantity: roundQuantity(productVolume - bookStock).toString(),
+        notes: reading.notes || null,
+        readingDate: reading.readingDate ?? new Date(),
+      }).returning();
+      return saved;
+    });
+  }
+
+  async getMaintenanceOrders(stationId: string, tankId?: string): Promise<(TankMaintenanceOrder & { tankName: string; productName: string })[]> {
+    const rows = await this.db
+      .select({ order: tankMaintenanceOrders, tankName: tanks.name, productName: products.name })
+      .from(tankMaintenanceOrders)
+      .innerJoin(tanks, eq(tankMaintenanceOrders.tankId, tanks.id))
+      .innerJoin(products, eq(tanks.productId, products.id))
+      .where(and(
+        eq(tankMaintenanceOrders.stationId, stationId),
+        tankId ? eq(tankMaintenanceOrders.tankId, tankId) : undefined
+      ))
+      .orderBy(desc(tankMaintenanceOrders.scheduledDate));
+
+    return rows.map(({ order, tankName, productName }) => ({ ...order, tankName, productName }));
+  }
+
+  async createMaintenanceOrder(order: CreateMaintenanceOrder & { userId: string; userStationId: string; userRole: string }): Promise<TankMaintenanceOrder> {
+    const tank = await this.getTank(order.tankId);
+    if (!tank) {
+      throw new Error('Tank not found');
+    }
+
+    if (order.userRole !== 'admin' && tank.stationId !== order.userStationId) {
+      throw new Error('Access denied: Tank does not belong to your station');
+    }
+
+    const [created] = await this.db.insert(tankMaintenanceOrders).values({
+      stationId: tank.stationId,
+      tankId: tank.id,
+      maintenanceType: order.maintenanceType,
+      scheduledDate: order.scheduledDate,
+      recurrenceMonths: order.recurrenceMonths ?? null,
+      description: order.description || null,
+      vendorName: order.vendorName || null,
+      outOfService: order.outOfService,
+      createdBy: order.userId,
+    }).returning();
+    return created;
+  }
+
+  // Work begins: an out-of-service order takes the tank off sales and receipts until it is closed
+  async startMaintenanceOrder(id: string, request: { userId: string; userStationId: string; userRole: string }): Promise<TankMaintenanceOrder> {
+    return await this.db.transaction(async (tx) => {
+      const order = await this.lockMaintenanceOrder(tx, id, request);
+
+      if (order.status !== 'scheduled') {
+        throw new Error(`Work order is ${order.status.replace('_', ' ')} and cannot be started`);
+      }
+
+      if (order.outOfService) {
+        const [tank] = await tx.select().from(tanks)
+          .where(eq(tanks.id, order.tankId))
+          .for('update');
+        await tx.update(tanks)
+          .set({ status: 'maintenance' })
+          .where(eq(tanks.id, order.tankId));
+        await this.logTankStatusChange(tx, tank, 'maintenance', parseFloat(tank.currentStock || '0'), {
+          reason: 'maintenance',
+          referenceId: order.id,
+          userId: request.userId,
+        });
+      }
+
+      const [started] = await tx.update(tankMaintenanceOrders)
+        .set({ status: 'in_progress', startedBy: request.userId, startedAt: new Date() })
+        .where(eq(tankMaintenanceOrders.id, id))
+        .returning();
+      return started;
+    });
+  }
+
+  // Closes the order, posts its cost as a maintenance expense, returns the tank to service
+  // and, for a recurring order, schedules the next one counted from today
+  async completeMaintenanceOrder(id: string, completion: CompleteMaintenanceOrder & { userId: string; userStationId: string; userRole: string }): Promise<TankMaintenanceOrder> {
+    return await this.db.transaction(async (tx) => {
+      const order = await this.lockMaintenanceOrder(tx, id, completion);
+
+      if (order.status !== 'scheduled' && order.status !== 'in_progress') {
+        throw new Error(`Work order is already ${order.status}`);
+      }
+
+      const [tank] = await tx.select().from(tanks).where(eq(tanks.id, order.tankId));
+      const completedAt = new Date();
+      const vendorName = completion.vendorName || order.vendorName;
+
+      let expenseId: string | null = null;
+      if (completion.cost > 0) {
+        const [stationSettings] = await tx.select().from(settings).where(eq(settings.stationId, order.stationId));
+        const [expense] = await tx.insert(expenses).values({
+          stationId: order.stationId,
+          userId: completion.userId,
+          category: 'maintenance',
+          description: `Tank ${order.maintenanceType} - ${tank.name}`,
+          amount: roundMoney(completion.cost).toFixed(2),
+          currencyCode: stationSettings?.currencyCode || 'PKR',
+          expenseDate: completedAt,
+          receiptNumber: completion.receiptNumber || null,
+          paymentMethod: completion.paymentMethod,
+          vendorName,
+        }).returning();
+        expenseId = expense.id;
+      }
+
+      let nextOrderId: string | null = null;
+      if (order.recurrenceMonths) {
+        const nextDate = new Date(completedAt);
+        nextDate.setMonth(nextDate.getMonth() + order.recurrenceMonths);
+        const [next] = await tx.insert(tankMaintenanceOrders).values({
+          stationId: order.stationId,
+          tankId: order.tankId,
+          maintenanceType: order.maintenanceType,
+          scheduledDate: nextDate,
+          recurrenceMonths: order.recurrenceMonths,
+          description: order.description,
+          vendorName: order.vendorName,
+          outOfService: order.outOfService,
+          createdBy: completion.userId,
+        }).returning();
+        nextOrderId = next.id;
+      }
+
+      const [completed] = await tx.update(tankMaintenanceOrders)
+        .set({
+          status: 'completed',
+          startedBy: order.startedBy ?? completion.userId,
+          startedAt: order.startedAt ?? completedAt,
+          completedBy: completion.userId,
+          completedAt,
+          completionNotes: completion.completionNotes,
+          cost: roundMoney(completion.cost).toFixed(2),
+          vendorName,
+          expenseId,
+          nextOrderId,
+        })
+        .where(eq(tankMaintenanceOrders.id, id))
+        .returning();
+
+      await this.returnTankToService(tx, order.tankId, { orderId: order.id, userId: completion.userId });
+      return completed;
+    });
+  }
+
+  async cancelMaintenanceOrder(id: string, cancellation: { reason: string; userId: string; userStationId: string; userRole: string }): Promise<TankMaintenanceOrder> {
+    return await this.db.transaction(async (tx) => {
+      const order = await this.lockMaintenanceOrder(tx, id, cancellation);
+
+      if (order.status !== 'scheduled' && order.status !== 'in_progress') {
+        throw new Error(`Work order is already ${order.status}`);
+      }
+
+      const [cancelled] = await tx.update(tankMaintenanceOrders)
+        .set({ status: 'cancelled', cancelReason: cancellation.reason })
+        .where(eq(tankMaintenanceOrders.id, id))
+        .returning();
+
+      await this.returnTankToService(tx, order.tankId, { orderId: order.id, userId: cancellation.userId });
+      return cancelled;
+    });
+  }
+
+  private async lockMaintenanceOrder(tx: DbTransaction, id: string, request: { userStationId: string; userRole: string }): Promise<TankMaintenanceOrder> {
+    const [order] = await tx.select().from(tankMaintenanceOrders)
+      .where(eq(tankMaintenanceOrders.id, id))
+      .for('update');
+
+    if (!order) {
+      throw new Error('Work order not found');
+    }
+
+    if (request.userRole !== 'admin' && order.stationId !== request.userStationId) {
+      throw new Error('Access denied: Work order does not belong to your station');
+    }
+
+    return order;
+  }
+
+  // The tank stays out of service while any other out-of-service order on it is still in progress.
+  // Once back, it takes whatever status its stock level now gives it.
+  private async returnTankToService(tx: DbTransaction, tankId: string, closedBy: { orderId: string; userId: string }): Promise<void> {
+    const [open] = await tx.select({ id: tankMaintenanceOrders.id }).from(tankMaintenanceOrders)
+      .where(and(
+        eq(tankMaintenanceOrders.tankId, tankId),
+        eq(tankMaintenanceOrders.status, 'in_progress'),
+        eq(tankMaintenanceOrders.outOfService, true)
+      ))
+      .limit(1);
+    if (open) return;
+
+    const [tank] = await tx.select().from(tanks)
+      .where(eq(tanks.id, tankId))
+      .for('update');
+    if (tank.status !== 'maintenance') return;
+
+    const currentStock = parseFloat(tank.currentStock || '0');
+    const status = derivedTankStatus({ ...tank, status: null }, currentStock);
+    await tx.update(tanks)
+      .set({ status })
+      .where(eq(tanks.id, tankId));
+    await this.logTankStatusChange(tx, tank, status, currentStock, {
+      reason: 'maintenance',
+      referenceId: closedBy.orderId,
+      userId: closedBy.userId,
+    });
+  }
+
+  async getAtgConsole(stationId: string): Promise<AtgConsole | undefined> {
+    const [atgConsole] = await this.db.select().from(atgConsoles).where(eq(atgConsoles.stationId, stationId));
+    return atgConsole || undefined;
+  }
+
+  async getActiveAtgConsoles(): Promise<AtgConsole[]> {
+    return await this.db.select().from(atgConsoles).where(eq(atgConsoles.isActive, true));
+  }
+
+  // Saves the console settings and the console tank number of each listed tank. Saving always
+  // moves updatedAt on, which makes the poller connect afresh with the new settings.
+  async saveAtgConsole(stationId: string, config: SaveAtgConsole): Promise<AtgConsole> {
+    return await this.db.transaction(async (tx) => {
+      const values = {
+        adapterType: config.adapterType,
+        host: config.host || null,
+        port: config.port ?? null,
+        pollIntervalSeconds: config.pollIntervalSeconds,
+        deliveryThreshold: config.deliveryThreshold.toString(),
+        isActive: config.isActive,
+        updatedAt: new Date(),
+      };
+      const [atgConsole] = await tx.insert(atgConsoles)
+        .values({ stationId, ...values })
+        .onConflictDoUpdate({ target: atgConsoles.stationId, set: values })
+        .returning();
+
+      for (const tank of config.tanks) {
+        const [updated] = await tx.update(tanks)
+          .set({ atgTankNumber: tank.atgTankNumber })
+          .where(and(eq(tanks.id, tank.tankId), eq(tanks.stationId, stationId)))
+          .returning({ id: tanks.id });
+        if (!updated) {
+          throw new Error('Tank not found');
+        }
+      }
+
+      // Tanks left out of the request keep their numbers, so check the station as a whole
+      const stationTanks = await tx.select({ name: tanks.name, atgTankNumber: tanks.atgTankNumber }).from(tanks)
+        .where(eq(tanks.stationId, stationId));
+      for (const tank of stationTanks) {
+        const clash = stationTanks.find((other) => other !== tank && tank.atgTankNumber !== null && other.atgTankNumber === tank.atgTankNumber);
+        if (clash) {
+          throw new Error(`Console tank ${tank.atgTankNumber} is given to both ${tank.name} and ${clash.name}`);
+        }
+      }
+
+      return atgConsole;
+    });
+  }
+
+  async markAtgConsolePolled(id: string, error: string | null): Promise<void> {
+    await this.db.update(atgConsoles)
+      .set({ lastPolledAt: new Date(), lastError: error })
+      .where(eq(atgConsoles.id, id));
+  }
+
+  // Stores a poll's readings against the station's tanks by console tank number and follows each
+  // tank's level for deliveries. Readings are dated when the server received them, since the
+  // console's clock may be in another timezone; a reading older than the tank's last is skipped.
+  async recordAtgInventory(consoleId: string, report: InventoryReport, receivedAt: Date): Promise<{ readings: AtgReading[]; detected: AtgDelivery[] }> {
+    return await this.db.transaction(async (tx) => {
+      const [atgConsole] = await tx.select().from(atgConsoles)
+        .where(eq(atgConsoles.id, consoleId))
+        .for('update');
+
+      if (!atgConsole) {
+        throw new Error('ATG console not found');
+      }
+
+      const stationTanks = await tx.select().from(tanks).where(eq(tanks.stationId, atgConsole.stationId));
+      const threshold = parseFloat(atgConsole.deliveryThreshold);
+      const readings: AtgReading[] = [];
+      const detected: AtgDelivery[] = [];
+
+      for (const probe of report.tanks) {
+        const tank = stationTanks.find((candidate) => candidate.atgTankNumber === probe.tankNumber);
+        if (!tank) continue;
+
+        const [previous] = await tx.select().from(atgReadings)
+          .where(eq(atgReadings.tankId, tank.id))
+          .orderBy(desc(atgReadings.readingDate))
+          .limit(1);
+        if (previous && previous.readingDate >= receivedAt) continue;
+
+        const [reading] = await tx.insert(atgReadings).values({
+          consoleId,
+          stationId: atgConsole.stationId,
+          tankId: tank.id,
+          productVolume: probe.volume.toString(),
+          tcVolume: probe.tcVolume?.toString() ?? null,
+          ullage: probe.ullage?.toString() ?? null,
+          productHeightMm: probe.heightMm?.toString() ?? null,
+          waterHeightMm: probe.waterMm?.toString() ?? null,
+          waterVolume: probe.waterVolume?.toString() ?? null,
+          temperature: probe.temperature?.toString() ?? null,
+          deliveryInProgress: probe.deliveryInProgress,
+          readingDate: receivedAt,
+        }).returning();
+        readings.push(reading);
+
+        if (!previous) continue;
+
+        // A detected delivery is still open when the last reading extended it
+        const [open] = await tx.select().from(atgDeliveries)
+          .where(and(
+            eq(atgDeliveries.tankId, tank.id),
+            eq(atgDeliveries.source, 'detected'),
+            eq(atgDeliveries.endedAt, previous.readingDate)
+          ))
+          .limit(1);
+
+        const change = classifyLevelChange(parseFloat(previous.productVolume), probe.volume, threshold, !!open);
+        if (change === 'delivery_continued') {
+          const [extended] = await tx.update(atgDeliveries)
+            .set({
+              endedAt: receivedAt,
+              endVolume: probe.volume.toString(),
+              quantity: roundQuantity(probe.volume - parseFloat(open.startVolume)).toString(),
+              endTemperature: probe.temperature?.toString() ?? null,
+            })
+            .where(eq(atgDeliveries.id, open.id))
+            .returning();
+          detected.push(extended);
+        } else if (change === 'delivery_started') {
+          const [started] = await tx.insert(atgDeliveries).values({
+            consoleId,
+            stationId: atgConsole.stationId,
+            tankId: tank.id,
+            source: 'detected',
+            startedAt: previous.readingDate,
+            endedAt: receivedAt,
+            startVolume: previous.productVolume,
+            endVolume: probe.volume.toString(),
+            quantity: roundQuantity(probe.volume - parseFloat(previous.productVolume)).toString(),
+            startTemperature: previous.temperature,
+            endTemperature: probe.temperature?.toString() ?? null,
+          }).returning();
+          detected.push(started);
+        }
+      }
+
+      return { readings, detected };
+    });
+  }
+
+  // Deliveries from the console's own log. The console measures a drop more closely than the
+  // level jumps between polls, so its record replaces any detected delivery over the same time.
+  async recordAtgDeliveries(consoleId: string, report: DeliveryReport): Promise<AtgDelivery[]> {
+    return await this.db.transaction(async (tx) => {
+      const [atgConsole] = await tx.select().from(atgConsoles).where(eq(atgConsoles.id, consoleId));
+      if (!atgConsole) {
+        throw new Error('ATG console not found');
+      }
+
+      const stationTanks = await tx.select().from(tanks).where(eq(tanks.stationId, atgConsole.stationId));
+      const recorded: AtgDelivery[] = [];
+
+      for (const delivery of report.deliveries) {
+        const tank = stationTanks.find((candidate) => candidate.atgTankNumber === delivery.tankNumber);
+        if (!tank) continue;
+
+        const tcQuantity = delivery.startTcVolume !== null && delivery.endTcVolume !== null
+          ? roundQuantity(delivery.endTcVolume - delivery.startTcVolume).toString()
+          : null;
+        const [inserted] = await tx.insert(atgDeliveries).values({
+          consoleId,
+          stationId: atgConsole.stationId,
+          tankId: tank.id,
+          source: 'console',
+          startedAt: delivery.startedAt,
+          endedAt: delivery.endedAt,
+          startVolume: delivery.startVolume.toString(),
+          endVolume: delivery.endVolume.toString(),
+          quantity: roundQuantity(delivery.endVolume - delivery.startVolume).toString(),
+          tcQuantity,
+          startTemperature: delivery.startTemperature?.toString() ?? null,
+          endTemperature: delivery.endTemperature?.toString() ?? null,
+        })
+          .onConflictDoNothing()
+          .returning();
+        if (!inserted) continue;
+
+        await tx.delete(atgDeliveries).where(and(
+          eq(atgDeliveries.tankId, tank.id),
+          eq(atgDeliveries.source, 'detected'),
+          lte(atgDeliveries.startedAt, delivery.endedAt),
+          gte(atgDeliveries.endedAt, delivery.startedAt)
+        ));
+        recorded.push(inserted);
+      }
+
+      return recorded;
+    });
+  }
+
+  // The newest probe reading of each tank at the station
+  async getLatestAtgReadings(stationId: string): Promise<AtgReading[]> {
+    return await this.db
+      .selectDistinctOn([atgReadings.tankId])
+      .from(atgReadings)
+      .where(eq(atgReadings.stationId, stationId))
+      .orderBy(atgReadings.tankId, desc(atgReadings.readingDate));
+  }
+
+  async getAtgReadings(tankId: string, since: Date, userStationId: string, userRole: string): Promise<AtgReading[]> {
+    const tank = await this.getTank(tankId);
+    if (!tank) {
+      throw new Error('Tank not found');
+    }
+
+    if (userRole !== 'admin' && tank.stationId !== userStationId) {
+      throw new Error('Access denied: Tank does not belong to your station');
+    }
+
+    return await this.db.select().from(atgReadings)
+      .where(and(eq(atgReadings.tankId, tankId), gte(atgReadings.readingDate, since)))
+      .orderBy(atgReadings.readingDate);
+  }
+
+  async getAtgDeliveries(stationId: string, filters: { startDate?: Date; endDate?: Date } = {}): Promise<(AtgDelivery & { tankName: string; productName: string })[]> {
+    const rows = await this.db
+      .select({ delivery: atgDeliveries, tankName: tanks.name, productName: products.name })
+      .from(atgDeliveries)
+      .innerJoin(tanks, eq(atgDeliveries.tankId, tanks.id))
+      .innerJoin(products, eq(tanks.productId, products.id))
+      .where(and(
+        eq(atgDeliveries.stationId, stationId),
+        filters.startDate ? gte(atgDeliveries.startedAt, filters.startDate) : undefined,
+        filters.endDate ? lte(atgDeliveries.startedAt, filters.endDate) : undefined
+      ))
+      .orderBy(desc(atgDeliveries.startedAt));
+
+    return rows.map(({ delivery, tankName, productName }) => ({ ...delivery, tankName, productName }));
+  }
+
   async getCustomers(): Promise<Customer[]> {
     return await this.db.select().from(customers).where(eq(customers.isActive, true));
   }
@@ -297,6 +1150,75 @@ export class DatabaseStorage implements IStorage {
     await this.db.delete(customers).where(eq(customers.id, id));
   }
 
+  async getCustomerPriceAgreements(customerId: string): Promise<CustomerPriceAgreement[]> {
+    return await this.db.select().from(customerPriceAgreements)
+      .where(eq(customerPriceAgreements.customerId, customerId))
+      .orderBy(desc(customerPriceAgreements.validFrom));
+  }
+
+  async getCustomerPriceAgreement(id: string): Promise<CustomerPriceAgreement | undefined> {
+    const [agreement] = await this.db.select().from(customerPriceAgreements).where(eq(customerPriceAgreements.id, id));
+    return agreement || undefined;
+  }
+
+  async createCustomerPriceAgreement(agreement: InsertCustomerPriceAgreement): Promise<CustomerPriceAgreement> {
+    const [created] = await this.db.insert(customerPriceAgreements).values(agreement).returning();
+    return created;
+  }
+
+  async updateCustomerPriceAgreement(id: string, agreement: Partial<InsertCustomerPriceAgreement>): Promise<CustomerPriceAgreement> {
+    const [updated] = await this.db.update(customerPriceAgreements)
+      .set(agreement)
+      .where(eq(customerPriceAgreements.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Price agreement not found");
+    }
+    return updated;
+  }
+
+  async deleteCustomerPriceAgreement(id: string): Promise<void> {
+    await this.db.delete(customerPriceAgreements).where(eq(customerPriceAgreements.id, id));
+  }
+
+  // Promotions without a station apply everywhere, so they are included when filtering by station
+  async getPromotions(stationId?: string): Promise<Promotion[]> {
+    const query = this.db.select().from(promotions);
+    if (stationId) {
+      return await query
+        .where(sql`(${promotions.stationId} IS NULL OR ${promotions.stationId} = ${stationId})`)
+        .orderBy(desc(promotions.validFrom));
+    }
+    return await query.orderBy(desc(promotions.validFrom));
+  }
+
+  async getPromotion(id: string): Promise<Promotion | undefined> {
+    const [promotion] = await this.db.select().from(promotions).where(eq(promotions.id, id));
+    return promotion || undefined;
+  }
+
+  async createPromotion(promotion: InsertPromotion): Promise<Promotion> {
+    const [created] = await this.db.insert(promotions).values(promotion).returning();
+    return created;
+  }
+
+  async updatePromotion(id: string, promotion: Partial<InsertPromotion>): Promise<Promotion> {
+    const [updated] = await this.db.update(promotions)
+      .set(promotion)
+      .where(eq(promotions.id, id))
+      .returning();
+
+    if (!updated) {
+      throw new Error("Promotion not found");
+    }
+    return updated;
+  }
+
+  async deletePromotion(id: string): Promise<void> {
+    await this.db.delete(promotions).where(eq(promotions.id, id));
+  }
+
   async updateCustomerOutstanding(customerId: string, additionalAmount: number): Promise<void> {
     try {
       const result = await this.db.update(customers)
@@ -417,64 +1339,517 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async updateSalesTransaction(id: string, transaction: Partial<InsertSalesTransaction>): Promise<SalesTransaction> {
-    const result = await this.db
-      .update(salesTransactions)
-      .set(transaction)
-      .where(eq(salesTransactions.id, id))
-      .returning();
+  async createSale(sale: Omit<PostSale, 'managerApproval'> & { stationId: string; userId: string; userRole: string; approvedBy?: string }): Promise<{ transaction: SalesTransaction; items: SalesTransactionItem[]; tenders: SaleTender[]; changeDue: number }> {
+    return await this.db.transaction(async (tx) => {
+      const [stationSettings] = await tx.select().from(settings).where(eq(settings.stationId, sale.stationId));
 
-    if (result.length === 0) {
-      throw new Error("Transaction not found");
-    }
+      if (sale.heldCartId) {
+        await tx.delete(heldCarts).where(and(eq(heldCarts.id, sale.heldCartId), eq(heldCarts.userId, sale.userId)));
+      }
 
-    return result[0];
-  }
+      const [customer] = await tx.select().from(customers).where(eq(customers.id, sale.customerId));
+      if (!customer) {
+        throw new Error(`Customer ${sale.customerId} not found`);
+      }
 
-  async deleteSalesTransaction(id: string): Promise<void> {
-    await this.db.transaction(async (tx) => {
-      // Delete related transaction items first
-      await tx.delete(salesTransactionItems).where(eq(salesTransactionItems.transactionId, id));
+      // Fleet and credit customers may have negotiated rates in force today
+      const agreements = AGREEMENT_CUSTOMER_TYPES.includes(customer.type)
+        ? await tx.select().from(customerPriceAgreements).where(eq(customerPriceAgreements.customerId, customer.id))
+        : [];
+      const pricedAt = new Date();
+
+      const stationPromotions = await tx.select().from(promotions).where(and(
+        eq(promotions.isActive, true),
+        sql`(${promotions.stationId} IS NULL OR ${promotions.stationId} = ${sale.stationId})`
+      ));
+      const approvalPercent = parseFloat(stationSettings?.manualDiscountApprovalPercent ?? '5');
+      const isManager = ['admin', 'manager'].includes(sale.userRole) || !!sale.approvedBy;
+      let approvalUsed = false;
+      // Litres already drawn from each tank by earlier lines of this sale
+      const plannedDraws = new Map<string, number>();
+
+      // Price every line from the product list, never from the client
+      const pricedItems = [];
+      for (const item of sale.items) {
+        const [product] = await tx.select().from(products).where(eq(products.id, item.productId));
+        if (!product || !product.isActive) {
+          throw new Error(`Product ${item.productId} not found`);
+        }
 
-      // Delete the transaction
-      await tx.delete(salesTransactions).where(eq(salesTransactions.id, id));
-    });
-  }
+        const listPrice = parseFloat(product.currentPrice);
+        const agreement = findPriceAgreement(agreements, product.id, pricedAt);
+        const unitPrice = agreedUnitPrice(listPrice, agreement);
 
-  async deleteSalesTransactionSecure(id: string, userStationId: string, userRole: string): Promise<void> {
-    await this.db.transaction(async (tx) => {
-      // First verify the transaction belongs to the user's station (unless admin)
-      if (userRole !== 'admin') {
-        const [transaction] = await tx.select({ stationId: salesTransactions.stationId })
-          .from(salesTransactions)
-          .where(eq(salesTransactions.id, id));
+        // Amount lines keep the client's rounded litres only if they match the
+        // current price to within the 3-decimal quantity precision
+        if (item.requestedAmount !== undefined
+          && Math.abs(item.requestedAmount / unitPrice - item.quantity) > 0.001 + 1e-9) {
+          throw new Error(`Quantity for ${product.name} does not match the requested amount at the current price`);
+        }
 
-        if (!transaction) {
-          throw new Error('Sales transaction not found');
+        const grossPrice = item.requestedAmount !== undefined
+          ? roundMoney(item.requestedAmount)
+          : roundMoney(unitPrice * item.quantity);
+
+        // Contract-priced lines are already discounted, so promotions only apply at list price
+        const promotion = agreement
+          ? undefined
+          : findBestPromotion(stationPromotions, product, unitPrice, item.quantity, pricedAt);
+        const promotionDiscount = promotion?.discount ?? 0;
+        const manualDiscount = manualDiscountAmount(item.manualDiscount, roundMoney(grossPrice - promotionDiscount));
+        if (manualDiscount > 0 && grossPrice > 0 && manualDiscount / grossPrice * 100 > approvalPercent + 1e-9) {
+          if (!isManager) {
+            throw new Error(`Manager approval required for a discount over ${approvalPercent}% on ${product.name}`);
+          }
+          approvalUsed = true;
         }
+        const discountAmount = roundMoney(promotionDiscount + manualDiscount);
 
-        if (transaction.stationId !== userStationId) {
-          throw new Error('Access denied: Transaction does not belong to your station');
+        const dispensing = await this.resolveSaleTank(tx, sale.stationId, product, item, plannedDraws);
+        if (dispensing.tankId) {
+          plannedDraws.set(dispensing.tankId, (plannedDraws.get(dispensing.tankId) ?? 0) + item.quantity);
         }
+
+        pricedItems.push({
+          productId: product.id,
+          ...dispensing,
+          quantity: item.quantity,
+          unitPrice,
+          listPrice,
+          priceAgreementId: agreement?.id ?? null,
+          discountAmount,
+          promotionId: promotion?.promotion.id ?? null,
+          manualDiscount,
+          totalPrice: roundMoney(grossPrice - discountAmount),
+          requestedAmount: item.requestedAmount,
+        });
       }
 
-      // Delete related transaction items first
-      await tx.delete(salesTransactionItems).where(eq(salesTransactionItems.transactionId, id));
+      const subtotal = roundMoney(pricedItems.reduce((total, item) => total + item.totalPrice, 0));
+      const discountAmount = roundMoney(pricedItems.reduce((total, item) => total + item.discountAmount, 0));
+      const taxRate = stationSettings?.taxEnabled ? parseFloat(stationSettings.taxRate || '0') : 0;
+      const taxAmount = roundMoney(subtotal * taxRate / 100);
+      const totalAmount = roundMoney(subtotal + taxAmount);
 
-      // Delete the transaction
-      const result = await tx.delete(salesTransactions).where(eq(salesTransactions.id, id)).returning({ id: salesTransactions.id });
+      // A bare paymentMethod is a single tender for the exact total
+      const tenders = allocateTenders(
+        sale.tenders ?? [{ paymentMethod: sale.paymentMethod!, amount: totalAmount }],
+        totalAmount
+      );
+      const creditAmount = roundMoney(tenders
+        .filter((tender) => tender.paymentMethod === 'credit')
+        .reduce((total, tender) => total + tender.applied, 0));
+      const tenderMethods = new Set(tenders.map((tender) => tender.paymentMethod));
+      const paymentMethod = tenderMethods.size === 1 ? tenders[0].paymentMethod : 'split';
+
+      const invoiceNumber = await this.nextDocumentNumber(tx, sale.stationId, 'sale');
+
+      const [transaction] = await tx.insert(salesTransactions).values({
+        invoiceNumber,
+        stationId: sale.stationId,
+        customerId: sale.customerId,
+        userId: sale.userId,
+        paymentMethod,
+        currencyCode: sale.currencyCode || stationSettings?.currencyCode || 'PKR',
+        dueDate: sale.dueDate,
+        notes: sale.notes,
+        subtotal: subtotal.toFixed(2),
+        discountAmount: discountAmount.toFixed(2),
+        taxAmount: taxAmount.toFixed(2),
+        totalAmount: totalAmount.toFixed(2),
+        paidAmount: roundMoney(totalAmount - creditAmount).toFixed(2),
+        outstandingAmount: creditAmount.toFixed(2),
+        verificationToken: generateReceiptToken(),
+      }).returning();
+
+      const savedTenders = await tx.insert(saleTenders).values(tenders.map((tender) => ({
+        transactionId: transaction.id,
+        paymentMethod: tender.paymentMethod,
+        amount: tender.applied.toFixed(2),
+        tenderedAmount: tender.amount.toFixed(2),
+        changeAmount: tender.change.toFixed(2),
+        reference: tender.reference,
+      }))).returning();
+
+      const items: SalesTransactionItem[] = [];
+      for (const item of pricedItems) {
+        // Never let a sale take a tank below zero without a manager deciding to
+        let stockOverrideBy: string | null = null;
+        if (item.tankId) {
+          const [tank] = await tx.select().from(tanks).where(eq(tanks.id, item.tankId)).for('update');
+          assertTankInService(tank);
+          const available = parseFloat(tank.currentStock || '0');
+          if (item.quantity > available + 1e-9) {
+            if (!sale.allowNegativeStock || !isManager) {
+              throw new Error(`Manager approval required: insufficient stock in ${tank.name} (${available.toFixed(2)} L available, ${item.quantity.toFixed(3)} L needed)`);
+            }
+            stockOverrideBy = sale.approvedBy ?? sale.userId;
+          }
+        }
 
-      if (result.length === 0) {
-        throw new Error('Sales transaction not found');
+        const [createdItem] = await tx.insert(salesTransactionItems).values({
+          transactionId: transaction.id,
+          productId: item.productId,
+          tankId: item.tankId,
+          quantity: item.quantity.toString(),
+          unitPrice: item.unitPrice.toFixed(2),
+          totalPrice: item.totalPrice.toFixed(2),
+          listPrice: item.listPrice.toFixed(2),
+          priceAgreementId: item.priceAgreementId,
+          requestedAmount: item.requestedAmount?.toFixed(2),
+          discountAmount: item.discountAmount.toFixed(2),
+          promotionId: item.promotionId,
+          discountApprovedBy: approvalUsed && item.manualDiscount > 0
+            ? sale.approvedBy ?? sale.userId
+            : null,
+          pumpId: item.pumpId,
+          stockOverrideBy,
+          noTankLink: item.noTankLink,
+        }).returning();
+        items.push(createdItem);
+
+        if (item.tankId) {
+          const movement = await this.applyStockMovement(tx, {
+            tankId: item.tankId,
+            stationId: sale.stationId,
+            userId: sale.userId,
+            movementType: 'out',
+            quantity: item.quantity.toString(),
+            referenceType: 'sale',
+            referenceId: transaction.id,
+            notes: `Sale - Invoice ${transaction.invoiceNumber}`,
+          }, { allowNegative: !!stockOverrideBy });
+
+          // Cost of goods sold, from the stock the sale drew down
+          const [costedItem] = await tx.update(salesTransactionItems)
+            .set({ unitCost: movement.unitCost, costOfGoods: movement.totalCost })
+            .where(eq(salesTransactionItems.id, createdItem.id))
+            .returning();
+          items[items.length - 1] = costedItem;
+        }
       }
+
+      if (creditAmount > 0) {
+        const result = await tx.update(customers)
+          .set({
+            outstandingAmount: sql`${customers.outstandingAmount} + ${creditAmount}`
+          })
+          .where(eq(customers.id, sale.customerId))
+          .returning({ id: customers.id });
+
+        if (result.length === 0) {
+          throw new Error(`Customer ${sale.customerId} not found`);
+        }
+      }
+
+      const changeDue = roundMoney(tenders.reduce((total, tender) => total + tender.change, 0));
+      return { transaction, items, tenders: savedTenders, changeDue };
     });
   }
 
-  async deleteSalesTransactionItems(transactionId: string): Promise<void> {
-    await this.db
-      .delete(salesTransactionItems)
-      .where(eq(salesTransactionItems.transactionId, transactionId));
-  }
+  // Works out which tank a sale line draws from: an explicit tank, else the pump's linked
+  // tank, else the station tank holding the product with enough stock (fullest first).
+  // Fuel with no tank at all is flagged rather than rejected so the forecourt keeps selling.
+  private async resolveSaleTank(
+    tx: DbTransaction,
+    stationId: string,
+    product: Product,
+    item: PostSale['items'][number],
+    plannedDraws: Map<string, number>
+  ): Promise<{ tankId: string | null; pumpId: string | null; noTankLink: boolean }> {
+    let pumpId: string | null = null;
+    let tankId = item.tankId || null;
+
+    if (item.pumpId) {
+      const [pump] = await tx.select().from(pumps).where(eq(pumps.id, item.pumpId));
+      if (!pump || pump.stationId !== stationId) {
+        throw new Error(`Pump ${item.pumpId} not found at this station`);
+      }
+      if (pump.productId !== product.id) {
+        throw new Error(`Pump ${pump.name} does not dispense ${product.name}`);
+      }
+      pumpId = pump.id;
+      tankId = tankId ?? pump.tankId;
+    }
+
+    if (tankId) {
+      const [tank] = await tx.select().from(tanks).where(eq(tanks.id, tankId));
+      if (!tank || tank.stationId !== stationId || tank.productId !== product.id) {
+        throw new Error(`Tank ${tankId} does not hold this product at this station`);
+      }
+      assertTankInService(tank);
+      return { tankId, pumpId, noTankLink: false };
+    }
+
+    const stationTanks = await tx.select().from(tanks)
+      .where(and(eq(tanks.stationId, stationId), eq(tanks.productId, product.id)))
+      .orderBy(desc(tanks.currentStock));
+    if (stationTanks.length === 0) {
+      return { tankId: null, pumpId, noTankLink: product.category === 'fuel' };
+    }
+
+    const productTanks = stationTanks.filter((tank) => tank.status !== 'maintenance');
+    if (productTanks.length === 0) {
+      throw new Error(`Every tank holding ${product.name} is out of service for maintenance`);
+    }
+
+    const remaining = (tank: Tank) => parseFloat(tank.currentStock || '0') - (plannedDraws.get(tank.id) ?? 0);
+    const tank = productTanks.find((candidate) => remaining(candidate) >= item.quantity)
+      ?? productTanks.reduce((best, candidate) => remaining(candidate) > remaining(best) ? candidate : best);
+    return { tankId: tank.id, pumpId, noTankLink: false };
+  }
+
+  async getSaleTenders(transactionId: string): Promise<SaleTender[]> {
+    return await this.db.select().from(saleTenders).where(eq(saleTenders.transactionId, transactionId));
+  }
+
+  async createCreditNote(transactionId: string, request: CreateCreditNote & { userId: string; userStationId: string; userRole: string }): Promise<{ creditNote: CreditNote; items: CreditNoteItem[] }> {
+    return await this.db.transaction(async (tx) => {
+      // Lock the sale so concurrent voids/returns cannot over-credit it
+      const [sale] = await tx.select().from(salesTransactions)
+        .where(eq(salesTransactions.id, transactionId))
+        .for('update');
+
+      if (!sale) {
+        throw new Error('Sales transaction not found');
+      }
+
+      if (request.userRole !== 'admin' && sale.stationId !== request.userStationId) {
+        throw new Error('Access denied: Transaction does not belong to your station');
+      }
+
+      if (sale.status === 'voided' || sale.status === 'returned') {
+        throw new Error(`Sale ${sale.invoiceNumber} has already been fully credited`);
+      }
+
+      const saleItems = await tx.select().from(salesTransactionItems)
+        .where(eq(salesTransactionItems.transactionId, transactionId));
+
+      const remainingFor = (item: SalesTransactionItem) =>
+        parseFloat(item.quantity) - parseFloat(item.returnedQuantity || '0');
+
+      // A void credits everything still outstanding on the sale
+      const isVoid = !request.items;
+      const requestedLines = request.items ?? saleItems
+        .filter((item) => remainingFor(item) > 0)
+        .map((item) => ({ transactionItemId: item.id, quantity: remainingFor(item) }));
+
+      const creditedByItem = new Map<string, number>();
+      const creditLines = requestedLines.map((line) => {
+        const saleItem = saleItems.find((item) => item.id === line.transactionItemId);
+        if (!saleItem) {
+          throw new Error(`Item ${line.transactionItemId} is not part of this sale`);
+        }
+        const credited = (creditedByItem.get(saleItem.id) || 0) + line.quantity;
+        creditedByItem.set(saleItem.id, credited);
+        if (credited > remainingFor(saleItem) + 0.0005) {
+          throw new Error(`Cannot return more than the ${remainingFor(saleItem)} remaining on this line`);
+        }
+
+        // Credit the line's share of what was charged, which also covers
+        // sell-by-amount lines whose total is not exactly price x litres
+        const unitPrice = parseFloat(saleItem.unitPrice);
+        return {
+          saleItem,
+          quantity: line.quantity,
+          unitPrice,
+          totalPrice: roundMoney(parseFloat(saleItem.totalPrice) * line.quantity / parseFloat(saleItem.quantity)),
+        };
+      });
+
+      if (creditLines.length === 0) {
+        throw new Error('Nothing left to credit on this sale');
+      }
+
+      // Credit tax at the rate actually charged on the original invoice
+      const saleSubtotal = parseFloat(sale.subtotal);
+      const saleTax = parseFloat(sale.taxAmount || '0');
+      const subtotal = roundMoney(creditLines.reduce((total, line) => total + line.totalPrice, 0));
+      const taxAmount = saleSubtotal > 0 ? roundMoney(saleTax * subtotal / saleSubtotal) : 0;
+      const totalAmount = roundMoney(subtotal + taxAmount);
+
+      const creditNoteNumber = await this.nextDocumentNumber(tx, sale.stationId, 'credit_note');
+
+      const [creditNote] = await tx.insert(creditNotes).values({
+        creditNoteNumber,
+        stationId: sale.stationId,
+        transactionId: sale.id,
+        customerId: sale.customerId,
+        userId: request.userId,
+        type: isVoid ? 'void' : 'return',
+        reason: request.reason,
+        currencyCode: sale.currencyCode,
+        subtotal: subtotal.toFixed(2),
+        taxAmount: taxAmount.toFixed(2),
+        totalAmount: totalAmount.toFixed(2),
+      }).returning();
+
+      const items: CreditNoteItem[] = [];
+      for (const line of creditLines) {
+        const [item] = await tx.insert(creditNoteItems).values({
+          creditNoteId: creditNote.id,
+          transactionItemId: line.saleItem.id,
+          productId: line.saleItem.productId,
+          tankId: line.saleItem.tankId,
+          quantity: line.quantity.toString(),
+          unitPrice: line.unitPrice.toFixed(2),
+          totalPrice: line.totalPrice.toFixed(2),
+        }).returning();
+        items.push(item);
+
+        await tx.update(salesTransactionItems)
+          .set({ returnedQuantity: sql`${salesTransactionItems.returnedQuantity} + ${line.quantity}` })
+          .where(eq(salesTransactionItems.id, line.saleItem.id));
+
+        if (line.saleItem.tankId) {
+          // Nothing goes back into a tank that is out of service
+          const [tank] = await tx.select().from(tanks).where(eq(tanks.id, line.saleItem.tankId)).for('update');
+          assertTankInService(tank);
+
+          await this.applyStockMovement(tx, {
+            tankId: line.saleItem.tankId,
+            stationId: sale.stationId,
+            userId: request.userId,
+            movementType: 'return',
+            quantity: line.quantity.toString(),
+            referenceType: 'credit_note',
+            referenceId: creditNote.id,
+            notes: `Credit Note ${creditNoteNumber} - Invoice ${sale.invoiceNumber}`,
+            unitCost: line.saleItem.unitCost, // Returned stock goes back at what it cost when sold
+          });
+        }
+      }
+
+      // Credit first clears what the customer still owes on this invoice
+      const saleOutstanding = parseFloat(sale.outstandingAmount || '0');
+      const outstandingReduction = Math.min(saleOutstanding, totalAmount);
+      if (outstandingReduction > 0) {
+        await tx.update(customers)
+          .set({ outstandingAmount: sql`${customers.outstandingAmount} - ${outstandingReduction}` })
+          .where(eq(customers.id, sale.customerId));
+      }
+
+      const fullyCredited = saleItems.every((item) =>
+        remainingFor(item) - (creditedByItem.get(item.id) || 0) <= 0.0005);
+
+      await tx.update(salesTransactions)
+        .set({
+          outstandingAmount: roundMoney(saleOutstanding - outstandingReduction).toFixed(2),
+          status: isVoid ? 'voided' : fullyCredited ? 'returned' : 'partially_returned',
+          ...(isVoid && {
+            voidReason: request.reason,
+            voidedAt: new Date(),
+            voidedBy: request.userId,
+            verificationRevokedAt: new Date(),
+          }),
+        })
+        .where(eq(salesTransactions.id, sale.id));
+
+      return { creditNote, items };
+    });
+  }
+
+  async getCreditNotesForSale(transactionId: string): Promise<(CreditNote & { items: CreditNoteItem[] })[]> {
+    const notes = await this.db.select().from(creditNotes)
+      .where(eq(creditNotes.transactionId, transactionId))
+      .orderBy(desc(creditNotes.createdAt));
+
+    return await Promise.all(notes.map(async (note) => ({
+      ...note,
+      items: await this.db.select().from(creditNoteItems).where(eq(creditNoteItems.creditNoteId, note.id)),
+    })));
+  }
+
+  // Sales posted before receipt verification existed get a token the first time they are viewed
+  async ensureVerificationToken(transactionId: string): Promise<string | null> {
+    const [updated] = await this.db.update(salesTransactions)
+      .set({ verificationToken: generateReceiptToken() })
+      .where(and(
+        eq(salesTransactions.id, transactionId),
+        sql`${salesTransactions.verificationToken} IS NULL`,
+        ne(salesTransactions.status, 'voided')
+      ))
+      .returning({ verificationToken: salesTransactions.verificationToken });
+    if (updated) return updated.verificationToken;
+
+    const [existing] = await this.db.select({ verificationToken: salesTransactions.verificationToken })
+      .from(salesTransactions)
+      .where(eq(salesTransactions.id, transactionId));
+    return existing?.verificationToken ?? null;
+  }
+
+  // Read-only summary for the public verification page; no customer or staff details
+  async getPublicInvoice(token: string): Promise<PublicInvoice | undefined> {
+    const [sale] = await this.db
+      .select({
+        id: salesTransactions.id,
+        invoiceNumber: salesTransactions.invoiceNumber,
+        transactionDate: salesTransactions.transactionDate,
+        stationName: stations.name,
+        currencyCode: salesTransactions.currencyCode,
+        subtotal: salesTransactions.subtotal,
+        taxAmount: salesTransactions.taxAmount,
+        totalAmount: salesTransactions.totalAmount,
+        status: salesTransactions.status,
+        revokedAt: salesTransactions.verificationRevokedAt,
+      })
+      .from(salesTransactions)
+      .leftJoin(stations, eq(salesTransactions.stationId, stations.id))
+      .where(eq(salesTransactions.verificationToken, token));
+    if (!sale) return undefined;
+
+    const items = await this.db
+      .select({
+        productName: products.name,
+        unit: products.unit,
+        quantity: salesTransactionItems.quantity,
+        unitPrice: salesTransactionItems.unitPrice,
+        totalPrice: salesTransactionItems.totalPrice,
+      })
+      .from(salesTransactionItems)
+      .innerJoin(products, eq(salesTransactionItems.productId, products.id))
+      .where(eq(salesTransactionItems.transactionId, sale.id));
+
+    const { id, ...summary } = sale;
+    return { ...summary, valid: !sale.revokedAt, items };
+  }
+
+  async getHeldCarts(stationId: string, userId: string): Promise<HeldCart[]> {
+    // Carts left over from a finished shift are discarded as they are encountered
+    await this.db.delete(heldCarts).where(lte(heldCarts.expiresAt, new Date()));
+
+    return await this.db.select().from(heldCarts)
+      .where(and(eq(heldCarts.stationId, stationId), eq(heldCarts.userId, userId)))
+      .orderBy(desc(heldCarts.createdAt));
+  }
+
+  async createHeldCart(cart: HoldCart & { stationId: string; userId: string }): Promise<HeldCart> {
+    const { replacesCartId, ...values } = cart;
+    return await this.db.transaction(async (tx) => {
+      if (replacesCartId) {
+        await tx.delete(heldCarts).where(and(eq(heldCarts.id, replacesCartId), eq(heldCarts.userId, cart.userId)));
+      }
+      const [heldCart] = await tx.insert(heldCarts).values({
+        ...values,
+        expiresAt: shiftEndFor(new Date()),
+      }).returning();
+      return heldCart;
+    });
+  }
+
+  // The cart stays parked while it is back at the till, so a refresh cannot lose it. It is
+  // removed when its sale posts or the cashier discards it.
+  async resumeHeldCart(id: string, userId: string): Promise<HeldCart | undefined> {
+    const [heldCart] = await this.db.update(heldCarts)
+      .set({ resumedAt: new Date() })
+      .where(and(eq(heldCarts.id, id), eq(heldCarts.userId, userId), gt(heldCarts.expiresAt, new Date())))
+      .returning();
+    return heldCart || undefined;
+  }
+
+  async deleteHeldCart(id: string, userId: string): Promise<void> {
+    await this.db.delete(heldCarts).where(and(eq(heldCarts.id, id), eq(heldCarts.userId, userId)));
+  }
 
   async createSalesTransactionItem(insertItem: InsertSalesTransactionItem): Promise<SalesTransactionItem> {
     const [item] = await this.db.insert(salesTransactionItems).values(insertItem).returning();
@@ -505,6 +1880,26 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async createPurchaseOrderWithItems(insertOrder: Omit<typeof purchaseOrders.$inferInsert, 'orderNumber'>, insertItems: Omit<typeof purchaseOrderItems.$inferInsert, 'orderId'>[], charges: PurchaseOrderChargeInput[] = []): Promise<{ order: PurchaseOrder; items: PurchaseOrderItem[] }> {
+    return await this.db.transaction(async (tx) => {
+      const orderNumber = await this.nextDocumentNumber(tx, insertOrder.stationId, 'purchase_order');
+      const [order] = await tx.insert(purchaseOrders).values({ ...insertOrder, orderNumber }).returning();
+      await tx.insert(purchaseOrderStatusHistory).values({
+        orderId: order.id,
+        toStatus: order.status,
+        userId: order.userId,
+      });
+
+      for (const insertItem of insertItems) {
+        await tx.insert(purchaseOrderItems).values({ ...insertItem, orderId: order.id });
+      }
+      await this.insertPurchaseOrderCharges(tx, order.id, charges);
+      const items = await this.allocatePurchaseOrderCharges(tx, order.id);
+
+      return { order, items };
+    });
+  }
+
   async createPurchaseOrderItem(insertItem: InsertPurchaseOrderItem): Promise<PurchaseOrderItem> {
     const [item] = await this.db.insert(purchaseOrderItems).values(insertItem).returning();
     return item;
@@ -576,8 +1971,13 @@ export class DatabaseStorage implements IStorage {
     try {
       // Start a transaction to ensure atomicity
       const result = await this.db.transaction(async (tx) => {
+        // Customer receipts draw from the station's receipt series
+        const receiptNumber = insertPayment.type === 'receivable'
+          ? await this.nextDocumentNumber(tx, insertPayment.stationId, 'payment_receipt')
+          : null;
+
         // Create the payment record
-        const [payment] = await tx.insert(payments).values(insertPayment).returning();
+        const [payment] = await tx.insert(payments).values({ ...insertPayment, receiptNumber }).returning();
 
         // Update outstanding amounts based on payment type
         const paymentAmount = parseFloat(payment.amount);
@@ -632,66 +2032,561 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createStockMovement(insertMovement: InsertStockMovement): Promise<StockMovement & { updatedTank?: Tank }> {
+    return await this.db.transaction((tx) => this.applyStockMovement(tx, insertMovement));
+  }
+
+  // Transfers sent from or received at the station, newest first
+  async getStockTransfers(stationId: string): Promise<(StockTransfer & { productName: string; sourceStationName: string; sourceTankName: string; destinationStationName: string; destinationTankName: string })[]> {
+    const transfers = await this.db.select().from(stockTransfers)
+      .where(sql`${stockTransfers.sourceStationId} = ${stationId} or ${stockTransfers.destinationStationId} = ${stationId}`)
+      .orderBy(desc(stockTransfers.createdAt));
+    if (transfers.length === 0) return [];
+
+    const tankIds = Array.from(new Set(transfers.flatMap((transfer) => [transfer.sourceTankId, transfer.destinationTankId])));
+    const stationIds = Array.from(new Set(transfers.flatMap((transfer) => [transfer.sourceStationId, transfer.destinationStationId])));
+    const productIds = Array.from(new Set(transfers.map((transfer) => transfer.productId)));
+    const tankNames = new Map((await this.db.select({ id: tanks.id, name: tanks.name }).from(tanks).where(inArray(tanks.id, tankIds))).map((row) => [row.id, row.name]));
+    const stationNames = new Map((await this.db.select({ id: stations.id, name: stations.name }).from(stations).where(inArray(stations.id, stationIds))).map((row) => [row.id, row.name]));
+    const productNames = new Map((await this.db.select({ id: products.id, name: products.name }).from(products).where(inArray(products.id, productIds))).map((row) => [row.id, row.name]));
+
+    return transfers.map((transfer) => ({
+      ...transfer,
+      productName: productNames.get(transfer.productId) ?? '',
+      sourceStationName: stationNames.get(transfer.sourceStationId) ?? '',
+      sourceTankName: tankNames.get(transfer.sourceTankId) ?? '',
+      destinationStationName: stationNames.get(transfer.destinationStationId) ?? '',
+      destinationTankName: tankNames.get(transfer.destinationTankId) ?? '',
+    }));
+  }
+
+  // Tanks at any active station that can take product from the source tank: only those holding the same product
+  async getTransferDestinations(sourceTankId: string, userStationId: string, userRole: string): Promise<(Tank & { stationName: string })[]> {
+    const source = await this.getTank(sourceTankId);
+    if (!source) {
+      throw new Error('Tank not found');
+    }
+
+    if (userRole !== 'admin' && source.stationId !== userStationId) {
+      throw new Error('Access denied: Tank does not belong to your station');
+    }
+
+    const rows = await this.db
+      .select({ tank: tanks, stationName: stations.name })
+      .from(tanks)
+      .innerJoin(stations, eq(tanks.stationId, stations.id))
+      .where(and(
+        eq(tanks.productId, source.productId),
+        ne(tanks.id, source.id),
+        eq(stations.isActive, true)
+      ))
+      .orderBy(stations.name, tanks.name);
+
+    return rows.map(({ tank, stationName }) => ({ ...tank, stationName }));
+  }
+
+  // Draws the product from the source tank. Within a station it goes straight into the destination
+  // tank; to another station it stays in transit until received there.
+  async createStockTransfer(transfer: CreateStockTransfer & { userId: string; userStationId: string; userRole: string }): Promise<StockTransfer> {
     return await this.db.transaction(async (tx) => {
-      // Get current tank stock
-      const [currentTank] = await tx.select().from(tanks).where(eq(tanks.id, insertMovement.tankId));
-      if (!currentTank) {
-        throw new Error(`Tank ${insertMovement.tankId} not found`);
+      // Lock both tanks in id order so two opposite transfers cannot deadlock
+      const lockedTanks = await tx.select().from(tanks)
+        .where(inArray(tanks.id, [transfer.sourceTankId, transfer.destinationTankId]))
+        .orderBy(tanks.id)
+        .for('update');
+      const source = lockedTanks.find((tank) => tank.id === transfer.sourceTankId);
+      const destination = lockedTanks.find((tank) => tank.id === transfer.destinationTankId);
+
+      if (!source || !destination) {
+        throw new Error('Tank not found');
       }
 
-      const currentStock = parseFloat(currentTank.currentStock || '0');
-      const movementQuantity = parseFloat(insertMovement.quantity);
+      if (transfer.userRole !== 'admin' && source.stationId !== transfer.userStationId) {
+        throw new Error('Access denied: Transfers can only be sent from your station');
+      }
 
-      // Calculate new stock based on movement type
-      let newStock: number;
-      switch (insertMovement.movementType) {
-        case 'in':
-          newStock = currentStock + Math.abs(movementQuantity);
-          break;
-        case 'out':
-          newStock = Math.max(0, currentStock - Math.abs(movementQuantity));
-          break;
-        case 'adjustment':
-          // For adjustments, quantity can be positive or negative
-          newStock = Math.max(0, currentStock + movementQuantity);
-          break;
-        case 'transfer':
-          // For transfers, this handles the source tank (out)
-          newStock = Math.max(0, currentStock - Math.abs(movementQuantity));
-          break;
-        case 'audit':
-          // For audits, the new quantity IS the new stock (not a delta)
-          newStock = Math.max(0, Math.abs(movementQuantity));
-          break;
-        default:
-          throw new Error(`Invalid movement type: ${insertMovement.movementType}`);
+      assertTankInService(source);
+      assertTankInService(destination);
+
+      if (source.productId !== destination.productId) {
+        const [sourceProduct] = await tx.select().from(products).where(eq(products.id, source.productId));
+        const [destinationProduct] = await tx.select().from(products).where(eq(products.id, destination.productId));
+        throw new Error(`Cannot transfer ${sourceProduct?.name ?? 'product'} into ${destination.name}, which holds ${destinationProduct?.name ?? 'a different product'}`);
       }
 
-      // Create stock movement record with correct values
-      const movementData = {
-        ...insertMovement,
-        previousStock: currentStock.toString(),
-        newStock: newStock.toString(),
-      };
+      const available = parseFloat(source.currentStock || '0');
+      if (transfer.quantity > available + 0.0005) {
+        throw new Error(`Only ${roundQuantity(available)} L available in ${source.name}`);
+      }
+
+      const sameStation = source.stationId === destination.stationId;
+      if (sameStation) {
+        const space = parseFloat(destination.capacity) - parseFloat(destination.currentStock || '0');
+        if (transfer.quantity > space + 0.0005) {
+          throw new Error(`${destination.name} only has room for ${roundQuantity(Math.max(0, space))} L`);
+        }
+      }
+
+      const transferNumber = await this.nextDocumentNumber(tx, source.stationId, 'stock_transfer');
+      const [created] = await tx.insert(stockTransfers).values({
+        transferNumber,
+        productId: source.productId,
+        sourceStationId: source.stationId,
+        sourceTankId: source.id,
+        destinationStationId: destination.stationId,
+        destinationTankId: destination.id,
+        quantity: roundQuantity(transfer.quantity).toString(),
+        vehicleNumber: transfer.vehicleNumber || null,
+        notes: transfer.notes || null,
+        dispatchedBy: transfer.userId,
+      }).returning();
+
+      const outbound = await this.applyStockMovement(tx, {
+        tankId: source.id,
+        stationId: source.stationId,
+        userId: transfer.userId,
+        movementType: 'out',
+        quantity: transfer.quantity.toString(),
+        referenceType: 'transfer',
+        referenceId: created.id,
+        notes: `Transfer ${transferNumber} to ${destination.name}`,
+      });
+
+      if (!sameStation) {
+        const [inTransit] = await tx.update(stockTransfers)
+          .set({ totalCost: outbound.totalCost ?? '0' })
+          .where(eq(stockTransfers.id, created.id))
+          .returning();
+        return inTransit;
+      }
+
+      await this.applyStockMovement(tx, {
+        tankId: destination.id,
+        stationId: destination.stationId,
+        userId: transfer.userId,
+        movementType: 'in',
+        quantity: transfer.quantity.toString(),
+        referenceType: 'transfer',
+        referenceId: created.id,
+        notes: `Transfer ${transferNumber} from ${source.name}`,
+        unitCost: outbound.unitCost,
+      });
+
+      const [completed] = await tx.update(stockTransfers)
+        .set({
+          status: 'completed',
+          totalCost: outbound.totalCost ?? '0',
+          receivedQuantity: created.quantity,
+          receivedBy: transfer.userId,
+          receivedAt: new Date(),
+        })
+        .where(eq(stockTransfers.id, created.id))
+        .returning();
+      return completed;
+    });
+  }
+
+  // Books an in-transit transfer into the destination tank. The value that left the source is
+  // spread over what actually arrived, so any transit loss raises the cost per litre.
+  async receiveStockTransfer(id: string, receipt: ReceiveStockTransfer & { userId: string; userStationId: string; userRole: string }): Promise<StockTransfer> {
+    return await this.db.transaction(async (tx) => {
+      const [transfer] = await tx.select().from(stockTransfers)
+        .where(eq(stockTransfers.id, id))
+        .for('update');
 
-      const [movement] = await tx.insert(stockMovements).values(movementData).returning();
+      if (!transfer) {
+        throw new Error('Stock transfer not found');
+      }
+
+      if (receipt.userRole !== 'admin' && transfer.destinationStationId !== receipt.userStationId) {
+        throw new Error('Access denied: Transfer is not addressed to your station');
+      }
+
+      if (transfer.status !== 'in_transit') {
+        throw new Error(`Transfer ${transfer.transferNumber} is ${transfer.status.replace('_', ' ')} and cannot be received`);
+      }
+
+      const [destination] = await tx.select().from(tanks)
+        .where(eq(tanks.id, transfer.destinationTankId))
+        .for('update');
+      assertTankInService(destination);
+      const space = parseFloat(destination.capacity) - parseFloat(destination.currentStock || '0');
+      if (receipt.receivedQuantity > space + 0.0005) {
+        throw new Error(`${destination.name} only has room for ${roundQuantity(Math.max(0, space))} L`);
+      }
+
+      const shortage = roundQuantity(parseFloat(transfer.quantity) - receipt.receivedQuantity);
+      const unitCost = Math.round((parseFloat(transfer.totalCost) / receipt.receivedQuantity) * 10000) / 10000;
+
+      await this.applyStockMovement(tx, {
+        tankId: destination.id,
+        stationId: destination.stationId,
+        userId: receipt.userId,
+        movementType: 'in',
+        quantity: receipt.receivedQuantity.toString(),
+        referenceType: 'transfer',
+        referenceId: transfer.id,
+        notes: receipt.notes || `Transfer ${transfer.transferNumber} received${shortage !== 0 ? ` (${shortage > 0 ? 'short' : 'over'} ${Math.abs(shortage)} L)` : ''}`,
+        unitCost: unitCost.toString(),
+      });
+
+      const [received] = await tx.update(stockTransfers)
+        .set({
+          status: 'completed',
+          receivedQuantity: roundQuantity(receipt.receivedQuantity).toString(),
+          receivedBy: receipt.userId,
+          receivedAt: new Date(),
+        })
+        .where(eq(stockTransfers.id, id))
+        .returning();
+      return received;
+    });
+  }
+
+  // Calls back an in-transit transfer: the product goes back into the tank it came from, at the cost it left at
+  async cancelStockTransfer(id: string, cancellation: { reason: string; userId: string; userStationId: string; userRole: string }): Promise<StockTransfer> {
+    return await this.db.transaction(async (tx) => {
+      const [transfer] = await tx.select().from(stockTransfers)
+        .where(eq(stockTransfers.id, id))
+        .for('update');
+
+      if (!transfer) {
+        throw new Error('Stock transfer not found');
+      }
+
+      if (cancellation.userRole !== 'admin' && transfer.sourceStationId !== cancellation.userStationId) {
+        throw new Error('Access denied: Only the sending station can cancel a transfer');
+      }
+
+      if (transfer.status !== 'in_transit') {
+        throw new Error(`Transfer ${transfer.transferNumber} is ${transfer.status.replace('_', ' ')} and cannot be cancelled`);
+      }
+
+      const [source] = await tx.select().from(tanks)
+        .where(eq(tanks.id, transfer.sourceTankId))
+        .for('update');
+      assertTankInService(source);
+
+      const quantity = parseFloat(transfer.quantity);
+      await this.applyStockMovement(tx, {
+        tankId: transfer.sourceTankId,
+        stationId: transfer.sourceStationId,
+        userId: cancellation.userId,
+        movementType: 'in',
+        quantity: transfer.quantity,
+        referenceType: 'transfer',
+        referenceId: transfer.id,
+        notes: `Transfer ${transfer.transferNumber} cancelled - ${cancellation.reason}`,
+        unitCost: quantity > 0 ? (Math.round((parseFloat(transfer.totalCost) / quantity) * 10000) / 10000).toString() : null,
+      });
+
+      const [cancelled] = await tx.update(stockTransfers)
+        .set({ status: 'cancelled', cancelReason: cancellation.reason })
+        .where(eq(stockTransfers.id, id))
+        .returning();
+      return cancelled;
+    });
+  }
+
+  async getStockAdjustments(stationId: string, filters: { status?: StockAdjustment['status']; startDate?: Date; endDate?: Date } = {}): Promise<(StockAdjustment & { tankName: string; productName: string; requestedByName: string | null; reviewedByName: string | null })[]> {
+    const reviewers = alias(users, 'reviewers');
+    const rows = await this.db
+      .select({
+        adjustment: stockAdjustments,
+        tankName: tanks.name,
+        productName: products.name,
+        requestedByName: users.fullName,
+        reviewedByName: reviewers.fullName,
+      })
+      .from(stockAdjustments)
+      .innerJoin(tanks, eq(stockAdjustments.tankId, tanks.id))
+      .innerJoin(products, eq(tanks.productId, products.id))
+      .leftJoin(users, eq(stockAdjustments.requestedBy, users.id))
+      .leftJoin(reviewers, eq(stockAdjustments.reviewedBy, reviewers.id))
+      .where(and(
+        eq(stockAdjustments.stationId, stationId),
+        filters.status ? eq(stockAdjustments.status, filters.status) : undefined,
+        filters.startDate ? gte(stockAdjustments.createdAt, filters.startDate) : undefined,
+        filters.endDate ? lte(stockAdjustments.createdAt, filters.endDate) : undefined
+      ))
+      .orderBy(desc(stockAdjustments.createdAt));
+
+    return rows.map(({ adjustment, ...names }) => ({ ...adjustment, ...names }));
+  }
+
+  // Adjustments within the station's litre and value limits are posted to the tank straight away;
+  // anything larger is held as pending for a manager, leaving the tank's stock untouched
+  async createStockAdjustment(adjustment: CreateStockAdjustment & { userId: string; userStationId: string; userRole: string }): Promise<StockAdjustment> {
+    return await this.db.transaction(async (tx) => {
+      const [tank] = await tx.select().from(tanks)
+        .where(eq(tanks.id, adjustment.tankId))
+        .for('update');
+
+      if (!tank) {
+        throw new Error('Tank not found');
+      }
+
+      if (adjustment.userRole !== 'admin' && tank.stationId !== adjustment.userStationId) {
+        throw new Error('Access denied: Tank does not belong to your station');
+      }
+
+      this.assertAdjustmentFits(tank, adjustment.quantity);
+
+      const [stationSettings] = await tx.select().from(settings).where(eq(settings.stationId, tank.stationId));
+      const quantityLimit = parseFloat(stationSettings?.adjustmentApprovalQuantity ?? '100');
+      const valueLimit = parseFloat(stationSettings?.adjustmentApprovalValue ?? '25000');
+      const value = roundMoney(adjustment.quantity * parseFloat(tank.averageCost || '0'));
+      // Stock that has not been costed yet is checked against the limit at its selling price
+      let limitValue = value;
+      if (parseFloat(tank.averageCost || '0') <= 0) {
+        const [product] = await tx.select({ currentPrice: products.currentPrice }).from(products).where(eq(products.id, tank.productId));
+        limitValue = roundMoney(adjustment.quantity * parseFloat(product?.currentPrice || '0'));
+      }
+      const needsApproval = Math.abs(adjustment.quantity) > quantityLimit + 0.0005 || Math.abs(limitValue) > valueLimit;
+
+      const [created] = await tx.insert(stockAdjustments).values({
+        stationId: tank.stationId,
+        tankId: tank.id,
+        reasonCode: adjustment.reasonCode,
+        quantity: roundQuantity(adjustment.quantity).toString(),
+        value: value.toString(),
+        notes: adjustment.notes || null,
+        requestedBy: adjustment.userId,
+        status: needsApproval ? 'pending' : 'approved',
+      }).returning();
+
+      if (needsApproval) {
+        return created;
+      }
+
+      return await this.postStockAdjustment(tx, created, adjustment.userId);
+    });
+  }
+
+  // A manager may not approve their own adjustment; an admin may
+  async reviewStockAdjustment(id: string, review: ReviewStockAdjustment & { userId: string; userStationId: string; userRole: string }): Promise<StockAdjustment> {
+    return await this.db.transaction(async (tx) => {
+      const [adjustment] = await tx.select().from(stockAdjustments)
+        .where(eq(stockAdjustments.id, id))
+        .for('update');
 
-      // Update tank stock and set last refill date if it's an 'in' movement
-      const updateData: any = { currentStock: newStock.toString() };
-      if (insertMovement.movementType === 'in') {
-        updateData.lastRefillDate = new Date();
+      if (!adjustment) {
+        throw new Error('Stock adjustment not found');
       }
 
-      const [updatedTank] = await tx.update(tanks)
-        .set(updateData)
-        .where(eq(tanks.id, insertMovement.tankId))
+      if (review.userRole !== 'admin' && adjustment.stationId !== review.userStationId) {
+        throw new Error('Access denied: Stock adjustment does not belong to your station');
+      }
+
+      if (adjustment.status !== 'pending') {
+        throw new Error(`Adjustment is already ${adjustment.status}`);
+      }
+
+      if (review.userRole !== 'admin' && adjustment.requestedBy === review.userId) {
+        throw new Error('Access denied: Adjustments must be approved by someone other than the requester');
+      }
+
+      const [reviewed] = await tx.update(stockAdjustments)
+        .set({
+          status: review.decision,
+          reviewedBy: review.userId,
+          reviewedAt: new Date(),
+          reviewNotes: review.notes || null,
+        })
+        .where(eq(stockAdjustments.id, id))
         .returning();
 
+      if (review.decision === 'rejected') {
+        return reviewed;
+      }
+
+      // Stock may have moved since the request, so check the loss still fits the tank
+      const [tank] = await tx.select().from(tanks)
+        .where(eq(tanks.id, adjustment.tankId))
+        .for('update');
+      this.assertAdjustmentFits(tank, parseFloat(adjustment.quantity));
+
+      return await this.postStockAdjustment(tx, reviewed, review.userId);
+    });
+  }
+
+  private assertAdjustmentFits(tank: Tank, quantity: number): void {
+    const currentStock = parseFloat(tank.currentStock || '0');
+    if (quantity < 0 && -quantity > currentStock + 0.0005) {
+      throw new Error(`Cannot write off ${roundQuantity(-quantity)} L; ${tank.name} only holds ${roundQuantity(Math.max(0, currentStock))} L`);
+    }
+    if (quantity > 0 && currentStock + quantity > parseFloat(tank.capacity) + 0.0005) {
+      throw new Error(`${tank.name} only has room for ${roundQuantity(Math.max(0, parseFloat(tank.capacity) - currentStock))} L`);
+    }
+  }
+
+  private async postStockAdjustment(tx: DbTransaction, adjustment: StockAdjustment, userId: string): Promise<StockAdjustment> {
+    const movement = await this.applyStockMovement(tx, {
+      tankId: adjustment.tankId,
+      stationId: adjustment.stationId,
+      userId,
+      movementType: 'adjustment',
+      quantity: adjustment.quantity,
+      referenceType: 'adjustment',
+      referenceId: adjustment.id,
+      notes: `${stockAdjustmentReasonLabels[adjustment.reasonCode]}${adjustment.notes ? ` - ${adjustment.notes}` : ''}`,
+    });
+
+    const [posted] = await tx.update(stockAdjustments)
+      .set({ movementId: movement.id })
+      .where(eq(stockAdjustments.id, adjustment.id))
+      .returning();
+    return posted;
+  }
+
+  // Values a change in tank stock. Receipts come in at the cost given (or the tank's average when
+  // none is), issues go out at the average or from the oldest layers under the station's method.
+  // Layers are always drawn down oldest first so switching method keeps them in step with stock.
+  private async costStockMovement(
+    tx: DbTransaction,
+    tank: Tank,
+    change: number,
+    suppliedUnitCost?: string | null
+  ): Promise<{ unitCost: number | null; totalCost: number; averageCost: number; layerQuantity: number }> {
+    const currentStock = parseFloat(tank.currentStock || '0');
+    const averageCost = parseFloat(tank.averageCost || '0');
+
+    if (change > 0) {
+      const unitCost = suppliedUnitCost != null && suppliedUnitCost !== '' ? parseFloat(suppliedUnitCost) : averageCost;
+      return {
+        unitCost,
+        totalCost: roundMoney(change * unitCost),
+        averageCost: weightedAverageCost(currentStock, averageCost, change, unitCost),
+        // Only the part that lifts the tank above zero is stock on hand; the rest covered an oversell
+        layerQuantity: roundQuantity(Math.min(change, Math.max(0, currentStock + change))),
+      };
+    }
+
+    if (change < 0) {
+      const quantity = -change;
+      const [stationSettings] = await tx.select({ costingMethod: settings.costingMethod })
+        .from(settings)
+        .where(eq(settings.stationId, tank.stationId));
+
+      const layers = await tx.select().from(stockCostLayers)
+        .where(and(eq(stockCostLayers.tankId, tank.id), gt(stockCostLayers.remainingQuantity, '0')))
+        .orderBy(stockCostLayers.receivedAt)
+        .for('update');
+      const fifo = consumeLayers(layers.map((layer) => ({
+        id: layer.id,
+        unitCost: parseFloat(layer.unitCost),
+        remainingQuantity: parseFloat(layer.remainingQuantity),
+      })), quantity, averageCost);
+
+      for (const taken of fifo.consumed) {
+        await tx.update(stockCostLayers)
+          .set({ remainingQuantity: sql`${stockCostLayers.remainingQuantity} - ${roundQuantity(taken.quantity)}` })
+          .where(eq(stockCostLayers.id, taken.id));
+      }
+
+      const totalCost = stationSettings?.costingMethod === 'fifo' ? fifo.totalCost : roundMoney(quantity * averageCost);
       return {
-        ...movement,
-        updatedTank
+        unitCost: Math.round((totalCost / quantity) * 10000) / 10000,
+        totalCost,
+        averageCost,
+        layerQuantity: 0,
       };
+    }
+
+    return { unitCost: null, totalCost: 0, averageCost, layerQuantity: 0 };
+  }
+
+  // Records a movement and updates tank stock using the caller's transaction
+  private async applyStockMovement(
+    tx: DbTransaction,
+    insertMovement: InsertStockMovement,
+    options: { allowNegative?: boolean } = {}
+  ): Promise<StockMovement & { updatedTank?: Tank }> {
+    // Get current tank stock, locking the row so concurrent movements serialize
+    const [currentTank] = await tx.select().from(tanks).where(eq(tanks.id, insertMovement.tankId)).for('update');
+    if (!currentTank) {
+      throw new Error(`Tank ${insertMovement.tankId} not found`);
+    }
+
+    const currentStock = parseFloat(currentTank.currentStock || '0');
+    const movementQuantity = parseFloat(insertMovement.quantity);
+
+    // Calculate new stock based on movement type
+    let newStock: number;
+    switch (insertMovement.movementType) {
+      case 'in':
+        newStock = currentStock + Math.abs(movementQuantity);
+        break;
+      case 'out':
+        // An approved oversell keeps the shortfall visible as negative stock
+        newStock = currentStock - Math.abs(movementQuantity);
+        if (!options.allowNegative) newStock = Math.max(0, newStock);
+        break;
+      case 'return':
+        // Product returned against a credit note goes back into the tank
+        newStock = currentStock + Math.abs(movementQuantity);
+        break;
+      case 'adjustment':
+        // For adjustments, quantity can be positive or negative
+        newStock = Math.max(0, currentStock + movementQuantity);
+        break;
+      case 'transfer':
+        // For transfers, this handles the source tank (out)
+        newStock = Math.max(0, currentStock - Math.abs(movementQuantity));
+        break;
+      case 'audit':
+        // For audits, the new quantity IS the new stock (not a delta)
+        newStock = Math.max(0, Math.abs(movementQuantity));
+        break;
+      default:
+        throw new Error(`Invalid movement type: ${insertMovement.movementType}`);
+    }
+
+    const cost = await this.costStockMovement(tx, currentTank, newStock - currentStock, insertMovement.unitCost);
+
+    // Create stock movement record with correct values
+    const movementData = {
+      ...insertMovement,
+      previousStock: currentStock.toString(),
+      newStock: newStock.toString(),
+      unitCost: cost.unitCost?.toString() ?? null,
+      totalCost: cost.totalCost.toString(),
+    };
+
+    const [movement] = await tx.insert(stockMovements).values(movementData).returning();
+
+    // Stock added to the tank becomes a cost layer for later FIFO issues
+    if (cost.layerQuantity > 0) {
+      await tx.insert(stockCostLayers).values({
+        tankId: currentTank.id,
+        movementId: movement.id,
+        unitCost: cost.unitCost!.toString(),
+        quantity: cost.layerQuantity.toString(),
+        remainingQuantity: cost.layerQuantity.toString(),
+      });
+    }
+
+    // Update tank stock and status, and set last refill date if it's an 'in' movement
+    const status = derivedTankStatus(currentTank, newStock);
+    const updateData: any = { currentStock: newStock.toString(), averageCost: cost.averageCost.toString(), status };
+    if (insertMovement.movementType === 'in') {
+      updateData.lastRefillDate = new Date();
+    }
+
+    const [updatedTank] = await tx.update(tanks)
+      .set(updateData)
+      .where(eq(tanks.id, insertMovement.tankId))
+      .returning();
+
+    await this.logTankStatusChange(tx, currentTank, status, newStock, {
+      reason: 'movement',
+      referenceId: movement.id,
+      userId: insertMovement.userId,
     });
+
+    return {
+      ...movement,
+      updatedTank
+    };
   }
 
   async getDashboardStats(stationId: string): Promise<any> {
@@ -709,6 +2604,7 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(salesTransactions.stationId, stationId),
+          ne(salesTransactions.status, 'voided'),
           gte(salesTransactions.transactionDate, startOfDay)
         )
       );
@@ -723,10 +2619,21 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(salesTransactions.stationId, stationId),
+          ne(salesTransactions.status, 'voided'),
           gte(salesTransactions.transactionDate, startOfMonth)
         )
       );
 
+    // Sales totals are shown net of partial returns credited in the same period
+    const todaysReturns = await this.getReturnsCredited(stationId, startOfDay);
+    const monthlyReturns = await this.getReturnsCredited(stationId, startOfMonth);
+    const netOf = (sales: { totalAmount: string | null; count: number }, returns: { totalReturns: string | null }) => ({
+      ...sales,
+      grossAmount: sales.totalAmount,
+      returnsAmount: returns.totalReturns ?? '0',
+      totalAmount: roundMoney(parseFloat(sales.totalAmount || '0') - parseFloat(returns.totalReturns || '0')).toFixed(2),
+    });
+
     // Outstanding amount from customers
     const outstanding = await this.db
       .select({
@@ -735,23 +2642,48 @@ export class DatabaseStorage implements IStorage {
       .from(customers);
 
     return {
-      todaysSales: todaysSales[0],
-      monthlySales: monthlySales[0],
+      todaysSales: netOf(todaysSales[0], todaysReturns),
+      monthlySales: netOf(monthlySales[0], monthlyReturns),
       outstanding: outstanding[0],
     };
   }
 
+  // Partial returns credited in the period. Returns against a sale that was later voided are left
+  // out, since voiding already drops the whole sale from revenue; the dashboard, daily and
+  // financial reports all net sales with this.
+  private async getReturnsCredited(stationId: string, startDate: Date, endDate?: Date): Promise<{ totalReturns: string | null; count: number }> {
+    const [returns] = await this.db
+      .select({
+        totalReturns: sum(creditNotes.totalAmount),
+        count: sql<number>`count(*)::int`,
+      })
+      .from(creditNotes)
+      .innerJoin(salesTransactions, eq(creditNotes.transactionId, salesTransactions.id))
+      .where(
+        and(
+          eq(creditNotes.stationId, stationId),
+          eq(creditNotes.type, 'return'),
+          ne(salesTransactions.status, 'voided'),
+          gte(creditNotes.creditNoteDate, startDate),
+          endDate ? lte(creditNotes.creditNoteDate, endDate) : undefined
+        )
+      );
+    return returns;
+  }
+
   async getSalesReport(stationId: string, startDate: Date, endDate: Date): Promise<any> {
     return await this.db
       .select({
         date: salesTransactions.transactionDate,
         totalAmount: sum(salesTransactions.totalAmount),
+        discountAmount: sum(salesTransactions.discountAmount),
         transactionCount: sql<number>`count(*)`,
       })
       .from(salesTransactions)
       .where(
         and(
           eq(salesTransactions.stationId, stationId),
+          ne(salesTransactions.status, 'voided'),
           gte(salesTransactions.transactionDate, startDate),
           lte(salesTransactions.transactionDate, endDate)
         )
@@ -765,11 +2697,13 @@ export class DatabaseStorage implements IStorage {
     const revenue = await this.db
       .select({
         totalRevenue: sum(salesTransactions.totalAmount),
+        totalDiscounts: sum(salesTransactions.discountAmount),
       })
       .from(salesTransactions)
       .where(
         and(
           eq(salesTransactions.stationId, stationId),
+          ne(salesTransactions.status, 'voided'),
           gte(salesTransactions.transactionDate, startDate),
           lte(salesTransactions.transactionDate, endDate)
         )
@@ -789,12 +2723,42 @@ export class DatabaseStorage implements IStorage {
         )
       );
 
+    const returns = await this.getReturnsCredited(stationId, startDate, endDate);
+
+    const revenueByTender = await this.getTenderReport(stationId, startDate, endDate);
+
     return {
       revenue: revenue[0],
+      revenueByTender,
+      returns,
       expenses: expenseData[0],
     };
   }
 
+  async getTenderReport(stationId: string, startDate: Date, endDate: Date): Promise<{ paymentMethod: string; totalAmount: string; count: number; currencyCode: string }[]> {
+    // Sales posted before tender lines existed fall back to their header method and total
+    const tenderMethod = sql<string>`coalesce(${saleTenders.paymentMethod}, ${salesTransactions.paymentMethod})`;
+
+    return await this.db
+      .select({
+        paymentMethod: tenderMethod,
+        totalAmount: sql<string>`sum(coalesce(${saleTenders.amount}, ${salesTransactions.totalAmount}))`,
+        count: sql<number>`count(distinct ${salesTransactions.id})::int`,
+        currencyCode: salesTransactions.currencyCode,
+      })
+      .from(salesTransactions)
+      .leftJoin(saleTenders, eq(saleTenders.transactionId, salesTransactions.id))
+      .where(
+        and(
+          eq(salesTransactions.stationId, stationId),
+          ne(salesTransactions.status, 'voided'),
+          gte(salesTransactions.transactionDate, startDate),
+          lte(salesTransactions.transactionDate, endDate)
+        )
+      )
+      .groupBy(tenderMethod, salesTransactions.currencyCode);
+  }
+
   async getSalesTransactionWithItems(id: string): Promise<(SalesTransaction & { items: (SalesTransactionItem & { product: Product })[], customer: Customer, station: Station, user: User }) | undefined> {
     const transaction = await this.db
       .select()
@@ -822,6 +2786,19 @@ export class DatabaseStorage implements IStorage {
         quantity: salesTransactionItems.quantity,
         unitPrice: salesTransactionItems.unitPrice,
         totalPrice: salesTransactionItems.totalPrice,
+        listPrice: salesTransactionItems.listPrice,
+        priceAgreementId: salesTransactionItems.priceAgreementId,
+        requestedAmount: salesTransactionItems.requestedAmount,
+        returnedQuantity: salesTransactionItems.returnedQuantity,
+        unitCost: salesTransactionItems.unitCost,
+        costOfGoods: salesTransactionItems.costOfGoods,
+        discountAmount: salesTransactionItems.discountAmount,
+        promotionId: salesTransactionItems.promotionId,
+        discountApprovedBy: salesTransactionItems.discountApprovedBy,
+        pumpId: salesTransactionItems.pumpId,
+        stockOverrideBy: salesTransactionItems.stockOverrideBy,
+        noTankLink: salesTransactionItems.noTankLink,
+        promotionName: promotions.name,
         createdAt: salesTransactionItems.createdAt,
         // Product fields (nested)
         product: {
@@ -839,6 +2816,7 @@ export class DatabaseStorage implements IStorage {
       })
       .from(salesTransactionItems)
       .innerJoin(products, eq(salesTransactionItems.productId, products.id))
+      .leftJoin(promotions, eq(salesTransactionItems.promotionId, promotions.id))
       .where(eq(salesTransactionItems.transactionId, id));
 
     return {
@@ -882,6 +2860,19 @@ export class DatabaseStorage implements IStorage {
         quantity: salesTransactionItems.quantity,
         unitPrice: salesTransactionItems.unitPrice,
         totalPrice: salesTransactionItems.totalPrice,
+        listPrice: salesTransactionItems.listPrice,
+        priceAgreementId: salesTransactionItems.priceAgreementId,
+        requestedAmount: salesTransactionItems.requestedAmount,
+        returnedQuantity: salesTransactionItems.returnedQuantity,
+        unitCost: salesTransactionItems.unitCost,
+        costOfGoods: salesTransactionItems.costOfGoods,
+        discountAmount: salesTransactionItems.discountAmount,
+        promotionId: salesTransactionItems.promotionId,
+        discountApprovedBy: salesTransactionItems.discountApprovedBy,
+        pumpId: salesTransactionItems.pumpId,
+        stockOverrideBy: salesTransactionItems.stockOverrideBy,
+        noTankLink: salesTransactionItems.noTankLink,
+        promotionName: promotions.name,
         createdAt: salesTransactionItems.createdAt,
         // Product fields (nested)
         product: {
@@ -899,6 +2890,7 @@ export class DatabaseStorage implements IStorage {
       })
       .from(salesTransactionItems)
       .innerJoin(products, eq(salesTransactionItems.productId, products.id))
+      .leftJoin(promotions, eq(salesTransactionItems.promotionId, promotions.id))
       .where(eq(salesTransactionItems.transactionId, id));
 
     return {
@@ -910,45 +2902,6 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async deleteSalesTransaction(id: string): Promise<void> {
-    await this.db.transaction(async (tx) => {
-      // Delete related transaction items first
-      await tx.delete(salesTransactionItems).where(eq(salesTransactionItems.transactionId, id));
-
-      // Delete the transaction
-      await tx.delete(salesTransactions).where(eq(salesTransactions.id, id));
-    });
-  }
-
-  async deleteSalesTransactionSecure(id: string, userStationId: string, userRole: string): Promise<void> {
-    await this.db.transaction(async (tx) => {
-      // First verify the transaction belongs to the user's station (unless admin)
-      if (userRole !== 'admin') {
-        const [transaction] = await tx.select({ stationId: salesTransactions.stationId })
-          .from(salesTransactions)
-          .where(eq(salesTransactions.id, id));
-
-        if (!transaction) {
-          throw new Error('Sales transaction not found');
-        }
-
-        if (transaction.stationId !== userStationId) {
-          throw new Error('Access denied: Transaction does not belong to your station');
-        }
-      }
-
-      // Delete related transaction items first
-      await tx.delete(salesTransactionItems).where(eq(salesTransactionItems.transactionId, id));
-
-      // Delete the transaction
-      const result = await tx.delete(salesTransactions).where(eq(salesTransactions.id, id)).returning({ id: salesTransactions.id });
-
-      if (result.length === 0) {
-        throw new Error('Sales transaction not found');
-      }
-    });
-  }
-
   async getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
     const [order] = await this.db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
     return order || undefined;
@@ -1029,23 +2982,28 @@ export class DatabaseStorage implements IStorage {
 
   async deletePurchaseOrderSecure(id: string, userStationId: string, userRole: string): Promise<void> {
     await this.db.transaction(async (tx) => {
-      // First verify the order belongs to the user's station (unless admin)
-      if (userRole !== 'admin') {
-        const [order] = await tx.select({ stationId: purchaseOrders.stationId })
-          .from(purchaseOrders)
-          .where(eq(purchaseOrders.id, id));
+      const [order] = await tx.select({ stationId: purchaseOrders.stationId, status: purchaseOrders.status })
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.id, id));
 
-        if (!order) {
-          throw new Error('Purchase order not found');
-        }
+      if (!order) {
+        throw new Error('Purchase order not found');
+      }
 
-        if (order.stationId !== userStationId) {
-          throw new Error('Access denied: Purchase order does not belong to your station');
-        }
+      // Verify the order belongs to the user's station (unless admin)
+      if (userRole !== 'admin' && order.stationId !== userStationId) {
+        throw new Error('Access denied: Purchase order does not belong to your station');
       }
 
-      // Delete related order items first
+      // Once submitted an order is part of the audit trail and must be cancelled instead
+      if (order.status !== 'draft') {
+        throw new Error('Only draft purchase orders can be deleted; cancel the order instead');
+      }
+
+      // Delete related order items and history first
       await tx.delete(purchaseOrderItems).where(eq(purchaseOrderItems.orderId, id));
+      await tx.delete(purchaseOrderStatusHistory).where(eq(purchaseOrderStatusHistory.orderId, id));
+      await tx.delete(purchaseOrderCharges).where(eq(purchaseOrderCharges.orderId, id));
 
       // Delete the purchase order
       const result = await tx.delete(purchaseOrders).where(eq(purchaseOrders.id, id)).returning({ id: purchaseOrders.id });
@@ -1056,29 +3014,1064 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  private async insertPurchaseOrderCharges(tx: DbTransaction, orderId: string, charges: PurchaseOrderChargeInput[]): Promise<void> {
+    for (const charge of charges) {
+      await tx.insert(purchaseOrderCharges).values({
+        orderId,
+        chargeType: charge.chargeType,
+        description: charge.description,
+        amount: roundMoney(charge.amount).toString(),
+        allocationMethod: charge.allocationMethod,
+      });
+    }
+  }
+
+  // Re-spreads all of the order's charges over its lines and stores each line's landed unit cost
+  private async allocatePurchaseOrderCharges(tx: DbTransaction, orderId: string): Promise<PurchaseOrderItem[]> {
+    const lines = await tx.select().from(purchaseOrderItems).where(eq(purchaseOrderItems.orderId, orderId));
+    const charges = await tx.select().from(purchaseOrderCharges).where(eq(purchaseOrderCharges.orderId, orderId));
+
+    const costLines = lines.map((line) => ({
+      id: line.id,
+      quantity: parseFloat(line.quantity),
+      value: parseFloat(line.totalPrice),
+    }));
+    const allocated = allocateLandedCosts(costLines, charges.map((charge) => ({
+      amount: parseFloat(charge.amount),
+      allocationMethod: charge.allocationMethod,
+    })));
+
+    const items: PurchaseOrderItem[] = [];
+    for (const line of costLines) {
+      const landedCost = allocated.get(line.id) ?? 0;
+      const [item] = await tx.update(purchaseOrderItems)
+        .set({
+          landedCost: landedCost.toString(),
+          landedUnitCost: landedUnitCost(line, landedCost).toString(),
+        })
+        .where(eq(purchaseOrderItems.id, line.id))
+        .returning();
+      items.push(item);
+    }
+    return items;
+  }
+
+  async getPurchaseOrderCharges(orderId: string): Promise<PurchaseOrderCharge[]> {
+    return await this.db.select().from(purchaseOrderCharges)
+      .where(eq(purchaseOrderCharges.orderId, orderId))
+      .orderBy(purchaseOrderCharges.createdAt);
+  }
+
+  // Landed unit cost of the most recently received purchase of each product at the station
+  async getLatestLandedCosts(stationId: string): Promise<any[]> {
+    const received = await this.db
+      .select({
+        productId: purchaseOrderItems.productId,
+        unitPrice: purchaseOrderItems.unitPrice,
+        landedUnitCost: purchaseOrderItems.landedUnitCost,
+        orderNumber: purchaseOrders.orderNumber,
+        orderDate: purchaseOrders.orderDate,
+      })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrderItems.orderId, purchaseOrders.id))
+      .where(and(
+        eq(purchaseOrders.stationId, stationId),
+        gt(purchaseOrderItems.receivedQuantity, '0')
+      ))
+      .orderBy(desc(purchaseOrders.orderDate));
+
+    const latest = new Map<string, (typeof received)[number]>();
+    for (const line of received) {
+      if (!latest.has(line.productId)) latest.set(line.productId, line);
+    }
+    return Array.from(latest.values());
+  }
+
+  // Only a draft can be edited; its lines are replaced and the totals worked out again
+  async updatePurchaseOrderWithItems(id: string, update: Pick<typeof purchaseOrders.$inferInsert, 'supplierId' | 'orderDate' | 'expectedDeliveryDate' | 'dueDate' | 'notes'>, insertItems: Omit<typeof purchaseOrderItems.$inferInsert, 'orderId' | 'totalPrice'>[], charges: PurchaseOrderChargeInput[], userStationId: string, userRole: string): Promise<{ order: PurchaseOrder; items: PurchaseOrderItem[] }> {
+    return await this.db.transaction(async (tx) => {
+      const [order] = await tx.select().from(purchaseOrders)
+        .where(eq(purchaseOrders.id, id))
+        .for('update');
+
+      if (!order) {
+        throw new Error('Purchase order not found');
+      }
+
+      if (userRole !== 'admin' && order.stationId !== userStationId) {
+        throw new Error('Access denied: Purchase order does not belong to your station');
+      }
+
+      if (order.status !== 'draft') {
+        throw new Error(`Purchase order ${order.orderNumber} is ${order.status} and can no longer be edited`);
+      }
+
+      const [stationSettings] = await tx.select().from(settings).where(eq(settings.stationId, order.stationId));
+      const taxRate = stationSettings?.taxEnabled ? parseFloat(stationSettings.taxRate || '0') : 0;
+
+      await tx.delete(purchaseOrderItems).where(eq(purchaseOrderItems.orderId, id));
+      await tx.delete(purchaseOrderCharges).where(eq(purchaseOrderCharges.orderId, id));
+
+      let subtotal = 0;
+      for (const insertItem of insertItems) {
+        const totalPrice = roundMoney(parseFloat(insertItem.quantity) * parseFloat(insertItem.unitPrice));
+        subtotal += totalPrice;
+        await tx.insert(purchaseOrderItems)
+          .values({ ...insertItem, orderId: id, totalPrice: totalPrice.toString(), receivedQuantity: '0' });
+      }
+      await this.insertPurchaseOrderCharges(tx, id, charges);
+      const items = await this.allocatePurchaseOrderCharges(tx, id);
+
+      subtotal = roundMoney(subtotal);
+      const taxAmount = roundMoney(subtotal * taxRate / 100);
+      const [updatedOrder] = await tx.update(purchaseOrders)
+        .set({
+          ...update,
+          subtotal: subtotal.toString(),
+          taxAmount: taxAmount.toString(),
+          totalAmount: roundMoney(subtotal + taxAmount).toString(),
+        })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+
+      return { order: updatedOrder, items };
+    });
+  }
+
+  // Moves an order along its lifecycle, recording who did it. Managers may only approve
+  // orders up to the station's approval limit; larger orders need an admin.
+  async changePurchaseOrderStatus(id: string, change: ChangePurchaseOrderStatus & { userId: string; userStationId: string; userRole: string }): Promise<PurchaseOrder> {
+    return await this.db.transaction(async (tx) => {
+      const [order] = await tx.select().from(purchaseOrders)
+        .where(eq(purchaseOrders.id, id))
+        .for('update');
+
+      if (!order) {
+        throw new Error('Purchase order not found');
+      }
+
+      if (change.userRole !== 'admin' && order.stationId !== change.userStationId) {
+        throw new Error('Access denied: Purchase order does not belong to your station');
+      }
+
+      if (!purchaseOrderTransitions[order.status].includes(change.status)) {
+        throw new Error(`Purchase order ${order.orderNumber} cannot be moved from ${order.status} to ${change.status}`);
+      }
+
+      const update: Partial<typeof purchaseOrders.$inferInsert> = { status: change.status };
+      switch (change.status) {
+        case 'submitted': {
+          const [line] = await tx.select({ id: purchaseOrderItems.id }).from(purchaseOrderItems)
+            .where(eq(purchaseOrderItems.orderId, id))
+            .limit(1);
+          if (!line) {
+            throw new Error('A purchase order needs at least one line before it can be submitted');
+          }
+          break;
+        }
+        case 'approved': {
+          const [stationSettings] = await tx.select().from(settings).where(eq(settings.stationId, order.stationId));
+          const approvalLimit = parseFloat(stationSettings?.purchaseApprovalLimit || '500000');
+          if (change.userRole !== 'admin' && parseFloat(order.totalAmount) > approvalLimit) {
+            throw new Error(`Access denied: Purchase order total exceeds your approval limit of ${approvalLimit.toFixed(2)}`);
+          }
+          update.approvedBy = change.userId;
+          update.approvedAt = new Date();
+          break;
+        }
+        case 'draft':
+          // Returned for changes, so any earlier approval no longer stands
+          update.approvedBy = null;
+          update.approvedAt = null;
+          break;
+        case 'sent':
+          update.sentAt = new Date();
+          break;
+        case 'cancelled':
+          update.cancelReason = change.notes;
+          break;
+      }
+
+      const [updatedOrder] = await tx.update(purchaseOrders)
+        .set(update)
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+
+      await tx.insert(purchaseOrderStatusHistory).values({
+        orderId: id,
+        fromStatus: order.status,
+        toStatus: change.status,
+        userId: change.userId,
+        notes: change.notes,
+      });
+
+      return updatedOrder;
+    });
+  }
+
+  async getPurchaseOrderStatusHistory(orderId: string): Promise<any[]> {
+    return await this.db
+      .select({
+        id: purchaseOrderStatusHistory.id,
+        fromStatus: purchaseOrderStatusHistory.fromStatus,
+        toStatus: purchaseOrderStatusHistory.toStatus,
+        notes: purchaseOrderStatusHistory.notes,
+        userName: users.fullName,
+        createdAt: purchaseOrderStatusHistory.createdAt,
+      })
+      .from(purchaseOrderStatusHistory)
+      .leftJoin(users, eq(purchaseOrderStatusHistory.userId, users.id))
+      .where(eq(purchaseOrderStatusHistory.orderId, orderId))
+      .orderBy(purchaseOrderStatusHistory.createdAt);
+  }
+
+  async getPurchaseOrderDispatches(orderId: string): Promise<any[]> {
+    return await this.db
+      .select({
+        id: purchaseOrderDispatches.id,
+        recipient: purchaseOrderDispatches.recipient,
+        transport: purchaseOrderDispatches.transport,
+        status: purchaseOrderDispatches.status,
+        error: purchaseOrderDispatches.error,
+        userName: users.fullName,
+        createdAt: purchaseOrderDispatches.createdAt,
+      })
+      .from(purchaseOrderDispatches)
+      .leftJoin(users, eq(purchaseOrderDispatches.userId, users.id))
+      .where(eq(purchaseOrderDispatches.orderId, orderId))
+      .orderBy(desc(purchaseOrderDispatches.createdAt));
+  }
+
+  async logPurchaseOrderDispatch(dispatch: typeof purchaseOrderDispatches.$inferInsert): Promise<PurchaseOrderDispatch> {
+    const [logged] = await this.db.insert(purchaseOrderDispatches).values(dispatch).returning();
+    return logged;
+  }
+
+  async receivePurchaseOrder(id: string, receipt: ReceivePurchaseOrder & { userId: string; userStationId: string; userRole: string }): Promise<{ order: PurchaseOrder; items: PurchaseOrderItem[]; movements: StockMovement[]; deliveries: TankerDelivery[] }> {
+    return await this.db.transaction(async (tx) => {
+      // Lock the order so two receipts cannot over-receive the same lines
+      const [order] = await tx.select().from(purchaseOrders)
+        .where(eq(purchaseOrders.id, id))
+        .for('update');
+
+      if (!order) {
+        throw new Error('Purchase order not found');
+      }
+
+      if (receipt.userRole !== 'admin' && order.stationId !== receipt.userStationId) {
+        throw new Error('Access denied: Purchase order does not belong to your station');
+      }
+
+      if (!['approved', 'sent', 'partially_received'].includes(order.status)) {
+        throw new Error(`Purchase order ${order.orderNumber} is ${order.status} and cannot be received`);
+      }
+
+      const orderItems = await tx.select().from(purchaseOrderItems)
+        .where(eq(purchaseOrderItems.orderId, id));
+
+      const outstandingFor = (item: PurchaseOrderItem) =>
+        parseFloat(item.quantity) - parseFloat(item.receivedQuantity || '0');
+
+      // Charges billed with the delivery are for the goods on it, so they are spread over what
+      // is received now. Litres already in stock were costed before the charge was known.
+      const receiptCharges = new Map<string, number>();
+      const receivingByItem = new Map<string, number>();
+      if (receipt.charges?.length) {
+        await this.insertPurchaseOrderCharges(tx, id, receipt.charges);
+        for (const line of receipt.items) {
+          receivingByItem.set(line.orderItemId, (receivingByItem.get(line.orderItemId) || 0) + line.quantity);
+        }
+        const receivingLines = orderItems
+          .filter((item) => receivingByItem.has(item.id))
+          .map((item) => ({
+            id: item.id,
+            quantity: receivingByItem.get(item.id)!,
+            value: receivingByItem.get(item.id)! * parseFloat(item.unitPrice),
+          }));
+        const allocated = allocateLandedCosts(receivingLines, receipt.charges);
+        allocated.forEach((share, itemId) => receiptCharges.set(itemId, share));
+      }
+
+      const receivedByItem = new Map<string, number>();
+      const tankByItem = new Map<string, string>();
+      const movements: StockMovement[] = [];
+      const deliveries: TankerDelivery[] = [];
+
+      for (const line of receipt.items) {
+        const orderItem = orderItems.find((item) => item.id === line.orderItemId);
+        if (!orderItem) {
+          throw new Error(`Item ${line.orderItemId} is not part of this purchase order`);
+        }
+        const received = (receivedByItem.get(orderItem.id) || 0) + line.quantity;
+        receivedByItem.set(orderItem.id, received);
+        if (received > outstandingFor(orderItem) + 0.0005) {
+          throw new Error(`Cannot receive more than the ${outstandingFor(orderItem)} outstanding on this line`);
+        }
+
+        const [product] = await tx.select().from(products).where(eq(products.id, orderItem.productId));
+        const tankId = line.tankId || orderItem.tankId;
+        const measured = line.dipBefore !== undefined && line.dipAfter !== undefined;
+        if (!tankId) {
+          // Packaged goods are not held in tanks; fuel always has to go somewhere
+          if (product?.category === 'fuel') {
+            throw new Error(`Choose a tank to receive ${product.name} into`);
+          }
+          if (measured) {
+            throw new Error('Dips can only be recorded for deliveries into a tank');
+          }
+          continue;
+        }
+
+        const [tank] = await tx.select().from(tanks).where(eq(tanks.id, tankId)).for('update');
+        if (!tank || tank.stationId !== order.stationId || tank.productId !== orderItem.productId) {
+          throw new Error(`Tank ${tankId} does not hold this product at this station`);
+        }
+        assertTankInService(tank);
+
+        // With dips the tank takes what was actually unloaded, not what was invoiced
+        const observed = measured ? roundQuantity(line.dipAfter! - line.dipBefore!) : line.quantity;
+        const newStock = parseFloat(tank.currentStock || '0') + observed;
+        if (newStock > parseFloat(tank.capacity) + 0.0005) {
+          throw new Error(`Receiving ${observed} into ${tank.name} would exceed its capacity of ${tank.capacity}`);
+        }
+
+        if (measured) {
+          const density = line.density ?? (product?.density ? parseFloat(product.density) : undefined);
+          if (line.temperature !== undefined && density === undefined) {
+            throw new Error(`A density is needed to correct ${product?.name || 'this product'} to 15°C`);
+          }
+          const correctionFactor = line.temperature !== undefined ? volumeCorrectionFactor(density!, line.temperature) : 1;
+          const standardQuantity = roundQuantity(observed * correctionFactor);
+
+          const [delivery] = await tx.insert(tankerDeliveries).values({
+            stationId: order.stationId,
+            orderId: order.id,
+            orderItemId: orderItem.id,
+            supplierId: order.supplierId,
+            productId: orderItem.productId,
+            tankId,
+            userId: receipt.userId,
+            invoicedQuantity: line.quantity.toFixed(3),
+            dipBefore: line.dipBefore!.toFixed(2),
+            dipAfter: line.dipAfter!.toFixed(2),
+            observedQuantity: observed.toFixed(3),
+            temperature: line.temperature?.toFixed(2),
+            density: density?.toFixed(3),
+            correctionFactor: correctionFactor.toFixed(5),
+            standardQuantity: standardQuantity.toFixed(3),
+            varianceQuantity: roundQuantity(standardQuantity - line.quantity).toFixed(3),
+            deliveryDate: receipt.deliveryDate ?? new Date(),
+          }).returning();
+          deliveries.push(delivery);
+        }
+
+        // The invoiced litres are paid for at the landed cost; spread that value over what went into the tank
+        const receiptCharge = receiptCharges.get(orderItem.id) ?? 0;
+        const lineUnitCost = parseFloat(orderItem.landedUnitCost || orderItem.unitPrice)
+          + (receiptCharge > 0 ? receiptCharge / receivingByItem.get(orderItem.id)! : 0);
+        const receivedUnitCost = observed > 0 ? Math.round((line.quantity * lineUnitCost / observed) * 10000) / 10000 : lineUnitCost;
+
+        const movement = await this.applyStockMovement(tx, {
+          tankId,
+          stationId: order.stationId,
+          userId: receipt.userId,
+          movementType: 'in',
+          quantity: observed.toString(),
+          referenceType: 'purchase',
+          referenceId: order.id,
+          notes: receipt.notes || `Goods receipt - PO ${order.orderNumber}`,
+          unitCost: receivedUnitCost.toString(),
+        });
+        movements.push(movement);
+        tankByItem.set(orderItem.id, tankId);
+      }
+
+      const items: PurchaseOrderItem[] = [];
+      for (const orderItem of orderItems) {
+        const received = receivedByItem.get(orderItem.id);
+        if (received === undefined) {
+          items.push(orderItem);
+          continue;
+        }
+        const [updated] = await tx.update(purchaseOrderItems)
+          .set({
+            receivedQuantity: (parseFloat(orderItem.receivedQuantity || '0') + received).toFixed(3),
+            tankId: tankByItem.get(orderItem.id) ?? orderItem.tankId,
+            landedCost: roundMoney(parseFloat(orderItem.landedCost || '0') + (receiptCharges.get(orderItem.id) ?? 0)).toString(),
+          })
+          .where(eq(purchaseOrderItems.id, orderItem.id))
+          .returning();
+        items.push(updated);
+      }
+
+      // The order closes once every line is in; until then it stays partially received
+      const fullyReceived = items.every((item) => outstandingFor(item) <= 0.0005);
+      const [updatedOrder] = await tx.update(purchaseOrders)
+        .set(fullyReceived
+          ? { status: 'closed', actualDeliveryDate: receipt.deliveryDate ?? new Date() }
+          : { status: 'partially_received' })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+
+      if (updatedOrder.status !== order.status) {
+        await tx.insert(purchaseOrderStatusHistory).values({
+          orderId: id,
+          fromStatus: order.status,
+          toStatus: updatedOrder.status,
+          userId: receipt.userId,
+          notes: receipt.notes,
+        });
+      }
+
+      return { order: updatedOrder, items, movements, deliveries };
+    });
+  }
+
+  // Short and excess tanker deliveries per supplier, measured at 15°C against the invoiced litres
+  async getDeliveryVarianceReport(stationId: string, startDate: Date, endDate: Date): Promise<any> {
+    const deliveries = await this.db
+      .select({
+        id: tankerDeliveries.id,
+        deliveryDate: tankerDeliveries.deliveryDate,
+        supplierId: tankerDeliveries.supplierId,
+        supplierName: suppliers.name,
+        orderNumber: purchaseOrders.orderNumber,
+        productName: products.name,
+        tankName: tanks.name,
+        invoicedQuantity: tankerDeliveries.invoicedQuantity,
+        observedQuantity: tankerDeliveries.observedQuantity,
+        temperature: tankerDeliveries.temperature,
+        correctionFactor: tankerDeliveries.correctionFactor,
+        standardQuantity: tankerDeliveries.standardQuantity,
+        varianceQuantity: tankerDeliveries.varianceQuantity,
+      })
+      .from(tankerDeliveries)
+      .leftJoin(suppliers, eq(tankerDeliveries.supplierId, suppliers.id))
+      .leftJoin(purchaseOrders, eq(tankerDeliveries.orderId, purchaseOrders.id))
+      .leftJoin(products, eq(tankerDeliveries.productId, products.id))
+      .leftJoin(tanks, eq(tankerDeliveries.tankId, tanks.id))
+      .where(and(
+        eq(tankerDeliveries.stationId, stationId),
+        gte(tankerDeliveries.deliveryDate, startDate),
+        lte(tankerDeliveries.deliveryDate, endDate)
+      ))
+      .orderBy(desc(tankerDeliveries.deliveryDate));
+
+    const bySupplier = new Map<string, any>();
+    for (const delivery of deliveries) {
+      const summary = bySupplier.get(delivery.supplierId) ?? {
+        supplierId: delivery.supplierId,
+        supplierName: delivery.supplierName,
+        deliveries: 0,
+        shortDeliveries: 0,
+        excessDeliveries: 0,
+        invoicedQuantity: 0,
+        standardQuantity: 0,
+        varianceQuantity: 0,
+      };
+      const variance = parseFloat(delivery.varianceQuantity);
+      summary.deliveries += 1;
+      if (variance < 0) summary.shortDeliveries += 1;
+      if (variance > 0) summary.excessDeliveries += 1;
+      summary.invoicedQuantity = roundQuantity(summary.invoicedQuantity + parseFloat(delivery.invoicedQuantity));
+      summary.standardQuantity = roundQuantity(summary.standardQuantity + parseFloat(delivery.standardQuantity));
+      summary.varianceQuantity = roundQuantity(summary.varianceQuantity + variance);
+      bySupplier.set(delivery.supplierId, summary);
+    }
+
+    const suppliersSummary = Array.from(bySupplier.values()).map((summary) => ({
+      ...summary,
+      variancePercent: summary.invoicedQuantity > 0
+        ? Math.round(summary.varianceQuantity / summary.invoicedQuantity * 10000) / 100
+        : 0,
+    }));
+
+    return { suppliers: suppliersSummary, deliveries };
+  }
+
+  async getReorderSuggestions(stationId: string): Promise<{ forecasts: TankForecast[]; suggestions: ReorderSuggestion[] }> {
+    const stationTanks = await this.db
+      .select({ tank: tanks, productName: products.name })
+      .from(tanks)
+      .innerJoin(products, eq(tanks.productId, products.id))
+      .where(eq(tanks.stationId, stationId));
+
+    // Net litres sold per tank: sales out less product returned on credit notes
+    const since = new Date();
+    since.setDate(since.getDate() - SALES_LOOKBACK_DAYS);
+    const sales = await this.db
+      .select({
+        tankId: stockMovements.tankId,
+        movementType: stockMovements.movementType,
+        quantity: sum(stockMovements.quantity),
+      })
+      .from(stockMovements)
+      .where(and(
+        eq(stockMovements.stationId, stationId),
+        gte(stockMovements.movementDate, since),
+        inArray(stockMovements.referenceType, ['sale', 'credit_note']),
+        inArray(stockMovements.movementType, ['out', 'return'])
+      ))
+      .groupBy(stockMovements.tankId, stockMovements.movementType);
+    const salesByTank = new Map<string, number>();
+    for (const row of sales) {
+      const quantity = parseFloat(row.quantity || '0') * (row.movementType === 'out' ? 1 : -1);
+      salesByTank.set(row.tankId, (salesByTank.get(row.tankId) ?? 0) + quantity);
+    }
+
+    // Lines on open orders count towards the tank they are for; a line with no tank
+    // is only attributed when its product has a single tank at the station
+    const openLines = await this.db
+      .select({ item: purchaseOrderItems })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrderItems.orderId, purchaseOrders.id))
+      .where(and(
+        eq(purchaseOrders.stationId, stationId),
+        inArray(purchaseOrders.status, ['draft', 'submitted', 'approved', 'sent', 'partially_received'])
+      ));
+    const onOrderByTank = new Map<string, number>();
+    for (const { item } of openLines) {
+      const productTanks = stationTanks.filter(({ tank }) => tank.productId === item.productId);
+      const tankId = item.tankId ?? (productTanks.length === 1 ? productTanks[0].tank.id : null);
+      if (!tankId) continue;
+      const outstanding = parseFloat(item.quantity) - parseFloat(item.receivedQuantity || '0');
+      onOrderByTank.set(tankId, (onOrderByTank.get(tankId) ?? 0) + Math.max(0, outstanding));
+    }
+
+    // Each product is reordered from whoever supplied it last, at that price
+    const history = await this.db
+      .select({
+        productId: purchaseOrderItems.productId,
+        unitPrice: purchaseOrderItems.unitPrice,
+        supplierId: suppliers.id,
+        supplierName: suppliers.name,
+      })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrderItems.orderId, purchaseOrders.id))
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .where(and(eq(purchaseOrders.stationId, stationId), ne(purchaseOrders.status, 'cancelled')))
+      .orderBy(desc(purchaseOrders.orderDate));
+    const sources = new Map<string, SupplySource>();
+    for (const row of history) {
+      if (!sources.has(row.productId)) {
+        sources.set(row.productId, { supplierId: row.supplierId, supplierName: row.supplierName, unitPrice: parseFloat(row.unitPrice) });
+      }
+    }
+
+    const [stationSettings] = await this.db.select().from(settings).where(eq(settings.stationId, stationId));
+
+    return buildReorderSuggestions({
+      tanks: stationTanks.map(({ tank, productName }) => ({
+        id: tank.id,
+        name: tank.name,
+        productId: tank.productId,
+        productName,
+        capacity: parseFloat(tank.capacity),
+        currentStock: parseFloat(tank.currentStock || '0'),
+        minimumLevel: parseFloat(tank.minimumLevel || '0'),
+      })),
+      salesByTank,
+      onOrderByTank,
+      sources,
+      targetUllagePercent: parseFloat(stationSettings?.reorderTargetUllagePercent ?? '5'),
+      leadTimeDays: stationSettings?.reorderLeadTimeDays ?? 2,
+    });
+  }
+
+  // Stock on hand at cost by tank and product, with cost of goods sold and gross margin over the period
+  async getInventoryValuation(stationId: string, startDate: Date, endDate: Date): Promise<any> {
+    const [stationSettings] = await this.db.select({ costingMethod: settings.costingMethod })
+      .from(settings)
+      .where(eq(settings.stationId, stationId));
+    const costingMethod = stationSettings?.costingMethod ?? 'weighted_average';
+
+    const stationTanks = await this.db
+      .select({ tank: tanks, productName: products.name, unit: products.unit })
+      .from(tanks)
+      .innerJoin(products, eq(tanks.productId, products.id))
+      .where(eq(tanks.stationId, stationId))
+      .orderBy(tanks.name);
+
+    const openLayers = await this.db
+      .select({
+        tankId: stockCostLayers.tankId,
+        quantity: sum(stockCostLayers.remainingQuantity),
+        value: sql<string>`sum(${stockCostLayers.remainingQuantity} * ${stockCostLayers.unitCost})`,
+      })
+      .from(stockCostLayers)
+      .innerJoin(tanks, eq(stockCostLayers.tankId, tanks.id))
+      .where(and(eq(tanks.stationId, stationId), gt(stockCostLayers.remainingQuantity, '0')))
+      .groupBy(stockCostLayers.tankId);
+    const layersByTank = new Map(openLayers.map((row) => [row.tankId, row]));
+
+    const tankValues = stationTanks.map(({ tank, productName, unit }) => {
+      const stock = Math.max(0, parseFloat(tank.currentStock || '0'));
+      const averageCost = parseFloat(tank.averageCost || '0');
+      const layers = layersByTank.get(tank.id);
+      const layerQuantity = parseFloat(layers?.quantity || '0');
+
+      // Under FIFO the stock is worth what its open layers cost; anything the layers do not
+      // cover (stock that was on hand before costing started) is valued at the average
+      const value = costingMethod === 'fifo'
+        ? roundMoney(parseFloat(layers?.value || '0') + Math.max(0, stock - layerQuantity) * averageCost)
+        : roundMoney(stock * averageCost);
+
+      return {
+        tankId: tank.id,
+        tankName: tank.name,
+        productId: tank.productId,
+        productName,
+        unit,
+        quantity: roundQuantity(stock),
+        unitCost: stock > 0 ? Math.round((value / stock) * 10000) / 10000 : averageCost,
+        value,
+        uncostedQuantity: averageCost > 0 ? 0 : roundQuantity(Math.max(0, stock - layerQuantity)),
+      };
+    });
+
+    // Sales in the period net of anything since returned on a credit note
+    const soldItems = await this.db
+      .select({
+        productId: salesTransactionItems.productId,
+        quantity: salesTransactionItems.quantity,
+        returnedQuantity: salesTransactionItems.returnedQuantity,
+        totalPrice: salesTransactionItems.totalPrice,
+        costOfGoods: salesTransactionItems.costOfGoods,
+      })
+      .from(salesTransactionItems)
+      .innerJoin(salesTransactions, eq(salesTransactionItems.transactionId, salesTransactions.id))
+      .where(and(
+        eq(salesTransactions.stationId, stationId),
+        ne(salesTransactions.status, 'voided'),
+        gte(salesTransactions.transactionDate, startDate),
+        lte(salesTransactions.transactionDate, endDate)
+      ));
+
+    const byProduct = new Map<string, any>();
+    for (const tank of tankValues) {
+      const summary = byProduct.get(tank.productId) ?? {
+        productId: tank.productId,
+        productName: tank.productName,
+        unit: tank.unit,
+        quantity: 0,
+        value: 0,
+        salesQuantity: 0,
+        revenue: 0,
+        costOfGoods: 0,
+      };
+      summary.quantity = roundQuantity(summary.quantity + tank.quantity);
+      summary.value = roundMoney(summary.value + tank.value);
+      byProduct.set(tank.productId, summary);
+    }
+
+    for (const item of soldItems) {
+      const summary = byProduct.get(item.productId);
+      if (!summary) continue;
+      const quantity = parseFloat(item.quantity);
+      const kept = quantity > 0 ? Math.max(0, quantity - parseFloat(item.returnedQuantity || '0')) / quantity : 0;
+      summary.salesQuantity = roundQuantity(summary.salesQuantity + quantity * kept);
+      summary.revenue = roundMoney(summary.revenue + parseFloat(item.totalPrice) * kept);
+      summary.costOfGoods = roundMoney(summary.costOfGoods + parseFloat(item.costOfGoods || '0') * kept);
+    }
+
+    const productValues = Array.from(byProduct.values()).map((summary) => ({
+      ...summary,
+      averageUnitCost: summary.quantity > 0 ? Math.round((summary.value / summary.quantity) * 10000) / 10000 : 0,
+      grossMargin: roundMoney(summary.revenue - summary.costOfGoods),
+      grossMarginPercent: summary.revenue > 0
+        ? Math.round((summary.revenue - summary.costOfGoods) / summary.revenue * 10000) / 100
+        : 0,
+    }));
+
+    return {
+      costingMethod,
+      tanks: tankValues,
+      products: productValues,
+      totalValue: roundMoney(tankValues.reduce((total, tank) => total + tank.value, 0)),
+      totalCostOfGoods: roundMoney(productValues.reduce((total, product) => total + product.costOfGoods, 0)),
+      totalGrossMargin: roundMoney(productValues.reduce((total, product) => total + product.grossMargin, 0)),
+    };
+  }
+
+  // Opening dip + deliveries + transfers - meter sales against the closing dip, per tank and day
+  async getWetStockReconciliation(stationId: string, startDate: Date, endDate: Date): Promise<{ tolerancePercent: number; days: ReconciliationDay[]; alerts: ReconciliationAlert[] }> {
+    const firstDay = new Date(startDate);
+    firstDay.setHours(0, 0, 0, 0);
+    const days: Date[] = [];
+    for (const day = new Date(firstDay); day <= endDate; day.setDate(day.getDate() + 1)) {
+      days.push(new Date(day));
+    }
+    const periodEnd = new Date(firstDay);
+    periodEnd.setDate(periodEnd.getDate() + days.length);
+
+    const stationTanks = await this.db
+      .select({ id: tanks.id, name: tanks.name, productId: tanks.productId, productName: products.name })
+      .from(tanks)
+      .innerJoin(products, eq(tanks.productId, products.id))
+      .where(eq(tanks.stationId, stationId))
+      .orderBy(tanks.name);
+
+    // The first day opens on each tank's last dip before the period
+    const priorDips = await this.db
+      .selectDistinctOn([tankDipReadings.tankId], {
+        tankId: tankDipReadings.tankId,
+        readingDate: tankDipReadings.readingDate,
+        productVolume: tankDipReadings.productVolume,
+      })
+      .from(tankDipReadings)
+      .where(and(eq(tankDipReadings.stationId, stationId), sql`${tankDipReadings.readingDate} < ${firstDay}`))
+      .orderBy(tankDipReadings.tankId, desc(tankDipReadings.readingDate));
+    const periodDips = await this.db
+      .select({
+        tankId: tankDipReadings.tankId,
+        readingDate: tankDipReadings.readingDate,
+        productVolume: tankDipReadings.productVolume,
+      })
+      .from(tankDipReadings)
+      .where(and(
+        eq(tankDipReadings.stationId, stationId),
+        gte(tankDipReadings.readingDate, firstDay),
+        sql`${tankDipReadings.readingDate} < ${periodEnd}`
+      ))
+      .orderBy(tankDipReadings.readingDate);
+    const dips = [...priorDips, ...periodDips].map((dip) => ({
+      tankId: dip.tankId,
+      readingDate: dip.readingDate!,
+      productVolume: parseFloat(dip.productVolume),
+    }));
+
+    // Flows are needed from the earliest opening dip, which may be before the period
+    const flowsFrom = dips.reduce((earliest, dip) => (dip.readingDate < earliest ? dip.readingDate : earliest), firstDay);
+
+    const movements = await this.db
+      .select({
+        tankId: stockMovements.tankId,
+        movementType: stockMovements.movementType,
+        referenceType: stockMovements.referenceType,
+        quantity: stockMovements.quantity,
+        movementDate: stockMovements.movementDate,
+      })
+      .from(stockMovements)
+      .where(and(
+        eq(stockMovements.stationId, stationId),
+        gte(stockMovements.movementDate, flowsFrom),
+        sql`${stockMovements.movementDate} < ${periodEnd}`,
+        inArray(stockMovements.referenceType, ['purchase', 'transfer', 'sale', 'credit_note'])
+      ));
+    const deliveries = movements
+      .filter((movement) => movement.referenceType === 'purchase' && movement.movementType === 'in')
+      .map((movement) => ({ tankId: movement.tankId, date: movement.movementDate!, quantity: parseFloat(movement.quantity) }));
+    const transfers = movements
+      .filter((movement) => movement.referenceType === 'transfer')
+      .map((movement) => ({
+        tankId: movement.tankId,
+        date: movement.movementDate!,
+        quantity: parseFloat(movement.quantity) * (movement.movementType === 'out' ? -1 : 1),
+      }));
+    const bookSales = movements
+      .filter((movement) => movement.referenceType === 'sale' || movement.referenceType === 'credit_note')
+      .map((movement) => ({
+        tankId: movement.tankId,
+        date: movement.movementDate!,
+        quantity: parseFloat(movement.quantity) * (movement.movementType === 'out' ? 1 : -1),
+      }));
+
+    // Meter sales go to the pump's tank; a pump with no tank link counts only when its product has a single tank
+    const readings = await this.db
+      .select({
+        pumpTankId: pumps.tankId,
+        productId: pumpReadings.productId,
+        totalSale: pumpReadings.totalSale,
+        readingDate: pumpReadings.readingDate,
+      })
+      .from(pumpReadings)
+      .innerJoin(pumps, eq(pumpReadings.pumpId, pumps.id))
+      .where(and(
+        eq(pumpReadings.stationId, stationId),
+        gte(pumpReadings.readingDate, flowsFrom),
+        sql`${pumpReadings.readingDate} < ${periodEnd}`
+      ));
+    const meterSales: TankFlow[] = [];
+    for (const reading of readings) {
+      const productTanks = stationTanks.filter((tank) => tank.productId === reading.productId);
+      const tankId = reading.pumpTankId ?? (productTanks.length === 1 ? productTanks[0].id : null);
+      if (!tankId) continue;
+      meterSales.push({ tankId, date: reading.readingDate!, quantity: parseFloat(reading.totalSale) });
+    }
+
+    const [stationSettings] = await this.db.select().from(settings).where(eq(settings.stationId, stationId));
+    const tolerancePercent = parseFloat(stationSettings?.wetStockTolerancePercent ?? '0.5');
+
+    return {
+      tolerancePercent,
+      ...reconcileWetStock({
+        tanks: stationTanks.map((tank) => ({ id: tank.id, name: tank.name, productName: tank.productName })),
+        days,
+        dips: dips.sort((a, b) => a.readingDate.getTime() - b.readingDate.getTime()),
+        deliveries,
+        transfers,
+        meterSales,
+        bookSales,
+        tolerancePercent,
+      }),
+    };
+  }
+
+  // Every adjustment raised in the period with its outcome, and the posted litres and value by reason
+  async getAdjustmentRegister(stationId: string, startDate: Date, endDate: Date): Promise<any> {
+    const adjustments = await this.getStockAdjustments(stationId, { startDate, endDate });
+    const posted = adjustments.filter((adjustment) => adjustment.status === 'approved');
+
+    const byReason = (Object.keys(stockAdjustmentReasonLabels) as StockAdjustmentReason[]).map((reasonCode) => {
+      const lines = posted.filter((adjustment) => adjustment.reasonCode === reasonCode);
+      const quantities = lines.map((adjustment) => parseFloat(adjustment.quantity));
+      return {
+        reasonCode,
+        reason: stockAdjustmentReasonLabels[reasonCode],
+        count: lines.length,
+        gainQuantity: roundQuantity(quantities.filter((quantity) => quantity > 0).reduce((total, quantity) => total + quantity, 0)),
+        lossQuantity: roundQuantity(quantities.filter((quantity) => quantity < 0).reduce((total, quantity) => total - quantity, 0)),
+        netQuantity: roundQuantity(quantities.reduce((total, quantity) => total + quantity, 0)),
+        netValue: roundMoney(lines.reduce((total, adjustment) => total + parseFloat(adjustment.value), 0)),
+      };
+    });
+
+    return {
+      adjustments,
+      byReason,
+      totals: {
+        posted: posted.length,
+        pending: adjustments.filter((adjustment) => adjustment.status === 'pending').length,
+        rejected: adjustments.filter((adjustment) => adjustment.status === 'rejected').length,
+        netQuantity: roundQuantity(byReason.reduce((total, reason) => total + reason.netQuantity, 0)),
+        netValue: roundMoney(byReason.reduce((total, reason) => total + reason.netValue, 0)),
+      },
+    };
+  }
+
+  async getSupplierInvoices(stationId: string): Promise<(SupplierInvoice & { supplierName: string | null; orderNumber: string | null; items: (SupplierInvoiceItem & { productName: string | null })[] })[]> {
+    const invoices = await this.db
+      .select({
+        invoice: supplierInvoices,
+        supplierName: suppliers.name,
+        orderNumber: purchaseOrders.orderNumber,
+      })
+      .from(supplierInvoices)
+      .leftJoin(suppliers, eq(supplierInvoices.supplierId, suppliers.id))
+      .leftJoin(purchaseOrders, eq(supplierInvoices.orderId, purchaseOrders.id))
+      .where(eq(supplierInvoices.stationId, stationId))
+      .orderBy(desc(supplierInvoices.invoiceDate));
+
+    return await Promise.all(invoices.map(async ({ invoice, supplierName, orderNumber }) => {
+      const items = await this.db
+        .select({ item: supplierInvoiceItems, productName: products.name })
+        .from(supplierInvoiceItems)
+        .leftJoin(products, eq(supplierInvoiceItems.productId, products.id))
+        .where(eq(supplierInvoiceItems.invoiceId, invoice.id));
+      return {
+        ...invoice,
+        supplierName,
+        orderNumber,
+        items: items.map(({ item, productName }) => ({ ...item, productName })),
+      };
+    }));
+  }
+
+  // Three-way match: each invoiced line is checked against what was ordered and what was
+  // received, within the station's tolerances. Only a matched invoice becomes payable.
+  async captureSupplierInvoice(request: CaptureSupplierInvoice & { userId: string; userStationId: string; userRole: string }): Promise<{ invoice: SupplierInvoice; items: SupplierInvoiceItem[] }> {
+    return await this.db.transaction(async (tx) => {
+      // Lock the order so two invoices cannot both bill the same received quantity
+      const [order] = await tx.select().from(purchaseOrders)
+        .where(eq(purchaseOrders.id, request.orderId))
+        .for('update');
+
+      if (!order) {
+        throw new Error('Purchase order not found');
+      }
+
+      if (request.userRole !== 'admin' && order.stationId !== request.userStationId) {
+        throw new Error('Access denied: Purchase order does not belong to your station');
+      }
+
+      if (order.status === 'cancelled') {
+        throw new Error(`Purchase order ${order.orderNumber} is cancelled and cannot be invoiced`);
+      }
+
+      const [duplicate] = await tx.select({ id: supplierInvoices.id }).from(supplierInvoices)
+        .where(and(
+          eq(supplierInvoices.supplierId, order.supplierId),
+          eq(supplierInvoices.invoiceNumber, request.invoiceNumber)
+        ));
+      if (duplicate) {
+        throw new Error(`Invoice ${request.invoiceNumber} from this supplier has already been captured`);
+      }
+
+      const [stationSettings] = await tx.select().from(settings).where(eq(settings.stationId, order.stationId));
+      const quantityTolerance = parseFloat(stationSettings?.invoiceQuantityTolerancePercent ?? '0.5') / 100;
+      const priceTolerance = parseFloat(stationSettings?.invoicePriceTolerancePercent ?? '1') / 100;
+
+      const orderItems = await tx.select().from(purchaseOrderItems)
+        .where(eq(purchaseOrderItems.orderId, order.id));
+
+      // Quantities already billed on earlier invoices for this order; rejected invoices do not count
+      const previouslyInvoiced = await tx
+        .select({
+          orderItemId: supplierInvoiceItems.orderItemId,
+          quantity: sum(supplierInvoiceItems.quantity),
+        })
+        .from(supplierInvoiceItems)
+        .innerJoin(supplierInvoices, eq(supplierInvoiceItems.invoiceId, supplierInvoices.id))
+        .where(and(eq(supplierInvoices.orderId, order.id), ne(supplierInvoices.status, 'rejected')))
+        .groupBy(supplierInvoiceItems.orderItemId);
+      const invoicedByItem = new Map(previouslyInvoiced.map((row) => [row.orderItemId, parseFloat(row.quantity || '0')]));
+
+      const lines = request.items.map((line) => {
+        const orderItem = orderItems.find((item) => item.id === line.orderItemId);
+        if (!orderItem) {
+          throw new Error(`Item ${line.orderItemId} is not part of this purchase order`);
+        }
+
+        const invoiced = (invoicedByItem.get(orderItem.id) || 0) + line.quantity;
+        invoicedByItem.set(orderItem.id, invoiced);
+
+        const ordered = parseFloat(orderItem.quantity);
+        const received = parseFloat(orderItem.receivedQuantity || '0');
+        const orderUnitPrice = parseFloat(orderItem.unitPrice);
+
+        // Only over-billing is an exception; an invoice for less than was received is fine
+        const matchExceptions: string[] = [];
+        if (invoiced > received * (1 + quantityTolerance) + 0.0005) {
+          matchExceptions.push(`Invoiced quantity ${invoiced} exceeds received ${received}`);
+        }
+        if (invoiced > ordered * (1 + quantityTolerance) + 0.0005) {
+          matchExceptions.push(`Invoiced quantity ${invoiced} exceeds ordered ${ordered}`);
+        }
+        if (line.unitPrice > orderUnitPrice * (1 + priceTolerance) + 0.005) {
+          matchExceptions.push(`Unit price ${line.unitPrice.toFixed(2)} is above the PO price of ${orderUnitPrice.toFixed(2)}`);
+        }
+
+        return {
+          orderItem,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          totalPrice: roundMoney(line.quantity * line.unitPrice),
+          ordered,
+          received,
+          orderUnitPrice,
+          matchExceptions,
+        };
+      });
+
+      const subtotal = roundMoney(lines.reduce((total, line) => total + line.totalPrice, 0));
+      const totalAmount = roundMoney(subtotal + request.taxAmount);
+      const status = lines.some((line) => line.matchExceptions.length > 0) ? 'blocked' : 'matched';
+
+      const [invoice] = await tx.insert(supplierInvoices).values({
+        stationId: order.stationId,
+        supplierId: order.supplierId,
+        orderId: order.id,
+        userId: request.userId,
+        invoiceNumber: request.invoiceNumber,
+        invoiceDate: request.invoiceDate,
+        dueDate: request.dueDate,
+        status,
+        currencyCode: order.currencyCode,
+        subtotal: subtotal.toFixed(2),
+        taxAmount: request.taxAmount.toFixed(2),
+        totalAmount: totalAmount.toFixed(2),
+        notes: request.notes,
+      }).returning();
+
+      const items: SupplierInvoiceItem[] = [];
+      for (const line of lines) {
+        const [item] = await tx.insert(supplierInvoiceItems).values({
+          invoiceId: invoice.id,
+          orderItemId: line.orderItem.id,
+          productId: line.orderItem.productId,
+          quantity: line.quantity.toString(),
+          unitPrice: line.unitPrice.toFixed(2),
+          totalPrice: line.totalPrice.toFixed(2),
+          orderedQuantity: line.ordered.toString(),
+          receivedQuantity: line.received.toString(),
+          orderUnitPrice: line.orderUnitPrice.toFixed(2),
+          matchExceptions: line.matchExceptions,
+        }).returning();
+        items.push(item);
+      }
+
+      // A blocked invoice is held back from payables until a manager approves it
+      if (status === 'matched') {
+        await tx.update(suppliers)
+          .set({ outstandingAmount: sql`${suppliers.outstandingAmount} + ${totalAmount}` })
+          .where(eq(suppliers.id, order.supplierId));
+      }
+
+      return { invoice, items };
+    });
+  }
+
+  async reviewSupplierInvoice(id: string, review: ReviewSupplierInvoice & { userId: string; userStationId: string; userRole: string }): Promise<SupplierInvoice> {
+    return await this.db.transaction(async (tx) => {
+      const [invoice] = await tx.select().from(supplierInvoices)
+        .where(eq(supplierInvoices.id, id))
+        .for('update');
+
+      if (!invoice) {
+        throw new Error('Supplier invoice not found');
+      }
+
+      if (review.userRole !== 'admin' && invoice.stationId !== review.userStationId) {
+        throw new Error('Access denied: Supplier invoice does not belong to your station');
+      }
+
+      if (invoice.status !== 'blocked') {
+        throw new Error(`Invoice ${invoice.invoiceNumber} is ${invoice.status}; only blocked invoices can be reviewed`);
+      }
+
+      const [updated] = await tx.update(supplierInvoices)
+        .set({
+          status: review.decision,
+          reviewedBy: review.userId,
+          reviewedAt: new Date(),
+          reviewNotes: review.notes,
+        })
+        .where(eq(supplierInvoices.id, id))
+        .returning();
+
+      if (review.decision === 'approved') {
+        await tx.update(suppliers)
+          .set({ outstandingAmount: sql`${suppliers.outstandingAmount} + ${parseFloat(invoice.totalAmount)}` })
+          .where(eq(suppliers.id, invoice.supplierId));
+      }
+
+      return updated;
+    });
+  }
+
   async getDailyReport(stationId: string, date: Date): Promise<any> {
     const startOfDay = new Date(date);
     startOfDay.setHours(0, 0, 0, 0);
     const endOfDay = new Date(date);
     endOfDay.setHours(23, 59, 59, 999);
 
-    // Sales by payment method
-    const salesByMethod = await this.db
+    // Sales by tender line, so split payments land under each method used
+    const salesByMethod = await this.getTenderReport(stationId, startOfDay, endOfDay);
+
+    const [discounts] = await this.db
       .select({
-        paymentMethod: salesTransactions.paymentMethod,
-        totalAmount: sum(salesTransactions.totalAmount),
-        count: sql<number>`count(*)`,
-        currencyCode: salesTransactions.currencyCode
+        totalDiscounts: sum(salesTransactions.discountAmount),
+        discountedSales: sql<number>`count(*) filter (where ${salesTransactions.discountAmount} > 0)`,
       })
       .from(salesTransactions)
       .where(
         and(
           eq(salesTransactions.stationId, stationId),
+          ne(salesTransactions.status, 'voided'),
           gte(salesTransactions.transactionDate, startOfDay),
           lte(salesTransactions.transactionDate, endOfDay)
         )
-      )
-      .groupBy(salesTransactions.paymentMethod, salesTransactions.currencyCode);
+      );
 
     // Expenses
     const dailyExpenses = await this.db
@@ -1097,9 +4090,13 @@ export class DatabaseStorage implements IStorage {
       )
       .groupBy(expenses.category, expenses.currencyCode);
 
+    const returns = await this.getReturnsCredited(stationId, startOfDay, endOfDay);
+
     return {
       date,
       salesByMethod,
+      discounts,
+      returns,
       expenses: dailyExpenses
     };
   }
@@ -1185,6 +4182,8 @@ export class DatabaseStorage implements IStorage {
           .where(
             and(
               eq(purchaseOrders.stationId, stationId),
+              // Orders still being drafted or approved, and cancelled ones, are not owed
+              inArray(purchaseOrders.status, ['sent', 'partially_received', 'closed']),
               sql`${purchaseOrders.totalAmount} - ${purchaseOrders.paidAmount} > 0`
             )
           )
@@ -1221,6 +4220,64 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getDocumentSequences(stationId: string): Promise<DocumentSequence[]> {
+    await this.db.insert(documentSequences)
+      .values(DOCUMENT_TYPES.map((documentType) => ({
+        stationId,
+        documentType,
+        prefix: DEFAULT_DOCUMENT_PREFIXES[documentType],
+      })))
+      .onConflictDoNothing();
+
+    return await this.db.select()
+      .from(documentSequences)
+      .where(eq(documentSequences.stationId, stationId))
+      .orderBy(documentSequences.documentType);
+  }
+
+  async updateDocumentSequence(stationId: string, documentType: DocumentType, data: UpdateDocumentSequence): Promise<DocumentSequence> {
+    await this.getDocumentSequences(stationId);
+
+    const [sequence] = await this.db.update(documentSequences)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(
+        eq(documentSequences.stationId, stationId),
+        eq(documentSequences.documentType, documentType)
+      ))
+      .returning();
+    if (!sequence) throw new Error("Document sequence not found");
+    return sequence;
+  }
+
+  // Allocates the next number in the caller's transaction. The sequence row stays
+  // locked until that transaction ends, so concurrent terminals queue behind it and
+  // a rolled-back document releases its number instead of leaving a gap.
+  private async nextDocumentNumber(tx: DbTransaction, stationId: string, documentType: DocumentType): Promise<string> {
+    await tx.insert(documentSequences)
+      .values({ stationId, documentType, prefix: DEFAULT_DOCUMENT_PREFIXES[documentType] })
+      .onConflictDoNothing();
+
+    const [sequence] = await tx.select()
+      .from(documentSequences)
+      .where(and(
+        eq(documentSequences.stationId, stationId),
+        eq(documentSequences.documentType, documentType)
+      ))
+      .for('update');
+
+    // Moving the fiscal year start can put today in an earlier fiscal year than the last number
+    // issued. Numbering then carries on in the later year rather than restarting into numbers
+    // that are already taken.
+    const fiscalYear = Math.max(fiscalYearFor(new Date(), sequence.fiscalYearStartMonth), sequence.fiscalYear ?? 0);
+    const nextNumber = sequence.fiscalYear === fiscalYear ? sequence.lastNumber + 1 : 1;
+
+    await tx.update(documentSequences)
+      .set({ fiscalYear, lastNumber: nextNumber, updatedAt: new Date() })
+      .where(eq(documentSequences.id, sequence.id));
+
+    return formatDocumentNumber(sequence, fiscalYear, nextNumber);
+  }
+
   async getSettings(stationId: string): Promise<Settings | undefined> {
     const [setting] = await this.db.select().from(settings).where(eq(settings.stationId, stationId));
     return setting || undefined;
@@ -1248,6 +4305,7 @@ export class DatabaseStorage implements IStorage {
         name: pumps.name,
         pumpNumber: pumps.pumpNumber,
         productId: pumps.productId,
+        tankId: pumps.tankId,
         isActive: pumps.isActive,
         createdAt: pumps.createdAt,
         product: {
@@ -1270,12 +4328,33 @@ export class DatabaseStorage implements IStorage {
     return result as (Pump & { product?: Product })[];
   }
 
+  // A pump can only be linked to a tank at its own station holding the product it dispenses
+  private async assertPumpTank(stationId: string, productId: string, tankId: string): Promise<void> {
+    const tank = await this.getTank(tankId);
+    if (!tank || tank.stationId !== stationId) {
+      throw new Error("Linked tank not found at this station");
+    }
+    if (tank.productId !== productId) {
+      throw new Error("Linked tank holds a different product from the pump");
+    }
+  }
+
   async createPump(data: any): Promise<Pump> {
+    if (data.tankId) {
+      await this.assertPumpTank(data.stationId, data.productId, data.tankId);
+    }
     const [pump] = await this.db.insert(pumps).values(data).returning();
     return pump;
   }
 
   async updatePump(id: string, data: any): Promise<Pump> {
+    if (data.tankId) {
+      const [existing] = await this.db.select().from(pumps).where(eq(pumps.id, id));
+      if (!existing) {
+        throw new Error("Pump not found");
+      }
+      await this.assertPumpTank(existing.stationId, data.productId ?? existing.productId, data.tankId);
+    }
     const [pump] = await this.db.update(pumps)
       .set(data)
       .where(eq(pumps.id, id))
@@ -1307,6 +4386,7 @@ export class DatabaseStorage implements IStorage {
           name: pumps.name,
           pumpNumber: pumps.pumpNumber,
           productId: pumps.productId,
+          tankId: pumps.tankId,
           isActive: pumps.isActive,
           stationId: pumps.stationId,
           createdAt: pumps.createdAt
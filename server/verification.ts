@@ -0,0 +1,23 @@
+import crypto from "crypto";
+
+const RECEIPT_SECRET = process.env.RECEIPT_SECRET || process.env.JWT_SECRET || "your-super-secret-receipt-key-change-this-in-production";
+
+function sign(id: string): string {
+  return crypto.createHmac("sha256", RECEIPT_SECRET).update(id).digest("base64url").slice(0, 22);
+}
+
+// Receipt verification token: a random id plus its HMAC, so the public route
+// can reject guessed or altered tokens before touching the database
+export function generateReceiptToken(): string {
+  const id = crypto.randomBytes(16).toString("base64url");
+  return `${id}.${sign(id)}`;
+}
+
+export function isValidReceiptToken(token: string): boolean {
+  const [id, signature] = token.split(".");
+  if (!id || !signature) return false;
+
+  const expected = Buffer.from(sign(id));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
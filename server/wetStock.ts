@@ -0,0 +1,179 @@
+// Daily wet-stock reconciliation: what the dips say is in each tank against what the pumps and
+// deliveries say should be there
+
+export interface ReconciliationTank {
+  id: string;
+  name: string;
+  productName: string;
+}
+
+export interface DipPoint {
+  tankId: string;
+  readingDate: Date;
+  productVolume: number;
+}
+
+// A quantity of product moved in or out of a tank at a point in time
+export interface TankFlow {
+  tankId: string;
+  date: Date;
+  quantity: number;
+}
+
+export interface ReconciliationDay {
+  tankId: string;
+  tankName: string;
+  productName: string;
+  date: string; // yyyy-mm-dd
+  openingDip: number | null;
+  openingDipAt: Date | null;
+  closingDip: number | null;
+  closingDipAt: Date | null;
+  deliveries: number;
+  transfers: number; // Net litres transferred in from (or out to) other tanks
+  meterSales: number;
+  bookSales: number; // Sales posted through the till, for comparison with the meters
+  expectedClosing: number | null;
+  variance: number | null; // Closing dip less expected; negative is a loss
+  variancePercent: number | null;
+  cumulativeVariance: number;
+  cumulativeSales: number;
+  cumulativeVariancePercent: number;
+  status: 'ok' | 'alert' | 'incomplete';
+}
+
+export interface ReconciliationAlert {
+  tankId: string;
+  tankName: string;
+  date: string;
+  type: 'daily' | 'cumulative';
+  variance: number;
+  variancePercent: number;
+  message: string;
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function dateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function sumBetween(flows: TankFlow[], tankId: string, after: Date, upTo: Date): number {
+  return flows
+    .filter((flow) => flow.tankId === tankId && flow.date > after && flow.date <= upTo)
+    .reduce((total, flow) => total + flow.quantity, 0);
+}
+
+// A day closes on its last dip and opens on the last dip before it, so the flows counted are
+// exactly those between the two readings. Days without both dips cannot be reconciled.
+// Variance is given as a percentage of meter sales, the usual wet-stock measure; on a day with
+// no sales it is taken against the opening stock instead.
+export function reconcileWetStock(input: {
+  tanks: ReconciliationTank[];
+  days: Date[]; // Midnight at the start of each day to reconcile, in order
+  dips: DipPoint[]; // Oldest first, including the last dip before the first day
+  deliveries: TankFlow[];
+  transfers: TankFlow[]; // Inbound positive, outbound negative
+  meterSales: TankFlow[];
+  bookSales: TankFlow[];
+  tolerancePercent: number;
+}): { days: ReconciliationDay[]; alerts: ReconciliationAlert[] } {
+  const days: ReconciliationDay[] = [];
+  const alerts: ReconciliationAlert[] = [];
+
+  for (const tank of input.tanks) {
+    const tankDips = input.dips.filter((dip) => dip.tankId === tank.id);
+    let cumulativeVariance = 0;
+    let cumulativeSales = 0;
+
+    for (const dayStart of input.days) {
+      const dayEnd = new Date(dayStart);
+      dayEnd.setDate(dayEnd.getDate() + 1);
+
+      const closing = [...tankDips].reverse().find((dip) => dip.readingDate >= dayStart && dip.readingDate < dayEnd) ?? null;
+      const opening = [...tankDips].reverse().find((dip) => dip.readingDate < dayStart) ?? null;
+      const windowStart = opening?.readingDate ?? dayStart;
+      const windowEnd = closing?.readingDate ?? dayEnd;
+
+      const deliveries = round3(sumBetween(input.deliveries, tank.id, windowStart, windowEnd));
+      const transfers = round3(sumBetween(input.transfers, tank.id, windowStart, windowEnd));
+      const meterSales = round3(sumBetween(input.meterSales, tank.id, windowStart, windowEnd));
+      const bookSales = round3(sumBetween(input.bookSales, tank.id, windowStart, windowEnd));
+
+      const day: ReconciliationDay = {
+        tankId: tank.id,
+        tankName: tank.name,
+        productName: tank.productName,
+        date: dateKey(dayStart),
+        openingDip: opening?.productVolume ?? null,
+        openingDipAt: opening?.readingDate ?? null,
+        closingDip: closing?.productVolume ?? null,
+        closingDipAt: closing?.readingDate ?? null,
+        deliveries,
+        transfers,
+        meterSales,
+        bookSales,
+        expectedClosing: null,
+        variance: null,
+        variancePercent: null,
+        cumulativeVariance: round3(cumulativeVariance),
+        cumulativeSales: round3(cumulativeSales),
+        cumulativeVariancePercent: cumulativeSales > 0 ? round2(cumulativeVariance / cumulativeSales * 100) : 0,
+        status: 'incomplete',
+      };
+
+      if (opening && closing) {
+        const expectedClosing = round3(opening.productVolume + deliveries + transfers - meterSales);
+        const variance = round3(closing.productVolume - expectedClosing);
+        const basis = meterSales > 0 ? meterSales : opening.productVolume;
+        const variancePercent = basis > 0 ? round2(variance / basis * 100) : 0;
+
+        cumulativeVariance += variance;
+        cumulativeSales += meterSales;
+        const cumulativeVariancePercent = cumulativeSales > 0 ? round2(cumulativeVariance / cumulativeSales * 100) : 0;
+
+        Object.assign(day, {
+          expectedClosing,
+          variance,
+          variancePercent,
+          cumulativeVariance: round3(cumulativeVariance),
+          cumulativeSales: round3(cumulativeSales),
+          cumulativeVariancePercent,
+          status: Math.abs(variancePercent) > input.tolerancePercent ? 'alert' : 'ok',
+        });
+
+        if (day.status === 'alert') {
+          alerts.push({
+            tankId: tank.id,
+            tankName: tank.name,
+            date: day.date,
+            type: 'daily',
+            variance,
+            variancePercent,
+            message: `${variance < 0 ? 'Loss' : 'Gain'} of ${Math.abs(variance).toLocaleString()} L (${variancePercent}%) is outside the ${input.tolerancePercent}% tolerance`,
+          });
+        }
+      }
+
+      days.push(day);
+    }
+
+    // A steady loss that stays inside the daily tolerance still shows in the running total,
+    // which is how slow leaks and small regular thefts come to light
+    const last = [...days].reverse().find((day) => day.tankId === tank.id && day.status !== 'incomplete');
+    if (last && last.cumulativeSales > 0 && Math.abs(last.cumulativeVariancePercent) > input.tolerancePercent) {
+      alerts.push({
+        tankId: tank.id,
+        tankName: tank.name,
+        date: last.date,
+        type: 'cumulative',
+        variance: last.cumulativeVariance,
+        variancePercent: last.cumulativeVariancePercent,
+        message: `Cumulative ${last.cumulativeVariance < 0 ? 'loss' : 'gain'} of ${Math.abs(last.cumulativeVariance).toLocaleString()} L (${last.cumulativeVariancePercent}% of sales) over the period`,
+      });
+    }
+  }
+
+  return { days, alerts };
+}
@@ -0,0 +1,122 @@
+import type { CustomerPriceAgreement, Customer, Product, Promotion } from "./schema";
+
+// Only these customer types are eligible for negotiated pricing
+export const AGREEMENT_CUSTOMER_TYPES: Customer['type'][] = ['fleet', 'credit'];
+
+// Picks the agreement that applies to a product at a point in time.
+// A product-specific agreement wins over a customer-wide one; among equals
+// the most recently started agreement wins.
+export function findPriceAgreement(
+  agreements: CustomerPriceAgreement[],
+  productId: string,
+  at: Date = new Date()
+): CustomerPriceAgreement | undefined {
+  const applicable = agreements.filter((agreement) =>
+    agreement.isActive !== false &&
+    (!agreement.productId || agreement.productId === productId) &&
+    new Date(agreement.validFrom) <= at &&
+    (!agreement.validTo || new Date(agreement.validTo) >= at)
+  );
+
+  return applicable.sort((a, b) => {
+    if (!!a.productId !== !!b.productId) return a.productId ? -1 : 1;
+    return new Date(b.validFrom).getTime() - new Date(a.validFrom).getTime();
+  })[0];
+}
+
+// Unit price after applying an agreement, rounded to 2 decimals and never negative
+export function agreedUnitPrice(listPrice: number, agreement?: CustomerPriceAgreement): number {
+  if (!agreement) return listPrice;
+
+  const value = parseFloat(agreement.value);
+  let price: number;
+  switch (agreement.type) {
+    case 'fixed_discount':
+      price = listPrice - value;
+      break;
+    case 'percentage_discount':
+      price = listPrice * (1 - value / 100);
+      break;
+    case 'fixed_price':
+      price = value;
+      break;
+  }
+
+  return Math.max(0, Math.round(price * 100) / 100);
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// True when the promotion is enabled, within its date range and inside its daily time window.
+// A window whose end is before its start runs across midnight (e.g. 22:00-06:00).
+export function isPromotionActive(promotion: Promotion, at: Date = new Date()): boolean {
+  if (promotion.isActive === false) return false;
+  if (new Date(promotion.validFrom) > at) return false;
+  if (promotion.validTo && new Date(promotion.validTo) < at) return false;
+  if (!promotion.startTime || !promotion.endTime) return true;
+
+  const now = at.getHours() * 60 + at.getMinutes();
+  const start = minutesOfDay(promotion.startTime);
+  const end = minutesOfDay(promotion.endTime);
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+}
+
+// Discount a promotion gives on one line, rounded to 2 decimals and capped at the line total
+export function promotionDiscount(promotion: Promotion, unitPrice: number, quantity: number): number {
+  const gross = unitPrice * quantity;
+  const value = parseFloat(promotion.value || '0');
+  let discount = 0;
+  switch (promotion.type) {
+    case 'percentage':
+      discount = gross * value / 100;
+      break;
+    case 'amount_per_unit':
+      discount = Math.min(value, unitPrice) * quantity;
+      break;
+    case 'buy_x_get_y': {
+      const buy = promotion.buyQuantity || 0;
+      const get = promotion.getQuantity || 0;
+      if (buy > 0 && get > 0) {
+        discount = Math.floor(quantity / (buy + get)) * get * unitPrice;
+      }
+      break;
+    }
+  }
+
+  return Math.min(gross, Math.round(discount * 100) / 100);
+}
+
+// Picks the single promotion giving the largest discount on a line; promotions do not stack
+export function findBestPromotion(
+  promotions: Promotion[],
+  product: Pick<Product, 'id' | 'category'>,
+  unitPrice: number,
+  quantity: number,
+  at: Date = new Date()
+): { promotion: Promotion; discount: number } | undefined {
+  let best: { promotion: Promotion; discount: number } | undefined;
+  for (const promotion of promotions) {
+    if (promotion.productId && promotion.productId !== product.id) continue;
+    if (promotion.productCategory && promotion.productCategory !== product.category) continue;
+    if (!isPromotionActive(promotion, at)) continue;
+
+    const discount = promotionDiscount(promotion, unitPrice, quantity);
+    if (discount > 0 && (!best || discount > best.discount)) {
+      best = { promotion, discount };
+    }
+  }
+  return best;
+}
+
+// Manual discount on what is left of the line after promotions, rounded to 2 decimals
+export function manualDiscountAmount(
+  manual: { type: 'percentage' | 'amount'; value: number } | undefined,
+  remaining: number
+): number {
+  if (!manual || remaining <= 0) return 0;
+  const discount = manual.type === 'percentage' ? remaining * Math.min(manual.value, 100) / 100 : manual.value;
+  return Math.min(remaining, Math.round(discount * 100) / 100);
+}
@@ -1,16 +1,37 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, decimal, integer, timestamp, boolean, jsonb, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, decimal, integer, timestamp, boolean, jsonb, pgEnum, unique } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { CalibrationPoint } from "./strapping";
 
 // Enums
 export const userRoleEnum = pgEnum('user_role', ['admin', 'manager', 'cashier']);
-export const paymentMethodEnum = pgEnum('payment_method', ['cash', 'card', 'credit', 'fleet']);
+export const paymentMethodEnum = pgEnum('payment_method', ['cash', 'card', 'credit', 'fleet', 'mobile_wallet', 'split']);
 export const transactionTypeEnum = pgEnum('transaction_type', ['sale', 'purchase', 'expense', 'payment']);
 export const tankStatusEnum = pgEnum('tank_status', ['normal', 'low', 'critical', 'maintenance']);
 export const customerTypeEnum = pgEnum('customer_type', ['walk-in', 'credit', 'fleet']);
 export const currencyCodeEnum = pgEnum('currency_code', ['PKR', 'INR', 'USD', 'EUR', 'GBP', 'AED', 'SAR', 'CNY']);
+export const documentTypeEnum = pgEnum('document_type', ['sale', 'purchase_order', 'payment_receipt', 'credit_note', 'stock_transfer']);
+export const saleStatusEnum = pgEnum('sale_status', ['completed', 'partially_returned', 'returned', 'voided']);
+export const priceAgreementTypeEnum = pgEnum('price_agreement_type', ['fixed_discount', 'percentage_discount', 'fixed_price']);
+export const promotionTypeEnum = pgEnum('promotion_type', ['percentage', 'amount_per_unit', 'buy_x_get_y']);
+export const creditNoteTypeEnum = pgEnum('credit_note_type', ['void', 'return']);
+export const supplierInvoiceStatusEnum = pgEnum('supplier_invoice_status', ['matched', 'blocked', 'approved', 'rejected']);
+export const purchaseOrderStatusEnum = pgEnum('purchase_order_status', ['draft', 'submitted', 'approved', 'sent', 'partially_received', 'closed', 'cancelled']);
+export const dispatchStatusEnum = pgEnum('dispatch_status', ['sent', 'failed']);
+export const landedCostTypeEnum = pgEnum('landed_cost_type', ['freight', 'carriage', 'handling', 'insurance', 'duty', 'other']);
+export const costAllocationMethodEnum = pgEnum('cost_allocation_method', ['quantity', 'value']);
+export const costingMethodEnum = pgEnum('costing_method', ['weighted_average', 'fifo']);
+export const dipUnitEnum = pgEnum('dip_unit', ['mm', 'cm']);
+export const stockTransferStatusEnum = pgEnum('stock_transfer_status', ['in_transit', 'completed', 'cancelled']);
+export const stockAdjustmentReasonEnum = pgEnum('stock_adjustment_reason', ['evaporation', 'spillage', 'calibration', 'theft', 'water_drain']);
+export const stockAdjustmentStatusEnum = pgEnum('stock_adjustment_status', ['pending', 'approved', 'rejected']);
+export const tankStatusChangeReasonEnum = pgEnum('tank_status_change_reason', ['created', 'movement', 'thresholds', 'maintenance']);
+export const maintenanceTypeEnum = pgEnum('maintenance_type', ['cleaning', 'calibration', 'inspection']);
+export const maintenanceStatusEnum = pgEnum('maintenance_status', ['scheduled', 'in_progress', 'completed', 'cancelled']);
+export const atgAdapterTypeEnum = pgEnum('atg_adapter_type', ['tls_tcp', 'simulator']);
+export const atgDeliverySourceEnum = pgEnum('atg_delivery_source', ['console', 'detected']);
 
 // Users table
 export const users = pgTable("users", {
@@ -61,9 +82,12 @@ export const tanks = pgTable("tanks", {
   productId: varchar("product_id").notNull(),
   capacity: decimal("capacity", { precision: 10, scale: 2 }).notNull(),
   currentStock: decimal("current_stock", { precision: 10, scale: 2 }).default('0'),
-  minimumLevel: decimal("minimum_level", { precision: 10, scale: 2 }).default('500'),
-  status: tankStatusEnum("status").default('normal'),
+  minimumLevel: decimal("minimum_level", { precision: 10, scale: 2 }).default('500'), // At or below this the tank is low
+  criticalLevel: decimal("critical_level", { precision: 10, scale: 2 }), // At or below this it is critical; half the minimum level when empty
+  status: tankStatusEnum("status").default('normal'), // Derived from the levels above on every stock movement, or 'maintenance' while out of service
   lastRefillDate: timestamp("last_refill_date"),
+  averageCost: decimal("average_cost", { precision: 12, scale: 4 }).default('0'), // Running weighted-average cost per unit in the tank
+  atgTankNumber: integer("atg_tank_number"), // The tank's number on the station's ATG console; empty for tanks without a probe
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -82,6 +106,40 @@ export const customers = pgTable("customers", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Negotiated prices for fleet and credit customers. A null productId applies to every product.
+export const customerPriceAgreements = pgTable("customer_price_agreements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  customerId: varchar("customer_id").notNull(),
+  productId: varchar("product_id"),
+  type: priceAgreementTypeEnum("type").notNull(),
+  value: decimal("value", { precision: 10, scale: 3 }).notNull(), // Discount per unit, percentage, or fixed unit price
+  validFrom: timestamp("valid_from").notNull().defaultNow(),
+  validTo: timestamp("valid_to"),
+  isActive: boolean("is_active").default(true),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Promotions. Scope by product, by product category, or neither for everything;
+// optional daily time window (e.g. night-time fuel discounts) and date range.
+export const promotions = pgTable("promotions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stationId: varchar("station_id"), // Null applies to every station
+  name: text("name").notNull(),
+  type: promotionTypeEnum("type").notNull(),
+  value: decimal("value", { precision: 10, scale: 2 }).default('0'), // Percent or amount off per unit
+  buyQuantity: integer("buy_quantity"),
+  getQuantity: integer("get_quantity"),
+  productId: varchar("product_id"),
+  productCategory: text("product_category"), // fuel, lubricant, additive
+  startTime: text("start_time"), // HH:MM, local station time
+  endTime: text("end_time"), // HH:MM; may be earlier than startTime to span midnight
+  validFrom: timestamp("valid_from").notNull().defaultNow(),
+  validTo: timestamp("valid_to"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Suppliers table
 export const suppliers = pgTable("suppliers", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -100,22 +158,31 @@ export const suppliers = pgTable("suppliers", {
 // Sales transactions table
 export const salesTransactions = pgTable("sales_transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  invoiceNumber: text("invoice_number").notNull().unique(),
+  invoiceNumber: text("invoice_number").notNull(),
   stationId: varchar("station_id").notNull(),
   customerId: varchar("customer_id").notNull(),
   userId: varchar("user_id").notNull(),
   transactionDate: timestamp("transaction_date").defaultNow(),
   dueDate: timestamp("due_date"),
-  paymentMethod: paymentMethodEnum("payment_method").notNull(),
+  paymentMethod: paymentMethodEnum("payment_method").notNull(), // 'split' when paid with more than one tender
   currencyCode: currencyCodeEnum("currency_code").notNull().default('PKR'),
-  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(), // After line discounts
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).default('0'), // Sum of line discounts
   taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).default('0'),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
   paidAmount: decimal("paid_amount", { precision: 10, scale: 2 }).default('0'),
   outstandingAmount: decimal("outstanding_amount", { precision: 10, scale: 2 }).default('0'),
+  status: saleStatusEnum("status").notNull().default('completed'),
+  voidReason: text("void_reason"),
+  voidedAt: timestamp("voided_at"),
+  voidedBy: varchar("voided_by"),
+  verificationToken: text("verification_token").unique(), // Signed token behind the receipt QR code
+  verificationRevokedAt: timestamp("verification_revoked_at"), // Set on void; the public page then reports the receipt as cancelled
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  unique().on(table.stationId, table.invoiceNumber),
+]);
 
 // Sales transaction items table
 export const salesTransactionItems = pgTable("sales_transaction_items", {
@@ -126,13 +193,70 @@ export const salesTransactionItems = pgTable("sales_transaction_items", {
   quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(),
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
   totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
+  listPrice: decimal("list_price", { precision: 10, scale: 2 }), // Product price before any customer agreement
+  priceAgreementId: varchar("price_agreement_id"),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).default('0'), // Promotion plus manual discount, already deducted from totalPrice
+  promotionId: varchar("promotion_id"),
+  discountApprovedBy: varchar("discount_approved_by"), // Manager who authorised a manual discount over the threshold
+  pumpId: varchar("pump_id"),
+  stockOverrideBy: varchar("stock_override_by"), // Manager who allowed the sale to take the tank below zero
+  noTankLink: boolean("no_tank_link").default(false), // Fuel sold with no tank to draw from, so stock was not deducted
+  unitCost: decimal("unit_cost", { precision: 12, scale: 4 }), // Stock cost per unit under the station's costing method
+  costOfGoods: decimal("cost_of_goods", { precision: 12, scale: 2 }), // Null when the line did not draw from a tank
+  requestedAmount: decimal("requested_amount", { precision: 10, scale: 2 }), // Set when sold by amount rather than quantity
+  returnedQuantity: decimal("returned_quantity", { precision: 10, scale: 3 }).default('0'),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Sale tenders table - one line per method used to settle a sale
+export const saleTenders = pgTable("sale_tenders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: varchar("transaction_id").notNull(),
+  paymentMethod: paymentMethodEnum("payment_method").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Amount applied to the sale
+  tenderedAmount: decimal("tendered_amount", { precision: 10, scale: 2 }).notNull(), // Amount handed over
+  changeAmount: decimal("change_amount", { precision: 10, scale: 2 }).default('0'),
+  reference: text("reference"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Credit notes table - issued when a sale is voided or goods are returned
+export const creditNotes = pgTable("credit_notes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  creditNoteNumber: text("credit_note_number").notNull(),
+  stationId: varchar("station_id").notNull(),
+  transactionId: varchar("transaction_id").notNull(),
+  customerId: varchar("customer_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  type: creditNoteTypeEnum("type").notNull(),
+  reason: text("reason").notNull(),
+  currencyCode: currencyCodeEnum("currency_code").notNull().default('PKR'),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).default('0'),
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  creditNoteDate: timestamp("credit_note_date").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.stationId, table.creditNoteNumber),
+]);
+
+// Credit note items table
+export const creditNoteItems = pgTable("credit_note_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  creditNoteId: varchar("credit_note_id").notNull(),
+  transactionItemId: varchar("transaction_item_id").notNull(),
+  productId: varchar("product_id").notNull(),
+  tankId: varchar("tank_id"),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Purchase orders table
 export const purchaseOrders = pgTable("purchase_orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  orderNumber: text("order_number").notNull().unique(),
+  orderNumber: text("order_number").notNull(),
   stationId: varchar("station_id").notNull(),
   supplierId: varchar("supplier_id").notNull(),
   userId: varchar("user_id").notNull(),
@@ -140,13 +264,43 @@ export const purchaseOrders = pgTable("purchase_orders", {
   dueDate: timestamp("due_date"),
   expectedDeliveryDate: timestamp("expected_delivery_date"),
   actualDeliveryDate: timestamp("actual_delivery_date"),
-  status: text("status").default('pending'), // pending, delivered, cancelled
+  status: purchaseOrderStatusEnum("status").notNull().default('draft'),
   currencyCode: currencyCodeEnum("currency_code").notNull().default('PKR'),
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
   taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).default('0'),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
   paidAmount: decimal("paid_amount", { precision: 10, scale: 2 }).default('0'),
   notes: text("notes"),
+  approvedBy: varchar("approved_by"),
+  approvedAt: timestamp("approved_at"),
+  sentAt: timestamp("sent_at"),
+  cancelReason: text("cancel_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.stationId, table.orderNumber),
+]);
+
+// Every status change of a purchase order, oldest first
+export const purchaseOrderStatusHistory = pgTable("purchase_order_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  fromStatus: purchaseOrderStatusEnum("from_status"), // Null for the entry written when the order is created
+  toStatus: purchaseOrderStatusEnum("to_status").notNull(),
+  userId: varchar("user_id").notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Each attempt to email a purchase order to its supplier, including failures
+export const purchaseOrderDispatches = pgTable("purchase_order_dispatches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  recipient: text("recipient").notNull(),
+  transport: text("transport").notNull(), // smtp, file, console
+  status: dispatchStatusEnum("status").notNull(),
+  messageId: text("message_id"),
+  error: text("error"),
+  userId: varchar("user_id").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -160,6 +314,59 @@ export const purchaseOrderItems = pgTable("purchase_order_items", {
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
   totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
   receivedQuantity: decimal("received_quantity", { precision: 10, scale: 3 }).default('0'),
+  landedCost: decimal("landed_cost", { precision: 10, scale: 2 }).default('0'), // This line's share of the order's additional charges
+  landedUnitCost: decimal("landed_unit_cost", { precision: 12, scale: 4 }), // (line total + landed cost) / quantity, from the charges known when ordering
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Freight, carriage and other charges on a purchase order, spread over its lines to give the delivered cost
+export const purchaseOrderCharges = pgTable("purchase_order_charges", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  chargeType: landedCostTypeEnum("charge_type").notNull(),
+  description: text("description"),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  allocationMethod: costAllocationMethodEnum("allocation_method").notNull().default('quantity'),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Supplier invoices table - the supplier's bill, matched against the PO and goods received
+export const supplierInvoices = pgTable("supplier_invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stationId: varchar("station_id").notNull(),
+  supplierId: varchar("supplier_id").notNull(),
+  orderId: varchar("order_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  invoiceNumber: text("invoice_number").notNull(), // As printed by the supplier
+  invoiceDate: timestamp("invoice_date").notNull(),
+  dueDate: timestamp("due_date"),
+  status: supplierInvoiceStatusEnum("status").notNull(),
+  currencyCode: currencyCodeEnum("currency_code").notNull().default('PKR'),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).default('0'),
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
+  reviewedBy: varchar("reviewed_by"), // Manager who approved or rejected a blocked invoice
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNotes: text("review_notes"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.supplierId, table.invoiceNumber),
+]);
+
+// Supplier invoice items table - one line per PO line billed
+export const supplierInvoiceItems = pgTable("supplier_invoice_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: varchar("invoice_id").notNull(),
+  orderItemId: varchar("order_item_id").notNull(),
+  productId: varchar("product_id").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
+  orderedQuantity: decimal("ordered_quantity", { precision: 10, scale: 3 }).notNull(), // Snapshot at match time
+  receivedQuantity: decimal("received_quantity", { precision: 10, scale: 3 }).notNull(),
+  orderUnitPrice: decimal("order_unit_price", { precision: 10, scale: 2 }).notNull(),
+  matchExceptions: jsonb("match_exceptions").$type<string[]>().notNull().default([]),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -191,6 +398,7 @@ export const payments = pgTable("payments", {
   currencyCode: currencyCodeEnum("currency_code").notNull().default('PKR'),
   paymentDate: timestamp("payment_date").defaultNow(),
   paymentMethod: paymentMethodEnum("payment_method").notNull(),
+  receiptNumber: text("receipt_number"), // Assigned to receivable payments only
   referenceNumber: text("reference_number"),
   notes: text("notes"),
   type: text("type").notNull(), // receivable, payable
@@ -203,16 +411,224 @@ export const stockMovements = pgTable("stock_movements", {
   tankId: varchar("tank_id").notNull(),
   stationId: varchar("station_id").notNull(),
   userId: varchar("user_id").notNull(),
-  movementType: text("movement_type").notNull(), // in, out, adjustment
+  movementType: text("movement_type").notNull(), // in, out, return, adjustment
   quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(),
   previousStock: decimal("previous_stock", { precision: 10, scale: 3 }).notNull(),
   newStock: decimal("new_stock", { precision: 10, scale: 3 }).notNull(),
   referenceId: varchar("reference_id"), // Links to sales_transactions, purchase_orders, etc.
   referenceType: text("reference_type"), // sale, purchase, adjustment
   notes: text("notes"),
+  unitCost: decimal("unit_cost", { precision: 12, scale: 4 }), // Given for receipts; worked out from the tank's cost for issues
+  totalCost: decimal("total_cost", { precision: 12, scale: 2 }), // Value moved in or out of the tank
   movementDate: timestamp("movement_date").defaultNow(),
 });
 
+// Quantities received into a tank at one cost, consumed oldest first for FIFO costing
+export const stockCostLayers = pgTable("stock_cost_layers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tankId: varchar("tank_id").notNull(),
+  movementId: varchar("movement_id").notNull(),
+  unitCost: decimal("unit_cost", { precision: 12, scale: 4 }).notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(),
+  remainingQuantity: decimal("remaining_quantity", { precision: 10, scale: 3 }).notNull(),
+  receivedAt: timestamp("received_at").defaultNow(),
+});
+
+// Stock transfers - product moved from one tank to another. Transfers within a station complete at once;
+// between stations the product is in transit until the receiving station books it into its tank.
+export const stockTransfers = pgTable("stock_transfers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transferNumber: text("transfer_number").notNull(),
+  productId: varchar("product_id").notNull(),
+  sourceStationId: varchar("source_station_id").notNull(),
+  sourceTankId: varchar("source_tank_id").notNull(),
+  destinationStationId: varchar("destination_station_id").notNull(),
+  destinationTankId: varchar("destination_tank_id").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(), // Litres drawn from the source tank
+  receivedQuantity: decimal("received_quantity", { precision: 10, scale: 3 }), // Litres booked into the destination tank
+  totalCost: decimal("total_cost", { precision: 12, scale: 2 }).notNull().default('0'), // Value of the stock drawn, carried to the destination
+  status: stockTransferStatusEnum("status").notNull().default('in_transit'),
+  vehicleNumber: text("vehicle_number"),
+  notes: text("notes"),
+  dispatchedBy: varchar("dispatched_by").notNull(),
+  dispatchedAt: timestamp("dispatched_at").defaultNow(),
+  receivedBy: varchar("received_by"),
+  receivedAt: timestamp("received_at"),
+  cancelReason: text("cancel_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.sourceStationId, table.transferNumber),
+]);
+
+// Stock adjustments - a reasoned correction to a tank's book stock. Those within the station's limits post at once;
+// larger ones wait as pending, without touching the tank, until a manager approves them.
+export const stockAdjustments = pgTable("stock_adjustments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stationId: varchar("station_id").notNull(),
+  tankId: varchar("tank_id").notNull(),
+  reasonCode: stockAdjustmentReasonEnum("reason_code").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(), // Litres; negative for a loss
+  value: decimal("value", { precision: 12, scale: 2 }).notNull().default('0'), // Litres at the tank's average cost when requested
+  status: stockAdjustmentStatusEnum("status").notNull().default('pending'),
+  notes: text("notes"),
+  movementId: varchar("movement_id"), // Set once the adjustment has been posted to the tank
+  requestedBy: varchar("requested_by").notNull(),
+  reviewedBy: varchar("reviewed_by"), // Empty when the adjustment was within the limits and posted without review
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNotes: text("review_notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every change of a tank's status, with the stock at the time and what caused it
+export const tankStatusHistory = pgTable("tank_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tankId: varchar("tank_id").notNull(),
+  stationId: varchar("station_id").notNull(),
+  fromStatus: tankStatusEnum("from_status"), // Empty for a new tank
+  toStatus: tankStatusEnum("to_status").notNull(),
+  currentStock: decimal("current_stock", { precision: 10, scale: 2 }).notNull(),
+  reason: tankStatusChangeReasonEnum("reason").notNull(),
+  referenceId: varchar("reference_id"), // Stock movement or work order behind the change
+  userId: varchar("user_id"),
+  changedAt: timestamp("changed_at").defaultNow(),
+});
+
+// Tank maintenance work orders. While an out-of-service order is in progress the tank is marked 'maintenance'
+// and cannot be sold from or received into. Completing a recurring order schedules the next one.
+export const tankMaintenanceOrders = pgTable("tank_maintenance_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stationId: varchar("station_id").notNull(),
+  tankId: varchar("tank_id").notNull(),
+  maintenanceType: maintenanceTypeEnum("maintenance_type").notNull(),
+  status: maintenanceStatusEnum("status").notNull().default('scheduled'),
+  description: text("description"),
+  vendorName: text("vendor_name"),
+  scheduledDate: timestamp("scheduled_date").notNull(),
+  recurrenceMonths: integer("recurrence_months"), // Repeat this many months after completion; empty for a one-off
+  outOfService: boolean("out_of_service").notNull().default(true), // Whether the tank is taken out of service while the work is done
+  startedBy: varchar("started_by"),
+  startedAt: timestamp("started_at"),
+  completedBy: varchar("completed_by"),
+  completedAt: timestamp("completed_at"),
+  completionNotes: text("completion_notes"),
+  cost: decimal("cost", { precision: 12, scale: 2 }),
+  expenseId: varchar("expense_id"), // Expense the cost was posted to
+  nextOrderId: varchar("next_order_id"), // Follow-up order scheduled on completion
+  cancelReason: text("cancel_reason"),
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Automatic tank gauge (ATG) console at a station, polled for probe readings
+export const atgConsoles = pgTable("atg_consoles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stationId: varchar("station_id").notNull().unique(),
+  adapterType: atgAdapterTypeEnum("adapter_type").notNull().default('tls_tcp'),
+  host: text("host"), // Console, or the serial-to-Ethernet converter in front of it
+  port: integer("port"),
+  pollIntervalSeconds: integer("poll_interval_seconds").notNull().default(60),
+  deliveryThreshold: decimal("delivery_threshold", { precision: 10, scale: 2 }).notNull().default('500'), // Litres the level must rise between readings to count as a delivery
+  isActive: boolean("is_active").notNull().default(true),
+  lastPolledAt: timestamp("last_polled_at"),
+  lastError: text("last_error"), // Why the last poll failed; cleared by the next good one
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Probe readings - product and water in a tank as measured by the ATG, stamped with the console's clock
+export const atgReadings = pgTable("atg_readings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  consoleId: varchar("console_id").notNull(),
+  stationId: varchar("station_id").notNull(),
+  tankId: varchar("tank_id").notNull(),
+  productVolume: decimal("product_volume", { precision: 10, scale: 3 }).notNull(),
+  tcVolume: decimal("tc_volume", { precision: 10, scale: 3 }), // Product volume corrected to 15°C
+  ullage: decimal("ullage", { precision: 10, scale: 3 }),
+  productHeightMm: decimal("product_height_mm", { precision: 8, scale: 1 }),
+  waterHeightMm: decimal("water_height_mm", { precision: 8, scale: 1 }),
+  waterVolume: decimal("water_volume", { precision: 10, scale: 3 }),
+  temperature: decimal("temperature", { precision: 5, scale: 2 }),
+  deliveryInProgress: boolean("delivery_in_progress").notNull().default(false),
+  readingDate: timestamp("reading_date").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.tankId, table.readingDate),
+]);
+
+// Deliveries seen by the ATG, either reported by the console or found from a jump in the level
+export const atgDeliveries = pgTable("atg_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  consoleId: varchar("console_id").notNull(),
+  stationId: varchar("station_id").notNull(),
+  tankId: varchar("tank_id").notNull(),
+  source: atgDeliverySourceEnum("source").notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at").notNull(),
+  startVolume: decimal("start_volume", { precision: 10, scale: 3 }).notNull(),
+  endVolume: decimal("end_volume", { precision: 10, scale: 3 }).notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 3 }).notNull(), // Litres the level rose by; sales during the drop make this a little low
+  tcQuantity: decimal("tc_quantity", { precision: 10, scale: 3 }), // The same at 15°C, when the console reports it
+  startTemperature: decimal("start_temperature", { precision: 5, scale: 2 }),
+  endTemperature: decimal("end_temperature", { precision: 5, scale: 2 }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.tankId, table.source, table.startedAt),
+]);
+
+// Calibration (strapping) charts - a tank's litres at each dip height. The newest chart for a tank is the one in use.
+export const tankCalibrationCharts = pgTable("tank_calibration_charts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tankId: varchar("tank_id").notNull(),
+  reference: text("reference"), // Calibration certificate or chart number
+  points: jsonb("points").$type<CalibrationPoint[]>().notNull(),
+  userId: varchar("user_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Dip readings - physical stock measured with the dip rod and converted to litres through the tank's chart
+export const tankDipReadings = pgTable("tank_dip_readings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tankId: varchar("tank_id").notNull(),
+  stationId: varchar("station_id").notNull(),
+  calibrationChartId: varchar("calibration_chart_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  dipUnit: dipUnitEnum("dip_unit").notNull().default('mm'), // Unit the dip was read in; heights are stored in mm
+  dipMm: decimal("dip_mm", { precision: 8, scale: 1 }).notNull(),
+  waterMm: decimal("water_mm", { precision: 8, scale: 1 }).notNull().default('0'),
+  temperature: decimal("temperature", { precision: 5, scale: 2 }),
+  totalVolume: decimal("total_volume", { precision: 10, scale: 3 }).notNull(), // Litres at the dip, water included
+  waterVolume: decimal("water_volume", { precision: 10, scale: 3 }).notNull().default('0'),
+  productVolume: decimal("product_volume", { precision: 10, scale: 3 }).notNull(), // Physical stock: total less water
+  bookStock: decimal("book_stock", { precision: 10, scale: 3 }).notNull(), // Tank stock on the books when the dip was taken
+  varianceQuantity: decimal("variance_quantity", { precision: 10, scale: 3 }).notNull(), // Physical less book; negative is a loss
+  notes: text("notes"),
+  readingDate: timestamp("reading_date").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Tanker deliveries table - dip and temperature measurements taken when a fuel line is received
+export const tankerDeliveries = pgTable("tanker_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stationId: varchar("station_id").notNull(),
+  orderId: varchar("order_id").notNull(),
+  orderItemId: varchar("order_item_id").notNull(),
+  supplierId: varchar("supplier_id").notNull(),
+  productId: varchar("product_id").notNull(),
+  tankId: varchar("tank_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  invoicedQuantity: decimal("invoiced_quantity", { precision: 10, scale: 3 }).notNull(), // Litres on the supplier's delivery note
+  dipBefore: decimal("dip_before", { precision: 10, scale: 2 }).notNull(),
+  dipAfter: decimal("dip_after", { precision: 10, scale: 2 }).notNull(),
+  observedQuantity: decimal("observed_quantity", { precision: 10, scale: 3 }).notNull(), // Dip increase at fuel temperature
+  temperature: decimal("temperature", { precision: 5, scale: 2 }),
+  density: decimal("density", { precision: 5, scale: 3 }),
+  correctionFactor: decimal("correction_factor", { precision: 6, scale: 5 }).notNull().default('1'),
+  standardQuantity: decimal("standard_quantity", { precision: 10, scale: 3 }).notNull(), // Observed litres at 15°C
+  varianceQuantity: decimal("variance_quantity", { precision: 10, scale: 3 }).notNull(), // Negative when short delivered
+  deliveryDate: timestamp("delivery_date").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Price history table
 export const priceHistory = pgTable("price_history", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -232,6 +648,16 @@ export const settings = pgTable("settings", {
   stationId: varchar("station_id").notNull().unique(),
   taxEnabled: boolean("tax_enabled").default(false),
   taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).default('0'),
+  manualDiscountApprovalPercent: decimal("manual_discount_approval_percent", { precision: 5, scale: 2 }).default('5'), // Cashier discounts above this need a manager
+  invoiceQuantityTolerancePercent: decimal("invoice_quantity_tolerance_percent", { precision: 5, scale: 2 }).default('0.5'), // Supplier invoice may bill this much over received
+  invoicePriceTolerancePercent: decimal("invoice_price_tolerance_percent", { precision: 5, scale: 2 }).default('1'), // Supplier invoice price may exceed the PO price by this much
+  reorderTargetUllagePercent: decimal("reorder_target_ullage_percent", { precision: 5, scale: 2 }).default('5'), // Space left empty when a reorder fills a tank
+  reorderLeadTimeDays: integer("reorder_lead_time_days").default(2), // Days from ordering until a tanker usually arrives
+  costingMethod: costingMethodEnum("costing_method").notNull().default('weighted_average'), // How issues from a tank are costed
+  wetStockTolerancePercent: decimal("wet_stock_tolerance_percent", { precision: 5, scale: 2 }).default('0.5'), // Daily dip variance, as a share of meter sales, before a tank is flagged
+  adjustmentApprovalQuantity: decimal("adjustment_approval_quantity", { precision: 10, scale: 3 }).default('100'), // Stock adjustments of more litres than this need a manager's approval
+  adjustmentApprovalValue: decimal("adjustment_approval_value", { precision: 12, scale: 2 }).default('25000'), // As do adjustments worth more than this
+  purchaseApprovalLimit: decimal("purchase_approval_limit", { precision: 12, scale: 2 }).default('500000'), // Managers may approve purchase orders up to this total; above it an admin must
   currencyCode: currencyCodeEnum("currency_code").notNull().default('PKR'),
   companyName: text("company_name"),
   companyAddress: text("company_address"),
@@ -242,6 +668,36 @@ export const settings = pgTable("settings", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Held (parked) POS carts, kept per cashier until their sale posts, they are discarded or the shift ends
+export const heldCarts = pgTable("held_carts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stationId: varchar("station_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  label: text("label").notNull(),
+  customerId: varchar("customer_id"),
+  paymentMethod: paymentMethodEnum("payment_method"),
+  items: jsonb("items").$type<{ productId: string; tankId?: string | null; pumpId?: string | null; quantity: number; requestedAmount?: number; manualDiscount?: { type: 'percentage' | 'amount'; value: number } }[]>().notNull(),
+  resumedAt: timestamp("resumed_at"), // Set once the cart is back at the till; the row stays until its sale posts
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Document numbering series, one per station and document type
+export const documentSequences = pgTable("document_sequences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  stationId: varchar("station_id").notNull(),
+  documentType: documentTypeEnum("document_type").notNull(),
+  prefix: text("prefix").notNull(),
+  padding: integer("padding").notNull().default(6),
+  fiscalYearStartMonth: integer("fiscal_year_start_month").notNull().default(1), // 1 = January
+  fiscalYear: integer("fiscal_year"), // Fiscal year of lastNumber; numbering restarts when it changes
+  lastNumber: integer("last_number").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.stationId, table.documentType),
+]);
+
 // Pump management tables
 export const pumps = pgTable("pumps", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -249,6 +705,7 @@ export const pumps = pgTable("pumps", {
   name: text("name").notNull(),
   pumpNumber: text("pump_number").notNull(),
   productId: varchar("product_id").notNull(),
+  tankId: varchar("tank_id"), // Tank this pump draws from; sales through the pump deduct stock here
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -306,11 +763,14 @@ export const tanksRelations = relations(tanks, ({ one, many }) => ({
   salesTransactionItems: many(salesTransactionItems),
   purchaseOrderItems: many(purchaseOrderItems),
   stockMovements: many(stockMovements),
+  calibrationCharts: many(tankCalibrationCharts),
+  dipReadings: many(tankDipReadings),
 }));
 
 export const customersRelations = relations(customers, ({ many }) => ({
   salesTransactions: many(salesTransactions),
   payments: many(payments),
+  priceAgreements: many(customerPriceAgreements),
 }));
 
 export const suppliersRelations = relations(suppliers, ({ many }) => ({
@@ -323,6 +783,12 @@ export const salesTransactionsRelations = relations(salesTransactions, ({ one, m
   customer: one(customers, { fields: [salesTransactions.customerId], references: [customers.id] }),
   user: one(users, { fields: [salesTransactions.userId], references: [users.id] }),
   items: many(salesTransactionItems),
+  tenders: many(saleTenders),
+  creditNotes: many(creditNotes),
+}));
+
+export const saleTendersRelations = relations(saleTenders, ({ one }) => ({
+  transaction: one(salesTransactions, { fields: [saleTenders.transactionId], references: [salesTransactions.id] }),
 }));
 
 export const salesTransactionItemsRelations = relations(salesTransactionItems, ({ one }) => ({
@@ -331,11 +797,53 @@ export const salesTransactionItemsRelations = relations(salesTransactionItems, (
   tank: one(tanks, { fields: [salesTransactionItems.tankId], references: [tanks.id] }),
 }));
 
+export const customerPriceAgreementsRelations = relations(customerPriceAgreements, ({ one }) => ({
+  customer: one(customers, { fields: [customerPriceAgreements.customerId], references: [customers.id] }),
+  product: one(products, { fields: [customerPriceAgreements.productId], references: [products.id] }),
+}));
+
+export const promotionsRelations = relations(promotions, ({ one }) => ({
+  station: one(stations, { fields: [promotions.stationId], references: [stations.id] }),
+  product: one(products, { fields: [promotions.productId], references: [products.id] }),
+}));
+
+export const creditNotesRelations = relations(creditNotes, ({ one, many }) => ({
+  station: one(stations, { fields: [creditNotes.stationId], references: [stations.id] }),
+  transaction: one(salesTransactions, { fields: [creditNotes.transactionId], references: [salesTransactions.id] }),
+  customer: one(customers, { fields: [creditNotes.customerId], references: [customers.id] }),
+  user: one(users, { fields: [creditNotes.userId], references: [users.id] }),
+  items: many(creditNoteItems),
+}));
+
+export const creditNoteItemsRelations = relations(creditNoteItems, ({ one }) => ({
+  creditNote: one(creditNotes, { fields: [creditNoteItems.creditNoteId], references: [creditNotes.id] }),
+  transactionItem: one(salesTransactionItems, { fields: [creditNoteItems.transactionItemId], references: [salesTransactionItems.id] }),
+  product: one(products, { fields: [creditNoteItems.productId], references: [products.id] }),
+  tank: one(tanks, { fields: [creditNoteItems.tankId], references: [tanks.id] }),
+}));
+
 export const purchaseOrdersRelations = relations(purchaseOrders, ({ one, many }) => ({
   station: one(stations, { fields: [purchaseOrders.stationId], references: [stations.id] }),
   supplier: one(suppliers, { fields: [purchaseOrders.supplierId], references: [suppliers.id] }),
   user: one(users, { fields: [purchaseOrders.userId], references: [users.id] }),
   items: many(purchaseOrderItems),
+  statusHistory: many(purchaseOrderStatusHistory),
+  dispatches: many(purchaseOrderDispatches),
+  charges: many(purchaseOrderCharges),
+}));
+
+export const purchaseOrderChargesRelations = relations(purchaseOrderCharges, ({ one }) => ({
+  order: one(purchaseOrders, { fields: [purchaseOrderCharges.orderId], references: [purchaseOrders.id] }),
+}));
+
+export const purchaseOrderDispatchesRelations = relations(purchaseOrderDispatches, ({ one }) => ({
+  order: one(purchaseOrders, { fields: [purchaseOrderDispatches.orderId], references: [purchaseOrders.id] }),
+  user: one(users, { fields: [purchaseOrderDispatches.userId], references: [users.id] }),
+}));
+
+export const purchaseOrderStatusHistoryRelations = relations(purchaseOrderStatusHistory, ({ one }) => ({
+  order: one(purchaseOrders, { fields: [purchaseOrderStatusHistory.orderId], references: [purchaseOrders.id] }),
+  user: one(users, { fields: [purchaseOrderStatusHistory.userId], references: [users.id] }),
 }));
 
 export const purchaseOrderItemsRelations = relations(purchaseOrderItems, ({ one }) => ({
@@ -356,6 +864,84 @@ export const paymentsRelations = relations(payments, ({ one }) => ({
   supplier: one(suppliers, { fields: [payments.supplierId], references: [suppliers.id] }),
 }));
 
+export const tankerDeliveriesRelations = relations(tankerDeliveries, ({ one }) => ({
+  order: one(purchaseOrders, { fields: [tankerDeliveries.orderId], references: [purchaseOrders.id] }),
+  supplier: one(suppliers, { fields: [tankerDeliveries.supplierId], references: [suppliers.id] }),
+  tank: one(tanks, { fields: [tankerDeliveries.tankId], references: [tanks.id] }),
+}));
+
+export const supplierInvoicesRelations = relations(supplierInvoices, ({ one, many }) => ({
+  supplier: one(suppliers, { fields: [supplierInvoices.supplierId], references: [suppliers.id] }),
+  order: one(purchaseOrders, { fields: [supplierInvoices.orderId], references: [purchaseOrders.id] }),
+  items: many(supplierInvoiceItems),
+}));
+
+export const supplierInvoiceItemsRelations = relations(supplierInvoiceItems, ({ one }) => ({
+  invoice: one(supplierInvoices, { fields: [supplierInvoiceItems.invoiceId], references: [supplierInvoices.id] }),
+  orderItem: one(purchaseOrderItems, { fields: [supplierInvoiceItems.orderItemId], references: [purchaseOrderItems.id] }),
+}));
+
+export const stockCostLayersRelations = relations(stockCostLayers, ({ one }) => ({
+  tank: one(tanks, { fields: [stockCostLayers.tankId], references: [tanks.id] }),
+  movement: one(stockMovements, { fields: [stockCostLayers.movementId], references: [stockMovements.id] }),
+}));
+
+export const stockTransfersRelations = relations(stockTransfers, ({ one }) => ({
+  product: one(products, { fields: [stockTransfers.productId], references: [products.id] }),
+  sourceStation: one(stations, { fields: [stockTransfers.sourceStationId], references: [stations.id] }),
+  sourceTank: one(tanks, { fields: [stockTransfers.sourceTankId], references: [tanks.id] }),
+  destinationStation: one(stations, { fields: [stockTransfers.destinationStationId], references: [stations.id] }),
+  destinationTank: one(tanks, { fields: [stockTransfers.destinationTankId], references: [tanks.id] }),
+}));
+
+export const stockAdjustmentsRelations = relations(stockAdjustments, ({ one }) => ({
+  station: one(stations, { fields: [stockAdjustments.stationId], references: [stations.id] }),
+  tank: one(tanks, { fields: [stockAdjustments.tankId], references: [tanks.id] }),
+  movement: one(stockMovements, { fields: [stockAdjustments.movementId], references: [stockMovements.id] }),
+  requester: one(users, { fields: [stockAdjustments.requestedBy], references: [users.id] }),
+  reviewer: one(users, { fields: [stockAdjustments.reviewedBy], references: [users.id] }),
+}));
+
+export const tankStatusHistoryRelations = relations(tankStatusHistory, ({ one }) => ({
+  tank: one(tanks, { fields: [tankStatusHistory.tankId], references: [tanks.id] }),
+  user: one(users, { fields: [tankStatusHistory.userId], references: [users.id] }),
+}));
+
+export const tankMaintenanceOrdersRelations = relations(tankMaintenanceOrders, ({ one }) => ({
+  station: one(stations, { fields: [tankMaintenanceOrders.stationId], references: [stations.id] }),
+  tank: one(tanks, { fields: [tankMaintenanceOrders.tankId], references: [tanks.id] }),
+  expense: one(expenses, { fields: [tankMaintenanceOrders.expenseId], references: [expenses.id] }),
+}));
+
+export const atgConsolesRelations = relations(atgConsoles, ({ one, many }) => ({
+  station: one(stations, { fields: [atgConsoles.stationId], references: [stations.id] }),
+  readings: many(atgReadings),
+  deliveries: many(atgDeliveries),
+}));
+
+export const atgReadingsRelations = relations(atgReadings, ({ one }) => ({
+  console: one(atgConsoles, { fields: [atgReadings.consoleId], references: [atgConsoles.id] }),
+  tank: one(tanks, { fields: [atgReadings.tankId], references: [tanks.id] }),
+}));
+
+export const atgDeliveriesRelations = relations(atgDeliveries, ({ one }) => ({
+  console: one(atgConsoles, { fields: [atgDeliveries.consoleId], references: [atgConsoles.id] }),
+  tank: one(tanks, { fields: [atgDeliveries.tankId], references: [tanks.id] }),
+}));
+
+export const tankCalibrationChartsRelations = relations(tankCalibrationCharts, ({ one, many }) => ({
+  tank: one(tanks, { fields: [tankCalibrationCharts.tankId], references: [tanks.id] }),
+  user: one(users, { fields: [tankCalibrationCharts.userId], references: [users.id] }),
+  dipReadings: many(tankDipReadings),
+}));
+
+export const tankDipReadingsRelations = relations(tankDipReadings, ({ one }) => ({
+  tank: one(tanks, { fields: [tankDipReadings.tankId], references: [tanks.id] }),
+  station: one(stations, { fields: [tankDipReadings.stationId], references: [stations.id] }),
+  calibrationChart: one(tankCalibrationCharts, { fields: [tankDipReadings.calibrationChartId], references: [tankCalibrationCharts.id] }),
+  user: one(users, { fields: [tankDipReadings.userId], references: [users.id] }),
+}));
+
 export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
   tank: one(tanks, { fields: [stockMovements.tankId], references: [tanks.id] }),
   station: one(stations, { fields: [stockMovements.stationId], references: [stations.id] }),
@@ -372,9 +958,14 @@ export const settingsRelations = relations(settings, ({ one }) => ({
   station: one(stations, { fields: [settings.stationId], references: [stations.id] }),
 }));
 
+export const documentSequencesRelations = relations(documentSequences, ({ one }) => ({
+  station: one(stations, { fields: [documentSequences.stationId], references: [stations.id] }),
+}));
+
 export const pumpsRelations = relations(pumps, ({ one, many }) => ({
   station: one(stations, { fields: [pumps.stationId], references: [stations.id] }),
   product: one(products, { fields: [pumps.productId], references: [products.id] }),
+  tank: one(tanks, { fields: [pumps.tankId], references: [tanks.id] }),
   pumpReadings: many(pumpReadings),
 }));
 
@@ -408,11 +999,294 @@ export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true,
 export const insertStockMovementSchema = createInsertSchema(stockMovements);
 export const insertPriceHistorySchema = createInsertSchema(priceHistory).omit({ id: true, createdAt: true });
 export const insertSettingsSchema = createInsertSchema(settings).omit({ id: true, createdAt: true, updatedAt: true });
+// Void or partial return payload - omitting items voids the whole sale
+export const createCreditNoteSchema = z.object({
+  reason: z.string().trim().min(1, "Reason is required"),
+  items: z.array(z.object({
+    transactionItemId: z.string().min(1),
+    quantity: z.coerce.number().positive(),
+  })).min(1).optional(),
+});
+// Additional landed-cost line entered on an order or at goods receipt
+export const purchaseOrderChargeSchema = z.object({
+  chargeType: z.enum(landedCostTypeEnum.enumValues),
+  description: z.string().trim().optional(),
+  amount: z.coerce.number().positive(),
+  allocationMethod: z.enum(costAllocationMethodEnum.enumValues).default('quantity'),
+});
+// Goods receipt against a purchase order - each line may be partially received into a tank.
+// Dips taken before and after unloading record the tanker's actual delivery against the invoice.
+export const receivePurchaseOrderSchema = z.object({
+  deliveryDate: z.coerce.date().optional(),
+  notes: z.string().trim().optional(),
+  items: z.array(z.object({
+    orderItemId: z.string().min(1),
+    quantity: z.coerce.number().positive(),
+    tankId: z.string().min(1).optional(),
+    dipBefore: z.coerce.number().min(0).optional(),
+    dipAfter: z.coerce.number().min(0).optional(),
+    temperature: z.coerce.number().min(-40).max(80).optional(),
+    density: z.coerce.number().min(0.6, "Density must be in kg/L").max(1.1, "Density must be in kg/L").optional(), // Stored as decimal(5,3)
+  }).refine((item) => (item.dipBefore === undefined) === (item.dipAfter === undefined), {
+    message: "Both pre- and post-delivery dips are required",
+    path: ["dipAfter"],
+  }).refine((item) => item.dipBefore === undefined || item.dipAfter! > item.dipBefore, {
+    message: "Post-delivery dip must be above the pre-delivery dip",
+    path: ["dipAfter"],
+  })).min(1),
+  charges: z.array(purchaseOrderChargeSchema).optional(), // Charges only known on delivery, e.g. the carrier's bill
+});
+// Status changes a user may make by hand. Receiving goods moves an approved or sent order
+// to partially_received or closed on its own; a partly received order can only be short-closed.
+export const purchaseOrderTransitions: Record<PurchaseOrder['status'], PurchaseOrder['status'][]> = {
+  draft: ['submitted', 'cancelled'],
+  submitted: ['approved', 'draft', 'cancelled'],
+  approved: ['sent', 'cancelled'],
+  sent: ['cancelled'],
+  partially_received: ['closed'],
+  closed: [],
+  cancelled: [],
+};
+export const changePurchaseOrderStatusSchema = z.object({
+  status: z.enum(purchaseOrderStatusEnum.enumValues),
+  notes: z.string().trim().optional(),
+}).refine((change) => change.status !== 'cancelled' || !!change.notes, {
+  message: "A reason is required to cancel an order",
+  path: ["notes"],
+});
+// Email a purchase order to the supplier; the recipient defaults to the supplier's contact email
+export const dispatchPurchaseOrderSchema = z.object({
+  recipient: z.string().trim().email().optional(),
+  message: z.string().trim().optional(),
+});
+// Transfer from one tank to another holding the same product, at this or another station
+export const createStockTransferSchema = z.object({
+  sourceTankId: z.string().min(1),
+  destinationTankId: z.string().min(1),
+  quantity: z.coerce.number().positive(),
+  vehicleNumber: z.string().trim().optional(),
+  notes: z.string().trim().optional(),
+}).refine((transfer) => transfer.sourceTankId !== transfer.destinationTankId, {
+  message: "Source and destination tanks cannot be the same",
+  path: ["destinationTankId"],
+});
+// Booking an inter-station transfer into the destination tank; the received litres may be short of what left
+export const receiveStockTransferSchema = z.object({
+  receivedQuantity: z.coerce.number().positive(),
+  notes: z.string().trim().optional(),
+});
+export const cancelStockTransferSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+export const stockAdjustmentReasonLabels: Record<StockAdjustmentReason, string> = {
+  evaporation: 'Evaporation',
+  spillage: 'Spillage',
+  calibration: 'Calibration',
+  theft: 'Theft',
+  water_drain: 'Water drain',
+};
+// A correction to book stock: a signed quantity (negative for a loss) and the reason for it
+export const createStockAdjustmentSchema = z.object({
+  tankId: z.string().min(1),
+  reasonCode: z.enum(stockAdjustmentReasonEnum.enumValues),
+  quantity: z.coerce.number().refine((quantity) => Math.abs(quantity) >= 0.001, "Quantity cannot be zero"),
+  notes: z.string().trim().optional(),
+});
+export const reviewStockAdjustmentSchema = z.object({
+  decision: z.enum(['approved', 'rejected']),
+  notes: z.string().trim().optional(),
+}).refine((review) => review.decision === 'approved' || !!review.notes, {
+  message: "A reason is required to reject an adjustment",
+  path: ["notes"],
+});
+// Stock levels at which a tank turns low and critical
+export const updateTankThresholdsSchema = z.object({
+  minimumLevel: z.coerce.number().min(0),
+  criticalLevel: z.coerce.number().min(0).nullable().optional(),
+}).refine((levels) => levels.criticalLevel == null || levels.criticalLevel <= levels.minimumLevel, {
+  message: "The critical level cannot be above the minimum level",
+  path: ["criticalLevel"],
+});
+export const createMaintenanceOrderSchema = z.object({
+  tankId: z.string().min(1),
+  maintenanceType: z.enum(maintenanceTypeEnum.enumValues),
+  scheduledDate: z.coerce.date(),
+  recurrenceMonths: z.coerce.number().int().min(1).max(60).optional(),
+  description: z.string().trim().optional(),
+  vendorName: z.string().trim().optional(),
+  outOfService: z.boolean().default(true),
+});
+// Closing a work order; any cost is posted to expenses under maintenance
+export const completeMaintenanceOrderSchema = z.object({
+  completionNotes: z.string().trim().min(1, "Describe the work done"),
+  cost: z.coerce.number().min(0).default(0),
+  paymentMethod: z.enum(paymentMethodEnum.enumValues).default('cash'),
+  vendorName: z.string().trim().optional(),
+  receiptNumber: z.string().trim().optional(),
+});
+export const cancelMaintenanceOrderSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+// ATG console settings with the console tank number of each of the station's tanks
+export const saveAtgConsoleSchema = z.object({
+  adapterType: z.enum(atgAdapterTypeEnum.enumValues),
+  host: z.string().trim().optional(),
+  port: z.coerce.number().int().min(1).max(65535).optional(),
+  pollIntervalSeconds: z.coerce.number().int().min(60).max(3600).default(60),
+  deliveryThreshold: z.coerce.number().positive().default(500),
+  isActive: z.boolean().default(true),
+  tanks: z.array(z.object({
+    tankId: z.string().min(1),
+    atgTankNumber: z.coerce.number().int().min(1).max(99).nullable(),
+  })).default([]),
+}).refine((config) => config.adapterType !== 'tls_tcp' || (!!config.host && !!config.port), {
+  message: "A TLS console needs a host and port",
+  path: ["host"],
+}).refine((config) => {
+  const numbers = config.tanks.map((tank) => tank.atgTankNumber).filter((number) => number !== null);
+  return new Set(numbers).size === numbers.length;
+}, {
+  message: "Each console tank number can only be given to one tank",
+  path: ["tanks"],
+});
+
+// A tank's strapping chart; dips must rise from point to point and litres must not fall
+export const saveCalibrationChartSchema = z.object({
+  reference: z.string().trim().optional(),
+  points: z.array(z.object({
+    dipMm: z.coerce.number().min(0),
+    volume: z.coerce.number().min(0),
+  })).min(2, "A chart needs at least two points"),
+}).refine((chart) => chart.points.every((point, i) => i === 0 || (point.dipMm > chart.points[i - 1].dipMm && point.volume >= chart.points[i - 1].volume)), {
+  message: "Points must be in rising dip order with litres that do not decrease",
+  path: ["points"],
+});
+// A dip taken with the rod; litres are looked up from the tank's chart on the server
+export const recordDipReadingSchema = z.object({
+  tankId: z.string().min(1),
+  dipUnit: z.enum(dipUnitEnum.enumValues).default('mm'),
+  dip: z.coerce.number().min(0),
+  waterLevel: z.coerce.number().min(0).default(0), // Same unit as the dip
+  temperature: z.coerce.number().min(-30).max(80).optional(),
+  readingDate: z.coerce.date().optional(),
+  notes: z.string().trim().optional(),
+}).refine((reading) => reading.waterLevel <= reading.dip, {
+  message: "Water level cannot be above the dip",
+  path: ["waterLevel"],
+});
+// Supplier invoice captured against a PO; the match against ordered and received is done on the server
+export const captureSupplierInvoiceSchema = z.object({
+  orderId: z.string().min(1),
+  invoiceNumber: z.string().trim().min(1, "Invoice number is required"),
+  invoiceDate: z.coerce.date(),
+  dueDate: z.coerce.date().optional(),
+  taxAmount: z.coerce.number().min(0).default(0),
+  notes: z.string().trim().optional(),
+  items: z.array(z.object({
+    orderItemId: z.string().min(1),
+    quantity: z.coerce.number().positive(),
+    unitPrice: z.coerce.number().min(0),
+  })).min(1),
+});
+export const reviewSupplierInvoiceSchema = z.object({
+  decision: z.enum(['approved', 'rejected']),
+  notes: z.string().trim().min(1, "A reason is required"),
+});
+export const updateDocumentSequenceSchema = z.object({
+  prefix: z.string().trim().min(1).max(12),
+  padding: z.coerce.number().int().min(1).max(12),
+  fiscalYearStartMonth: z.coerce.number().int().min(1).max(12),
+}).partial();
 export const insertPumpSchema = createInsertSchema(pumps).omit({ id: true, createdAt: true });
 export const insertPumpReadingSchema = createInsertSchema(pumpReadings).omit({ id: true, createdAt: true }).extend({
   readingDate: z.coerce.date(),
 });
 
+export const insertCustomerPriceAgreementSchema = createInsertSchema(customerPriceAgreements).omit({ id: true, createdAt: true }).extend({
+  productId: z.string().nullish(),
+  value: z.coerce.number().nonnegative().transform(String),
+  validFrom: z.coerce.date().optional(),
+  validTo: z.coerce.date().nullish(),
+}).refine((agreement) => agreement.type !== 'percentage_discount' || parseFloat(agreement.value) <= 100, {
+  message: "Percentage discount cannot exceed 100",
+  path: ["value"],
+});
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM");
+export const insertPromotionSchema = createInsertSchema(promotions).omit({ id: true, createdAt: true }).extend({
+  stationId: z.string().nullish(),
+  name: z.string().trim().min(1, "Name is required"),
+  value: z.coerce.number().nonnegative().transform(String),
+  buyQuantity: z.coerce.number().int().positive().nullish(),
+  getQuantity: z.coerce.number().int().positive().nullish(),
+  productId: z.string().nullish(),
+  productCategory: z.string().nullish(),
+  startTime: timeOfDay.nullish(),
+  endTime: timeOfDay.nullish(),
+  validFrom: z.coerce.date().optional(),
+  validTo: z.coerce.date().nullish(),
+}).refine((promotion) => promotion.type !== 'percentage' || parseFloat(promotion.value) <= 100, {
+  message: "Percentage discount cannot exceed 100",
+  path: ["value"],
+}).refine((promotion) => promotion.type !== 'buy_x_get_y' || (promotion.buyQuantity && promotion.getQuantity), {
+  message: "Buy and get quantities are required",
+  path: ["buyQuantity"],
+}).refine((promotion) => !promotion.startTime === !promotion.endTime, {
+  message: "Set both start and end time, or neither",
+  path: ["endTime"],
+});
+
+// Sale posting payload - prices, tax and totals are derived on the server
+export const postSaleItemSchema = z.object({
+  productId: z.string().min(1),
+  tankId: z.string().nullish(),
+  pumpId: z.string().nullish(), // Resolves the tank through the pump's tank link
+  quantity: z.coerce.number().positive(),
+  // Sell-by-amount lines charge exactly this amount; quantity is the back-calculated litres
+  requestedAmount: z.coerce.number().positive().optional(),
+  // Cashier-entered discount on top of any promotion; large ones need manager approval
+  manualDiscount: z.object({
+    type: z.enum(['percentage', 'amount']),
+    value: z.coerce.number().positive(),
+  }).optional(),
+});
+export const tenderMethods = ['cash', 'card', 'credit', 'fleet', 'mobile_wallet'] as const;
+export const saleTenderSchema = z.object({
+  paymentMethod: z.enum(tenderMethods),
+  amount: z.coerce.number().positive(),
+  reference: z.string().optional(),
+});
+// Either a single paymentMethod settling the whole total, or explicit tender lines
+export const postSaleSchema = z.object({
+  customerId: z.string().min(1),
+  paymentMethod: z.enum(tenderMethods).optional(),
+  tenders: z.array(saleTenderSchema).min(1).optional(),
+  currencyCode: z.enum(currencyCodeEnum.enumValues).optional(),
+  dueDate: z.coerce.date().optional(),
+  notes: z.string().optional(),
+  items: z.array(postSaleItemSchema).min(1),
+  // Manager credentials entered at the till to approve large manual discounts or a stock override
+  managerApproval: z.object({
+    username: z.string().min(1),
+    password: z.string().min(1),
+  }).optional(),
+  // Let the sale take tanks below zero (e.g. a delivery not yet booked in); needs a manager
+  allowNegativeStock: z.boolean().optional(),
+  heldCartId: z.string().optional(), // The parked cart this sale was resumed from, removed as the sale posts
+}).refine((sale) => sale.paymentMethod || sale.tenders, {
+  message: "A payment method or tender lines are required",
+  path: ["tenders"],
+});
+
+// Parking a cart stores quantities only; prices are taken again when the sale is posted
+export const holdCartSchema = z.object({
+  label: z.string().trim().min(1, "Label is required").max(60),
+  customerId: z.string().optional(),
+  paymentMethod: z.enum(tenderMethods).optional(),
+  items: z.array(postSaleItemSchema).min(1),
+  replacesCartId: z.string().optional(), // Parking a resumed cart again replaces its earlier row
+});
+
 // Type exports
 export type User = typeof users.$inferSelect;
 export type Station = typeof stations.$inferSelect;
@@ -427,7 +1301,56 @@ export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
 export type Expense = typeof expenses.$inferSelect;
 export type Payment = typeof payments.$inferSelect;
 export type StockMovement = typeof stockMovements.$inferSelect;
+export type TankerDelivery = typeof tankerDeliveries.$inferSelect;
 export type PriceHistory = typeof priceHistory.$inferSelect;
 export type Pump = typeof pumps.$inferSelect;
 export type PumpReading = typeof pumpReadings.$inferSelect;
-export type Settings = typeof settings.$inferSelect;
\ No newline at end of file
+export type Settings = typeof settings.$inferSelect;
+export type CreditNote = typeof creditNotes.$inferSelect;
+export type CreditNoteItem = typeof creditNoteItems.$inferSelect;
+export type CreateCreditNote = z.infer<typeof createCreditNoteSchema>;
+export type ReceivePurchaseOrder = z.infer<typeof receivePurchaseOrderSchema>;
+export type ChangePurchaseOrderStatus = z.infer<typeof changePurchaseOrderStatusSchema>;
+export type PurchaseOrderStatusHistory = typeof purchaseOrderStatusHistory.$inferSelect;
+export type PurchaseOrderDispatch = typeof purchaseOrderDispatches.$inferSelect;
+export type DispatchPurchaseOrder = z.infer<typeof dispatchPurchaseOrderSchema>;
+export type PurchaseOrderCharge = typeof purchaseOrderCharges.$inferSelect;
+export type StockCostLayer = typeof stockCostLayers.$inferSelect;
+export type StockTransfer = typeof stockTransfers.$inferSelect;
+export type CreateStockTransfer = z.infer<typeof createStockTransferSchema>;
+export type ReceiveStockTransfer = z.infer<typeof receiveStockTransferSchema>;
+export type StockAdjustment = typeof stockAdjustments.$inferSelect;
+export type StockAdjustmentReason = typeof stockAdjustmentReasonEnum.enumValues[number];
+export type CreateStockAdjustment = z.infer<typeof createStockAdjustmentSchema>;
+export type ReviewStockAdjustment = z.infer<typeof reviewStockAdjustmentSchema>;
+export type TankStatusChange = typeof tankStatusHistory.$inferSelect;
+export type UpdateTankThresholds = z.infer<typeof updateTankThresholdsSchema>;
+export type TankMaintenanceOrder = typeof tankMaintenanceOrders.$inferSelect;
+export type CreateMaintenanceOrder = z.infer<typeof createMaintenanceOrderSchema>;
+export type CompleteMaintenanceOrder = z.infer<typeof completeMaintenanceOrderSchema>;
+export type AtgConsole = typeof atgConsoles.$inferSelect;
+export type AtgReading = typeof atgReadings.$inferSelect;
+export type AtgDelivery = typeof atgDeliveries.$inferSelect;
+export type SaveAtgConsole = z.infer<typeof saveAtgConsoleSchema>;
+export type TankCalibrationChart = typeof tankCalibrationCharts.$inferSelect;
+export type TankDipReading = typeof tankDipReadings.$inferSelect;
+export type SaveCalibrationChart = z.infer<typeof saveCalibrationChartSchema>;
+export type RecordDipReading = z.infer<typeof recordDipReadingSchema>;
+export type PurchaseOrderChargeInput = z.infer<typeof purchaseOrderChargeSchema>;
+export type SupplierInvoice = typeof supplierInvoices.$inferSelect;
+export type SupplierInvoiceItem = typeof supplierInvoiceItems.$inferSelect;
+export type CaptureSupplierInvoice = z.infer<typeof captureSupplierInvoiceSchema>;
+export type ReviewSupplierInvoice = z.infer<typeof reviewSupplierInvoiceSchema>;
+export type DocumentSequence = typeof documentSequences.$inferSelect;
+export type DocumentType = DocumentSequence['documentType'];
+export type UpdateDocumentSequence = z.infer<typeof updateDocumentSequenceSchema>;
+export type PostSaleItem = z.infer<typeof postSaleItemSchema>;
+export type PostSale = z.infer<typeof postSaleSchema>;
+export type SaleTender = typeof saleTenders.$inferSelect;
+export type HeldCart = typeof heldCarts.$inferSelect;
+export type CustomerPriceAgreement = typeof customerPriceAgreements.$inferSelect;
+export type InsertCustomerPriceAgreement = z.infer<typeof insertCustomerPriceAgreementSchema>;
+export type Promotion = typeof promotions.$inferSelect;
+export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
+export type HoldCart = z.infer<typeof holdCartSchema>;
+export type SaleTenderInput = z.infer<typeof saleTenderSchema>;
\ No newline at end of file
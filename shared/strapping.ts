@@ -0,0 +1,37 @@
+// Tank calibration (strapping) charts: the litres a tank holds at each dip height
+
+export interface CalibrationPoint {
+  dipMm: number;
+  volume: number; // Litres held when the dip reads dipMm
+}
+
+// Points in dip order, with a zero point added when the chart does not start at the tank floor
+export function sortCalibrationPoints(points: CalibrationPoint[]): CalibrationPoint[] {
+  const sorted = [...points].sort((a, b) => a.dipMm - b.dipMm);
+  if (sorted.length > 0 && sorted[0].dipMm > 0) sorted.unshift({ dipMm: 0, volume: 0 });
+  return sorted;
+}
+
+// Litres at the given dip, interpolated linearly between the two chart points either side of it.
+// Returns null for a dip above the top of the chart, which cannot be trusted.
+export function dipToVolume(points: CalibrationPoint[], dipMm: number): number | null {
+  const chart = sortCalibrationPoints(points);
+  if (chart.length === 0 || dipMm < 0) return null;
+  if (dipMm <= 0) return 0;
+
+  for (let i = 1; i < chart.length; i++) {
+    const lower = chart[i - 1];
+    const upper = chart[i];
+    if (dipMm <= upper.dipMm) {
+      const span = upper.dipMm - lower.dipMm;
+      const fraction = span > 0 ? (dipMm - lower.dipMm) / span : 1;
+      return Math.round((lower.volume + fraction * (upper.volume - lower.volume)) * 1000) / 1000;
+    }
+  }
+  return null;
+}
+
+// Dips may be entered in centimetres or millimetres; charts and readings are kept in millimetres
+export function toMillimetres(value: number, unit: 'mm' | 'cm'): number {
+  return unit === 'cm' ? Math.round(value * 100) / 10 : value;
+}
@@ -0,0 +1,14 @@
+// Tank status from stock level: low at or below the tank's minimum level, critical at or
+// below its critical level. Tanks without a critical level are critical at half the minimum.
+
+export type TankStockStatus = 'normal' | 'low' | 'critical';
+
+export function criticalLevelFor(minimumLevel: number, criticalLevel: number | null): number {
+  return criticalLevel ?? minimumLevel / 2;
+}
+
+export function tankStockStatus(currentStock: number, minimumLevel: number, criticalLevel: number | null): TankStockStatus {
+  if (currentStock <= criticalLevelFor(minimumLevel, criticalLevel)) return 'critical';
+  if (currentStock <= minimumLevel) return 'low';
+  return 'normal';
+}
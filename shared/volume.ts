@@ -0,0 +1,28 @@
+// Petroleum volume correction to the 15°C reference temperature (ASTM D1250 table 54B)
+
+export const REFERENCE_TEMPERATURE = 15;
+
+// Thermal expansion constants for refined products, picked by density band in kg/m³
+function expansionCoefficient(density: number): number {
+  if (density < 770) return 346.4228 / (density * density) + 0.4388 / density; // Gasolines
+  if (density < 787.5) return -0.00336312 + 2680.3206 / (density * density); // Transition zone
+  if (density < 839) return 594.5418 / (density * density); // Jet fuels and kerosene
+  return 186.9696 / (density * density) + 0.4862 / density; // Diesel and fuel oils
+}
+
+// Product densities are stored in kg/L; the tables work in kg/m³
+export function densityKgPerCubicMetre(density: number): number {
+  return density < 10 ? density * 1000 : density;
+}
+
+// Factor that converts a volume observed at the given temperature to its volume at 15°C
+export function volumeCorrectionFactor(density: number, temperature: number): number {
+  const alpha = expansionCoefficient(densityKgPerCubicMetre(density));
+  const delta = temperature - REFERENCE_TEMPERATURE;
+  return Math.round(Math.exp(-alpha * delta * (1 + 0.8 * alpha * delta)) * 100000) / 100000;
+}
+
+// Observed litres corrected to 15°C, rounded to 3 decimals
+export function standardVolume(observed: number, density: number, temperature: number): number {
+  return Math.round(observed * volumeCorrectionFactor(density, temperature) * 1000) / 1000;
+}